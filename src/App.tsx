@@ -1,7 +1,10 @@
 
 import React, { useState, Suspense, lazy } from 'react';
-import type { CANMessage } from './types';
+import type { CanMatrix, LogFileInfo, SignalStore } from './types';
 import { HomePage } from './components/HomePage';
+import { saveSession } from './services/sessionStore';
+import type { LoadedSession, SessionUiState } from './services/sessionStore';
+import type { EncodedFrames } from './services/frameCodec';
 
 const DashboardPage = lazy(() => import('./components/DashboardPage').then(module => ({ default: module.DashboardPage })));
 
@@ -15,10 +18,23 @@ const LoadingDashboard: React.FC = () => (
 );
 
 const App: React.FC = () => {
-    const [processedData, setProcessedData] = useState<{ messages: CANMessage[], files: File[] } | null>(null);
+    const [processedData, setProcessedData] = useState<{ frames: EncodedFrames, signals: SignalStore, matrix: CanMatrix, fileInfos: LogFileInfo[], sessionId: string | null, ui: SessionUiState } | null>(null);
+    const [sessionError, setSessionError] = useState<string | null>(null);
 
-    const handleDataProcessed = (messages: CANMessage[], files: File[]) => {
-        setProcessedData({ messages, files });
+    const handleDataProcessed = (frames: EncodedFrames, signals: SignalStore, files: File[], matrix: CanMatrix, fileInfos: LogFileInfo[]) => {
+        setProcessedData({ frames, signals, matrix, fileInfos, sessionId: null, ui: {} });
+        setSessionError(null);
+
+        // The log is stored in the background; the dashboard opens right away.
+        saveSession(files.map(file => file.name).join(', '), { frames, signals, matrix, fileInfos })
+            .then(summary => setProcessedData(prev => prev?.frames === frames ? { ...prev, sessionId: summary.id } : prev))
+            .catch(err => setSessionError(`The session could not be saved locally. ${err instanceof Error ? err.message : ''}`));
+    };
+
+    const handleSessionOpen = (session: LoadedSession) => {
+        const { frames, signals, matrix, fileInfos, ui } = session;
+        setProcessedData({ frames, signals, matrix, fileInfos, sessionId: session.summary.id, ui });
+        setSessionError(null);
     };
 
     const handleGoBack = () => {
@@ -33,13 +49,18 @@ const App: React.FC = () => {
                 {processedData ? (
                     <Suspense fallback={<LoadingDashboard />}>
                         <DashboardPage 
-                            initialMessages={processedData.messages} 
-                            initialFiles={processedData.files} 
+                            initialFrames={processedData.frames} 
+                            signals={processedData.signals}
+                            matrix={processedData.matrix}
+                            fileInfos={processedData.fileInfos}
+                            sessionId={processedData.sessionId}
+                            sessionError={sessionError}
+                            initialUi={processedData.ui}
                             onGoBack={handleGoBack} 
                         />
                     </Suspense>
                 ) : (
-                    <HomePage onDataProcessed={handleDataProcessed} />
+                    <HomePage onDataProcessed={handleDataProcessed} onSessionOpen={handleSessionOpen} />
                 )}
             </div>
         </div>
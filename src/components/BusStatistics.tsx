@@ -0,0 +1,293 @@
+import React, { useState, useMemo } from 'react';
+import { Line } from 'react-chartjs-2';
+import { Chart as ChartJS, LinearScale, PointElement, LineElement, Tooltip, Filler, ChartOptions } from 'chart.js';
+import type { CanMatrix } from '../types';
+import { computeBusLoad, computeIdStatistics } from '../services/busStatistics';
+import { filterFrames, getFrameBus, getFrameChannel, isErrorFrame } from '../services/frameCodec';
+import type { EncodedFrames } from '../services/frameCodec';
+import type { IdStatistics } from '../services/busStatistics';
+import { LineChartIcon } from './IconComponents';
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Filler);
+
+interface BusStatisticsProps {
+    frames: EncodedFrames;
+    matrix: CanMatrix;
+    onShowInChart: (timestamp: number) => void;
+    // File names by source index, to name the buses of files merged as separate sources.
+    sourceNames?: string[];
+}
+
+const BITRATES = [125000, 250000, 500000, 1000000];
+const DATA_BITRATES = [1000000, 2000000, 4000000, 5000000, 8000000];
+// Load bins aim at this many points over the whole log.
+const LOAD_POINTS = 500;
+
+const formatBitrate = (bitrate: number) => bitrate >= 1000000 ? `${bitrate / 1000000} Mbit/s` : `${bitrate / 1000} kbit/s`;
+const formatMs = (seconds?: number) => seconds === undefined ? '–' : (seconds * 1000).toFixed(2);
+
+const formatBus = (source: number | undefined, channel: number | undefined, sourceNames: string[]) =>
+    [source !== undefined ? sourceNames[source] ?? `File ${source + 1}` : undefined, channel].filter(part => part !== undefined).join(' · ');
+
+type SortKey = 'id' | 'count' | 'meanPeriod' | 'jitter' | 'dlcMismatches' | 'silentPeriods';
+
+const getSortValue = (row: IdStatistics, key: SortKey): number => {
+    switch (key) {
+        case 'id': return parseInt(row.id, 16);
+        case 'silentPeriods': return row.silentPeriods.length;
+        default: return row[key] ?? -1;
+    }
+};
+
+export const BusStatistics: React.FC<BusStatisticsProps> = ({ frames, matrix, onShowInChart, sourceNames = [] }) => {
+    const [bitrate, setBitrate] = useState(500000);
+    const [customBitrate, setCustomBitrate] = useState('');
+    const [dataBitrate, setDataBitrate] = useState(2000000);
+    const [silenceFactor, setSilenceFactor] = useState(3);
+    const [bus, setBus] = useState<number | undefined>(undefined);
+    const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'id', descending: false });
+
+    const buses = useMemo(() => {
+        const found = new Map<number, { source?: number; channel?: number }>();
+        for (let i = 0; i < frames.count; i++) {
+            const channel = getFrameChannel(frames, i);
+            const frameBus = getFrameBus(frames, i);
+            if ((channel !== undefined || frames.separateSources) && !found.has(frameBus)) {
+                found.set(frameBus, { source: frames.separateSources ? frames.sources[i] : undefined, channel });
+            }
+        }
+        return Array.from(found).sort(([a], [b]) => a - b);
+    }, [frames]);
+
+    const channelFrames = useMemo(
+        () => bus === undefined ? frames : filterFrames(frames, i => getFrameBus(frames, i) === bus),
+        [frames, bus]
+    );
+
+    const effectiveBitrate = customBitrate.trim() ? Number(customBitrate) * 1000 : bitrate;
+    const isBitrateInvalid = !(effectiveBitrate > 0);
+
+    const busLoad = useMemo(() => {
+        if (channelFrames.count === 0 || isBitrateInvalid) return null;
+        const duration = channelFrames.timestamps[channelFrames.count - 1] - channelFrames.timestamps[0];
+        const binWidth = Math.max(0.001, duration / LOAD_POINTS);
+        return { ...computeBusLoad(channelFrames, { bitrate: effectiveBitrate, dataBitrate, binWidth }), binWidth };
+    }, [channelFrames, effectiveBitrate, dataBitrate, isBitrateInvalid]);
+
+    const statistics = useMemo(() => computeIdStatistics(channelFrames, matrix, { silenceFactor }), [channelFrames, matrix, silenceFactor]);
+
+    const errorFrameCount = useMemo(() => {
+        let count = 0;
+        for (let i = 0; i < channelFrames.count; i++) {
+            if (isErrorFrame(channelFrames, i)) count++;
+        }
+        return count;
+    }, [channelFrames]);
+
+    const sortedStatistics = useMemo(() => {
+        const rows = [...statistics];
+        rows.sort((a, b) => (getSortValue(a, sort.key) - getSortValue(b, sort.key)) * (sort.descending ? -1 : 1));
+        return rows;
+    }, [statistics, sort]);
+
+    const silentPeriods = useMemo(() =>
+        statistics
+            .flatMap(row => row.silentPeriods.map(period => ({ row, ...period })))
+            .sort((a, b) => a.start - b.start),
+        [statistics]
+    );
+
+    const chartData = useMemo(() => ({
+        datasets: [{
+            label: 'Bus load (%)',
+            data: busLoad ? busLoad.times.map((x, i) => ({ x, y: busLoad.loads[i] })) : [],
+            borderColor: '#2563eb',
+            backgroundColor: 'rgba(37, 99, 235, 0.15)',
+            fill: true,
+            pointRadius: 0,
+            borderWidth: 1.5,
+            stepped: 'before' as const,
+        }],
+    }), [busLoad]);
+
+    const chartOptions = useMemo<ChartOptions<'line'>>(() => ({
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,
+        parsing: false,
+        plugins: {
+            legend: { display: false },
+            tooltip: {
+                mode: 'index',
+                intersect: false,
+                callbacks: {
+                    title: items => items.length ? `${Number(items[0].parsed.x).toFixed(3)} s` : '',
+                    label: item => `Load: ${Number(item.parsed.y).toFixed(1)} %`,
+                },
+            },
+        },
+        scales: {
+            x: { type: 'linear', title: { display: true, text: 'Time (s)' } },
+            y: { type: 'linear', min: 0, suggestedMax: 100, title: { display: true, text: 'Load (%)' } },
+        },
+        onClick: (_event, _elements, chart) => {
+            const active = chart.getActiveElements();
+            if (active.length && busLoad) onShowInChart(busLoad.times[active[0].index]);
+        },
+    }), [busLoad, onShowInChart]);
+
+    const toggleSort = (key: SortKey) => {
+        setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key !== 'id' }));
+    };
+
+    const renderSortHeader = (sortKey: SortKey, label: string, className = 'text-right') => (
+        <th key={sortKey} onClick={() => toggleSort(sortKey)} className={`px-2 py-1 cursor-pointer select-none hover:text-blue-600 ${className}`}>
+            {label}{sort.key === sortKey ? (sort.descending ? ' ▼' : ' ▲') : ''}
+        </th>
+    );
+
+    const selectClass = 'mt-1 px-2 py-1 text-xs border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <div className="flex flex-col gap-3 h-[80vh] overflow-auto custom-scrollbar bg-gray-100 text-gray-800 rounded-lg border border-gray-300 text-sm p-3">
+            <div className="flex flex-wrap items-end gap-3 p-2 bg-white rounded-md border border-gray-300">
+                <label className="flex flex-col text-xs text-gray-600">
+                    Bit rate
+                    <select value={bitrate} onChange={e => { setBitrate(Number(e.target.value)); setCustomBitrate(''); }} className={selectClass}>
+                        {BITRATES.map(rate => <option key={rate} value={rate}>{formatBitrate(rate)}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    Custom (kbit/s)
+                    <input
+                        type="text"
+                        value={customBitrate}
+                        placeholder="e.g. 666.6"
+                        onChange={e => setCustomBitrate(e.target.value)}
+                        className={`mt-1 w-24 px-2 py-1 font-mono text-xs border rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 ${customBitrate.trim() && isBitrateInvalid ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+                    />
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    FD data bit rate
+                    <select value={dataBitrate} onChange={e => setDataBitrate(Number(e.target.value))} className={selectClass}>
+                        {DATA_BITRATES.map(rate => <option key={rate} value={rate}>{formatBitrate(rate)}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    Silent after (× cycle)
+                    <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={silenceFactor}
+                        onChange={e => setSilenceFactor(Math.max(1, Number(e.target.value) || 1))}
+                        className="mt-1 w-20 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                </label>
+                {buses.length > 1 && (
+                    <label className="flex flex-col text-xs text-gray-600">
+                        Channel
+                        <select value={bus ?? ''} onChange={e => setBus(e.target.value === '' ? undefined : Number(e.target.value))} className={selectClass}>
+                            <option value="">All</option>
+                            {buses.map(([value, { source, channel }]) => <option key={value} value={value}>{formatBus(source, channel, sourceNames)}</option>)}
+                        </select>
+                    </label>
+                )}
+                <div className="ml-auto flex gap-4 text-xs text-gray-600">
+                    <span>Average load: <b className="text-gray-800">{busLoad ? `${busLoad.average.toFixed(1)} %` : '–'}</b></span>
+                    <span>Peak: <b className="text-gray-800">{busLoad ? `${busLoad.peak.toFixed(1)} %` : '–'}</b>{busLoad && <span className="text-gray-400"> ({formatMs(busLoad.binWidth)} ms bins)</span>}</span>
+                    <span>Frames: <b className="text-gray-800">{channelFrames.count.toLocaleString()}</b></span>
+                    <span>Error frames: <b className={errorFrameCount ? 'text-red-600' : 'text-gray-800'}>{errorFrameCount.toLocaleString()}</b></span>
+                </div>
+            </div>
+
+            <div className="h-56 shrink-0 p-2 bg-white rounded-md border border-gray-300">
+                <Line data={chartData} options={chartOptions} />
+            </div>
+
+            <div className="p-2 bg-white rounded-md border border-gray-300">
+                <h3 className="mb-2 font-bold text-gray-700">Silent periods ({silentPeriods.length})</h3>
+                {silentPeriods.length === 0 ? (
+                    <p className="text-xs text-gray-500">No ID stayed silent for more than {silenceFactor} cycle times.</p>
+                ) : (
+                    <div className="max-h-48 overflow-auto custom-scrollbar">
+                        <table className="w-full text-xs">
+                            <thead className="sticky top-0 bg-gray-200 text-gray-600">
+                                <tr>
+                                    <th className="px-2 py-1 text-left">ID</th>
+                                    <th className="px-2 py-1 text-left">Name</th>
+                                    <th className="px-2 py-1 text-right">From (s)</th>
+                                    <th className="px-2 py-1 text-right">To (s)</th>
+                                    <th className="px-2 py-1 text-right">Gap (ms)</th>
+                                    <th className="px-2 py-1 text-right">Cycle (ms)</th>
+                                    <th className="px-2 py-1"></th>
+                                </tr>
+                            </thead>
+                            <tbody className="font-mono">
+                                {silentPeriods.map(({ row, start, end }, i) => (
+                                    <tr key={`${row.key}-${i}`} className="odd:bg-gray-50 hover:bg-blue-50">
+                                        <td className="px-2 py-0.5">{row.channel !== undefined || row.source !== undefined ? `${formatBus(row.source, row.channel, sourceNames)}: ` : ''}{row.id}{row.isExtended ? 'x' : ''}</td>
+                                        <td className="px-2 py-0.5 font-sans text-gray-600">{row.name ?? ''}</td>
+                                        <td className="px-2 py-0.5 text-right">{start.toFixed(6)}</td>
+                                        <td className="px-2 py-0.5 text-right">{end !== undefined ? end.toFixed(6) : 'end of log'}</td>
+                                        <td className="px-2 py-0.5 text-right">{end !== undefined ? formatMs(end - start) : ''}</td>
+                                        <td className="px-2 py-0.5 text-right" title={row.expectedCycleSource === 'DBC' ? 'GenMsgCycleTime' : 'Median period'}>
+                                            {formatMs(row.expectedCycle)}{row.expectedCycleSource === 'DBC' ? ' (DBC)' : ''}
+                                        </td>
+                                        <td className="px-2 py-0.5 text-right">
+                                            <button onClick={() => onShowInChart(start)} className="p-0.5 rounded text-gray-400 hover:text-blue-600 hover:bg-gray-200" title="Show in chart">
+                                                <LineChartIcon className="w-3.5 h-3.5" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className="p-2 bg-white rounded-md border border-gray-300">
+                <h3 className="mb-2 font-bold text-gray-700">IDs ({statistics.length})</h3>
+                <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-200 text-gray-600">
+                        <tr>
+                            {renderSortHeader('id', 'ID', 'text-left')}
+                            <th className="px-2 py-1 text-left">Name</th>
+                            {renderSortHeader('count', 'Count')}
+                            <th className="px-2 py-1 text-right">First (s)</th>
+                            <th className="px-2 py-1 text-right">Last (s)</th>
+                            {renderSortHeader('meanPeriod', 'Mean (ms)')}
+                            <th className="px-2 py-1 text-right">Min (ms)</th>
+                            <th className="px-2 py-1 text-right">Max (ms)</th>
+                            {renderSortHeader('jitter', 'Jitter (ms)')}
+                            <th className="px-2 py-1 text-right">DBC cycle (ms)</th>
+                            {renderSortHeader('dlcMismatches', 'DLC mismatches')}
+                            {renderSortHeader('silentPeriods', 'Silent')}
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        {sortedStatistics.map(row => (
+                            <tr key={row.key} className="odd:bg-gray-50 hover:bg-blue-50">
+                                <td className="px-2 py-0.5">{row.channel !== undefined || row.source !== undefined ? `${formatBus(row.source, row.channel, sourceNames)}: ` : ''}{row.id}{row.isExtended ? 'x' : ''}</td>
+                                <td className="px-2 py-0.5 font-sans text-gray-600">{row.name ?? ''}</td>
+                                <td className="px-2 py-0.5 text-right">{row.count.toLocaleString()}</td>
+                                <td className="px-2 py-0.5 text-right">{row.firstSeen.toFixed(3)}</td>
+                                <td className="px-2 py-0.5 text-right">{row.lastSeen.toFixed(3)}</td>
+                                <td className="px-2 py-0.5 text-right">{formatMs(row.meanPeriod)}</td>
+                                <td className="px-2 py-0.5 text-right">{formatMs(row.minPeriod)}</td>
+                                <td className="px-2 py-0.5 text-right">{formatMs(row.maxPeriod)}</td>
+                                <td className="px-2 py-0.5 text-right">{formatMs(row.jitter)}</td>
+                                <td className="px-2 py-0.5 text-right">{row.expectedCycleSource === 'DBC' ? formatMs(row.expectedCycle) : ''}</td>
+                                <td className={`px-2 py-0.5 text-right ${row.dlcMismatches ? 'text-red-600 font-bold' : ''}`} title={row.expectedLength !== undefined ? `DBC length: ${row.expectedLength} bytes` : 'Not in the DBC'}>
+                                    {row.expectedLength !== undefined ? row.dlcMismatches.toLocaleString() : '–'}
+                                </td>
+                                <td className={`px-2 py-0.5 text-right ${row.silentPeriods.length ? 'text-orange-600 font-bold' : ''}`}>{row.silentPeriods.length}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import type { ChatMessage } from '../types';
+import { splitChatReferences } from '../services/chatReferences';
+import type { ChatReference } from '../services/chatReferences';
 import { SendIcon } from './IconComponents';
 import { Spinner } from './Spinner';
 
@@ -8,9 +10,20 @@ interface ChatInterfaceProps {
     messages: ChatMessage[];
     onSendMessage: (message: string) => void;
     isLoading: boolean;
+    // Turns times, time ranges and signal names in replies into links to the chart.
+    isSignalName?: (name: string) => boolean;
+    onReferenceClick?: (reference: ChatReference) => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isLoading }) => {
+const getReferenceTitle = (reference: ChatReference): string => {
+    switch (reference.type) {
+        case 'time': return `Show ${reference.time} s on the chart`;
+        case 'range': return `Select ${reference.start} s to ${reference.end} s on the chart`;
+        case 'signal': return `Add ${reference.signalKey} to the chart`;
+    }
+};
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isLoading, isSignalName = () => false, onReferenceClick }) => {
     const [input, setInput] = useState('');
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -20,6 +33,20 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMe
 
     useEffect(scrollToBottom, [messages]);
 
+    const renderContent = (message: ChatMessage) => {
+        if (message.role !== 'model' || !onReferenceClick) return message.content;
+        return splitChatReferences(message.content, isSignalName).map((segment, index) => segment.reference ? (
+            <button
+                key={index}
+                onClick={() => onReferenceClick(segment.reference!)}
+                title={getReferenceTitle(segment.reference)}
+                className="text-purple-300 underline decoration-dotted underline-offset-2 hover:text-purple-200"
+            >
+                {segment.text}
+            </button>
+        ) : segment.text);
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (input.trim() && !isLoading) {
@@ -34,7 +61,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMe
                 {messages.map((msg, index) => (
                     <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                         <div className={`max-w-xl p-3 rounded-lg ${msg.role === 'user' ? 'bg-blue-600/80' : 'bg-gray-700/60'}`}>
-                            <pre className="whitespace-pre-wrap text-gray-200 font-sans text-sm leading-relaxed">{msg.content}</pre>
+                            <pre className="whitespace-pre-wrap text-gray-200 font-sans text-sm leading-relaxed">{renderContent(msg)}</pre>
                         </div>
                     </div>
                 ))}
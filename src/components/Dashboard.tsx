@@ -20,9 +20,12 @@ import {
   Filler
 } from 'chart.js';
 import zoomPlugin from 'chartjs-plugin-zoom';
-import type { CANMessage } from '../types';
+import type { CanMatrix, ChartAnnotation, DashboardAction, DashboardLayout, SignalStore } from '../types';
 import { ChevronDownIcon, MaximizeIcon, ChevronLeftIcon, ChevronRightIcon, PencilIcon, DownloadIcon, CameraIcon, InfoIcon } from './IconComponents';
-import { defaultMatrix } from '../services/defaultMatrix';
+import { getSignalUnit, getValueDescription } from '../services/matrixParser';
+import { getSamplesInRange, getSignalNames, getTimeBounds } from '../services/signalStore';
+import { decimateSeries } from '../services/downsampling';
+import type { ChartPoint } from '../services/downsampling';
 
 ChartJS.register(
   CategoryScale,
@@ -37,7 +40,20 @@ ChartJS.register(
 );
 
 interface DashboardProps {
-    messages: CANMessage[];
+    signals: SignalStore;
+    matrix: CanMatrix;
+    // Time marked on the chart, e.g. of the frame selected in the trace.
+    cursorTime?: number | null;
+    // Time window to show, e.g. of a fault occurrence, with signals to add to the chart.
+    viewRequest?: { start: number; end: number; signalKeys?: string[] } | null;
+    // Changes requested e.g. by the analysis chat; each action is applied once, when it first appears.
+    actionRequests?: DashboardAction[];
+    onActionsApplied?: (actions: DashboardAction[]) => void;
+    // Called with the visible time window whenever the chart is zoomed or panned.
+    onVisibleRangeChange?: (range: { start: number; end: number }) => void;
+    // Layout to restore when the chart opens, e.g. from a saved session, and a callback for its changes.
+    initialLayout?: DashboardLayout | null;
+    onLayoutChange?: (layout: DashboardLayout) => void;
 }
 
 const COLORS = [
@@ -45,19 +61,27 @@ const COLORS = [
     '#16a34a', '#2563eb', '#7c3aed', '#db2777', '#f97316', '#facc15'
 ];
 
-const calculateStats = (data: number[]) => {
-    if (data.length === 0) return { min: NaN, max: NaN, avg: NaN, rms: NaN, std: NaN, delta: NaN };
-
-    const cleanData = data.filter(v => v !== null && !isNaN(v));
-    if (cleanData.length === 0) return { min: NaN, max: NaN, avg: NaN, rms: NaN, std: NaN, delta: NaN };
+const calculateStats = (data: ArrayLike<number>) => {
+    let count = 0;
+    let sum = 0;
+    let sumOfSquares = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < data.length; i++) {
+        const value = data[i];
+        if (isNaN(value)) continue;
+        count++;
+        sum += value;
+        sumOfSquares += value * value;
+        if (value < min) min = value;
+        if (value > max) max = value;
+    }
+    if (count === 0) return { min: NaN, max: NaN, avg: NaN, rms: NaN, std: NaN, delta: NaN };
 
-    const sum = cleanData.reduce((acc, val) => acc + val, 0);
-    const avg = sum / cleanData.length;
-    const min = Math.min(...cleanData);
-    const max = Math.max(...cleanData);
+    const avg = sum / count;
     const delta = max - min;
-    const rms = Math.sqrt(cleanData.reduce((acc, val) => acc + val * val, 0) / cleanData.length);
-    const std = Math.sqrt(cleanData.reduce((acc, val) => acc + Math.pow(val - avg, 2), 0) / cleanData.length);
+    const rms = Math.sqrt(sumOfSquares / count);
+    const std = Math.sqrt(Math.max(0, sumOfSquares / count - avg * avg));
 
     return { min, max, avg, rms, std, delta };
 };
@@ -89,35 +113,6 @@ const AccordionItem: React.FC<{ title: string; children: React.ReactNode; defaul
 };
 
 
-const findClosestIndex = (timestamp: number, messages: CANMessage[]): number => {
-    if (!messages || messages.length === 0) return -1;
-    let low = 0;
-    let high = messages.length - 1;
-
-    if (timestamp <= Number(messages[0].timestamp)) return 0;
-    if (timestamp >= Number(messages[high].timestamp)) return high;
-
-    while (low <= high) {
-        const mid = Math.floor((low + high) / 2);
-        const midTime = Number(messages[mid].timestamp);
-
-        if (midTime < timestamp) {
-            low = mid + 1;
-        } else if (midTime > timestamp) {
-            high = mid - 1;
-        } else {
-            return mid; // Exact match
-        }
-    }
-    if (high < 0) high = 0;
-    if (low >= messages.length) low = messages.length - 1;
-    
-    const diffHigh = Math.abs(Number(messages[high].timestamp) - timestamp);
-    const diffLow = Math.abs(Number(messages[low].timestamp) - timestamp);
-
-    return diffLow < diffHigh ? low : high;
-};
-
 interface SignalStats {
     min: number;
     max: number;
@@ -134,25 +129,18 @@ interface RangeStats {
     dt: number;
 }
 
-const getSignalUnit = (signalName: string | null): string => {
-    if (!signalName) return '';
-    for (const messageId in defaultMatrix) {
-        const messageDef = defaultMatrix[messageId];
-        const signalDef = Object.values(messageDef.signals).find(s => s.name === signalName);
-        if (signalDef && signalDef.unit) {
-            return signalDef.unit;
-        }
-    }
-    return '';
-};
-
-const MAX_POINTS_TO_DISPLAY = 50000; // Threshold for downsampling
+// Chart width assumed before the chart has reported its own, in pixels.
+const DEFAULT_CHART_COLUMNS = 1200;
 
-export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ signals, matrix, cursorTime = null, viewRequest = null, actionRequests, onActionsApplied, onVisibleRangeChange, initialLayout = null, onLayoutChange }) => {
     const chartRef = useRef<ChartJS<'line'>>(null);
     const chartRefs = useRef<Map<string, ChartJS<'line'>>>(new Map());
     const zoomStateRef = useRef<{ min: number; max: number } | null>(null);
+    // Time window and pixel width the chart data was decimated for; null for the whole log.
+    const [detailWindow, setDetailWindow] = useState<{ start: number; end: number; columns: number } | null>(null);
     const isCtrlPressedRef = useRef(false);
+    const pendingLayoutRef = useRef(initialLayout);
+    const hasReportedLayoutRef = useRef(false);
     
     const [selectedSignals, setSelectedSignals] = useState<Set<string>>(new Set());
     const [lineMode, setLineMode] = useState<'stepped' | 'linear'>('stepped');
@@ -171,6 +159,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
 
     const [isSelectMode, setIsSelectMode] = useState(false);
     const [selection, setSelection] = useState<{ start: number | null; end: number | null }>({ start: null, end: null });
+    const [annotations, setAnnotations] = useState<ChartAnnotation[]>([]);
+    const appliedActionsRef = useRef(new WeakSet<DashboardAction>());
     const dragStartRef = useRef<{ timestamp: number; selectionStart: number; selectionEnd: number; } | null>(null);
 
     const [draggingMode, setDraggingMode] = useState<'start' | 'end' | 'range' | null>(null);
@@ -180,46 +170,60 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
     const [viewMode, setViewMode] = useState<'overlay' | 'stacked'>('overlay');
     const [soloSignal, setSoloSignal] = useState<string | null>(null);
 
-    const relevantMessages = useMemo(() => messages.filter(m => m.decoded && Object.keys(m.decoded).length > 0), [messages]);
+    const allSignals = useMemo(() => getSignalNames(signals), [signals]);
 
-    const isDataDownsampled = relevantMessages.length > MAX_POINTS_TO_DISPLAY;
-
-    const downsampledMessages = useMemo(() => {
-        if (!isDataDownsampled) {
-            return relevantMessages;
-        }
-        const sampled = [];
-        const totalPoints = relevantMessages.length;
-        const step = Math.ceil(totalPoints / MAX_POINTS_TO_DISPLAY);
-        for (let i = 0; i < totalPoints; i += step) {
-            sampled.push(relevantMessages[i]);
-        }
-        return sampled;
-    }, [relevantMessages, isDataDownsampled]);
-
-    const allSignals = useMemo(() => {
-        const signalNames = new Set<string>();
-        relevantMessages.forEach(msg => {
-            if (msg.decoded) {
-                Object.keys(msg.decoded).forEach(signalName => {
-                    signalNames.add(signalName);
-                });
-            }
+    // The channel tree: signals grouped by the message that carries them.
+    const signalGroups = useMemo(() => {
+        const groups = new Map<string, string[]>();
+        allSignals.forEach(signalKey => {
+            const { messageName } = signals[signalKey];
+            groups.set(messageName, [...(groups.get(messageName) ?? []), signalKey]);
         });
-        return Array.from(signalNames).sort();
-    }, [relevantMessages]);
+        return Array.from(groups.entries()).map(([messageName, signalKeys]) => ({ messageName, signalKeys }));
+    }, [signals, allSignals]);
+    const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+    const timeBounds = useMemo(() => getTimeBounds(signals), [signals]);
     
+    // Signals carried in CAN FD frames, and whether those frames switch to the data bit rate.
+    const fdSignals = useMemo(() => {
+        const fd = new Map<string, { brs: boolean }>();
+        allSignals.forEach(signalName => {
+            const series = signals[signalName];
+            if (series.isFd) fd.set(signalName, { brs: series.brs });
+        });
+        return fd;
+    }, [signals, allSignals]);
+
     const signalsToRender = useMemo(() => {
         return soloSignal ? [soloSignal] : Array.from(selectedSignals);
     }, [soloSignal, selectedSignals]);
     
+    const { chartPoints, isDataDownsampled } = useMemo(() => {
+        const points = new Map<string, ChartPoint[]>();
+        let isDecimated = false;
+        if (!timeBounds) return { chartPoints: points, isDataDownsampled: false };
+
+        const { start, end, columns } = detailWindow ?? { ...timeBounds, columns: DEFAULT_CHART_COLUMNS };
+        // Data is prepared for three times the visible window, so a short pan does not uncover an
+        // empty chart before the data for the new window is ready.
+        const span = end - start;
+        signalsToRender.forEach(signalName => {
+            const series = signals[signalName];
+            if (!series) return;
+            const decimated = decimateSeries(series, start - span, end + span, columns * 3);
+            points.set(signalName, decimated.points);
+            isDecimated = isDecimated || decimated.isDecimated;
+        });
+        return { chartPoints: points, isDataDownsampled: isDecimated };
+    }, [signals, signalsToRender, timeBounds, detailWindow]);
+    
     const statsSignal = useMemo(() => {
         if (soloSignal) return soloSignal;
         if (signalsToRender.length > 0) return signalsToRender[0];
         return null;
     }, [soloSignal, signalsToRender]);
     
-    const statsSignalUnit = useMemo(() => getSignalUnit(statsSignal), [statsSignal]);
+    const statsSignalUnit = useMemo(() => getSignalUnit(matrix, statsSignal), [matrix, statsSignal]);
 
 
     const getActiveChart = useCallback((): ChartJS<'line'> | null | undefined => {
@@ -234,6 +238,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         if (chartRef.current) chartRef.current.resetZoom('none');
         chartRefs.current.forEach(c => c?.resetZoom('none'));
         zoomStateRef.current = null;
+        setDetailWindow(null);
         setManualYAxesLimits({});
         setAutoYAxesLimits({});
         setOverallStats(null);
@@ -241,17 +246,55 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         setVisibleRangeStats(null);
         setCursorStats(null);
         setSelection({ start: null, end: null });
+        setAnnotations([]);
         setIsSelectMode(false);
         if (allSignals.length > 0) {
             setSelectedSignals(new Set(allSignals.slice(0, 2)));
         } else {
             setSelectedSignals(new Set());
         }
-    }, [messages, allSignals]);
+
+        // A saved layout is applied once, to the data it was saved with.
+        const layout = pendingLayoutRef.current;
+        pendingLayoutRef.current = null;
+        if (!layout) return;
+        const isKnown = (key: string) => signals[key] !== undefined;
+        setSelectedSignals(new Set(layout.selectedSignals.filter(isKnown)));
+        setSoloSignal(layout.soloSignal && isKnown(layout.soloSignal) ? layout.soloSignal : null);
+        setLineMode(layout.lineMode);
+        setViewMode(layout.viewMode);
+        setManualYAxesLimits(layout.manualYAxesLimits);
+        setCollapsedGroups(new Set(layout.collapsedGroups));
+        setAnnotations(layout.annotations);
+        if (layout.zoom) {
+            zoomStateRef.current = { min: layout.zoom.start, max: layout.zoom.end };
+            setDetailWindow({ ...layout.zoom, columns: DEFAULT_CHART_COLUMNS });
+        }
+    }, [signals, allSignals]);
+
+    useEffect(() => {
+        // The first render still shows the defaults, before a saved layout is applied.
+        if (!hasReportedLayoutRef.current) {
+            hasReportedLayoutRef.current = true;
+            return;
+        }
+        onLayoutChange?.({
+            selectedSignals: Array.from(selectedSignals),
+            soloSignal,
+            lineMode,
+            viewMode,
+            manualYAxesLimits,
+            collapsedGroups: Array.from(collapsedGroups),
+            zoom: detailWindow ? { start: detailWindow.start, end: detailWindow.end } : null,
+            annotations,
+        });
+    }, [selectedSignals, soloSignal, lineMode, viewMode, manualYAxesLimits, collapsedGroups, detailWindow, annotations, onLayoutChange]);
 
 
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Leave keys typed into the trace filters or the chat alone.
+            if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
             if (e.key.toLowerCase() === 'r') {
                 setIsSelectMode(prev => !prev);
             } else if (e.key.toLowerCase() === 's') {
@@ -309,59 +352,42 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         };
     }, [getActiveChart, hoveringMode, isSelectMode]);
 
-    const calculateAndSetStats = useCallback((startIndex: number, endIndex: number): RangeStats | null => {
-        if (startIndex > endIndex || startIndex === -1 || endIndex === -1) return null;
+    const calculateAndSetStats = useCallback((start: number, end: number): RangeStats | null => {
+        if (!timeBounds || start > end) return null;
         const statsBySignal: Record<string, SignalStats> = {};
 
         for (const signal of selectedSignals) {
-            const rangeData = relevantMessages.slice(startIndex, endIndex + 1).map(m => m.decoded?.[signal]).filter(v => v !== undefined && v !== null) as number[];
-            statsBySignal[signal] = calculateStats(rangeData);
+            const series = signals[signal];
+            statsBySignal[signal] = calculateStats(series ? getSamplesInRange(series, start, end).values : []);
         }
 
-        const t1 = relevantMessages[startIndex]?.timestamp;
-        const t2 = relevantMessages[endIndex]?.timestamp;
-        const dt = (typeof t1 === 'number' && typeof t2 === 'number') ? (t2 - t1) : NaN;
+        const t1 = Math.max(start, timeBounds.start);
+        const t2 = Math.min(end, timeBounds.end);
 
         return {
             signals: statsBySignal,
-            t1: typeof t1 === 'number' ? t1.toFixed(6) : String(t1 || ''),
-            t2: typeof t2 === 'number' ? t2.toFixed(6) : String(t2 || ''),
-            dt: dt,
+            t1: t1.toFixed(6),
+            t2: t2.toFixed(6),
+            dt: t2 - t1,
         };
-    }, [relevantMessages, selectedSignals]);
+    }, [signals, timeBounds, selectedSignals]);
 
     // FIX: Separated overall stats calculation to prevent re-render loops.
     useEffect(() => {
-        if (relevantMessages.length > 0) {
-            const firstT = relevantMessages[0].timestamp;
-            const lastT = relevantMessages[relevantMessages.length - 1].timestamp;
-            setOverallStats({
-                t1: typeof firstT === 'number' ? firstT.toFixed(6) : String(firstT),
-                t2: typeof lastT === 'number' ? lastT.toFixed(6) : String(lastT),
-            });
+        if (timeBounds) {
+            setOverallStats({ t1: timeBounds.start.toFixed(6), t2: timeBounds.end.toFixed(6) });
         } else {
             setOverallStats(null);
         }
-    }, [relevantMessages]);
+    }, [timeBounds]);
 
     const updateStatsPanels = useCallback((chartArg?: ChartJS<'line'> | null) => {
         const chart = chartArg || getActiveChart();
-        if (!chart || relevantMessages.length === 0) return;
+        if (!chart || !timeBounds) return;
 
         const { min: minTimestamp, max: maxTimestamp } = chart.scales.x;
-        const startIndex = findClosestIndex(minTimestamp, relevantMessages);
-        const endIndex = findClosestIndex(maxTimestamp, relevantMessages);
-        
-        const finalStartIndex = startIndex === -1 ? 0 : startIndex;
-        const finalEndIndex = endIndex === -1 ? relevantMessages.length - 1 : endIndex;
-
-        if (finalStartIndex <= finalEndIndex && relevantMessages.length > 0) {
-            const visibleStats = calculateAndSetStats(finalStartIndex, finalEndIndex);
-            setVisibleRangeStats(visibleStats);
-        } else {
-            setVisibleRangeStats(null);
-        }
-    }, [relevantMessages, calculateAndSetStats, getActiveChart]);
+        setVisibleRangeStats(calculateAndSetStats(minTimestamp, maxTimestamp));
+    }, [timeBounds, calculateAndSetStats, getActiveChart]);
 
 
     useEffect(() => {
@@ -384,25 +410,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         const { min, max } = chart.scales.x;
         zoomStateRef.current = { min, max };
         if (viewMode === 'stacked') syncCharts(chart, min, max);
-    
-        const startIndex = findClosestIndex(min, relevantMessages);
-    const endIndex = findClosestIndex(max, relevantMessages);
+        setDetailWindow({ start: min, end: max, columns: Math.round(chart.chartArea.width) || DEFAULT_CHART_COLUMNS });
     
     const newAutoLimits: Record<string, { min: number; max: number }> = {};
-    if (startIndex !== -1 && endIndex !== -1 && startIndex <= endIndex) {
-        const visibleMessages = relevantMessages.slice(startIndex, endIndex + 1);
-        
-        signalsToRender.forEach(signalName => {
-            const values = visibleMessages.map(m => m.decoded?.[signalName]).filter(v => typeof v === 'number' && isFinite(v)) as number[];
-            if (values.length > 0) {
-                const minY = Math.min(...values);
-                const maxY = Math.max(...values);
-                const range = maxY - minY;
-                const padding = range > 0 ? range * 0.05 : 0.1;
-                newAutoLimits[signalName] = { min: minY - padding, max: maxY + padding };
-            }
-        });
-    }
+    signalsToRender.forEach(signalName => {
+        const series = signals[signalName];
+        if (!series) return;
+        const { min: minY, max: maxY } = calculateStats(getSamplesInRange(series, min, max).values);
+        if (isFinite(minY) && isFinite(maxY)) {
+            const range = maxY - minY;
+            const padding = range > 0 ? range * 0.05 : 0.1;
+            newAutoLimits[signalName] = { min: minY - padding, max: maxY + padding };
+        }
+    });
     
     setAutoYAxesLimits(currentLimits => {
         if (JSON.stringify(currentLimits) !== JSON.stringify(newAutoLimits)) {
@@ -412,13 +432,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
     });
 
     updateStatsPanels(chart);
-}, [relevantMessages, signalsToRender, viewMode, updateStatsPanels]);
+}, [signals, signalsToRender, viewMode, updateStatsPanels]);
     
     const handlePanComplete = useCallback(({ chart }: { chart: ChartJS<'line'> }) => {
         if (!chart.scales.x) return;
         const { min, max } = chart.scales.x;
         zoomStateRef.current = { min, max };
         if (viewMode === 'stacked') syncCharts(chart, min, max);
+        setDetailWindow({ start: min, end: max, columns: Math.round(chart.chartArea.width) || DEFAULT_CHART_COLUMNS });
 
         const newManualLimits = { ...manualYAxesLimits };
         Object.entries(chart.scales).forEach(([scaleId, scale]) => {
@@ -434,6 +455,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
 
     const handleResetZoom = useCallback(() => {
         zoomStateRef.current = null;
+        setDetailWindow(null);
         setManualYAxesLimits({});
     
         setTimeout(() => {
@@ -469,32 +491,40 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
 
     const handleDownloadData = useCallback(() => {
         const chart = getActiveChart();
-        if (!chart || relevantMessages.length === 0 || signalsToRender.length === 0) {
+        if (!chart || !timeBounds || signalsToRender.length === 0) {
             alert("No data to download.");
             return;
         }
     
         const { min: minTimestamp, max: maxTimestamp } = chart.scales.x;
-    
-        const startIndex = findClosestIndex(minTimestamp, relevantMessages);
-        const endIndex = findClosestIndex(maxTimestamp, relevantMessages);
-        
-        const visibleMessages = relevantMessages.slice(
-            startIndex === -1 ? 0 : startIndex,
-            endIndex === -1 ? relevantMessages.length : endIndex + 1
-        );
+        const visibleSamples = signalsToRender.map(signalName => {
+            const series = signals[signalName];
+            return series ? getSamplesInRange(series, minTimestamp, maxTimestamp) : { timestamps: new Float64Array(0), values: new Float64Array(0) };
+        });
     
         const headers = ['Timestamp', ...signalsToRender];
         const csvRows = [headers.join(',')];
     
-        visibleMessages.forEach(msg => {
-            const row = [Number(msg.timestamp).toFixed(6)];
-            signalsToRender.forEach(signalName => {
-                const value = msg.decoded?.[signalName];
-                row.push(typeof value === 'number' ? String(value) : '');
+        // One row per distinct timestamp; signals not sampled at that time are left empty.
+        const positions = visibleSamples.map(() => 0);
+        for (;;) {
+            let timestamp = Infinity;
+            visibleSamples.forEach((samples, i) => {
+                if (positions[i] < samples.timestamps.length) timestamp = Math.min(timestamp, samples.timestamps[positions[i]]);
+            });
+            if (timestamp === Infinity) break;
+
+            const row = [timestamp.toFixed(6)];
+            visibleSamples.forEach((samples, i) => {
+                if (samples.timestamps[positions[i]] === timestamp) {
+                    row.push(String(samples.values[positions[i]]));
+                    positions[i]++;
+                } else {
+                    row.push('');
+                }
             });
             csvRows.push(row.join(','));
-        });
+        }
     
         const csvContent = csvRows.join('\n');
         const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -506,7 +536,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
-    }, [getActiveChart, relevantMessages, signalsToRender]);
+    }, [getActiveChart, signals, timeBounds, signalsToRender]);
     
     const handleDownloadImage = useCallback(() => {
         const download = (chartInstance: ChartJS, filename: string) => {
@@ -571,6 +601,141 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         }
     }), [selection]);
 
+    const cursorPlugin = useMemo(() => ({
+        id: 'traceCursor',
+        afterDraw: (chart: ChartJS) => {
+            if (cursorTime === null || cursorTime < chart.scales.x.min || cursorTime > chart.scales.x.max) return;
+            const { ctx, chartArea: { top, bottom } } = chart;
+            const x = chart.scales.x.getPixelForValue(cursorTime);
+            ctx.save();
+            ctx.strokeStyle = '#dc2626';
+            ctx.lineWidth = 1.5;
+            ctx.setLineDash([4, 3]);
+            ctx.beginPath();
+            ctx.moveTo(x, top);
+            ctx.lineTo(x, bottom);
+            ctx.stroke();
+            ctx.restore();
+        }
+    }), [cursorTime]);
+
+    const annotationPlugin = useMemo(() => ({
+        id: 'annotations',
+        afterDraw: (chart: ChartJS) => {
+            const { ctx, chartArea: { top, bottom, right } } = chart;
+            annotations.forEach(annotation => {
+                if (annotation.time < chart.scales.x.min || annotation.time > chart.scales.x.max) return;
+                const x = chart.scales.x.getPixelForValue(annotation.time);
+                ctx.save();
+                ctx.strokeStyle = '#9333ea';
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash([6, 3]);
+                ctx.beginPath();
+                ctx.moveTo(x, top);
+                ctx.lineTo(x, bottom);
+                ctx.stroke();
+                // The label sits at the top of the line, flipped to its left near the right edge.
+                ctx.font = '11px sans-serif';
+                const width = ctx.measureText(annotation.label).width + 8;
+                const left = x + width > right ? x - width : x;
+                ctx.fillStyle = 'rgba(147, 51, 234, 0.85)';
+                ctx.fillRect(left, top, width, 16);
+                ctx.fillStyle = '#ffffff';
+                ctx.textBaseline = 'middle';
+                ctx.fillText(annotation.label, left + 4, top + 8);
+                ctx.restore();
+            });
+        }
+    }), [annotations]);
+
+    const showTimeWindow = useCallback((min: number, max: number) => {
+        const chart = getActiveChart();
+        const charts = viewMode === 'overlay' ? [chart] : Array.from(chartRefs.current.values());
+        charts.forEach(chartInstance => {
+            if (!chartInstance) return;
+            chartInstance.options.scales!.x!.min = min;
+            chartInstance.options.scales!.x!.max = max;
+            chartInstance.update('none');
+        });
+        zoomStateRef.current = { min, max };
+        setDetailWindow({ start: min, end: max, columns: Math.round(chart?.chartArea?.width ?? 0) || DEFAULT_CHART_COLUMNS });
+        if (chart) updateStatsPanels(chart);
+    }, [getActiveChart, viewMode, updateStatsPanels]);
+
+    // Centers the chart on a time outside the visible range, keeping the zoom level.
+    const bringIntoView = useCallback((time: number) => {
+        const chart = getActiveChart();
+        if (!chart?.scales.x) return;
+        const { min, max } = chart.scales.x;
+        if (time >= min && time <= max) return;
+
+        const halfSpan = (max - min) / 2;
+        showTimeWindow(time - halfSpan, time + halfSpan);
+    }, [getActiveChart, showTimeWindow]);
+
+    // Brings the cursor into view when it is set outside the visible range.
+    useEffect(() => {
+        if (cursorTime !== null) bringIntoView(cursorTime);
+    }, [cursorTime, bringIntoView]);
+
+    useEffect(() => {
+        if (!viewRequest) return;
+        const signalKeys = (viewRequest.signalKeys ?? []).filter(key => signals[key]);
+        if (signalKeys.length > 0) {
+            setSoloSignal(null);
+            setSelectedSignals(prev => signalKeys.every(key => prev.has(key)) ? prev : new Set([...prev, ...signalKeys]));
+        }
+        showTimeWindow(viewRequest.start, viewRequest.end);
+        // Only a new request moves the chart, not a change of the chart itself.
+    }, [viewRequest]);
+
+    const applyAction = (action: DashboardAction) => {
+        switch (action.type) {
+            case 'showSignals': {
+                const signalKeys = action.signalKeys.filter(key => signals[key]);
+                setSoloSignal(null);
+                setSelectedSignals(prev => action.replace ? new Set(signalKeys) : new Set([...prev, ...signalKeys]));
+                break;
+            }
+            case 'zoom':
+                showTimeWindow(action.start, action.end);
+                break;
+            case 'select': {
+                const { start, end } = action;
+                setSelection({ start, end });
+                setSelectedRangeStats(start < end ? calculateAndSetStats(start, end) : null);
+                const chart = getActiveChart();
+                if (chart?.scales.x && (start < chart.scales.x.min || end > chart.scales.x.max)) {
+                    const margin = (end - start) * 0.1 || 1;
+                    showTimeWindow(start - margin, end + margin);
+                }
+                break;
+            }
+            case 'annotate': {
+                const { time, label } = action;
+                setAnnotations(prev => [...prev, { id: `${Date.now()}-${prev.length}`, time, label }]);
+                bringIntoView(time);
+                break;
+            }
+        }
+    };
+
+    useEffect(() => {
+        if (!actionRequests || actionRequests.length === 0) return;
+        actionRequests.forEach(action => {
+            if (appliedActionsRef.current.has(action)) return;
+            appliedActionsRef.current.add(action);
+            applyAction(action);
+        });
+        onActionsApplied?.(actionRequests);
+        // Only new actions change the chart, not a change of the chart itself.
+    }, [actionRequests]);
+
+    useEffect(() => {
+        const range = detailWindow ?? timeBounds;
+        if (range && onVisibleRangeChange) onVisibleRangeChange({ start: range.start, end: range.end });
+    }, [detailWindow, timeBounds, onVisibleRangeChange]);
+
     const handleChartMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
         const chart = getActiveChart();
         if (!isSelectMode || !chart) return;
@@ -655,11 +820,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                 const finalSelection = { start, end };
                 setSelection(finalSelection);
     
-                const startIndex = findClosestIndex(start, relevantMessages);
-                const endIndex = findClosestIndex(end, relevantMessages);
-    
-                if (startIndex !== -1 && endIndex !== -1 && startIndex < endIndex) {
-                    const stats = calculateAndSetStats(startIndex, endIndex);
+                if (start < end) {
+                    const stats = calculateAndSetStats(start, end);
                     setSelectedRangeStats(stats);
                 } else {
                     setSelectedRangeStats(null);
@@ -764,7 +926,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
             const color = COLORS[signalIndex % COLORS.length];
             return {
                 label: signalName,
-                data: downsampledMessages.map(m => ({ x: Number(m.timestamp), y: m.decoded?.[signalName] ?? null })),
+                data: chartPoints.get(signalName) ?? [],
                 borderColor: color,
                 backgroundColor: `${color}33`,
                 fill: 'start',
@@ -776,7 +938,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                 yAxisID: signalName,
             };
         })
-    }), [downsampledMessages, signalsToRender, lineMode, allSignals]);
+    }), [chartPoints, signalsToRender, lineMode, allSignals]);
 
     const overlayChartOptions = useMemo<ChartOptions<'line'>>(() => {
         const yAxes: { [key: string]: ScaleOptions } = {};
@@ -815,13 +977,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
         return {
             datasets: [{
                 label: signalName,
-                data: downsampledMessages.map(m => ({ x: Number(m.timestamp), y: m.decoded?.[signalName] ?? null })),
+                data: chartPoints.get(signalName) ?? [],
                 borderColor: color, backgroundColor: `${color}33`, fill: 'start',
                 stepped: lineMode === 'stepped', tension: lineMode === 'linear' ? 0.1 : 0,
                 pointRadius: 1.5, borderWidth: 1.5, spanGaps: true, yAxisID: signalName,
             }]
         };
-    }, [downsampledMessages, allSignals, lineMode]);
+    }, [chartPoints, allSignals, lineMode]);
 
     const createStackedChartOptions = useCallback((signalName: string, isLastChart: boolean): ChartOptions<'line'> => {
         const finalYAxesLimits = { ...autoYAxesLimits, ...manualYAxesLimits };
@@ -892,21 +1054,43 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                     </div>
                 </div>
                 <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
-                    {allSignals.map((signal) => {
-                        const signalIndex = allSignals.indexOf(signal);
-                        return (
-                            <div key={signal} className={`flex items-center rounded-md hover:bg-gray-200 group ${soloSignal === signal ? 'bg-blue-100' : ''}`}>
-                                <div className="flex-1 flex items-center p-1.5 cursor-pointer" onClick={() => handleSignalVisibilityToggle(signal)}>
-                                    <div style={{ backgroundColor: COLORS[signalIndex % COLORS.length] }} className="w-2 h-4 rounded-sm mr-2 flex-shrink-0"></div>
-                                    <input type="checkbox" readOnly checked={selectedSignals.has(signal)} className="w-4 h-4 rounded bg-gray-300 border-gray-400 text-blue-600 focus:ring-blue-500 pointer-events-none" />
-                                    <span className={`ml-2 truncate ${soloSignal === signal ? 'font-bold' : ''}`} title={signal} onClick={(e) => { e.stopPropagation(); handleSignalNameClick(signal); }}>{signal}</span>
+                    {signalGroups.map(({ messageName, signalKeys }) => (
+                        <div key={messageName}>
+                            <button
+                                onClick={() => setCollapsedGroups(prev => {
+                                    const newSet = new Set(prev);
+                                    if (newSet.has(messageName)) newSet.delete(messageName); else newSet.add(messageName);
+                                    return newSet;
+                                })}
+                                className="w-full flex items-center gap-1 px-1 py-1 text-xs font-bold text-gray-600 hover:bg-gray-100 rounded-md"
+                                title={messageName}
+                            >
+                                <ChevronDownIcon className={`w-3 h-3 flex-shrink-0 transition-transform ${collapsedGroups.has(messageName) ? '-rotate-90' : ''}`} />
+                                <span className="truncate">{messageName}</span>
+                                <span className="ml-auto font-normal text-gray-400">{signalKeys.length}</span>
+                            </button>
+                            {!collapsedGroups.has(messageName) && signalKeys.map((signal) => {
+                                const signalIndex = allSignals.indexOf(signal);
+                                return (
+                                <div key={signal} className={`flex items-center rounded-md hover:bg-gray-200 group ${soloSignal === signal ? 'bg-blue-100' : ''}`}>
+                                    <div className="flex-1 flex items-center p-1.5 pl-4 cursor-pointer min-w-0" onClick={() => handleSignalVisibilityToggle(signal)}>
+                                        <div style={{ backgroundColor: COLORS[signalIndex % COLORS.length] }} className="w-2 h-4 rounded-sm mr-2 flex-shrink-0"></div>
+                                        <input type="checkbox" readOnly checked={selectedSignals.has(signal)} className="w-4 h-4 rounded bg-gray-300 border-gray-400 text-blue-600 focus:ring-blue-500 pointer-events-none" />
+                                        <span className={`ml-2 truncate ${soloSignal === signal ? 'font-bold' : ''}`} title={signal} onClick={(e) => { e.stopPropagation(); handleSignalNameClick(signal); }}>{signals[signal].signalName}</span>
+                                        {fdSignals.has(signal) && (
+                                            <span className="ml-1.5 px-1 rounded text-[10px] font-semibold text-purple-700 bg-purple-100 flex-shrink-0" title={fdSignals.get(signal)!.brs ? 'CAN FD frame with bit rate switch' : 'CAN FD frame'}>
+                                                {fdSignals.get(signal)!.brs ? 'FD·BRS' : 'FD'}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <button onClick={() => handleOpenEditor(signal)} className="ml-auto p-1 rounded-full text-gray-400 hover:bg-gray-300 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity" title={`Edit ${signal} axis`}>
+                                        <PencilIcon className="w-3 h-3" />
+                                    </button>
                                 </div>
-                                <button onClick={() => handleOpenEditor(signal)} className="ml-auto p-1 rounded-full text-gray-400 hover:bg-gray-300 hover:text-gray-700 opacity-0 group-hover:opacity-100 transition-opacity" title={`Edit ${signal} axis`}>
-                                    <PencilIcon className="w-3 h-3" />
-                                </button>
-                            </div>
-                        )
-                    })}
+                                )
+                            })}
+                        </div>
+                    ))}
                 </div>
             </div>
 
@@ -929,7 +1113,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                             <div className="group relative flex items-center">
                                 <InfoIcon className="w-4 h-4 text-yellow-600 cursor-help" />
                                 <span className="absolute bottom-full right-0 mb-2 w-64 p-2 bg-gray-700 text-white text-xs rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20">
-                                    Chart is displaying a sample of the full dataset to improve performance. All calculations and data exports use the full-resolution data.
+                                    Chart shows the lowest and highest sample per pixel to stay responsive; zoom in to see every sample. All calculations and data exports use the full-resolution data.
                                 </span>
                             </div>
                         )}
@@ -945,7 +1129,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                     </div>
                     
                     {viewMode === 'overlay' && (
-                        <Line ref={chartRef} options={overlayChartOptions} data={overlayChartData} plugins={[selectionPlugin]} />
+                        <Line ref={chartRef} options={overlayChartOptions} data={overlayChartData} plugins={[selectionPlugin, cursorPlugin, annotationPlugin]} />
                     )}
                     {viewMode === 'stacked' && (
                          <div className="relative h-full" style={{minHeight: `${signalsToRender.length * 250}px`}}>
@@ -959,7 +1143,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                                             ref={el => { if (el) chartRefs.current.set(signal, el); else chartRefs.current.delete(signal); }}
                                             options={createStackedChartOptions(signal, index === signalsToRender.length - 1)}
                                             data={createStackedChartData(signal)}
-                                            plugins={[selectionPlugin]}
+                                            plugins={[selectionPlugin, cursorPlugin, annotationPlugin]}
                                         />
                                     </div>
                                 ))}
@@ -969,6 +1153,25 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                     
                     {isSelectMode && <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-blue-500 text-white px-3 py-1 rounded-full text-xs font-bold shadow-lg animate-pulse">Range Selection Mode (Press 'R' or 'Esc')</div>}
                 </div>
+
+                {annotations.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 px-2 pt-1 text-xs">
+                        <span className="font-medium text-gray-600">Annotations:</span>
+                        {annotations.map(annotation => (
+                            <span key={annotation.id} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-purple-100 text-purple-800">
+                                <button onClick={() => bringIntoView(annotation.time)} title="Show on the chart">{annotation.time.toFixed(3)} s: {annotation.label}</button>
+                                <button
+                                    onClick={() => setAnnotations(prev => prev.filter(a => a.id !== annotation.id))}
+                                    className="px-1 rounded-full hover:bg-purple-200"
+                                    aria-label={`Remove annotation ${annotation.label}`}
+                                >
+                                    ×
+                                </button>
+                            </span>
+                        ))}
+                        <button onClick={() => setAnnotations([])} className="ml-1 text-gray-500 hover:underline">Clear</button>
+                    </div>
+                )}
                 
                 <div className="absolute top-1/2 -translate-y-1/2 -right-3 z-20">
                     <button onClick={() => setIsRightSidebarOpen(!isRightSidebarOpen)} className="bg-white/80 backdrop-blur-sm border border-gray-300 rounded-full p-0.5 hover:bg-gray-200 transition-colors" aria-label="Toggle right sidebar">
@@ -989,6 +1192,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ messages }) => {
                                     <>
                                         <StatRow label="Timestamp" value={cursorStats.timestamp} unit="s" />
                                         <StatRow label="Value" value={cursorStats.values[statsSignal] ?? 'N/A'} unit={statsSignalUnit} />
+                                        {cursorStats.values[statsSignal] !== undefined && getValueDescription(matrix, statsSignal, parseFloat(cursorStats.values[statsSignal])) && (
+                                            <StatRow label="State" value={getValueDescription(matrix, statsSignal, parseFloat(cursorStats.values[statsSignal]))!} />
+                                        )}
                                     </>
                                 ) : (
                                     <div className="text-xs text-gray-400 italic text-center py-1">
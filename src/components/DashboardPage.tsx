@@ -1,92 +1,155 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Spinner } from './Spinner';
 import { Dashboard } from './Dashboard';
 import { ChatInterface } from './ChatInterface';
 import { FaultAnalysis } from './FaultAnalysis';
-import { getInitialAnalysisPrompt, getSystemInstruction, canDataQueryTool, modelName } from '../services/geminiService';
-import { defaultMatrix } from '../services/defaultMatrix';
-import type { CANMessage, ChatMessage } from '../types';
+import { J1939Analysis } from './J1939Analysis';
+import { TraceView } from './TraceView';
+import { BusStatistics } from './BusStatistics';
+import { DataExport } from './DataExport';
+import { LogConversion } from './LogConversion';
+import { LlmSettingsPanel } from './LlmSettingsPanel';
+import { getInitialAnalysisPrompt, getSystemInstruction } from '../services/geminiService';
+import { ANALYSIS_TOOLS, DASHBOARD_TOOLS, createAnalysisToolExecutor } from '../services/analysisTools';
+import type { ChatReference } from '../services/chatReferences';
+import { createLlmProvider, getLlmProviderLabel, loadLlmSettings, runChatTurn, saveLlmSettings } from '../services/llmProvider';
+import type { LlmMessage, LlmSettings } from '../services/llmProvider';
+import type { CanMatrix, ChatMessage, DashboardAction, DashboardLayout, LogFileInfo, SignalStore } from '../types';
+import { updateSessionUi } from '../services/sessionStore';
+import type { SessionUiState } from '../services/sessionStore';
+import { getSignalNames, getTimeBounds } from '../services/signalStore';
+import { isJ1939Frame } from '../services/frameCodec';
+import type { EncodedFrames } from '../services/frameCodec';
+import { createDefaultFaultRules, describeFaultResults, evaluateFaultRules } from '../services/faultRules';
+import type { FaultRuleSet } from '../services/faultRules';
 import { SparklesIcon, LineChartIcon, DocumentTextIcon, RefreshCwIcon, ArrowLeftIcon, ListIcon, AlertTriangleIcon } from './IconComponents';
-import { GoogleGenAI } from '@google/genai';
-import type { Content } from '@google/genai';
 
 interface DashboardPageProps {
-    initialMessages: CANMessage[];
-    initialFiles: File[];
+    initialFrames: EncodedFrames;
+    signals: SignalStore;
+    matrix: CanMatrix;
+    fileInfos: LogFileInfo[];
+    // Local session the view state is saved to; null until it has been stored.
+    sessionId: string | null;
+    sessionError: string | null;
+    // View state of a reopened session.
+    initialUi: SessionUiState;
     onGoBack: () => void;
 }
 
-const getSignalUnit = (signalName: string | null): string => {
-    if (!signalName) return '';
-    for (const messageId in defaultMatrix) {
-        const messageDef = defaultMatrix[messageId];
-        const signalDef = Object.values(messageDef.signals).find(s => s.name === signalName);
-        if (signalDef && signalDef.unit) {
-            return signalDef.unit;
-        }
-    }
-    return '';
-};
+const CHAT_TOOLS = [...ANALYSIS_TOOLS, ...DASHBOARD_TOOLS];
 
-export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, initialFiles, onGoBack }) => {
-    const [processedMessages] = useState<CANMessage[]>(initialMessages);
-    const [chatHistory, setChatHistory] = useState<Content[]>([]);
+// View state changes are written to the session after this many milliseconds without further changes.
+const SESSION_SAVE_DELAY = 1000;
+
+export const DashboardPage: React.FC<DashboardPageProps> = ({ initialFrames, signals, matrix, fileInfos, sessionId, sessionError, initialUi, onGoBack }) => {
+    const [frames] = useState<EncodedFrames>(initialFrames);
+    const [chatHistory, setChatHistory] = useState<LlmMessage[]>(initialUi.chatHistory ?? []);
+    const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+    const [showLlmSettings, setShowLlmSettings] = useState<boolean>(false);
     const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
     const [showChart, setShowChart] = useState<boolean>(true);
     const [showFaultReport, setShowFaultReport] = useState<boolean>(false);
+    const [activeView, setActiveView] = useState<'signals' | 'trace' | 'bus' | 'export' | 'convert'>('signals');
+    const [cursorTime, setCursorTime] = useState<number | null>(null);
+    const [visibleRange, setVisibleRange] = useState<{ start: number; end: number } | null>(null);
+    // Chart changes from the chat, removed once the chart has applied them.
+    const [dashboardActions, setDashboardActions] = useState<DashboardAction[]>([]);
+    const [chartViewRequest, setChartViewRequest] = useState<{ start: number; end: number; signalKeys?: string[] } | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [initialPromptText, setInitialPromptText] = useState<string | null>(null);
+    // A restored chat starts with the same hidden prompt.
+    const [initialPromptText, setInitialPromptText] = useState<string | null>(() => initialUi.chatHistory?.length ? getInitialAnalysisPrompt() : null);
+    const [sessionSaveError, setSessionSaveError] = useState<string | null>(null);
+    const dashboardLayoutRef = useRef<DashboardLayout | null>(initialUi.dashboardLayout ?? null);
+    const pendingUiRef = useRef<SessionUiState>({});
+    const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const flushSessionUi = useCallback(() => {
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+        if (!sessionId || Object.keys(pendingUiRef.current).length === 0) return;
+        const ui = pendingUiRef.current;
+        pendingUiRef.current = {};
+        updateSessionUi(sessionId, ui)
+            .then(() => setSessionSaveError(null))
+            .catch(err => setSessionSaveError(err instanceof Error ? err.message : 'Could not save the session.'));
+    }, [sessionId]);
+
+    const scheduleSessionSave = useCallback((ui: SessionUiState) => {
+        pendingUiRef.current = { ...pendingUiRef.current, ...ui };
+        if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = setTimeout(flushSessionUi, SESSION_SAVE_DELAY);
+    }, [flushSessionUi]);
+
+    // Changes made before the session was stored are written once it is, and nothing is lost on leaving.
+    useEffect(() => {
+        flushSessionUi();
+        return flushSessionUi;
+    }, [flushSessionUi]);
+
+    const isFirstChatHistoryRef = useRef(true);
+    useEffect(() => {
+        if (isFirstChatHistoryRef.current) {
+            isFirstChatHistoryRef.current = false;
+            return;
+        }
+        scheduleSessionSave({ chatHistory });
+    }, [chatHistory, scheduleSessionSave]);
+
+    const handleLayoutChange = useCallback((layout: DashboardLayout) => {
+        dashboardLayoutRef.current = layout;
+        scheduleSessionSave({ dashboardLayout: layout });
+    }, [scheduleSessionSave]);
+
+    const hasJ1939Data = useMemo(() => {
+        for (let i = 0; i < frames.count; i++) {
+            if (isJ1939Frame(frames, i)) return true;
+        }
+        return false;
+    }, [frames]);
+
+    const logBounds = useMemo(() => getTimeBounds(signals), [signals]);
+    // Epoch milliseconds of time zero, from the first file that records when it started.
+    const logStartDate = useMemo(() => {
+        const info = fileInfos.find(fileInfo => fileInfo.startDate !== undefined);
+        return info ? info.startDate! - (info.timeShift ?? 0) * 1000 : undefined;
+    }, [fileInfos]);
+    const [faultRuleSet, setFaultRuleSet] = useState<FaultRuleSet>(() => createDefaultFaultRules(signals));
+    const faultResults = useMemo(() => evaluateFaultRules(faultRuleSet, signals, logBounds?.end ?? 0), [faultRuleSet, signals, logBounds]);
+    const handleResetFaultRules = useCallback(() => setFaultRuleSet(createDefaultFaultRules(signals)), [signals]);
 
     const { allSignals, generatedFaults, timeRange } = useMemo(() => {
-        if (processedMessages.length === 0) {
+        if (frames.count === 0) {
             return { allSignals: [], generatedFaults: [], timeRange: { start: 0, end: 0 } };
         }
-        const signals = Array.from(new Set(processedMessages.flatMap(m => m.decoded ? Object.keys(m.decoded) : [])));
-    
-        const faultSignals = new Set<string>();
-        processedMessages.forEach(msg => {
-            if (msg.decoded) {
-                Object.keys(msg.decoded).forEach(signalName => {
-                    if (signalName.toLowerCase().includes('fault')) {
-                        faultSignals.add(signalName);
-                    }
-                });
-            }
-        });
-    
-        const faults: string[] = [];
-        faultSignals.forEach(signalName => {
-            const hasOccurred = processedMessages.some(msg => msg.decoded?.[signalName] === 1);
-            if (hasOccurred) {
-                faults.push(signalName);
-            }
-        });
+        const signalNames = getSignalNames(signals);
+        const faults = describeFaultResults(faultResults);
     
         const range = { 
-            start: processedMessages[0]?.timestamp ?? 0, 
-            end: processedMessages[processedMessages.length - 1]?.timestamp ?? 0 
+            start: frames.timestamps[0], 
+            end: frames.timestamps[frames.count - 1] 
         };
     
-        return { allSignals: signals, generatedFaults: faults, timeRange: range };
-    }, [processedMessages]);
+        return { allSignals: signalNames, generatedFaults: faults, timeRange: range };
+    }, [frames, signals, faultResults]);
     
     const systemInstruction = useMemo(() => {
-        return getSystemInstruction(allSignals, generatedFaults, timeRange, processedMessages.length);
-    }, [allSignals, generatedFaults, timeRange, processedMessages.length]);
+        return getSystemInstruction(allSignals, generatedFaults, timeRange, frames.count);
+    }, [allSignals, generatedFaults, timeRange, frames.count]);
 
     const chatMessagesForDisplay = useMemo((): ChatMessage[] => {
         return chatHistory
-            .filter(content => {
-                 const text = content.parts.map(p => p.text ?? '').join('');
+            .filter((message): message is Extract<LlmMessage, { role: 'user' | 'model' }> => {
+                 if (message.role === 'tool') return false;
                  // Filter out the initial hidden prompt
-                 if (content.role === 'user' && text === initialPromptText) {
+                 if (message.role === 'user' && message.text === initialPromptText) {
                      return false;
                  }
-                return (content.role === 'user' || content.role === 'model') && content.parts.some(p => p.text)
+                return !!message.text;
             })
-            .map(content => ({
-                role: content.role as 'user' | 'model',
-                content: content.parts.map(part => part.text ?? '').join('')
+            .map(message => ({
+                role: message.role,
+                content: message.text
             }));
     }, [chatHistory, initialPromptText]);
 
@@ -100,7 +163,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
         const blob = new Blob([chatLog], { type: 'text/plain;charset=utf-8;' });
         const link = document.createElement('a');
         const url = URL.createObjectURL(blob);
-        const fileName = initialFiles[0]?.name.replace(/\.[^/.]+$/, "") + "_analysis.txt" || "can_analysis.txt";
+        const fileName = fileInfos[0]?.fileName.replace(/\.[^/.]+$/, "") + "_analysis.txt" || "can_analysis.txt";
         link.setAttribute('href', url);
         link.setAttribute('download', fileName);
         link.style.visibility = 'hidden';
@@ -109,91 +172,46 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
         document.body.removeChild(link);
     };
 
-    const runDataQuery = useCallback((args: { [key: string]: any }): string => {
-        const { signal_name, statistic, start_timestamp, end_timestamp } = args;
-    
-        if (!signal_name) {
-            return "Error: A signal name must be provided.";
-        }
-    
-        let messagesInRange = processedMessages;
-        if (start_timestamp !== undefined || end_timestamp !== undefined) {
-            messagesInRange = processedMessages.filter(m => {
-                const ts = Number(m.timestamp);
-                const startOk = start_timestamp === undefined || ts >= start_timestamp;
-                const endOk = end_timestamp === undefined || ts <= end_timestamp;
-                return startOk && endOk;
-            });
-        }
-    
-        if (messagesInRange.length === 0) {
-            return `No data found for signal '${signal_name}' in the specified time range.`;
-        }
-    
-        const values = messagesInRange
-            .map(m => m.decoded?.[signal_name])
-            .filter(v => typeof v === 'number' && isFinite(v)) as number[];
-    
-        if (values.length === 0) {
-            return `Signal '${signal_name}' was found, but it contained no numeric values in the specified range.`;
-        }
-    
-        const unit = getSignalUnit(signal_name);
-    
-        switch (statistic) {
-            case 'MAX':
-                return `The maximum value for ${signal_name} was ${Math.max(...values).toFixed(4)} ${unit}.`;
-            case 'MIN':
-                return `The minimum value for ${signal_name} was ${Math.min(...values).toFixed(4)} ${unit}.`;
-            case 'AVERAGE':
-                const sum = values.reduce((a, b) => a + b, 0);
-                return `The average value for ${signal_name} was ${(sum / values.length).toFixed(4)} ${unit}.`;
-            case 'COUNT':
-                return `There were ${values.length} data points for ${signal_name} in the specified range.`;
-            case 'EVENTS':
-                 const uniqueValues = [...new Set(values)];
-                 if (uniqueValues.length < 10) {
-                     return `The signal ${signal_name} changed to these values: ${uniqueValues.join(', ')} ${unit}.`;
-                 } else {
-                     return `The signal ${signal_name} had ${values.length} data points, changing frequently between ${Math.min(...values).toFixed(4)} and ${Math.max(...values).toFixed(4)} ${unit}.`;
-                 }
-            default:
-                 const firstVal = values[0].toFixed(4);
-                 const lastVal = values[values.length - 1].toFixed(4);
-                return `Query for ${signal_name} returned ${values.length} points, starting at ${firstVal} and ending at ${lastVal} ${unit}. The average was ${(values.reduce((a, b) => a + b, 0) / values.length).toFixed(4)} ${unit}.`;
-        }
-    }, [processedMessages]);
+    const handleDashboardAction = useCallback((action: DashboardAction) => {
+        setShowChart(true);
+        setActiveView('signals');
+        setDashboardActions(prev => [...prev, action]);
+    }, []);
+
+    const handleDashboardActionsApplied = useCallback((applied: DashboardAction[]) => {
+        setDashboardActions(prev => prev.filter(action => !applied.includes(action)));
+    }, []);
+
+    const executeTool = useMemo(() => createAnalysisToolExecutor({
+        signals,
+        matrix,
+        frames,
+        faults: faultResults,
+        logBounds,
+        onDashboardAction: handleDashboardAction,
+    }), [signals, matrix, frames, faultResults, logBounds, handleDashboardAction]);
+
+    const handleSaveLlmSettings = (settings: LlmSettings) => {
+        setLlmSettings(settings);
+        saveLlmSettings(settings);
+        setShowLlmSettings(false);
+    };
     
     const handleAnalyze = async () => {
         setIsAnalyzing(true);
         setError(null);
 
         try {
-            // FIX: Use process.env.API_KEY directly as per the coding guidelines.
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const provider = await createLlmProvider(llmSettings);
             const initialPrompt = getInitialAnalysisPrompt();
             setInitialPromptText(initialPrompt);
 
-            const initialHistory: Content[] = [{
-                role: 'user',
-                parts: [{ text: initialPrompt }]
-            }];
+            const initialHistory: LlmMessage[] = [{ role: 'user', text: initialPrompt }];
             
             setChatHistory(initialHistory);
             
-            const response = await ai.models.generateContent({
-                model: modelName,
-                contents: initialHistory,
-                config: {
-                    systemInstruction,
-                    tools: [{ functionDeclarations: [canDataQueryTool] }]
-                }
-            });
-            
-            const modelResponsePart = response.candidates?.[0]?.content;
-            if (modelResponsePart) {
-                setChatHistory(prev => [...prev, modelResponsePart]);
-            }
+            const replies = await runChatTurn(provider, { systemInstruction, messages: initialHistory, tools: CHAT_TOOLS }, executeTool);
+            setChatHistory(prev => [...prev, ...replies]);
         } catch (err) {
             const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during analysis.';
             setError(`Failed to start analysis. ${errorMessage}`);
@@ -206,57 +224,16 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
         setIsAnalyzing(true);
         setError(null);
 
-        const newUserContent: Content = { role: 'user', parts: [{ text: message }] };
+        const newUserMessage: LlmMessage = { role: 'user', text: message };
         
         setChatHistory(prevHistory => {
-            const currentHistory = [...prevHistory, newUserContent];
+            const currentHistory = [...prevHistory, newUserMessage];
             
             const getResponse = async () => {
                 try {
-                    // FIX: Use process.env.API_KEY directly as per the coding guidelines.
-                    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-                    let response = await ai.models.generateContent({
-                        model: modelName,
-                        contents: currentHistory,
-                        config: {
-                            systemInstruction,
-                            tools: [{ functionDeclarations: [canDataQueryTool] }]
-                        }
-                    });
-
-                    let modelResponsePart = response.candidates?.[0]?.content;
-                    let historyForNextTurn = [...currentHistory];
-
-                    while (modelResponsePart?.parts.some(p => p.functionCall)) {
-                        const functionCallPart = modelResponsePart.parts.find(p => p.functionCall)!;
-                        const { name, args } = functionCallPart.functionCall!;
-
-                        if (name === 'query_can_data') {
-                            const result = runDataQuery(args);
-                            
-                            historyForNextTurn.push(modelResponsePart);
-                            historyForNextTurn.push({
-                                role: 'tool',
-                                parts: [{ functionResponse: { name, response: { result } } }]
-                            });
-
-                            response = await ai.models.generateContent({
-                                model: modelName,
-                                contents: historyForNextTurn,
-                                config: {
-                                    systemInstruction,
-                                    tools: [{ functionDeclarations: [canDataQueryTool] }]
-                                }
-                            });
-                            modelResponsePart = response.candidates?.[0]?.content;
-                        } else {
-                            break; 
-                        }
-                    }
-
-                    if (modelResponsePart) {
-                         setChatHistory(prev => [...prev, modelResponsePart]);
-                    }
+                    const provider = await createLlmProvider(llmSettings);
+                    const replies = await runChatTurn(provider, { systemInstruction, messages: currentHistory, tools: CHAT_TOOLS }, executeTool);
+                    setChatHistory(prev => [...prev, ...replies]);
                 } catch(err) {
                      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
                     setError(`Failed to get response. ${errorMessage}`);
@@ -270,6 +247,37 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
         });
     }
 
+    const handleShowInChart = useCallback((timestamp: number) => {
+        setCursorTime(timestamp);
+        setActiveView('signals');
+    }, []);
+
+    const handleChatReferenceClick = useCallback((reference: ChatReference) => {
+        switch (reference.type) {
+            case 'time':
+                setShowChart(true);
+                handleShowInChart(reference.time);
+                break;
+            case 'range': {
+                const margin = (reference.end - reference.start) * 0.1;
+                handleDashboardAction({ type: 'zoom', start: reference.start - margin, end: reference.end + margin });
+                handleDashboardAction({ type: 'select', start: reference.start, end: reference.end });
+                break;
+            }
+            case 'signal':
+                handleDashboardAction({ type: 'showSignals', signalKeys: [reference.signalKey], replace: false });
+                break;
+        }
+    }, [handleShowInChart, handleDashboardAction]);
+
+    const isSignalName = useCallback((name: string) => Object.prototype.hasOwnProperty.call(signals, name), [signals]);
+
+    const handleFaultOccurrenceSelect = useCallback((start: number, end: number, signalKeys: string[]) => {
+        setShowChart(true);
+        setActiveView('signals');
+        setChartViewRequest({ start, end, signalKeys });
+    }, []);
+
     const handleResetChat = useCallback(() => {
         setChatHistory([]);
         setInitialPromptText(null);
@@ -295,6 +303,27 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
                 </button>
             </div>
 
+            {fileInfos.length > 0 && (
+                <ul className="space-y-1 text-sm text-gray-400">
+                    {fileInfos.map((info, index) => (
+                        <li key={index} className="flex flex-wrap gap-x-4">
+                            <span className="text-gray-200 font-medium">{info.fileName}</span>
+                            <span>Format: {info.format}</span>
+                            {info.startTime && (
+                                <span>Recorded: {info.startDate !== undefined ? new Date(info.startDate).toLocaleString() : info.startTime}</span>
+                            )}
+                            {info.timeShift !== undefined && info.timeShift !== 0 && (
+                                <span>Time shifted by {info.timeShift > 0 ? '+' : ''}{info.timeShift.toFixed(3)} s</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <p className={`text-xs ${sessionError || sessionSaveError ? 'text-yellow-400' : 'text-gray-500'}`}>
+                {sessionError || sessionSaveError || (sessionId ? 'Saved as a local session; reopen it from the start page.' : 'Saving as a local session…')}
+            </p>
+
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <button onClick={() => setShowChart(prev => !prev)} className="w-full inline-flex items-center justify-center px-4 py-2 border border-teal-500/50 text-sm font-medium rounded-lg shadow-sm text-teal-300 bg-teal-600/20 hover:bg-teal-600/40 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-teal-500 transition-all duration-300 transform hover:scale-105">
                     <LineChartIcon className="w-5 h-5 mr-2" />
@@ -317,16 +346,94 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
                     )
                 }
             </div>
+
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>Analysis model: {getLlmProviderLabel(llmSettings)}</span>
+                <button onClick={() => setShowLlmSettings(prev => !prev)} className="text-purple-300 hover:underline">
+                    {showLlmSettings ? 'Close settings' : 'Change'}
+                </button>
+            </div>
+            {showLlmSettings && (
+                <LlmSettingsPanel settings={llmSettings} onSave={handleSaveLlmSettings} onClose={() => setShowLlmSettings(false)} />
+            )}
             
             {showChart && (
                 <div className="border-t pt-6 space-y-4 animate-fade-in" style={{ borderColor: 'var(--color-border)'}}>
-                    <Dashboard messages={processedMessages} />
+                    <div className="flex gap-2">
+                        {([['signals', 'Signals'], ['trace', 'Trace'], ['bus', 'Bus Statistics'], ['export', 'Export'], ['convert', 'Convert Log']] as const).map(([view, label]) => (
+                            <button
+                                key={view}
+                                onClick={() => setActiveView(view)}
+                                className={`px-4 py-1.5 text-sm font-medium rounded-lg border transition-colors ${activeView === view ? 'border-teal-500/50 text-teal-300 bg-teal-600/30' : 'border-gray-500/30 text-gray-400 hover:bg-gray-600/20'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {/* Both views stay mounted so that zoom, selection and scroll positions survive switching. */}
+                    <div className={activeView === 'signals' ? '' : 'hidden'}>
+                        <Dashboard
+                            signals={signals}
+                            matrix={matrix}
+                            cursorTime={cursorTime}
+                            viewRequest={chartViewRequest}
+                            actionRequests={dashboardActions}
+                            onActionsApplied={handleDashboardActionsApplied}
+                            onVisibleRangeChange={setVisibleRange}
+                            initialLayout={dashboardLayoutRef.current}
+                            onLayoutChange={handleLayoutChange}
+                        />
+                    </div>
+                    <div className={activeView === 'trace' ? '' : 'hidden'}>
+                        <TraceView
+                            frames={frames}
+                            matrix={matrix}
+                            cursorTime={cursorTime}
+                            onCursorTimeChange={setCursorTime}
+                            onShowInChart={handleShowInChart}
+                            sourceNames={fileInfos.map(info => info.fileName)}
+                        />
+                    </div>
+                    {/* Statistics go over every frame, so they are only computed while the view is open. */}
+                    {activeView === 'bus' && (
+                        <BusStatistics frames={frames} matrix={matrix} onShowInChart={handleShowInChart} sourceNames={fileInfos.map(info => info.fileName)} />
+                    )}
+                    {activeView === 'export' && (
+                        <DataExport
+                            signals={signals}
+                            matrix={matrix}
+                            logBounds={logBounds}
+                            visibleRange={visibleRange}
+                            initialSignalKeys={dashboardLayoutRef.current?.selectedSignals ?? []}
+                            startDate={logStartDate}
+                            baseFileName={fileInfos[0]?.fileName.replace(/\.[^/.]+$/, '') || 'can_log'}
+                        />
+                    )}
+                    {activeView === 'convert' && (
+                        <LogConversion
+                            frames={frames}
+                            visibleRange={visibleRange}
+                            startDate={logStartDate}
+                            baseFileName={fileInfos[0]?.fileName.replace(/\.[^/.]+$/, '') || 'can_log'}
+                        />
+                    )}
                 </div>
             )}
 
              {showFaultReport && (
                  <div className="border-t pt-6 space-y-4 animate-fade-in" style={{ borderColor: 'var(--color-border)'}}>
-                    <FaultAnalysis messages={processedMessages} />
+                    <FaultAnalysis
+                        signals={signals}
+                        matrix={matrix}
+                        results={faultResults}
+                        ruleSet={faultRuleSet}
+                        onRuleSetChange={setFaultRuleSet}
+                        onResetRules={handleResetFaultRules}
+                        logBounds={logBounds}
+                        visibleRange={showChart ? visibleRange : null}
+                        onOccurrenceSelect={handleFaultOccurrenceSelect}
+                    />
+                    {hasJ1939Data && <J1939Analysis frames={frames} matrix={matrix} />}
                 </div>
             )}
             
@@ -360,6 +467,8 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ initialMessages, i
                         messages={chatMessagesForDisplay}
                         onSendMessage={handleSendChatMessage}
                         isLoading={isAnalyzing}
+                        isSignalName={isSignalName}
+                        onReferenceClick={handleChatReferenceClick}
                     />
                 </div>
             )}
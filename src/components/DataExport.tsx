@@ -0,0 +1,209 @@
+import React, { useState, useMemo } from 'react';
+import type { CanMatrix, SignalStore } from '../types';
+import { getSignalNames } from '../services/signalStore';
+import type { ExportFormat, ResamplingMode } from '../services/dataExport';
+import { Spinner } from './Spinner';
+import { DownloadIcon } from './IconComponents';
+
+interface DataExportProps {
+    signals: SignalStore;
+    matrix: CanMatrix;
+    logBounds: { start: number; end: number } | null;
+    visibleRange: { start: number; end: number } | null;
+    // Signals preselected when the view opens, e.g. those on the chart.
+    initialSignalKeys: string[];
+    // Epoch milliseconds of time zero, when the log records it.
+    startDate?: number;
+    baseFileName: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+    { format: 'mf4', label: 'MDF4 (.mf4)', description: 'One channel group per message' },
+    { format: 'parquet', label: 'Parquet', description: 'One column per signal' },
+    { format: 'xlsx', label: 'Excel (.xlsx)', description: 'One sheet per message' },
+];
+
+const RESAMPLING_MODES: { mode: ResamplingMode; label: string; description: string }[] = [
+    { mode: 'raw', label: 'Raw', description: 'Samples as logged; cells stay empty where a signal was not sampled.' },
+    { mode: 'fixed', label: 'Fixed rate', description: 'A regular time grid with values interpolated between samples.' },
+    { mode: 'hold', label: 'Zero-order hold', description: 'Every sample time of the exported signals, each signal holding its last value.' },
+];
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const DataExport: React.FC<DataExportProps> = ({ signals, matrix, logBounds, visibleRange, initialSignalKeys, startDate, baseFileName }) => {
+    const signalNames = useMemo(() => getSignalNames(signals), [signals]);
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(initialSignalKeys.length > 0 ? initialSignalKeys.filter(key => signals[key]) : signalNames));
+    const [search, setSearch] = useState('');
+    const [format, setFormat] = useState<ExportFormat>('mf4');
+    const [resampling, setResampling] = useState<ResamplingMode>('raw');
+    const [rate, setRate] = useState('100');
+    const [start, setStart] = useState(logBounds ? String(logBounds.start) : '');
+    const [end, setEnd] = useState(logBounds ? String(logBounds.end) : '');
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Signals grouped by message, filtered by the search text.
+    const groups = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        const byMessage = new Map<string, string[]>();
+        signalNames.forEach(key => {
+            if (query && !key.toLowerCase().includes(query)) return;
+            const { messageName } = signals[key];
+            byMessage.set(messageName, [...(byMessage.get(messageName) ?? []), key]);
+        });
+        return Array.from(byMessage.entries()).sort(([a], [b]) => a.localeCompare(b));
+    }, [signalNames, signals, search]);
+
+    const setKeysSelected = (keys: string[], isSelected: boolean) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            keys.forEach(key => { if (isSelected) next.add(key); else next.delete(key); });
+            return next;
+        });
+    };
+
+    const applyRange = (range: { start: number; end: number } | null) => {
+        if (!range) return;
+        setStart(String(parseFloat(range.start.toFixed(6))));
+        setEnd(String(parseFloat(range.end.toFixed(6))));
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            const { exportSignals } = await import('../services/dataExport');
+            const signalKeys = signalNames.filter(key => selected.has(key));
+            const blob = exportSignals(format, signals, matrix, {
+                signalKeys,
+                start: start.trim() ? Number(start) : logBounds?.start ?? 0,
+                end: end.trim() ? Number(end) : logBounds?.end ?? 0,
+                resampling,
+                rate: Number(rate),
+            }, startDate);
+            downloadBlob(blob, `${baseFileName}_signals.${format}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The export failed.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const inputClass = 'mt-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <div className="flex flex-col gap-3 h-[80vh] overflow-auto custom-scrollbar bg-gray-100 text-gray-800 rounded-lg border border-gray-300 text-sm p-3">
+            <div className="flex flex-wrap items-end gap-4 p-2 bg-white rounded-md border border-gray-300">
+                <fieldset className="flex flex-col text-xs text-gray-600">
+                    <legend>Format</legend>
+                    <div className="mt-1 flex rounded-md border border-gray-300 overflow-hidden">
+                        {FORMATS.map(option => (
+                            <button
+                                key={option.format}
+                                onClick={() => setFormat(option.format)}
+                                title={option.description}
+                                className={`px-3 py-1.5 ${format === option.format ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </fieldset>
+                <label className="flex flex-col text-xs text-gray-600">
+                    From (s)
+                    <input type="number" value={start} onChange={e => setStart(e.target.value)} placeholder="Start of log" className={`${inputClass} w-28`} />
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    To (s)
+                    <input type="number" value={end} onChange={e => setEnd(e.target.value)} placeholder="End of log" className={`${inputClass} w-28`} />
+                </label>
+                <div className="flex gap-2">
+                    <button onClick={() => applyRange(logBounds)} disabled={!logBounds} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50">Whole log</button>
+                    <button onClick={() => applyRange(visibleRange)} disabled={!visibleRange} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50">Chart view</button>
+                </div>
+                <label className="flex flex-col text-xs text-gray-600">
+                    Resampling
+                    <select value={resampling} onChange={e => setResampling(e.target.value as ResamplingMode)} className={`${inputClass} bg-white`}>
+                        {RESAMPLING_MODES.map(option => <option key={option.mode} value={option.mode}>{option.label}</option>)}
+                    </select>
+                </label>
+                {resampling === 'fixed' && (
+                    <label className="flex flex-col text-xs text-gray-600">
+                        Rate (Hz)
+                        <input
+                            type="number"
+                            min={0}
+                            value={rate}
+                            onChange={e => setRate(e.target.value)}
+                            className={`${inputClass} w-20 ${Number(rate) > 0 ? '' : 'border-red-500 bg-red-50'}`}
+                        />
+                    </label>
+                )}
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting || selected.size === 0}
+                    className="ml-auto inline-flex items-center gap-2 px-4 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    {isExporting ? <Spinner /> : <DownloadIcon className="w-4 h-4" />}
+                    Export {selected.size} signal{selected.size === 1 ? '' : 's'}
+                </button>
+            </div>
+
+            <p className="px-1 text-xs text-gray-500">{RESAMPLING_MODES.find(option => option.mode === resampling)?.description}</p>
+            {error && <p className="px-1 text-xs text-red-600">{error}</p>}
+
+            <div className="flex flex-col min-h-0 flex-1 p-2 bg-white rounded-md border border-gray-300">
+                <div className="flex items-center gap-3 mb-2">
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        placeholder="Filter signals"
+                        className={`${inputClass} mt-0 w-56`}
+                    />
+                    <button onClick={() => setKeysSelected(groups.flatMap(([, keys]) => keys), true)} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200">Select all</button>
+                    <button onClick={() => setKeysSelected(groups.flatMap(([, keys]) => keys), false)} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200">Select none</button>
+                    <span className="ml-auto text-xs text-gray-500">{selected.size} of {signalNames.length} signals selected</span>
+                </div>
+                <div className="flex-1 overflow-auto custom-scrollbar space-y-2">
+                    {groups.map(([messageName, keys]) => {
+                        const selectedCount = keys.filter(key => selected.has(key)).length;
+                        return (
+                            <div key={messageName}>
+                                <label className="flex items-center gap-2 font-semibold text-gray-700 text-xs">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedCount === keys.length}
+                                        ref={el => { if (el) el.indeterminate = selectedCount > 0 && selectedCount < keys.length; }}
+                                        onChange={e => setKeysSelected(keys, e.target.checked)}
+                                    />
+                                    {messageName}
+                                </label>
+                                <div className="ml-6 flex flex-wrap gap-x-4 gap-y-1 mt-1">
+                                    {keys.map(key => (
+                                        <label key={key} className="flex items-center gap-1.5 text-xs text-gray-600">
+                                            <input type="checkbox" checked={selected.has(key)} onChange={e => setKeysSelected([key], e.target.checked)} />
+                                            {signals[key].signalName}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {groups.length === 0 && <p className="text-xs text-gray-500">No signals match the filter.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
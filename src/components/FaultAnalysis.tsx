@@ -1,81 +1,350 @@
-
-import React, { useMemo } from 'react';
-import type { CANMessage } from '../types';
-import { AlertTriangleIcon, CheckCircleIcon } from './IconComponents';
+import React, { useMemo, useRef, useState } from 'react';
+import type { CanMatrix, SignalStore } from '../types';
+import type { FaultOccurrence, FaultSeverity } from '../services/faultEvents';
+import { parseFaultRuleSet, serializeFaultRuleSet } from '../services/faultRules';
+import type { FaultRuleResult, FaultRuleSet } from '../services/faultRules';
+import { buildFaultSnapshot, buildFaultSnapshots, faultSnapshotsToCsv } from '../services/faultSnapshots';
+import { getSignalUnit } from '../services/matrixParser';
+import { AlertTriangleIcon, CameraIcon, CheckCircleIcon, ChevronDownIcon, ChevronRightIcon, DownloadIcon, PencilIcon, UploadCloudIcon, ZoomInIcon } from './IconComponents';
 
 interface FaultAnalysisProps {
-    messages: CANMessage[];
+    signals: SignalStore;
+    matrix: CanMatrix;
+    results: FaultRuleResult[];
+    ruleSet: FaultRuleSet;
+    onRuleSetChange: (ruleSet: FaultRuleSet) => void;
+    onResetRules: () => void;
+    logBounds: { start: number; end: number } | null;
+    // Time window visible on the Dashboard; the lanes use the same axis.
+    visibleRange: { start: number; end: number } | null;
+    onOccurrenceSelect: (start: number, end: number, signalKeys: string[]) => void;
 }
 
-interface AnalysisResult {
-    generated: string[];
-    notGenerated: string[];
-}
+const SEVERITY_STYLES: Record<FaultSeverity, { bar: string; badge: string }> = {
+    info: { bar: 'bg-sky-500', badge: 'bg-sky-900/50 text-sky-300 border-sky-700/60' },
+    warning: { bar: 'bg-yellow-500', badge: 'bg-yellow-900/50 text-yellow-300 border-yellow-700/60' },
+    error: { bar: 'bg-orange-500', badge: 'bg-orange-900/50 text-orange-300 border-orange-700/60' },
+    critical: { bar: 'bg-red-600', badge: 'bg-red-900/50 text-red-300 border-red-700/60' },
+};
 
-export const FaultAnalysis: React.FC<FaultAnalysisProps> = ({ messages }) => {
-    const analysisResult = useMemo<AnalysisResult>(() => {
-        const faultSignals = new Set<string>();
-        messages.forEach(msg => {
-            if (msg.decoded) {
-                Object.keys(msg.decoded).forEach(signalName => {
-                    if (signalName.toLowerCase().includes('fault')) {
-                        faultSignals.add(signalName);
-                    }
-                });
-            }
-        });
+const AXIS_TICKS = 5;
+// Bars narrower than this (percent of the lane) are widened so that short pulses stay visible and clickable.
+const MIN_BAR_WIDTH = 0.4;
+
+const formatDuration = (seconds: number) => seconds < 1 ? `${(seconds * 1000).toFixed(1)} ms` : `${seconds.toFixed(3)} s`;
+const formatValue = (value?: number) => value === undefined ? '–' : Number.isInteger(value) ? String(value) : value.toPrecision(6).replace(/\.?0+$/, '');
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+export const FaultAnalysis: React.FC<FaultAnalysisProps> = ({ signals, matrix, results, ruleSet, onRuleSetChange, onResetRules, logBounds, visibleRange, onOccurrenceSelect }) => {
+    const [preWindow, setPreWindow] = useState(2);
+    const [postWindow, setPostWindow] = useState(2);
+    const [expandedFaults, setExpandedFaults] = useState<Set<string>>(new Set());
+    const [ruleEditorText, setRuleEditorText] = useState<string | null>(null);
+    const [ruleError, setRuleError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [baselineWindow, setBaselineWindow] = useState(10);
+    const [snapshotTarget, setSnapshotTarget] = useState<{ faultKey: string; occurrence: number } | null>(null);
+
+    const generated = results.filter(result => result.occurrences.length > 0);
+    const notGenerated = results.filter(result => result.occurrences.length === 0 && !result.error);
+    const failedRules = results.filter(result => result.error);
+    const hasFaults = generated.length > 0;
+
+    const snapshotOptions = useMemo(() => ({ preWindow, baselineWindow }), [preWindow, baselineWindow]);
+    const snapshot = useMemo(() => {
+        if (!snapshotTarget) return null;
+        const fault = results.find(result => result.key === snapshotTarget.faultKey);
+        const occurrence = fault?.occurrences[snapshotTarget.occurrence];
+        return fault && occurrence ? buildFaultSnapshot(fault, occurrence, signals, snapshotOptions) : null;
+    }, [snapshotTarget, results, signals, snapshotOptions]);
 
-        const generated: string[] = [];
-        const notGenerated: string[] = [];
+    const hasClearSignals = notGenerated.length > 0;
 
-        faultSignals.forEach(signalName => {
-            const hasOccurred = messages.some(msg => msg.decoded?.[signalName] === 1);
-            if (hasOccurred) {
-                generated.push(signalName);
-            } else {
-                notGenerated.push(signalName);
-            }
+    const axis = visibleRange ?? logBounds ?? { start: 0, end: 1 };
+    const span = Math.max(axis.end - axis.start, 1e-9);
+    const toPercent = (time: number) => ((time - axis.start) / span) * 100;
+    const logEnd = logBounds?.end ?? 0;
+
+    const selectOccurrence = (occurrence: FaultOccurrence, result: FaultRuleResult) => {
+        const end = occurrence.clear ?? logEnd;
+        onOccurrenceSelect(occurrence.onset - preWindow, end + postWindow, result.signalKeys);
+    };
+
+    const applyRuleSet = (json: string): boolean => {
+        try {
+            onRuleSetChange(parseFaultRuleSet(json));
+            setRuleError(null);
+            return true;
+        } catch (e) {
+            setRuleError(e instanceof Error ? e.message : String(e));
+            return false;
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        if (applyRuleSet(await file.text())) setRuleEditorText(null);
+    };
+
+    const handleExport = () => downloadFile(serializeFaultRuleSet(ruleSet), 'fault_rules.json', 'application/json;charset=utf-8;');
+
+    const handleSnapshotExport = (format: 'csv' | 'json') => {
+        const snapshots = buildFaultSnapshots(generated, signals, snapshotOptions);
+        if (format === 'csv') {
+            downloadFile(faultSnapshotsToCsv(snapshots, key => getSignalUnit(matrix, key)), 'fault_snapshots.csv', 'text/csv;charset=utf-8;');
+        } else {
+            downloadFile(JSON.stringify(snapshots, null, 2), 'fault_snapshots.json', 'application/json;charset=utf-8;');
+        }
+    };
+
+    const toggleRule = (id: string) => {
+        onRuleSetChange({
+            ...ruleSet,
+            rules: ruleSet.rules.map(rule => rule.id === id ? { ...rule, enabled: rule.enabled === false } : rule),
         });
+    };
 
-        return { 
-            generated: generated.sort(), 
-            notGenerated: notGenerated.sort() 
-        };
-    }, [messages]);
+    const toggleExpanded = (key: string) => {
+        setExpandedFaults(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
+    };
 
-    const hasFaults = analysisResult.generated.length > 0;
-    const hasClearSignals = analysisResult.notGenerated.length > 0;
+    const toolbarButtonClass = 'inline-flex items-center px-3 py-1 text-xs rounded-md border border-gray-600 text-gray-300 hover:bg-gray-600/30';
+    const windowInputClass = 'w-16 ml-2 px-2 py-0.5 text-xs rounded-md bg-gray-800/60 border border-gray-600 text-gray-200 focus:outline-none focus:ring-1 focus:ring-orange-500';
 
     return (
         <div className="border rounded-lg p-4 sm:p-6 space-y-6" style={{ backgroundColor: 'rgba(13, 119, 248, 0.03)', borderColor: 'var(--color-border)' }}>
-            <h3 className="text-xl font-semibold text-gray-200">Fault Analysis Report</h3>
-            
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-xl font-semibold text-gray-200">Fault Analysis Report</h3>
+                <div className="flex items-center gap-4 text-xs text-gray-400">
+                    <label>Before onset (s)<input type="number" min={0} step={0.5} value={preWindow} onChange={e => setPreWindow(Math.max(0, Number(e.target.value) || 0))} className={windowInputClass} /></label>
+                    <label>Baseline (s)<input type="number" min={0} step={1} value={baselineWindow} onChange={e => setBaselineWindow(Math.max(0, Number(e.target.value) || 0))} className={windowInputClass} title="Time before the pre-window that shows how each signal normally behaves" /></label>
+                    <label>After clear (s)<input type="number" min={0} step={0.5} value={postWindow} onChange={e => setPostWindow(Math.max(0, Number(e.target.value) || 0))} className={windowInputClass} /></label>
+                </div>
+            </div>
+
+            <div className="rounded-md border border-gray-700 p-3 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-300 mr-2">Rules ({ruleSet.rules.length})</span>
+                    <button onClick={() => importInputRef.current?.click()} className={toolbarButtonClass}><UploadCloudIcon className="w-3.5 h-3.5 mr-1" />Import</button>
+                    <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+                    <button onClick={handleExport} className={toolbarButtonClass}><DownloadIcon className="w-3.5 h-3.5 mr-1" />Export</button>
+                    <button onClick={() => { setRuleEditorText(ruleEditorText === null ? serializeFaultRuleSet(ruleSet) : null); setRuleError(null); }} className={toolbarButtonClass}>
+                        <PencilIcon className="w-3.5 h-3.5 mr-1" />{ruleEditorText === null ? 'Edit' : 'Close editor'}
+                    </button>
+                    <button onClick={() => { onResetRules(); setRuleEditorText(null); setRuleError(null); }} className={toolbarButtonClass}>Reset to defaults</button>
+                </div>
+                {ruleEditorText !== null && (
+                    <div className="space-y-2">
+                        <textarea
+                            value={ruleEditorText}
+                            onChange={e => setRuleEditorText(e.target.value)}
+                            spellCheck={false}
+                            className="w-full h-64 p-2 font-mono text-xs rounded-md bg-gray-900/60 border border-gray-600 text-gray-200 focus:outline-none focus:ring-1 focus:ring-orange-500 custom-scrollbar"
+                        />
+                        <button onClick={() => { if (applyRuleSet(ruleEditorText)) setRuleEditorText(null); }} className="px-3 py-1 text-xs rounded-md border border-orange-500/50 text-orange-300 bg-orange-600/20 hover:bg-orange-600/40">Apply</button>
+                    </div>
+                )}
+                {ruleError && <p className="text-xs text-red-400">{ruleError}</p>}
+                {ruleSet.rules.length > 0 && (
+                    <div className="max-h-40 overflow-y-auto custom-scrollbar flex flex-wrap gap-2">
+                        {ruleSet.rules.map(rule => (
+                            <label key={rule.id} className={`inline-flex items-center px-2 py-0.5 text-xs rounded border cursor-pointer ${SEVERITY_STYLES[rule.severity].badge} ${rule.enabled === false ? 'opacity-40' : ''}`} title={rule.description ?? rule.id}>
+                                <input type="checkbox" checked={rule.enabled !== false} onChange={() => toggleRule(rule.id)} className="mr-1.5" />
+                                {rule.name}
+                            </label>
+                        ))}
+                    </div>
+                )}
+                {failedRules.map(result => (
+                    <p key={result.key} className="text-xs text-yellow-400">{result.name}: {result.error}</p>
+                ))}
+            </div>
+
             {!hasFaults && !hasClearSignals && (
-                 <p className="text-gray-400 text-center py-4">No signals containing the word "Fault" were found in the data.</p>
+                 <p className="text-gray-400 text-center py-4">No fault rules apply to this log. Signals containing the word "Fault" get a rule by default; import or edit rules for others.</p>
             )}
 
             {hasFaults && (
                 <div>
-                    <h4 className="font-bold text-lg text-red-400 mb-3">Generated Faults ({analysisResult.generated.length})</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
-                        {analysisResult.generated.map(signalName => (
-                            <div key={signalName} className="flex items-center p-2 rounded-md bg-red-900/40 border border-red-700/60">
-                                <AlertTriangleIcon className="w-5 h-5 text-red-400 mr-3 flex-shrink-0" />
-                                <span className="text-red-200 font-medium text-sm" title={signalName}>{signalName}</span>
+                    <h4 className="font-bold text-lg text-red-400 mb-3">Generated Faults ({generated.length})</h4>
+
+                    {/* Lane chart on the Dashboard's time axis. */}
+                    <div className="mb-4">
+                        <div className="flex text-[10px] text-gray-500">
+                            <div className="w-64 flex-shrink-0" />
+                            <div className="relative flex-1 h-4">
+                                {Array.from({ length: AXIS_TICKS + 1 }, (_, i) => (
+                                    <span key={i} className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full" style={{ left: `${(i / AXIS_TICKS) * 100}%` }}>
+                                        {(axis.start + (span * i) / AXIS_TICKS).toFixed(2)} s
+                                    </span>
+                                ))}
                             </div>
-                        ))}
+                        </div>
+                        <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-1">
+                            {generated.map(timeline => (
+                                <div key={timeline.key} className="flex items-center">
+                                    <div className="w-64 flex-shrink-0 pr-2 text-xs text-red-200 truncate" title={timeline.name}>{timeline.name}</div>
+                                    <div className="relative flex-1 h-5 rounded-sm bg-gray-800/50 overflow-hidden">
+                                        {timeline.occurrences.map((occurrence, i) => {
+                                            const end = occurrence.clear ?? logEnd;
+                                            if (end < axis.start || occurrence.onset > axis.end) return null;
+                                            const left = Math.max(0, toPercent(occurrence.onset));
+                                            const width = Math.max(MIN_BAR_WIDTH, Math.min(100, toPercent(end)) - left);
+                                            return (
+                                                <button
+                                                    key={i}
+                                                    onClick={() => selectOccurrence(occurrence, timeline)}
+                                                    className={`absolute top-0.5 bottom-0.5 rounded-sm hover:ring-1 hover:ring-white ${SEVERITY_STYLES[timeline.severity].bar} ${occurrence.clear === undefined ? 'opacity-100' : 'opacity-80'}`}
+                                                    style={{ left: `${left}%`, width: `${width}%` }}
+                                                    title={`${occurrence.onset.toFixed(6)} s → ${occurrence.clear !== undefined ? `${occurrence.clear.toFixed(6)} s` : 'end of log'} (${formatDuration(occurrence.duration)})`}
+                                                />
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <table className="w-full text-sm text-gray-300">
+                        <thead className="text-xs text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th className="py-1 text-left">Fault</th>
+                                <th className="py-1 text-left">Severity</th>
+                                <th className="py-1 text-right">Occurrences</th>
+                                <th className="py-1 text-right">Active</th>
+                                <th className="py-1 text-right">First onset (s)</th>
+                                <th className="py-1 text-right">Last onset (s)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {generated.map(timeline => {
+                                const isExpanded = expandedFaults.has(timeline.key);
+                                return (
+                                    <React.Fragment key={timeline.key}>
+                                        <tr className="border-b border-gray-800 hover:bg-red-900/20 cursor-pointer" onClick={() => toggleExpanded(timeline.key)}>
+                                            <td className="py-1">
+                                                <span className="inline-flex items-center">
+                                                    {isExpanded ? <ChevronDownIcon className="w-4 h-4 mr-1" /> : <ChevronRightIcon className="w-4 h-4 mr-1" />}
+                                                    <AlertTriangleIcon className="w-4 h-4 text-red-400 mr-2 flex-shrink-0" />
+                                                    <span className="text-red-200">{timeline.name}</span>
+                                                </span>
+                                            </td>
+                                            <td className="py-1">
+                                                <span className={`px-1.5 py-0.5 text-xs rounded border ${SEVERITY_STYLES[timeline.severity].badge}`}>{timeline.severity}</span>
+                                            </td>
+                                            <td className="py-1 text-right">{timeline.occurrences.length}</td>
+                                            <td className="py-1 text-right">{formatDuration(timeline.totalActiveDuration)}</td>
+                                            <td className="py-1 text-right font-mono">{timeline.firstOnset?.toFixed(6)}</td>
+                                            <td className="py-1 text-right font-mono">{timeline.lastOnset?.toFixed(6)}</td>
+                                        </tr>
+                                        {isExpanded && timeline.occurrences.map((occurrence, i) => (
+                                            <tr key={i} className="text-xs text-gray-400">
+                                                <td className="py-0.5 pl-12" colSpan={2}>#{i + 1}</td>
+                                                <td className="py-0.5 text-right font-mono" colSpan={2}>
+                                                    ↑ {occurrence.onset.toFixed(6)} s&nbsp;&nbsp;↓ {occurrence.clear !== undefined ? `${occurrence.clear.toFixed(6)} s` : 'still active'}
+                                                </td>
+                                                <td className="py-0.5 text-right">{formatDuration(occurrence.duration)}</td>
+                                                <td className="py-0.5 text-right whitespace-nowrap">
+                                                    <button onClick={() => setSnapshotTarget({ faultKey: timeline.key, occurrence: i })} className={`inline-flex items-center px-2 py-0.5 rounded text-sky-300 hover:bg-sky-600/30 ${snapshotTarget?.faultKey === timeline.key && snapshotTarget.occurrence === i ? 'bg-sky-600/30' : ''}`} title="Signal values before this onset">
+                                                        <CameraIcon className="w-3.5 h-3.5 mr-1" />Snapshot
+                                                    </button>
+                                                    <button onClick={() => selectOccurrence(occurrence, timeline)} className="inline-flex items-center px-2 py-0.5 rounded text-orange-300 hover:bg-orange-600/30" title="Zoom the Dashboard to this occurrence">
+                                                        <ZoomInIcon className="w-3.5 h-3.5 mr-1" />Zoom
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    <div className="flex items-center gap-2 mt-3">
+                        <span className="text-xs text-gray-400">Snapshots of every occurrence:</span>
+                        <button onClick={() => handleSnapshotExport('csv')} className={toolbarButtonClass}><DownloadIcon className="w-3.5 h-3.5 mr-1" />CSV</button>
+                        <button onClick={() => handleSnapshotExport('json')} className={toolbarButtonClass}><DownloadIcon className="w-3.5 h-3.5 mr-1" />JSON</button>
                     </div>
+
+                    {snapshot && (
+                        <div className="mt-4 rounded-md border border-sky-700/50 p-3">
+                            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                                <h5 className="font-semibold text-sky-300">
+                                    Snapshot: {snapshot.faultName} at {snapshot.onset.toFixed(6)} s
+                                    <span className="ml-2 text-xs font-normal text-gray-400">{snapshot.preWindow} s before onset, against the {baselineWindow} s before that</span>
+                                </h5>
+                                <button onClick={() => setSnapshotTarget(null)} className={toolbarButtonClass}>Close</button>
+                            </div>
+                            <div className="max-h-80 overflow-y-auto custom-scrollbar">
+                                <table className="w-full text-xs text-gray-300">
+                                    <thead className="sticky top-0 bg-gray-900 text-gray-400">
+                                        <tr>
+                                            <th className="py-1 text-right w-10">#</th>
+                                            <th className="py-1 pl-3 text-left">Signal</th>
+                                            <th className="py-1 text-right">At onset</th>
+                                            <th className="py-1 text-right">Min</th>
+                                            <th className="py-1 text-right">Max</th>
+                                            <th className="py-1 text-right">Trend (/s)</th>
+                                            <th className="py-1 text-right" title="Largest deviation from the baseline mean, in baseline standard deviations">Unusualness</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="font-mono">
+                                        {snapshot.signals.map((signal, i) => {
+                                            const unit = getSignalUnit(matrix, signal.key);
+                                            return (
+                                                <tr key={signal.key} className="border-b border-gray-800">
+                                                    <td className="py-0.5 text-right text-gray-500">{i + 1}</td>
+                                                    <td className={`py-0.5 pl-3 font-sans ${signal.isRuleSignal ? 'text-orange-300' : ''}`} title={signal.isRuleSignal ? 'Part of the fault rule' : undefined}>{signal.key}</td>
+                                                    <td className="py-0.5 text-right">{formatValue(signal.value)}{unit && signal.value !== undefined ? ` ${unit}` : ''}</td>
+                                                    <td className="py-0.5 text-right">{formatValue(signal.min)}</td>
+                                                    <td className="py-0.5 text-right">{formatValue(signal.max)}</td>
+                                                    <td className="py-0.5 text-right">{formatValue(signal.trend)}</td>
+                                                    <td className="py-0.5 text-right">
+                                                        {signal.score === undefined ? '–' : (
+                                                            <span className="inline-flex items-center justify-end gap-2">
+                                                                <span className="inline-block h-1.5 rounded bg-sky-500" style={{ width: `${Math.min(60, Math.log10(1 + signal.score) * 20)}px` }} />
+                                                                {signal.score.toFixed(1)}
+                                                            </span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
 
             {hasClearSignals && (
                 <div>
-                    <h4 className="font-bold text-lg text-green-400 mb-3">Clear Signals ({analysisResult.notGenerated.length})</h4>
+                    <h4 className="font-bold text-lg text-green-400 mb-3">Clear ({notGenerated.length})</h4>
                     <div className="max-h-64 overflow-y-auto custom-scrollbar pr-2 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
-                        {analysisResult.notGenerated.map(signalName => (
-                            <div key={signalName} className="flex items-center p-2 rounded-md bg-green-900/30 border border-green-700/50">
+                        {notGenerated.map(({ key, name }) => (
+                            <div key={key} className="flex items-center p-2 rounded-md bg-green-900/30 border border-green-700/50">
                                 <CheckCircleIcon className="w-5 h-5 text-green-400 mr-3 flex-shrink-0" />
-                                <span className="text-green-300 text-sm" title={signalName}>{signalName}</span>
+                                <span className="text-green-300 text-sm" title={name}>{name}</span>
                             </div>
                         ))}
                     </div>
@@ -84,4 +353,4 @@ export const FaultAnalysis: React.FC<FaultAnalysisProps> = ({ messages }) => {
 
         </div>
     );
-};
\ No newline at end of file
+};
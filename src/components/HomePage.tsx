@@ -1,21 +1,57 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { FileUpload } from './FileUpload';
 import { Spinner } from './Spinner';
+import { RecentSessions } from './RecentSessions';
 import { defaultMatrix } from '../services/defaultMatrix';
-import type { CANMessage } from '../types';
-import { FileIcon, AlertTriangleIcon, CodeBracketIcon, ComputerDesktopIcon } from './IconComponents';
+import { parseDbcFile } from '../services/matrixParser';
+import type { CanMatrix, LogFileInfo, SignalStore } from '../types';
+import type { IngestionProgress } from '../services/ingestion';
+import type { EncodedFrames } from '../services/frameCodec';
+import type { MergeMode } from '../services/logMerge';
+import type { LoadedSession } from '../services/sessionStore';
+import { FileIcon, AlertTriangleIcon, CodeBracketIcon, ComputerDesktopIcon, BusIcon } from './IconComponents';
 
 interface HomePageProps {
-    onDataProcessed: (messages: CANMessage[], files: File[]) => void;
+    onDataProcessed: (frames: EncodedFrames, signals: SignalStore, files: File[], matrix: CanMatrix, fileInfos: LogFileInfo[]) => void;
+    onSessionOpen: (session: LoadedSession) => void;
 }
 
-export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
+interface MatrixOption {
+    id: string;
+    name: string;
+    matrix: CanMatrix;
+    isBuiltIn: boolean;
+}
+
+const MERGE_MODES: { mode: MergeMode; label: string; description: string }[] = [
+    { mode: 'interleave', label: 'Interleave by time', description: 'Align the files by their recording start, e.g. loggers on different buses. Files without a recorded start begin with the earliest file.' },
+    { mode: 'sequential', label: 'Append sequentially', description: 'Each file continues where the previous one ends, e.g. consecutive recordings.' },
+    { mode: 'separate', label: 'Separate sources', description: 'Keep each file\'s own time base and tell its channels apart from those of the other files.' },
+];
+
+const BUILT_IN_MATRIX_OPTION: MatrixOption = {
+    id: 'built-in',
+    name: 'Built-in Matrix',
+    matrix: defaultMatrix,
+    isBuiltIn: true,
+};
+
+export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed, onSessionOpen }) => {
     const [files, setFiles] = useState<File[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    const [matrixOptions, setMatrixOptions] = useState<MatrixOption[]>([BUILT_IN_MATRIX_OPTION]);
+    const [selectedMatrixId, setSelectedMatrixId] = useState<string>(BUILT_IN_MATRIX_OPTION.id);
+    const [isJ1939Mode, setIsJ1939Mode] = useState<boolean>(false);
+    const [mergeMode, setMergeMode] = useState<MergeMode>('interleave');
+    // Per-file time offsets in seconds, as typed.
+    const [fileOffsets, setFileOffsets] = useState<string[]>([]);
+    const [progress, setProgress] = useState<IngestionProgress | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const resetState = useCallback(() => {
         setFiles([]);
+        setFileOffsets([]);
         setError(null);
     }, []);
     
@@ -27,49 +63,101 @@ export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
         }
     };
     
+    const handleMatrixFileChange = async (selectedFiles: FileList | null) => {
+        if (!selectedFiles || selectedFiles.length === 0) return;
+        setError(null);
+
+        const uploaded: MatrixOption[] = [];
+        for (const file of Array.from(selectedFiles)) {
+            try {
+                const content = await file.text();
+                const matrix = parseDbcFile(content);
+                if (Object.keys(matrix).length === 0) {
+                    setError(`"${file.name}" does not contain any message definitions.`);
+                    continue;
+                }
+                uploaded.push({
+                    id: `${file.name}-${file.lastModified}-${file.size}`,
+                    name: file.name,
+                    matrix,
+                    isBuiltIn: false,
+                });
+            } catch (err) {
+                setError(`Failed to read "${file.name}". ${err instanceof Error ? err.message : ''}`);
+            }
+        }
+
+        if (uploaded.length === 0) return;
+        setMatrixOptions(prev => [
+            ...prev.filter(option => !uploaded.some(u => u.id === option.id)),
+            ...uploaded,
+        ]);
+        setSelectedMatrixId(uploaded[uploaded.length - 1].id);
+    };
+
+    const handleRemoveMatrix = (id: string) => {
+        setMatrixOptions(prev => prev.filter(option => option.id !== id));
+        if (selectedMatrixId === id) {
+            setSelectedMatrixId(BUILT_IN_MATRIX_OPTION.id);
+        }
+    };
+
+    const handleOffsetChange = (index: number, value: string) => {
+        setFileOffsets(prev => {
+            const next = [...prev];
+            next[index] = value;
+            return next;
+        });
+    };
+
     const processRawLogFiles = useCallback(async () => {
         if (files.length === 0) {
             setError('Please select at least one log file.');
             return;
         }
+        const offsets = files.map((_, i) => Number(fileOffsets[i] || 0));
+        if (offsets.some(offset => !isFinite(offset))) {
+            setError('Time offsets must be numbers of seconds.');
+            return;
+        }
+
+        const selectedMatrix = matrixOptions.find(option => option.id === selectedMatrixId) ?? BUILT_IN_MATRIX_OPTION;
 
         setIsLoading(true);
         setError(null);
 
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+
         try {
-            const { parseCanLogFile, decodeMessages, parseExcelFile } = await import('../services/canParser');
-            let allMessages: CANMessage[] = [];
-
-            for (let i = 0; i < files.length; i++) {
-                const file = files[i];
-                const lowerFileName = file.name.toLowerCase();
-                let messages: CANMessage[] = [];
-
-                if (lowerFileName.endsWith('.xlsx') || lowerFileName.endsWith('.xls')) {
-                    messages = await parseExcelFile(file);
-                } else {
-                    const content = await file.text();
-                    messages = parseCanLogFile(content, file.name);
-                }
-                allMessages.push(...messages);
-            }
-            
-            allMessages = decodeMessages(allMessages, defaultMatrix);
-            
-            if (allMessages.length === 0) {
+            const { ingestLogFiles } = await import('../services/ingestion');
+            const { frames, signals, fileInfos } = await ingestLogFiles(files, selectedMatrix.matrix, {
+                j1939: isJ1939Mode,
+                merge: { mode: mergeMode, offsets },
+                signal: abortController.signal,
+                onProgress: setProgress,
+            });
+
+            if (frames.count === 0) {
                 setError('No valid CAN messages found in the provided files.');
-                setIsLoading(false);
                 return;
             }
             
-            onDataProcessed(allMessages, files);
+            onDataProcessed(frames, signals, files, selectedMatrix.matrix, fileInfos);
 
         } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return;
             setError(err instanceof Error ? err.message : 'An unknown error occurred during parsing.');
         } finally {
+            abortControllerRef.current = null;
+            setProgress(null);
             setIsLoading(false);
         }
-    }, [files, onDataProcessed]);
+    }, [files, fileOffsets, mergeMode, matrixOptions, selectedMatrixId, isJ1939Mode, onDataProcessed]);
+
+    const cancelProcessing = () => {
+        abortControllerRef.current?.abort();
+    };
 
     return (
         <>
@@ -104,7 +192,7 @@ export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
                         <FileUpload 
                             onFileChange={handleFileChange}
                             title="Upload CAN Log File(s)"
-                            description="Drop .log, .trc, .xlsx, or any text-based log here"
+                            description="Drop .log, .trc, .asc, .blf, .mf4, .xlsx, or any text-based log here"
                         />
                     </div>
                 </div>
@@ -117,13 +205,104 @@ export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
                                 <li key={index} className="flex items-center p-3 rounded-lg" style={{backgroundColor: 'rgba(13, 119, 248, 0.05)', border: '1px solid var(--color-border)'}}>
                                     <FileIcon className="w-5 h-5 text-blue-400 mr-4 flex-shrink-0" />
                                     <span className="text-gray-200 truncate font-medium">{file.name}</span>
-                                    <span className="ml-auto text-gray-500 text-sm pl-4">{(file.size / 1024).toFixed(2)} KB</span>
+                                    <span className="ml-auto text-gray-500 text-sm pl-4 whitespace-nowrap">{(file.size / 1024).toFixed(2)} KB</span>
+                                    {files.length > 1 && (
+                                        <label className="ml-4 flex items-center gap-2 text-sm text-gray-400 whitespace-nowrap" title="Seconds added to this file's timestamps after alignment">
+                                            Offset
+                                            <input
+                                                type="number"
+                                                step="0.001"
+                                                value={fileOffsets[index] ?? ''}
+                                                placeholder="0"
+                                                onChange={e => handleOffsetChange(index, e.target.value)}
+                                                className="w-24 px-2 py-1 text-sm rounded-md bg-gray-800 border border-gray-600 text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                            />
+                                            s
+                                        </label>
+                                    )}
                                 </li>
                             ))}
                         </ul>
+                        {files.length > 1 && (
+                            <fieldset className="mt-4 space-y-2">
+                                <legend className="font-semibold text-gray-300 mb-2">Merge Files:</legend>
+                                {MERGE_MODES.map(option => (
+                                    <label key={option.mode} className="flex items-start gap-3 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name="mergeMode"
+                                            checked={mergeMode === option.mode}
+                                            onChange={() => setMergeMode(option.mode)}
+                                            className="w-4 h-4 mt-0.5 text-blue-600 bg-gray-700 border-gray-500 focus:ring-blue-500 flex-shrink-0"
+                                        />
+                                        <span>
+                                            <span className="text-gray-200 font-medium">{option.label}</span>
+                                            <span className="block text-sm text-gray-500">{option.description}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </fieldset>
+                        )}
                     </div>
                 )}
 
+                <div className="border-t pt-6 space-y-4" style={{ borderColor: 'var(--color-border)'}}>
+                    <h3 className="font-semibold text-gray-300 text-lg">Signal Matrix:</h3>
+                    <FileUpload
+                        onFileChange={handleMatrixFileChange}
+                        title="Upload DBC File(s)"
+                        description="Drop the matrix for your vehicle program here"
+                        accept=".dbc"
+                    />
+                    <ul className="space-y-2">
+                        {matrixOptions.map(option => {
+                            const isSelected = option.id === selectedMatrixId;
+                            return (
+                                <li key={option.id}>
+                                    <label
+                                        className="flex items-center p-3 rounded-lg cursor-pointer"
+                                        style={{
+                                            backgroundColor: isSelected ? 'rgba(13, 119, 248, 0.15)' : 'rgba(13, 119, 248, 0.05)',
+                                            border: `1px solid ${isSelected ? 'var(--color-accent)' : 'var(--color-border)'}`
+                                        }}
+                                    >
+                                        <input
+                                            type="radio"
+                                            name="matrix"
+                                            checked={isSelected}
+                                            onChange={() => setSelectedMatrixId(option.id)}
+                                            className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 focus:ring-blue-500 mr-4 flex-shrink-0"
+                                        />
+                                        <BusIcon className="w-5 h-5 text-blue-400 mr-4 flex-shrink-0" />
+                                        <span className="text-gray-200 truncate font-medium">{option.name}</span>
+                                        <span className="ml-auto text-gray-500 text-sm pl-4 whitespace-nowrap">{Object.keys(option.matrix).length} messages</span>
+                                        {!option.isBuiltIn && (
+                                            <button
+                                                onClick={(e) => { e.preventDefault(); handleRemoveMatrix(option.id); }}
+                                                className="ml-4 px-2 py-1 text-xs text-gray-400 border border-gray-500/50 rounded-md hover:bg-gray-600/40 hover:text-gray-200"
+                                            >
+                                                Remove
+                                            </button>
+                                        )}
+                                    </label>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isJ1939Mode}
+                            onChange={(e) => setIsJ1939Mode(e.target.checked)}
+                            className="w-4 h-4 mt-0.5 rounded text-blue-600 bg-gray-700 border-gray-500 focus:ring-blue-500 flex-shrink-0"
+                        />
+                        <span>
+                            <span className="text-gray-200 font-medium">J1939 mode</span>
+                            <span className="block text-sm text-gray-500">Match 29-bit messages by PGN from any source address, reassemble transport protocol messages and decode DM1 fault codes.</span>
+                        </span>
+                    </label>
+                </div>
+
                 <div className="flex flex-col sm:flex-row gap-4 pt-4">
                     <button
                         onClick={processRawLogFiles}
@@ -132,8 +311,37 @@ export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
                     >
                         {isLoading ? <Spinner /> : 'Convert & Process'}
                     </button>
+                    {isLoading && (
+                        <button
+                            onClick={cancelProcessing}
+                            className="w-full sm:w-auto inline-flex items-center justify-center px-6 py-3 border border-gray-600 text-base font-medium rounded-lg text-gray-200 bg-gray-800 hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-500 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
                 </div>
 
+                {progress && (
+                    <div className="space-y-2">
+                        <div className="flex justify-between text-sm text-gray-400">
+                            <span className="truncate">
+                                {progress.stage === 'decoding'
+                                    ? 'Decoding frames in time order'
+                                    : <>{progress.fileCount > 1 && `File ${progress.fileIndex + 1} of ${progress.fileCount}: `}{progress.fileName}</>}
+                            </span>
+                            <span className="flex-shrink-0 ml-4">{progress.percent.toFixed(0)}%</span>
+                        </div>
+                        <div className="w-full h-2 rounded-full bg-gray-700 overflow-hidden">
+                            <div className="h-full bg-blue-500 transition-all duration-200" style={{ width: `${progress.percent}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500">
+                            {progress.stage === 'decoding'
+                                ? `${progress.frames.toLocaleString()} frames decoded`
+                                : `${(progress.bytesRead / 1e6).toFixed(1)} / ${(progress.totalBytes / 1e6).toFixed(1)} MB read, ${progress.frames.toLocaleString()} frames`}
+                        </p>
+                    </div>
+                )}
+
                 {error && (
                         <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative flex items-start" role="alert">
                         <AlertTriangleIcon className="w-5 h-5 mr-3 mt-1 flex-shrink-0"/>
@@ -143,6 +351,8 @@ export const HomePage: React.FC<HomePageProps> = ({ onDataProcessed }) => {
                         </div>
                     </div>
                 )}
+
+                <RecentSessions onSessionOpen={onSessionOpen} />
             </main>
         </>
     );
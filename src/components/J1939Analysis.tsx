@@ -0,0 +1,120 @@
+
+import React, { useMemo } from 'react';
+import type { CanMatrix } from '../types';
+import type { EncodedFrames } from '../services/frameCodec';
+import { FMI_DESCRIPTIONS, formatAddress, formatPgn, summarizeDm1, summarizePgns } from '../services/j1939';
+import type { J1939Lamps } from '../services/j1939';
+import { AlertTriangleIcon, CheckCircleIcon } from './IconComponents';
+
+interface J1939AnalysisProps {
+    frames: EncodedFrames;
+    matrix: CanMatrix;
+}
+
+const LAMP_LABELS: { key: keyof J1939Lamps; label: string; className: string }[] = [
+    { key: 'malfunction', label: 'MIL', className: 'bg-yellow-900/50 border-yellow-600/60 text-yellow-200' },
+    { key: 'redStop', label: 'Red Stop', className: 'bg-red-900/50 border-red-600/60 text-red-200' },
+    { key: 'amberWarning', label: 'Amber Warning', className: 'bg-orange-900/50 border-orange-600/60 text-orange-200' },
+    { key: 'protect', label: 'Protect', className: 'bg-blue-900/50 border-blue-600/60 text-blue-200' },
+];
+
+export const J1939Analysis: React.FC<J1939AnalysisProps> = ({ frames, matrix }) => {
+    const diagnostics = useMemo(() => summarizeDm1(frames), [frames]);
+    const parameterGroups = useMemo(() => summarizePgns(frames, matrix), [frames, matrix]);
+
+    const activeCount = diagnostics.dtcs.filter(dtc => dtc.isActive).length;
+
+    return (
+        <div className="border rounded-lg p-4 sm:p-6 space-y-6" style={{ backgroundColor: 'rgba(13, 119, 248, 0.03)', borderColor: 'var(--color-border)' }}>
+            <h3 className="text-xl font-semibold text-gray-200">J1939 Diagnostics (DM1)</h3>
+
+            {diagnostics.lampsBySource.size > 0 && (
+                <div className="flex flex-wrap gap-4 text-sm">
+                    {Array.from(diagnostics.lampsBySource.entries()).map(([sourceAddress, lamps]) => (
+                        <div key={sourceAddress} className="flex items-center gap-2">
+                            <span className="text-gray-400">SA {formatAddress(sourceAddress)}:</span>
+                            {LAMP_LABELS.filter(lamp => lamps[lamp.key]).map(lamp => (
+                                <span key={lamp.key} className={`px-2 py-0.5 rounded border text-xs ${lamp.className}`}>{lamp.label}</span>
+                            ))}
+                            {!LAMP_LABELS.some(lamp => lamps[lamp.key]) && <span className="text-gray-500 text-xs">No lamps on</span>}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {diagnostics.dtcs.length === 0 ? (
+                <div className="flex items-center justify-center gap-2 text-gray-400 py-4">
+                    <CheckCircleIcon className="w-5 h-5 text-green-400" />
+                    No DM1 trouble codes were reported.
+                </div>
+            ) : (
+                <div>
+                    <h4 className="font-bold text-lg text-red-400 mb-3 flex items-center gap-2">
+                        <AlertTriangleIcon className="w-5 h-5" />
+                        Trouble Codes ({activeCount} active, {diagnostics.dtcs.length - activeCount} cleared)
+                    </h4>
+                    <div className="max-h-80 overflow-auto custom-scrollbar">
+                        <table className="w-full text-sm text-left text-gray-300">
+                            <thead className="text-xs uppercase text-gray-400">
+                                <tr>
+                                    <th className="px-2 py-1">SA</th>
+                                    <th className="px-2 py-1">SPN</th>
+                                    <th className="px-2 py-1">FMI</th>
+                                    <th className="px-2 py-1">OC</th>
+                                    <th className="px-2 py-1">First seen (s)</th>
+                                    <th className="px-2 py-1">Last seen (s)</th>
+                                    <th className="px-2 py-1">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {diagnostics.dtcs.map(dtc => (
+                                    <tr key={`${dtc.sourceAddress}:${dtc.spn}:${dtc.fmi}`} className="border-t" style={{ borderColor: 'var(--color-border)' }}>
+                                        <td className="px-2 py-1 font-mono">{formatAddress(dtc.sourceAddress)}</td>
+                                        <td className="px-2 py-1 font-mono">{dtc.spn}</td>
+                                        <td className="px-2 py-1" title={FMI_DESCRIPTIONS[dtc.fmi]}>{dtc.fmi} – {FMI_DESCRIPTIONS[dtc.fmi]}</td>
+                                        <td className="px-2 py-1">{dtc.occurrenceCount}</td>
+                                        <td className="px-2 py-1">{dtc.firstSeen.toFixed(3)}</td>
+                                        <td className="px-2 py-1">{dtc.lastSeen.toFixed(3)}</td>
+                                        <td className={`px-2 py-1 font-medium ${dtc.isActive ? 'text-red-400' : 'text-green-400'}`}>{dtc.isActive ? 'Active' : 'Cleared'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            {parameterGroups.length > 0 && (
+                <div>
+                    <h4 className="font-bold text-lg text-gray-300 mb-3">Parameter Groups ({parameterGroups.length})</h4>
+                    <div className="max-h-80 overflow-auto custom-scrollbar">
+                        <table className="w-full text-sm text-left text-gray-300">
+                            <thead className="text-xs uppercase text-gray-400">
+                                <tr>
+                                    <th className="px-2 py-1">PGN</th>
+                                    <th className="px-2 py-1">Message</th>
+                                    <th className="px-2 py-1">SA</th>
+                                    <th className="px-2 py-1">DA</th>
+                                    <th className="px-2 py-1">Frames</th>
+                                    <th className="px-2 py-1">Transport</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {parameterGroups.map(row => (
+                                    <tr key={`${row.pgn}:${row.sourceAddress}:${row.destinationAddress}`} className="border-t" style={{ borderColor: 'var(--color-border)' }}>
+                                        <td className="px-2 py-1 font-mono">{formatPgn(row.pgn)}</td>
+                                        <td className="px-2 py-1">{row.name ?? '—'}</td>
+                                        <td className="px-2 py-1 font-mono">{formatAddress(row.sourceAddress)}</td>
+                                        <td className="px-2 py-1 font-mono">{formatAddress(row.destinationAddress)}</td>
+                                        <td className="px-2 py-1">{row.count}</td>
+                                        <td className="px-2 py-1">{row.transportProtocol ?? ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { createLlmProvider } from '../services/llmProvider';
+import type { LlmProviderKind, LlmSettings } from '../services/llmProvider';
+import { Spinner } from './Spinner';
+
+interface LlmSettingsPanelProps {
+    settings: LlmSettings;
+    onSave: (settings: LlmSettings) => void;
+    onClose: () => void;
+}
+
+const PROVIDERS: { provider: LlmProviderKind; label: string; description: string }[] = [
+    { provider: 'gemini', label: 'Google Gemini', description: 'Cloud model; signal data and query results are sent to Google.' },
+    { provider: 'openai-compatible', label: 'Local server (OpenAI-compatible)', description: 'llama.cpp, Ollama, vLLM or similar with function calling; data stays on this network.' },
+];
+
+export const LlmSettingsPanel: React.FC<LlmSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<LlmSettings>(settings);
+    const [isTesting, setIsTesting] = useState(false);
+    const [testResult, setTestResult] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const updateGemini = (changes: Partial<LlmSettings['gemini']>) => setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, ...changes } }));
+    const updateOpenAi = (changes: Partial<LlmSettings['openAiCompatible']>) => setDraft(prev => ({ ...prev, openAiCompatible: { ...prev.openAiCompatible, ...changes } }));
+
+    const handleTest = async () => {
+        setIsTesting(true);
+        setTestResult(null);
+        try {
+            const provider = await createLlmProvider(draft);
+            const reply = await provider.generate({ systemInstruction: 'Answer in at most five words.', messages: [{ role: 'user', text: 'Say hello.' }], tools: [] });
+            setTestResult({ ok: true, text: `${provider.label} answered: ${reply.text.trim() || '(empty reply)'}` });
+        } catch (err) {
+            setTestResult({ ok: false, text: err instanceof Error ? err.message : 'The test failed.' });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const inputClass = 'mt-1 px-2 py-1 text-sm bg-gray-800/80 border border-gray-600/80 rounded-md text-gray-200 focus:outline-none focus:ring-1 focus:ring-purple-500';
+
+    return (
+        <div className="p-4 space-y-4 rounded-lg border border-purple-500/30 bg-gray-800/40 text-sm text-gray-300 animate-fade-in">
+            <fieldset className="space-y-2">
+                <legend className="mb-2 font-semibold text-purple-300">Analysis model</legend>
+                {PROVIDERS.map(option => (
+                    <label key={option.provider} className="flex items-start gap-2">
+                        <input
+                            type="radio"
+                            name="llm-provider"
+                            className="mt-1"
+                            checked={draft.provider === option.provider}
+                            onChange={() => setDraft(prev => ({ ...prev, provider: option.provider }))}
+                        />
+                        <span>
+                            {option.label}
+                            <span className="block text-xs text-gray-500">{option.description}</span>
+                        </span>
+                    </label>
+                ))}
+            </fieldset>
+
+            {draft.provider === 'gemini' ? (
+                <div className="flex flex-wrap gap-4">
+                    <label className="flex flex-col text-xs text-gray-400">
+                        Model
+                        <input type="text" value={draft.gemini.model} onChange={e => updateGemini({ model: e.target.value })} className={`${inputClass} w-56`} />
+                    </label>
+                    <label className="flex flex-col text-xs text-gray-400">
+                        API key
+                        <input
+                            type="password"
+                            value={draft.gemini.apiKey}
+                            onChange={e => updateGemini({ apiKey: e.target.value })}
+                            placeholder="The app's built-in key"
+                            autoComplete="off"
+                            className={`${inputClass} w-72`}
+                        />
+                    </label>
+                </div>
+            ) : (
+                <div className="flex flex-wrap gap-4">
+                    <label className="flex flex-col text-xs text-gray-400">
+                        Server URL
+                        <input
+                            type="text"
+                            value={draft.openAiCompatible.baseUrl}
+                            onChange={e => updateOpenAi({ baseUrl: e.target.value })}
+                            placeholder="http://localhost:11434/v1"
+                            className={`${inputClass} w-72`}
+                        />
+                    </label>
+                    <label className="flex flex-col text-xs text-gray-400">
+                        Model
+                        <input type="text" value={draft.openAiCompatible.model} onChange={e => updateOpenAi({ model: e.target.value })} className={`${inputClass} w-48`} />
+                    </label>
+                    <label className="flex flex-col text-xs text-gray-400">
+                        API key (optional)
+                        <input
+                            type="password"
+                            value={draft.openAiCompatible.apiKey}
+                            onChange={e => updateOpenAi({ apiKey: e.target.value })}
+                            autoComplete="off"
+                            className={`${inputClass} w-48`}
+                        />
+                    </label>
+                </div>
+            )}
+
+            {testResult && <p className={`text-xs ${testResult.ok ? 'text-green-400' : 'text-red-400'}`}>{testResult.text}</p>}
+
+            <div className="flex items-center gap-2">
+                <button onClick={handleTest} disabled={isTesting} className="inline-flex items-center gap-2 px-3 py-1.5 text-xs border border-gray-500/50 rounded-md text-gray-300 hover:bg-gray-600/30 disabled:opacity-50">
+                    {isTesting && <Spinner />}
+                    Test connection
+                </button>
+                <button onClick={onClose} className="ml-auto px-3 py-1.5 text-xs border border-gray-500/50 rounded-md text-gray-300 hover:bg-gray-600/30">Cancel</button>
+                <button onClick={() => onSave(draft)} className="px-3 py-1.5 text-xs font-medium rounded-md text-white bg-purple-600/80 hover:bg-purple-700">Save</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,132 @@
+import React, { useState, useMemo } from 'react';
+import { LOG_WRITE_FORMATS, parseIdList, writeLog } from '../services/logWriter';
+import type { LogWriteFormat } from '../services/logWriter';
+import type { EncodedFrames } from '../services/frameCodec';
+import { downloadBlob } from './DataExport';
+import { DownloadIcon } from './IconComponents';
+
+interface LogConversionProps {
+    frames: EncodedFrames;
+    visibleRange: { start: number; end: number } | null;
+    // Epoch milliseconds of time zero, when the log records it.
+    startDate?: number;
+    baseFileName: string;
+}
+
+const FORMAT_NOTES: Record<LogWriteFormat, string> = {
+    candump: 'Linux can-utils format. Error frames are left out; absolute times are Unix epoch seconds when the recording start is known.',
+    trc: 'PCAN-View trace, version 2.1. Error frames are left out.',
+    asc: 'Vector ASCII log with CAN FD, remote and error frames.',
+    busmaster: 'BusMaster log with the time of day at 0.1 ms. Classic data frames only.',
+    custom: 'Millisecond time, ID, DLC and data bytes per line. Classic data frames only.',
+};
+
+export const LogConversion: React.FC<LogConversionProps> = ({ frames, visibleRange, startDate, baseFileName }) => {
+    const logBounds = useMemo(() => frames.count > 0
+        ? { start: frames.timestamps[0], end: frames.timestamps[frames.count - 1] }
+        : null, [frames]);
+    const [format, setFormat] = useState<LogWriteFormat>('candump');
+    const [idText, setIdText] = useState('');
+    const [excludeIds, setExcludeIds] = useState(false);
+    const [start, setStart] = useState('');
+    const [end, setEnd] = useState('');
+    const [timestamps, setTimestamps] = useState<'absolute' | 'relative'>('absolute');
+    const [result, setResult] = useState<{ written: number; skipped: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const idRanges = useMemo(() => parseIdList(idText), [idText]);
+
+    const applyRange = (range: { start: number; end: number } | null) => {
+        if (!range) return;
+        setStart(String(parseFloat(range.start.toFixed(6))));
+        setEnd(String(parseFloat(range.end.toFixed(6))));
+    };
+
+    const handleConvert = () => {
+        setError(null);
+        setResult(null);
+        if (!idRanges) {
+            setError('The ID filter must list hex IDs or ranges, e.g. "123, 200-2FF".');
+            return;
+        }
+        const from = start.trim() ? Number(start) : undefined;
+        const to = end.trim() ? Number(end) : undefined;
+        if (from !== undefined && to !== undefined && to < from) {
+            setError('The end of the time range must not be before its start.');
+            return;
+        }
+        const { parts, written, skipped } = writeLog(frames, format, { idRanges, excludeIds, start: from, end: to, timestamps, startDate });
+        setResult({ written, skipped });
+        if (written === 0) {
+            setError('No frames match the filter.');
+            return;
+        }
+        const { extension } = LOG_WRITE_FORMATS.find(option => option.format === format)!;
+        downloadBlob(new Blob(parts, { type: 'text/plain' }), `${baseFileName}_${format}.${extension}`);
+    };
+
+    const inputClass = 'mt-1 px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <div className="flex flex-col gap-3 bg-gray-100 text-gray-800 rounded-lg border border-gray-300 text-sm p-3">
+            <div className="flex flex-wrap items-end gap-4 p-2 bg-white rounded-md border border-gray-300">
+                <label className="flex flex-col text-xs text-gray-600">
+                    Format
+                    <select value={format} onChange={e => setFormat(e.target.value as LogWriteFormat)} className={`${inputClass} bg-white`}>
+                        {LOG_WRITE_FORMATS.map(option => <option key={option.format} value={option.format}>{option.label}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    IDs (hex)
+                    <input
+                        type="text"
+                        value={idText}
+                        onChange={e => setIdText(e.target.value)}
+                        placeholder="All, or e.g. 123, 200-2FF"
+                        className={`${inputClass} w-48 ${idRanges ? '' : 'border-red-500 bg-red-50'}`}
+                    />
+                </label>
+                <label className="flex items-center gap-1.5 text-xs text-gray-600 pb-1">
+                    <input type="checkbox" checked={excludeIds} onChange={e => setExcludeIds(e.target.checked)} />
+                    Exclude these IDs
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    From (s)
+                    <input type="number" value={start} onChange={e => setStart(e.target.value)} placeholder="Start of log" className={`${inputClass} w-28`} />
+                </label>
+                <label className="flex flex-col text-xs text-gray-600">
+                    To (s)
+                    <input type="number" value={end} onChange={e => setEnd(e.target.value)} placeholder="End of log" className={`${inputClass} w-28`} />
+                </label>
+                <div className="flex gap-2">
+                    <button onClick={() => applyRange(logBounds)} disabled={!logBounds} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50">Whole log</button>
+                    <button onClick={() => applyRange(visibleRange)} disabled={!visibleRange} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200 disabled:opacity-50">Chart view</button>
+                </div>
+                <label className="flex flex-col text-xs text-gray-600">
+                    Timestamps
+                    <select value={timestamps} onChange={e => setTimestamps(e.target.value as 'absolute' | 'relative')} className={`${inputClass} bg-white`}>
+                        <option value="absolute">Absolute</option>
+                        <option value="relative">Relative to first frame</option>
+                    </select>
+                </label>
+                <button
+                    onClick={handleConvert}
+                    disabled={frames.count === 0}
+                    className="ml-auto inline-flex items-center gap-2 px-4 py-1.5 text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                    <DownloadIcon className="w-4 h-4" />
+                    Convert
+                </button>
+            </div>
+
+            <p className="px-1 text-xs text-gray-500">{FORMAT_NOTES[format]}</p>
+            {result && result.written > 0 && (
+                <p className="px-1 text-xs text-gray-700">
+                    Wrote {result.written.toLocaleString()} frame{result.written === 1 ? '' : 's'}
+                    {result.skipped > 0 && `; ${result.skipped.toLocaleString()} the format cannot hold were left out`}.
+                </p>
+            )}
+            {error && <p className="px-1 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Spinner } from './Spinner';
+import { deleteSession, getStorageEstimate, listSessions, loadSession, renameSession } from '../services/sessionStore';
+import type { LoadedSession, SessionSummary } from '../services/sessionStore';
+import { FileIcon, PencilIcon } from './IconComponents';
+
+interface RecentSessionsProps {
+    onSessionOpen: (session: LoadedSession) => void;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes >= 1e9) return `${(bytes / 1e9).toFixed(2)} GB`;
+    if (bytes >= 1e6) return `${(bytes / 1e6).toFixed(1)} MB`;
+    return `${(bytes / 1e3).toFixed(0)} KB`;
+};
+
+export const RecentSessions: React.FC<RecentSessionsProps> = ({ onSessionOpen }) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+    const [openingId, setOpeningId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [list, estimate] = await Promise.all([listSessions(), getStorageEstimate()]);
+            setSessions(list);
+            setStorage(estimate);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read saved sessions.');
+        }
+    }, []);
+
+    useEffect(() => { refresh(); }, [refresh]);
+
+    const handleOpen = async (id: string) => {
+        setOpeningId(id);
+        setError(null);
+        try {
+            onSessionOpen(await loadSession(id));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not open the session.');
+            refresh();
+        } finally {
+            setOpeningId(null);
+        }
+    };
+
+    const handleRename = async () => {
+        if (!editing) return;
+        const name = editing.name.trim();
+        setEditing(null);
+        if (!name) return;
+        try {
+            await renameSession(editing.id, name);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not rename the session.');
+        }
+        refresh();
+    };
+
+    const handleDelete = async (session: SessionSummary) => {
+        if (!window.confirm(`Delete the session "${session.name}"?`)) return;
+        try {
+            await deleteSession(session.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not delete the session.');
+        }
+        refresh();
+    };
+
+    if (sessions.length === 0 && !error) return null;
+
+    const usedPercent = storage && storage.quota > 0 ? Math.min(100, (storage.usage / storage.quota) * 100) : 0;
+
+    return (
+        <div className="border-t pt-6 space-y-4" style={{ borderColor: 'var(--color-border)'}}>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="font-semibold text-gray-300 text-lg">Recent Sessions:</h3>
+                {storage && (
+                    <div className="w-64 space-y-1" title="Storage used by this app in the browser">
+                        <div className="flex justify-between text-xs text-gray-500">
+                            <span>Local storage</span>
+                            <span>{formatBytes(storage.usage)} of {formatBytes(storage.quota)}</span>
+                        </div>
+                        <div className="w-full h-1.5 rounded-full bg-gray-700 overflow-hidden">
+                            <div className={`h-full ${usedPercent > 80 ? 'bg-red-500' : 'bg-blue-500'}`} style={{ width: `${usedPercent}%` }} />
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <ul className="space-y-2">
+                {sessions.map(session => (
+                    <li key={session.id} className="flex items-center gap-4 p-3 rounded-lg" style={{ backgroundColor: 'rgba(13, 119, 248, 0.05)', border: '1px solid var(--color-border)' }}>
+                        <FileIcon className="w-5 h-5 text-blue-400 flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                            {editing?.id === session.id ? (
+                                <input
+                                    autoFocus
+                                    value={editing.name}
+                                    onChange={e => setEditing({ id: session.id, name: e.target.value })}
+                                    onBlur={handleRename}
+                                    onKeyDown={e => {
+                                        if (e.key === 'Enter') handleRename();
+                                        if (e.key === 'Escape') setEditing(null);
+                                    }}
+                                    className="w-full px-2 py-1 text-sm rounded-md bg-gray-800 border border-gray-600 text-gray-200 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                />
+                            ) : (
+                                <span className="block text-gray-200 truncate font-medium" title={session.fileNames.join(', ')}>{session.name}</span>
+                            )}
+                            <span className="block text-xs text-gray-500">
+                                {new Date(session.updatedAt).toLocaleString()} · {session.frameCount.toLocaleString()} frames · {session.signalCount} signals · {formatBytes(session.size)}
+                            </span>
+                        </div>
+                        <button
+                            onClick={() => handleOpen(session.id)}
+                            disabled={openingId !== null}
+                            className="px-3 py-1 text-sm text-blue-300 border border-blue-500/50 rounded-md hover:bg-blue-600/30 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {openingId === session.id ? <Spinner /> : 'Open'}
+                        </button>
+                        <button
+                            onClick={() => setEditing({ id: session.id, name: session.name })}
+                            className="p-1.5 text-gray-400 border border-gray-500/50 rounded-md hover:bg-gray-600/40 hover:text-gray-200"
+                            title="Rename"
+                        >
+                            <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => handleDelete(session)}
+                            className="px-2 py-1 text-xs text-gray-400 border border-gray-500/50 rounded-md hover:bg-gray-600/40 hover:text-gray-200"
+                        >
+                            Delete
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+};
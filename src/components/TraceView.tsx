@@ -0,0 +1,220 @@
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import type { CANMessage, CanMatrix } from '../types';
+import { decodeFrame } from '../services/frameCodec';
+import type { EncodedFrames } from '../services/frameCodec';
+import {
+    buildFixedTraceRows,
+    buildPreviousFrameIndex,
+    createMessageNameLookup,
+    createTraceFilter,
+    getChangedBytes,
+    getInvalidFilterFields,
+    EMPTY_TRACE_FILTER,
+} from '../services/trace';
+import type { TraceFilter } from '../services/trace';
+import { LineChartIcon } from './IconComponents';
+
+interface TraceViewProps {
+    frames: EncodedFrames;
+    matrix: CanMatrix;
+    // Timestamp shared with the chart cursor.
+    cursorTime: number | null;
+    onCursorTimeChange: (timestamp: number) => void;
+    onShowInChart: (timestamp: number) => void;
+    // File names by source index; the source column is shown when frames come from several files.
+    sourceNames?: string[];
+}
+
+const ROW_HEIGHT = 24;
+const OVERSCAN_ROWS = 10;
+
+const GRID_COLUMNS = 'grid grid-cols-[7.5rem_2.5rem_7rem_minmax(8rem,1fr)_2.5rem_3rem_3rem_minmax(14rem,2fr)_5rem_5rem_2rem] gap-x-2 items-center px-2';
+const GRID_COLUMNS_WITH_SOURCE = 'grid grid-cols-[7.5rem_8rem_2.5rem_7rem_minmax(8rem,1fr)_2.5rem_3rem_3rem_minmax(14rem,2fr)_5rem_5rem_2rem] gap-x-2 items-center px-2';
+
+const getFrameType = (message: CANMessage): string => {
+    if (message.isErrorFrame) return 'ERR';
+    if (message.isRemote) return 'RTR';
+    if (message.transportProtocol) return 'TP';
+    if (message.isFd) return message.brs ? 'FD·BRS' : 'FD';
+    return '';
+};
+
+const FilterInput: React.FC<{ label: string; value: string; placeholder: string; isInvalid: boolean; onChange: (value: string) => void; className?: string }> = ({ label, value, placeholder, isInvalid, onChange, className = 'w-28' }) => (
+    <label className="flex flex-col text-xs text-gray-600">
+        {label}
+        <input
+            type="text"
+            value={value}
+            placeholder={placeholder}
+            onChange={e => onChange(e.target.value)}
+            className={`mt-1 ${className} px-2 py-1 font-mono text-xs border rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 ${isInvalid ? 'border-red-500 bg-red-50' : 'border-gray-300'}`}
+        />
+    </label>
+);
+
+export const TraceView: React.FC<TraceViewProps> = ({ frames, matrix, cursorTime, onCursorTimeChange, onShowInChart, sourceNames = [] }) => {
+    const [mode, setMode] = useState<'chronological' | 'fixed'>('chronological');
+    const [filter, setFilter] = useState<TraceFilter>(EMPTY_TRACE_FILTER);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const showSource = sourceNames.length > 1;
+    const gridColumns = showSource ? GRID_COLUMNS_WITH_SOURCE : GRID_COLUMNS;
+
+    const getName = useMemo(() => createMessageNameLookup(matrix), [matrix]);
+    const previousIndex = useMemo(() => buildPreviousFrameIndex(frames), [frames]);
+    const invalidFields = useMemo(() => getInvalidFilterFields(filter), [filter]);
+
+    const filteredIndices = useMemo(() => {
+        const matches = createTraceFilter(filter, getName);
+        const indices: number[] = [];
+        for (let i = 0; i < frames.count; i++) {
+            if (matches(frames, i)) indices.push(i);
+        }
+        return indices;
+    }, [frames, filter, getName]);
+
+    // Fixed mode shows each frame as it was at the cursor time (or the end of the log).
+    const fixedRows = useMemo(() => {
+        if (mode !== 'fixed') return [];
+        return buildFixedTraceRows(frames, filteredIndices, cursorTime ?? undefined);
+    }, [mode, frames, filteredIndices, cursorTime]);
+
+    const rowCount = mode === 'fixed' ? fixedRows.length : filteredIndices.length;
+
+    useEffect(() => {
+        const element = scrollRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight || 600));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    // Keep the frame at the cursor in view in chronological mode, e.g. after a selection on the chart.
+    useEffect(() => {
+        if (mode !== 'chronological' || cursorTime === null || !scrollRef.current) return;
+        let low = 0;
+        let high = filteredIndices.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (frames.timestamps[filteredIndices[mid]] < cursorTime) low = mid + 1;
+            else high = mid;
+        }
+        const rowTop = low * ROW_HEIGHT;
+        const element = scrollRef.current;
+        if (rowTop < element.scrollTop || rowTop > element.scrollTop + element.clientHeight - ROW_HEIGHT) {
+            element.scrollTop = Math.max(0, rowTop - element.clientHeight / 2);
+        }
+    }, [cursorTime, mode, filteredIndices, frames]);
+
+    const updateFilter = (field: keyof TraceFilter, value: string) => {
+        setFilter(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleRowClick = useCallback((index: number) => {
+        setSelectedIndex(index);
+        onCursorTimeChange(frames.timestamps[index]);
+    }, [frames, onCursorTimeChange]);
+
+    const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+    const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+    const visibleRows: React.ReactNode[] = [];
+    for (let row = firstRow; row < lastRow; row++) {
+        const fixedRow = mode === 'fixed' ? fixedRows[row] : undefined;
+        const index = fixedRow ? fixedRow.index : filteredIndices[row];
+        // Only the rows in view are rebuilt as message objects.
+        const message = decodeFrame(frames, index);
+        const changedBytes = getChangedBytes(frames, index, previousIndex[index]);
+        const timestamp = frames.timestamps[index];
+        const name = getName(frames, index);
+
+        visibleRows.push(
+            <div
+                key={mode === 'fixed' ? `f${row}` : index}
+                onClick={() => handleRowClick(index)}
+                className={`${gridColumns} absolute left-0 right-0 font-mono text-xs cursor-pointer group ${index === selectedIndex ? 'bg-blue-100' : row % 2 ? 'bg-gray-50' : 'bg-white'} hover:bg-blue-50 ${message.isErrorFrame ? 'text-red-600' : 'text-gray-800'}`}
+                style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT }}
+            >
+                <span className="text-right">{timestamp.toFixed(6)}</span>
+                {showSource && <span className="truncate font-sans text-gray-500" title={sourceNames[message.source ?? 0]}>{sourceNames[message.source ?? 0] ?? ''}</span>}
+                <span className="text-gray-500">{message.channel ?? ''}</span>
+                <span>{message.id}{message.isExtended ? 'x' : ''}</span>
+                <span className="truncate font-sans text-gray-600" title={name}>{name ?? ''}</span>
+                <span className={message.isTx ? 'text-orange-600' : 'text-gray-500'}>{message.isTx ? 'Tx' : 'Rx'}</span>
+                <span className="text-right">{message.dlc}</span>
+                <span className="text-purple-700 text-[10px]">{getFrameType(message)}</span>
+                <span className="truncate">
+                    {message.data.map((byte, i) => (
+                        <span key={i} className={changedBytes[i] ? 'bg-yellow-200 text-yellow-900 rounded-sm' : ''}>{byte}{i < message.data.length - 1 ? ' ' : ''}</span>
+                    ))}
+                </span>
+                <span className="text-right text-gray-500">{fixedRow ? fixedRow.count : ''}</span>
+                <span className="text-right text-gray-500">{fixedRow?.cycleTime !== undefined ? (fixedRow.cycleTime * 1000).toFixed(1) : ''}</span>
+                <button
+                    onClick={e => { e.stopPropagation(); onShowInChart(timestamp); }}
+                    className="p-0.5 rounded text-gray-400 hover:text-blue-600 hover:bg-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Show in chart"
+                >
+                    <LineChartIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-col h-[80vh] bg-gray-100 text-gray-800 rounded-lg border border-gray-300 text-sm overflow-hidden">
+            <div className="flex flex-wrap items-end gap-3 p-2 bg-white border-b border-gray-300">
+                <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs">
+                    {(['chronological', 'fixed'] as const).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setMode(option)}
+                            className={`px-3 py-1.5 capitalize ${mode === option ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+                <FilterInput label="ID" value={filter.idValue} placeholder="18FF0000" isInvalid={invalidFields.includes('idValue')} onChange={v => updateFilter('idValue', v)} />
+                <FilterInput label="ID mask" value={filter.idMask} placeholder="1FFFFFFF" isInvalid={invalidFields.includes('idMask')} onChange={v => updateFilter('idMask', v)} />
+                <FilterInput label="Data" value={filter.dataValue} placeholder="01 00 FF" isInvalid={invalidFields.includes('dataValue')} onChange={v => updateFilter('dataValue', v)} className="w-36" />
+                <FilterInput label="Data mask" value={filter.dataMask} placeholder="FF 00 FF" isInvalid={invalidFields.includes('dataMask')} onChange={v => updateFilter('dataMask', v)} className="w-36" />
+                <FilterInput label="Search" value={filter.search} placeholder="ID, name or bytes" isInvalid={false} onChange={v => updateFilter('search', v)} className="w-48" />
+                <button onClick={() => setFilter(EMPTY_TRACE_FILTER)} className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-600 hover:bg-gray-200">Clear</button>
+                <span className="ml-auto text-xs text-gray-500">
+                    {mode === 'fixed'
+                        ? `${rowCount.toLocaleString()} IDs${cursorTime !== null ? ` at ${cursorTime.toFixed(6)} s` : ''}`
+                        : `${rowCount.toLocaleString()} of ${frames.count.toLocaleString()} frames`}
+                </span>
+            </div>
+
+            <div className={`${gridColumns} py-1 bg-gray-200 border-b border-gray-300 text-xs font-bold text-gray-600`}>
+                <span className="text-right">Time (s)</span>
+                {showSource && <span>Source</span>}
+                <span>Ch</span>
+                <span>ID</span>
+                <span>Name</span>
+                <span>Dir</span>
+                <span className="text-right">DLC</span>
+                <span>Type</span>
+                <span>Data</span>
+                <span className="text-right">{mode === 'fixed' ? 'Count' : ''}</span>
+                <span className="text-right">{mode === 'fixed' ? 'Cycle (ms)' : ''}</span>
+                <span></span>
+            </div>
+
+            <div ref={scrollRef} className="flex-1 overflow-auto custom-scrollbar" onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+                {rowCount === 0 ? (
+                    <div className="p-6 text-center text-gray-500">No frames match the filter.</div>
+                ) : (
+                    <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+                        {visibleRows}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,548 @@
+import type { CanMatrix, DashboardAction, SignalSeries, SignalStore } from '../types';
+import type { LlmTool, ToolExecutor } from './llmProvider';
+import { getSignalUnit, getValueDescription } from './matrixParser';
+import { getSamplesInRange, lowerBound, resolveSignalKey, upperBound } from './signalStore';
+import { evaluateFaultRule, parseFaultCondition } from './faultRules';
+import type { FaultRuleResult } from './faultRules';
+import { createMessageNameLookup } from './trace';
+import { decodeFrame, isErrorFrame } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+// The functions the analysis chat can call on the loaded log. Results are short plain text for
+// the model; lists are capped so that a broad question cannot flood its context.
+
+export interface AnalysisContext {
+    signals: SignalStore;
+    matrix: CanMatrix;
+    // Frames in time order.
+    frames: EncodedFrames;
+    faults: FaultRuleResult[];
+    logBounds: { start: number; end: number } | null;
+    // Applies the chart tools' actions; without it those tools fail.
+    onDashboardAction?: (action: DashboardAction) => void;
+}
+
+const MAX_LISTED_CHANGES = 30;
+const MAX_LISTED_INTERVALS = 50;
+const MAX_LISTED_ONSETS = 100;
+const DEFAULT_FRAME_LIMIT = 20;
+const MAX_FRAME_LIMIT = 100;
+const MAX_VALUE_TIMES = 50;
+const DEFAULT_BUCKETS = 10;
+const MAX_BUCKETS = 50;
+// Grid points both signals are resampled to for correlation.
+const CORRELATION_POINTS = 1000;
+
+const timeRangeProperties = {
+    start_timestamp: { type: 'number', description: 'The start of the time range, in seconds. Defaults to the start of the log.' },
+    end_timestamp: { type: 'number', description: 'The end of the time range, in seconds. Defaults to the end of the log.' },
+} as const;
+
+export const canDataQueryTool: LlmTool = {
+    name: 'query_can_data',
+    description: 'Queries the loaded CAN log data for specific signal values or statistics within a given time range. Use this tool to answer any user questions about the data.',
+    parameters: {
+        type: 'object',
+        properties: {
+            signal_name: {
+                type: 'string',
+                description: 'The exact name of the signal to query, qualified by its message ("Message.Signal"). Must be one of the available signals provided.',
+            },
+            statistic: {
+                type: 'string',
+                description: 'The statistical calculation to perform. EVENTS lists when the value changed. If omitted, returns a brief summary of the data points.',
+                enum: ['MIN', 'MAX', 'AVERAGE', 'COUNT', 'EVENTS'],
+            },
+            ...timeRangeProperties,
+        },
+        required: ['signal_name'],
+    },
+};
+
+export const findIntervalsTool: LlmTool = {
+    name: 'find_intervals',
+    description: 'Finds the time intervals in which a condition over one or more signals holds, e.g. speed above 100 while the brake is pressed.',
+    parameters: {
+        type: 'object',
+        properties: {
+            condition: {
+                type: 'object',
+                description: 'The condition, in the fault rule format: {"type": "compare", "signal": "Message.Signal", "operator": one of == != > >= < <=, "value": number, "mask": optional integer bit mask applied first}, or {"type": "and" or "or", "conditions": [conditions]}.',
+            },
+            min_duration: { type: 'number', description: 'Only intervals lasting at least this many seconds. Defaults to 0.' },
+            ...timeRangeProperties,
+        },
+        required: ['condition'],
+    },
+};
+
+export const getValuesAtTool: LlmTool = {
+    name: 'get_values_at',
+    description: 'Returns the values several signals had at given times: the latest sample at or before each time, with its age.',
+    parameters: {
+        type: 'object',
+        properties: {
+            signal_names: { type: 'array', items: { type: 'string' }, description: 'Qualified signal names ("Message.Signal").' },
+            timestamps: { type: 'array', items: { type: 'number' }, description: `Times in seconds, at most ${MAX_VALUE_TIMES}.` },
+        },
+        required: ['signal_names', 'timestamps'],
+    },
+};
+
+export const correlateSignalsTool: LlmTool = {
+    name: 'correlate_signals',
+    description: 'Computes the Pearson correlation between two signals over a time range, and the time lag at which they correlate most strongly.',
+    parameters: {
+        type: 'object',
+        properties: {
+            signal_a: { type: 'string', description: 'The first signal ("Message.Signal").' },
+            signal_b: { type: 'string', description: 'The second signal ("Message.Signal").' },
+            max_lag: { type: 'number', description: 'The largest lag to try in either direction, in seconds. Defaults to 5.' },
+            ...timeRangeProperties,
+        },
+        required: ['signal_a', 'signal_b'],
+    },
+};
+
+export const listFaultOnsetsTool: LlmTool = {
+    name: 'list_fault_onsets',
+    description: 'Lists when each detected fault became active and cleared, with its severity and duration.',
+    parameters: {
+        type: 'object',
+        properties: {
+            fault_name: { type: 'string', description: 'Only faults whose name contains this text. Defaults to all faults.' },
+            ...timeRangeProperties,
+        },
+    },
+};
+
+export const getRawFramesTool: LlmTool = {
+    name: 'get_raw_frames',
+    description: 'Fetches the raw CAN frames of one identifier or message in a time window, with their payload bytes.',
+    parameters: {
+        type: 'object',
+        properties: {
+            can_id: { type: 'string', description: 'The CAN identifier in hex (e.g. "1A0" or "0x18FEF100"), or the message name.' },
+            limit: { type: 'number', description: `The number of frames to return, at most ${MAX_FRAME_LIMIT}. Defaults to ${DEFAULT_FRAME_LIMIT}.` },
+            ...timeRangeProperties,
+        },
+        required: ['can_id'],
+    },
+};
+
+export const summarizeSeriesTool: LlmTool = {
+    name: 'summarize_series',
+    description: 'Splits a time range into equal buckets and returns the minimum, maximum, mean and last value of a signal in each, to see how it evolved.',
+    parameters: {
+        type: 'object',
+        properties: {
+            signal_name: { type: 'string', description: 'The signal ("Message.Signal").' },
+            buckets: { type: 'number', description: `The number of buckets, at most ${MAX_BUCKETS}. Defaults to ${DEFAULT_BUCKETS}.` },
+            ...timeRangeProperties,
+        },
+        required: ['signal_name'],
+    },
+};
+
+export const ANALYSIS_TOOLS: LlmTool[] = [
+    canDataQueryTool,
+    findIntervalsTool,
+    getValuesAtTool,
+    correlateSignalsTool,
+    listFaultOnsetsTool,
+    getRawFramesTool,
+    summarizeSeriesTool,
+];
+
+export const showSignalsTool: LlmTool = {
+    name: 'show_signals',
+    description: "Shows signals on the user's chart, to point out what you are talking about.",
+    parameters: {
+        type: 'object',
+        properties: {
+            signal_names: { type: 'array', items: { type: 'string' }, description: 'Qualified signal names ("Message.Signal").' },
+            replace: { type: 'boolean', description: 'Replace the signals on the chart rather than adding to them. Defaults to false.' },
+        },
+        required: ['signal_names'],
+    },
+};
+
+export const zoomToRangeTool: LlmTool = {
+    name: 'zoom_to_range',
+    description: "Zooms the user's chart to a time range.",
+    parameters: {
+        type: 'object',
+        properties: {
+            start_timestamp: { type: 'number', description: 'The start of the range, in seconds.' },
+            end_timestamp: { type: 'number', description: 'The end of the range, in seconds.' },
+        },
+        required: ['start_timestamp', 'end_timestamp'],
+    },
+};
+
+export const selectRangeTool: LlmTool = {
+    name: 'select_range',
+    description: "Marks a time range on the user's chart as the selection, whose statistics the chart shows next to it.",
+    parameters: {
+        type: 'object',
+        properties: {
+            start_timestamp: { type: 'number', description: 'The start of the range, in seconds.' },
+            end_timestamp: { type: 'number', description: 'The end of the range, in seconds.' },
+        },
+        required: ['start_timestamp', 'end_timestamp'],
+    },
+};
+
+export const addAnnotationTool: LlmTool = {
+    name: 'add_annotation',
+    description: "Places a labelled marker on the user's chart, e.g. at a fault onset or the cause you found.",
+    parameters: {
+        type: 'object',
+        properties: {
+            timestamp: { type: 'number', description: 'The time of the marker, in seconds.' },
+            label: { type: 'string', description: 'A short label, a few words.' },
+        },
+        required: ['timestamp', 'label'],
+    },
+};
+
+export const DASHBOARD_TOOLS: LlmTool[] = [showSignalsTool, zoomToRangeTool, selectRangeTool, addAnnotationTool];
+
+type ToolArgs = Record<string, unknown>;
+
+const getOptionalNumber = (args: ToolArgs, name: string): number | undefined => {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = Number(value);
+    if (!isFinite(number)) throw new Error(`"${name}" must be a number.`);
+    return number;
+};
+
+const getString = (args: ToolArgs, name: string): string => {
+    const value = args[name];
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`"${name}" must be given.`);
+    return value.trim();
+};
+
+const getList = (args: ToolArgs, name: string): unknown[] => {
+    const value = args[name];
+    if (Array.isArray(value)) return value;
+    if (value !== undefined && value !== null) return [value];
+    throw new Error(`"${name}" must be a list.`);
+};
+
+const formatTime = (time: number) => `${time.toFixed(3)} s`;
+const formatValue = (value: number) => String(parseFloat(value.toFixed(4)));
+
+const createHelpers = ({ signals, matrix, logBounds }: AnalysisContext) => {
+    const resolve = (name: string): string => {
+        const resolved = resolveSignalKey(signals, name);
+        if (typeof resolved === 'string') return resolved;
+        if (resolved.length > 0) throw new Error(`Signal name '${name}' is ambiguous; use one of: ${resolved.join(', ')}.`);
+        throw new Error(`No data found for signal '${name}'.`);
+    };
+
+    const getRange = (args: ToolArgs) => {
+        const start = getOptionalNumber(args, 'start_timestamp') ?? logBounds?.start ?? 0;
+        const end = getOptionalNumber(args, 'end_timestamp') ?? logBounds?.end ?? 0;
+        if (end < start) throw new Error('The end of the time range must not be before its start.');
+        return { start, end };
+    };
+
+    // A value with its unit and value table text, e.g. "3 (Drive)" or "12.5 km/h".
+    const describe = (key: string, value: number): string => {
+        const description = getValueDescription(matrix, key, value);
+        const unit = getSignalUnit(matrix, key);
+        return `${formatValue(value)}${unit ? ` ${unit}` : ''}${description ? ` (${description})` : ''}`;
+    };
+
+    return { resolve, getRange, describe };
+};
+
+type Helpers = ReturnType<typeof createHelpers>;
+
+const queryCanData = (args: ToolArgs, { signals, matrix }: AnalysisContext, { resolve, describe }: Helpers): string => {
+    const signalName = resolve(getString(args, 'signal_name'));
+    const samples = getSamplesInRange(signals[signalName], getOptionalNumber(args, 'start_timestamp'), getOptionalNumber(args, 'end_timestamp'));
+    if (samples.values.length === 0) {
+        return `No data found for signal '${signalName}' in the specified time range.`;
+    }
+
+    const values = Array.from(samples.values).filter(v => isFinite(v));
+    if (values.length === 0) {
+        return `Signal '${signalName}' was found, but it contained no numeric values in the specified range.`;
+    }
+
+    const unit = getSignalUnit(matrix, signalName);
+    const min = values.reduce((a, b) => Math.min(a, b));
+    const max = values.reduce((a, b) => Math.max(a, b));
+    const average = values.reduce((a, b) => a + b, 0) / values.length;
+    switch (args.statistic) {
+        case 'MAX':
+            return `The maximum value for ${signalName} was ${max.toFixed(4)} ${unit}.`;
+        case 'MIN':
+            return `The minimum value for ${signalName} was ${min.toFixed(4)} ${unit}.`;
+        case 'AVERAGE':
+            return `The average value for ${signalName} was ${average.toFixed(4)} ${unit}.`;
+        case 'COUNT':
+            return `There were ${values.length} data points for ${signalName} in the specified range.`;
+        case 'EVENTS': {
+            const changes: string[] = [];
+            let changeCount = 0;
+            for (let i = 0; i < samples.values.length; i++) {
+                if (i > 0 && samples.values[i] === samples.values[i - 1]) continue;
+                changeCount++;
+                if (changes.length < MAX_LISTED_CHANGES) changes.push(`${formatTime(samples.timestamps[i])}: ${describe(signalName, samples.values[i])}`);
+            }
+            const more = changeCount > changes.length ? `\n... and ${changeCount - changes.length} more changes, between ${min.toFixed(4)} and ${max.toFixed(4)} ${unit}.` : '';
+            return `${signalName} took these values (the first entry is its value at the start of the range):\n${changes.join('\n')}${more}`;
+        }
+        default:
+            return `Query for ${signalName} returned ${values.length} points, starting at ${values[0].toFixed(4)} and ending at ${values[values.length - 1].toFixed(4)} ${unit}. The average was ${average.toFixed(4)} ${unit}.`;
+    }
+};
+
+const findIntervals = (args: ToolArgs, { signals, logBounds }: AnalysisContext, { getRange }: Helpers): string => {
+    // Some models send the condition as JSON text.
+    const rawCondition = typeof args.condition === 'string' ? JSON.parse(args.condition) : args.condition;
+    const condition = parseFaultCondition(rawCondition);
+    const minDuration = getOptionalNumber(args, 'min_duration') ?? 0;
+    const { start, end } = getRange(args);
+
+    const result = evaluateFaultRule({ id: 'query', name: 'query', severity: 'info', condition, holdTime: minDuration * 1000 }, signals, logBounds?.end ?? end);
+    if (result.error) throw new Error(result.error);
+
+    // The hold time moves an onset to where the condition had held long enough; report where it began.
+    const intervals = result.occurrences
+        .map(occurrence => ({ from: occurrence.onset - minDuration, to: occurrence.clear }))
+        .filter(interval => (interval.to ?? Infinity) >= start && interval.from <= end);
+    if (intervals.length === 0) return `The condition does not hold${minDuration > 0 ? ` for ${minDuration} s or longer` : ''} between ${formatTime(start)} and ${formatTime(end)}.`;
+
+    const total = intervals.reduce((sum, interval) => sum + Math.min(interval.to ?? end, end) - Math.max(interval.from, start), 0);
+    const lines = intervals.slice(0, MAX_LISTED_INTERVALS).map(interval => interval.to === undefined
+        ? `${formatTime(interval.from)} until the end of the log`
+        : `${formatTime(interval.from)} to ${formatTime(interval.to)} (${(interval.to - interval.from).toFixed(3)} s)`);
+    const more = intervals.length > lines.length ? `\n... and ${intervals.length - lines.length} more intervals.` : '';
+    return `The condition holds in ${intervals.length} interval${intervals.length === 1 ? '' : 's'}, ${total.toFixed(3)} s in total within the range:\n${lines.join('\n')}${more}`;
+};
+
+const getValuesAt = (args: ToolArgs, { signals }: AnalysisContext, { resolve, describe }: Helpers): string => {
+    const keys = getList(args, 'signal_names').map(name => resolve(String(name)));
+    const times = getList(args, 'timestamps').map(Number);
+    if (times.some(time => !isFinite(time))) throw new Error('"timestamps" must be numbers of seconds.');
+    if (times.length > MAX_VALUE_TIMES) throw new Error(`Ask for at most ${MAX_VALUE_TIMES} times at once.`);
+
+    return times.map(time => {
+        const values = keys.map(key => {
+            const { timestamps, values } = signals[key];
+            const index = upperBound(timestamps, time) - 1;
+            if (index < 0) return `${key}: no sample yet`;
+            return `${key} = ${describe(key, values[index])} (sampled ${(time - timestamps[index]).toFixed(3)} s before)`;
+        });
+        return `At ${formatTime(time)}:\n  ${values.join('\n  ')}`;
+    }).join('\n');
+};
+
+// The latest value at each grid time (zero-order hold); NaN before the first sample.
+const sampleOnGrid = (series: SignalSeries, start: number, step: number, count: number): Float64Array => {
+    const result = new Float64Array(count);
+    let next = lowerBound(series.timestamps, start);
+    for (let i = 0; i < count; i++) {
+        const time = start + i * step;
+        while (next < series.timestamps.length && series.timestamps[next] <= time) next++;
+        result[i] = next > 0 ? series.values[next - 1] : NaN;
+    }
+    return result;
+};
+
+// Pearson correlation of a[i] with b[i + lag] over the indices where both are defined.
+const correlationAtLag = (a: Float64Array, b: Float64Array, lag: number): { r: number; count: number } => {
+    let count = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+    for (let i = Math.max(0, -lag); i < a.length && i + lag < b.length; i++) {
+        const x = a[i];
+        const y = b[i + lag];
+        if (Number.isNaN(x) || Number.isNaN(y)) continue;
+        count++;
+        sumA += x; sumB += y; sumAA += x * x; sumBB += y * y; sumAB += x * y;
+    }
+    const covariance = sumAB - sumA * sumB / count;
+    const varianceA = sumAA - sumA * sumA / count;
+    const varianceB = sumBB - sumB * sumB / count;
+    return { r: varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : NaN, count };
+};
+
+const correlateSignals = (args: ToolArgs, { signals }: AnalysisContext, { resolve, getRange }: Helpers): string => {
+    const keyA = resolve(getString(args, 'signal_a'));
+    const keyB = resolve(getString(args, 'signal_b'));
+    const { start, end } = getRange(args);
+    if (!(end > start)) throw new Error('The time range must not be empty.');
+    const maxLag = Math.abs(getOptionalNumber(args, 'max_lag') ?? 5);
+
+    const step = (end - start) / (CORRELATION_POINTS - 1);
+    const a = sampleOnGrid(signals[keyA], start, step, CORRELATION_POINTS);
+    const b = sampleOnGrid(signals[keyB], start, step, CORRELATION_POINTS);
+    const atZero = correlationAtLag(a, b, 0);
+    if (Number.isNaN(atZero.r)) return `${keyA} and ${keyB} cannot be correlated between ${formatTime(start)} and ${formatTime(end)}: one of them is constant or has no samples there.`;
+
+    // At least half of the grid has to overlap for a lag to count.
+    const maxSteps = Math.min(Math.round(maxLag / step), CORRELATION_POINTS / 2);
+    let best = { lag: 0, r: atZero.r };
+    for (let lag = -maxSteps; lag <= maxSteps; lag++) {
+        const { r, count } = correlationAtLag(a, b, lag);
+        if (count >= CORRELATION_POINTS / 2 && Math.abs(r) > Math.abs(best.r)) best = { lag, r };
+    }
+    const lagSeconds = best.lag * step;
+    const lagText = best.lag === 0
+        ? 'The correlation is strongest without a lag.'
+        : `The correlation is strongest, r = ${best.r.toFixed(3)}, when ${keyB} is taken ${Math.abs(lagSeconds).toFixed(3)} s ${lagSeconds > 0 ? 'later' : 'earlier'} than ${keyA}, i.e. ${lagSeconds > 0 ? `${keyB} follows ${keyA}` : `${keyB} leads ${keyA}`}.`;
+    return `Between ${formatTime(start)} and ${formatTime(end)}, resampled every ${step.toFixed(4)} s, the Pearson correlation of ${keyA} and ${keyB} is r = ${atZero.r.toFixed(3)}. ${lagText}`;
+};
+
+const listFaultOnsets = (args: ToolArgs, { faults }: AnalysisContext, { getRange }: Helpers): string => {
+    const nameFilter = typeof args.fault_name === 'string' ? args.fault_name.trim().toLowerCase() : '';
+    const { start, end } = getRange(args);
+    const onsets = faults
+        .filter(fault => !nameFilter || fault.name.toLowerCase().includes(nameFilter))
+        .flatMap(fault => fault.occurrences
+            .filter(occurrence => occurrence.onset >= start && occurrence.onset <= end)
+            .map(occurrence => ({ fault, occurrence })))
+        .sort((a, b) => a.occurrence.onset - b.occurrence.onset);
+    if (onsets.length === 0) return `No fault${nameFilter ? ` matching '${nameFilter}'` : ''} became active between ${formatTime(start)} and ${formatTime(end)}.`;
+
+    const lines = onsets.slice(0, MAX_LISTED_ONSETS).map(({ fault, occurrence }) => {
+        const cleared = occurrence.clear === undefined ? 'still active at the end of the log' : `cleared at ${formatTime(occurrence.clear)}`;
+        return `${formatTime(occurrence.onset)}: ${fault.name} (${fault.severity}), ${cleared}, active ${occurrence.duration.toFixed(3)} s; signals: ${fault.signalKeys.join(', ')}`;
+    });
+    const more = onsets.length > lines.length ? `\n... and ${onsets.length - lines.length} more onsets.` : '';
+    return `${onsets.length} fault onset${onsets.length === 1 ? '' : 's'}:\n${lines.join('\n')}${more}`;
+};
+
+const getRawFrames = (args: ToolArgs, { frames, matrix }: AnalysisContext, { getRange }: Helpers): string => {
+    const idText = getString(args, 'can_id');
+    const { start, end } = getRange(args);
+    const limit = Math.min(MAX_FRAME_LIMIT, Math.max(1, Math.round(getOptionalNumber(args, 'limit') ?? DEFAULT_FRAME_LIMIT)));
+
+    const getName = createMessageNameLookup(matrix);
+    const hexMatch = idText.match(/^(?:0x)?([0-9a-f]{1,8})$/i);
+    const id = hexMatch ? parseInt(hexMatch[1], 16) : null;
+    const nameQuery = idText.toLowerCase();
+    const matches = (i: number) => !isErrorFrame(frames, i)
+        && ((id !== null && frames.ids[i] === id) || getName(frames, i)?.toLowerCase() === nameQuery);
+
+    const lines: string[] = [];
+    let total = 0;
+    let first = -1;
+    // Frames are in time order, so the window starts at a binary-searched index.
+    for (let i = lowerBound(frames.timestamps, start); i < frames.count && frames.timestamps[i] <= end; i++) {
+        if (!matches(i)) continue;
+        total++;
+        if (first < 0) first = i;
+        if (lines.length >= limit) continue;
+        const message = decodeFrame(frames, i);
+        const flags = [message.isTx ? 'Tx' : 'Rx', message.channel !== undefined ? `ch ${message.channel}` : '', message.isFd ? 'FD' : '', message.isRemote ? 'remote' : '', message.transportProtocol ? `reassembled ${message.transportProtocol}` : '']
+            .filter(Boolean).join(', ');
+        lines.push(`${formatTime(Number(message.timestamp))} ${message.id}${message.isExtended ? 'x' : ''} [${flags}] DLC ${message.dlc}: ${message.data.join(' ') || '(no data)'}`);
+    }
+    if (total === 0) return `No frames with ID or message '${idText}' between ${formatTime(start)} and ${formatTime(end)}.`;
+
+    const name = getName(frames, first);
+    const more = total > lines.length ? `\n... ${total - lines.length} more frames in the window; narrow it or raise the limit.` : '';
+    return `${total} frame${total === 1 ? '' : 's'}${name ? ` of ${name}` : ''} between ${formatTime(start)} and ${formatTime(end)}:\n${lines.join('\n')}${more}`;
+};
+
+const summarizeSeries = (args: ToolArgs, { signals, matrix }: AnalysisContext, { resolve, getRange }: Helpers): string => {
+    const key = resolve(getString(args, 'signal_name'));
+    const { start, end } = getRange(args);
+    const bucketCount = Math.min(MAX_BUCKETS, Math.max(1, Math.round(getOptionalNumber(args, 'buckets') ?? DEFAULT_BUCKETS)));
+    const { timestamps, values } = getSamplesInRange(signals[key], start, end);
+    if (values.length === 0) return `No data found for signal '${key}' in the specified time range.`;
+
+    const unit = getSignalUnit(matrix, key);
+    const width = (end - start) / bucketCount;
+    const lines: string[] = [];
+    let index = 0;
+    for (let bucket = 0; bucket < bucketCount; bucket++) {
+        const bucketStart = start + bucket * width;
+        const bucketEnd = bucket === bucketCount - 1 ? end : start + (bucket + 1) * width;
+        let count = 0, sum = 0, min = Infinity, max = -Infinity, last = NaN;
+        // The last bucket includes the end of the range.
+        while (index < timestamps.length && (timestamps[index] < bucketEnd || bucket === bucketCount - 1)) {
+            const value = values[index++];
+            if (!isFinite(value)) continue;
+            count++;
+            sum += value;
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+            last = value;
+        }
+        const range = `${bucketStart.toFixed(3)}-${bucketEnd.toFixed(3)} s`;
+        lines.push(count === 0
+            ? `${range}: no samples`
+            : `${range}: min ${formatValue(min)}, max ${formatValue(max)}, mean ${formatValue(sum / count)}, last ${formatValue(last)} (${count} samples)`);
+    }
+    return `${key}${unit ? ` in ${unit}` : ''}, ${bucketCount} bucket${bucketCount === 1 ? '' : 's'}:\n${lines.join('\n')}`;
+};
+
+const getRequiredRange = (args: ToolArgs) => {
+    const start = getOptionalNumber(args, 'start_timestamp');
+    const end = getOptionalNumber(args, 'end_timestamp');
+    if (start === undefined || end === undefined) throw new Error('"start_timestamp" and "end_timestamp" must be given.');
+    if (!(end > start)) throw new Error('The end of the time range must be after its start.');
+    return { start, end };
+};
+
+const applyDashboardAction = (context: AnalysisContext, action: DashboardAction) => {
+    if (!context.onDashboardAction) throw new Error('The chart is not available.');
+    context.onDashboardAction(action);
+};
+
+const showSignals = (args: ToolArgs, context: AnalysisContext, { resolve }: Helpers): string => {
+    const signalKeys = getList(args, 'signal_names').map(name => resolve(String(name)));
+    const replace = args.replace === true || args.replace === 'true';
+    applyDashboardAction(context, { type: 'showSignals', signalKeys, replace });
+    return `The chart ${replace ? 'now shows' : 'also shows'} ${signalKeys.join(', ')}.`;
+};
+
+const zoomToRange = (args: ToolArgs, context: AnalysisContext): string => {
+    const { start, end } = getRequiredRange(args);
+    applyDashboardAction(context, { type: 'zoom', start, end });
+    return `The chart shows ${formatTime(start)} to ${formatTime(end)}.`;
+};
+
+const selectRange = (args: ToolArgs, context: AnalysisContext): string => {
+    const { start, end } = getRequiredRange(args);
+    applyDashboardAction(context, { type: 'select', start, end });
+    return `${formatTime(start)} to ${formatTime(end)} is selected on the chart.`;
+};
+
+const addAnnotation = (args: ToolArgs, context: AnalysisContext): string => {
+    const time = getOptionalNumber(args, 'timestamp');
+    if (time === undefined) throw new Error('"timestamp" must be given.');
+    const label = getString(args, 'label');
+    applyDashboardAction(context, { type: 'annotate', time, label });
+    return `Marked ${formatTime(time)} on the chart as "${label}".`;
+};
+
+const TOOL_IMPLEMENTATIONS: Record<string, (args: ToolArgs, context: AnalysisContext, helpers: Helpers) => string> = {
+    [canDataQueryTool.name]: queryCanData,
+    [findIntervalsTool.name]: findIntervals,
+    [getValuesAtTool.name]: getValuesAt,
+    [correlateSignalsTool.name]: correlateSignals,
+    [listFaultOnsetsTool.name]: listFaultOnsets,
+    [getRawFramesTool.name]: getRawFrames,
+    [summarizeSeriesTool.name]: summarizeSeries,
+    [showSignalsTool.name]: showSignals,
+    [zoomToRangeTool.name]: zoomToRange,
+    [selectRangeTool.name]: selectRange,
+    [addAnnotationTool.name]: addAnnotation,
+};
+
+// Errors are thrown; the chat hands their message back to the model.
+export const createAnalysisToolExecutor = (context: AnalysisContext): ToolExecutor => {
+    const helpers = createHelpers(context);
+    return (name, args) => {
+        const implementation = TOOL_IMPLEMENTATIONS[name];
+        if (!implementation) throw new Error(`Unknown tool '${name}'.`);
+        return implementation(args, context, helpers);
+    };
+};
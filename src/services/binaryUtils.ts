@@ -0,0 +1,48 @@
+// Helpers shared by the binary log parsers (BLF, MDF4).
+
+// Inflates zlib-wrapped deflate data with the browser's native DecompressionStream.
+export const inflateZlib = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new DecompressionStream('deflate');
+    const writer = stream.writable.getWriter();
+    // Corrupt input rejects these as well; the error surfaces through the readable side.
+    writer.write(new Uint8Array(data)).catch(() => {});
+    writer.close().catch(() => {});
+    return new Uint8Array(await new Response(stream.readable).arrayBuffer());
+};
+
+// Random-access reader over a File that reads ahead in windows, so that logs of hundreds of MB
+// are never loaded into memory in one piece.
+export class BinaryFileReader {
+    private window = new Uint8Array(0);
+    private windowStart = 0;
+
+    constructor(private readonly file: Blob, private readonly readAhead = 1024 * 1024) {}
+
+    get size(): number {
+        return this.file.size;
+    }
+
+    async read(offset: number, length: number): Promise<Uint8Array> {
+        const windowOffset = offset - this.windowStart;
+        if (windowOffset >= 0 && windowOffset + length <= this.window.length) {
+            return this.window.subarray(windowOffset, windowOffset + length);
+        }
+        if (offset + length > this.file.size) {
+            throw new Error('Unexpected end of file.');
+        }
+        const end = Math.min(this.file.size, offset + Math.max(length, this.readAhead));
+        this.window = new Uint8Array(await this.file.slice(offset, end).arrayBuffer());
+        this.windowStart = offset;
+        return this.window.subarray(0, length);
+    }
+}
+
+export const dataViewOf = (bytes: Uint8Array): DataView => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+export const readAscii = (bytes: Uint8Array, offset: number, length: number): string =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+export const formatCanId = (id: number): string => `0x${id.toString(16).toUpperCase()}`;
+
+export const formatDataBytes = (bytes: Uint8Array): string[] =>
+    Array.from(bytes, byte => byte.toString(16).toUpperCase().padStart(2, '0'));
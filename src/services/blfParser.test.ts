@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { CANMessage } from '../types';
+import { parseBlfFile } from './blfParser';
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const littleEndian = (size: number, write: (view: DataView) => void): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+    return bytes;
+};
+const u8 = (...values: number[]) => Uint8Array.from(values);
+const u16 = (value: number) => littleEndian(2, view => view.setUint16(0, value, true));
+const u32 = (value: number) => littleEndian(4, view => view.setUint32(0, value, true));
+const u64 = (value: number) => littleEndian(8, view => view.setBigUint64(0, BigInt(value), true));
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+// Bus object with a v1 object header: flags, client index, object version, timestamp.
+const busObject = (objectType: number, timeFlags: number, rawTimestamp: number, body: Uint8Array): Uint8Array =>
+    concatBytes(ascii('LOBJ'), u16(32), u16(1), u32(32 + body.length), u32(objectType), u32(timeFlags), u16(0), u16(0), u64(rawTimestamp), body);
+
+const canMessage = (nanoseconds: number, channel: number, flags: number, id: number, data: number[]) =>
+    busObject(1, 0x2, nanoseconds, concatBytes(u16(channel), u8(flags, data.length), u32(id), u8(...data, ...Array(8 - data.length).fill(0))));
+
+const canFdMessage64 = (tenMicroseconds: number, channel: number, dlc: number, flags: number, id: number, data: number[]) =>
+    busObject(101, 0x1, tenMicroseconds, concatBytes(
+        u8(channel, dlc, data.length, 0), u32(id), u32(0), u32(flags), new Uint8Array(16), u16(0), u8(1, 0), u32(0), u8(...data)
+    ));
+
+const canError = (nanoseconds: number, channel: number) => busObject(2, 0x2, nanoseconds, concatBytes(u16(channel), u16(0)));
+
+const logContainer = async (data: Uint8Array, compressed = true): Promise<Uint8Array> => {
+    const payload = compressed ? await deflate(data) : data;
+    const size = 32 + payload.length;
+    return concatBytes(
+        ascii('LOBJ'), u16(16), u16(1), u32(size), u32(10),
+        u16(compressed ? 2 : 0), new Uint8Array(6), u32(data.length), new Uint8Array(4), payload,
+        new Uint8Array(size % 4)
+    );
+};
+
+// "LOGG" file header with the measurement start as SYSTEMTIME at offset 40.
+const fileHeader = (): Uint8Array => {
+    const header = new Uint8Array(144);
+    header.set(ascii('LOGG'));
+    const view = new DataView(header.buffer);
+    view.setUint32(4, 144, true);
+    [2024, 5, 5, 17, 10, 30, 15, 250].forEach((value, i) => view.setUint16(40 + i * 2, value, true));
+    return header;
+};
+
+const readBlf = async (bytes: Uint8Array) => {
+    const messages: CANMessage[] = [];
+    const batches: number[] = [];
+    const info = await parseBlfFile(new File([new Uint8Array(bytes)], 'trace.blf'), batch => {
+        batches.push(batch.length);
+        messages.push(...batch);
+    });
+    return { info, messages, batches };
+};
+
+describe('parseBlfFile', () => {
+    it('reads the measurement start from the file header', async () => {
+        const { info, messages } = await readBlf(fileHeader());
+        expect(info.format).toBe('Vector BLF');
+        expect(info.startDate).toBe(new Date(2024, 4, 17, 10, 30, 15, 250).getTime());
+        expect(messages).toEqual([]);
+    });
+
+    it('reads frames from compressed containers, including one split across two containers', async () => {
+        const objects = concatBytes(
+            canMessage(1_000_000_000, 1, 0, 0x123, [1, 2, 3]),
+            canMessage(2_500_000_000, 2, 0x1, 0x80000456, [0xAA, 0xBB]),
+            canMessage(3_000_000_000, 1, 0x80, 0x7FF, [])
+        );
+        const { messages, batches } = await readBlf(concatBytes(
+            fileHeader(),
+            await logContainer(objects.subarray(0, 50)),
+            await logContainer(objects.subarray(50))
+        ));
+        expect(batches).toEqual([1, 2]);
+        expect(messages).toEqual([
+            { timestamp: 1, id: '0x123', isExtended: false, dlc: 3, data: ['01', '02', '03'], isTx: false, channel: 1 },
+            { timestamp: 2.5, id: '0x456', isExtended: true, dlc: 2, data: ['AA', 'BB'], isTx: true, channel: 2 },
+            { timestamp: 3, id: '0x7FF', isExtended: false, dlc: 0, data: [], isTx: false, channel: 1, isRemote: true },
+        ]);
+    });
+
+    it('reads CAN FD frames and error frames from uncompressed containers', async () => {
+        const { messages } = await readBlf(concatBytes(
+            fileHeader(),
+            await logContainer(concatBytes(
+                canFdMessage64(12_345, 3, 9, 0x1000 | 0x2000, 0x18DAF110 | 0x80000000, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]),
+                canError(200_000_000, 3)
+            ), false)
+        ));
+        expect(messages).toEqual([
+            {
+                timestamp: 0.12345, id: '0x18DAF110', isExtended: true, dlc: 9,
+                data: ['00', '01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B'],
+                isTx: true, channel: 3, isFd: true, brs: true, esi: false,
+            },
+            { timestamp: 0.2, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel: 3, isErrorFrame: true },
+        ]);
+    });
+
+    it('rejects files that are not BLF', async () => {
+        await expect(readBlf(ascii('date Wed Jun 5 10:22:33.123 am 2024\n'))).rejects.toThrow('"trace.blf" is not a valid BLF file.');
+    });
+
+    it('rejects corrupt objects', async () => {
+        const truncated = canMessage(0, 1, 0, 0x100, [1]).slice(0, 36);
+        new DataView(truncated.buffer).setUint32(8, truncated.length, true);
+        await expect(readBlf(concatBytes(fileHeader(), await logContainer(truncated))))
+            .rejects.toThrow('Corrupt BLF file: object of type 1 is too short (36 bytes).');
+
+        const badSize = canMessage(0, 1, 0, 0x100, [1]);
+        new DataView(badSize.buffer).setUint32(8, 8, true);
+        await expect(readBlf(concatBytes(fileHeader(), await logContainer(badSize))))
+            .rejects.toThrow('Corrupt BLF file: invalid object size 8.');
+    });
+});
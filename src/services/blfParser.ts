@@ -0,0 +1,285 @@
+import type { CANMessage, LogFileInfo } from '../types';
+import { BinaryFileReader, dataViewOf, formatCanId, formatDataBytes, inflateZlib, readAscii } from './binaryUtils';
+import { dlcToLength } from './canFd';
+
+// Vector Binary Logging Format. The file is a "LOGG" header followed by "LOBJ" objects; nearly all
+// bus objects are packed (usually zlib-compressed) inside LOG_CONTAINER objects, and a single
+// object may continue from one container into the next.
+
+const FILE_SIGNATURE = 'LOGG';
+const OBJECT_SIGNATURE = 'LOBJ';
+const OBJECT_HEADER_BASE_SIZE = 16;
+// Object header v1 and v2 both have flags at offset 16 and the timestamp at offset 24.
+const OBJECT_HEADER_MIN_SIZE = 32;
+const LOG_CONTAINER_HEADER_SIZE = 16;
+
+// Object types
+const CAN_MESSAGE = 1;
+const CAN_ERROR = 2;
+const LOG_CONTAINER = 10;
+const CAN_ERROR_EXT = 73;
+const CAN_MESSAGE2 = 86;
+const CAN_FD_MESSAGE = 100;
+const CAN_FD_MESSAGE_64 = 101;
+const CAN_FD_ERROR_64 = 104;
+
+const NO_COMPRESSION = 0;
+const ZLIB_DEFLATE = 2;
+
+// Object header flags: timestamp unit
+const TIME_TEN_MICS = 0x1;
+const TIME_ONE_NANS = 0x2;
+
+const CAN_ID_MASK = 0x1FFFFFFF;
+const CAN_ID_EXTENDED = 0x80000000;
+const CAN_MSG_DIR_TX = 0x1;
+const CAN_MSG_RTR = 0x80;
+const CAN_FD_MSG_64_RTR = 0x0010;
+const CAN_FD_MSG_64_TX = 1;
+// CAN_FD_MESSAGE FD flags, and the same bits in CAN_FD_MESSAGE_64 flags
+const CAN_FD_EDL = 0x1;
+const CAN_FD_BRS = 0x2;
+const CAN_FD_ESI = 0x4;
+const CAN_FD_MSG_64_EDL = 0x1000;
+const CAN_FD_MSG_64_BRS = 0x2000;
+const CAN_FD_MSG_64_ESI = 0x4000;
+
+// Bytes of each bus object's body that are read as fixed fields (data bytes are read up to what is there).
+const MIN_BODY_SIZES: Record<number, number> = {
+    [CAN_MESSAGE]: 8,
+    [CAN_MESSAGE2]: 8,
+    [CAN_FD_MESSAGE]: 20,
+    [CAN_FD_MESSAGE_64]: 40,
+    [CAN_ERROR]: 2,
+    [CAN_ERROR_EXT]: 2,
+    [CAN_FD_ERROR_64]: 1,
+};
+
+const fdFlags = (isFd: boolean, brs: boolean, esi: boolean) => (isFd ? { isFd, brs, esi } : {});
+
+// SYSTEMTIME: year, month, dayOfWeek, day, hour, minute, second, milliseconds (uint16 each)
+const readSystemTime = (view: DataView, offset: number): number | undefined => {
+    const year = view.getUint16(offset, true);
+    if (year === 0) return undefined;
+    return new Date(
+        year,
+        view.getUint16(offset + 2, true) - 1,
+        view.getUint16(offset + 6, true),
+        view.getUint16(offset + 8, true),
+        view.getUint16(offset + 10, true),
+        view.getUint16(offset + 12, true),
+        view.getUint16(offset + 14, true)
+    ).getTime();
+};
+
+// Parses one bus object (header included) into a CANMessage, or returns null for object types that
+// carry no frame.
+const parseObject = (bytes: Uint8Array, objectType: number): CANMessage | null => {
+    const view = dataViewOf(bytes);
+    const headerSize = view.getUint16(4, true);
+    const headerVersion = view.getUint16(6, true);
+    const minBodySize = MIN_BODY_SIZES[objectType];
+    if (minBodySize === undefined || (headerVersion !== 1 && headerVersion !== 2)) return null;
+    if (headerSize < OBJECT_HEADER_MIN_SIZE || headerSize + minBodySize > bytes.length) {
+        throw new Error(`Corrupt BLF file: object of type ${objectType} is too short (${bytes.length} bytes).`);
+    }
+
+    // Object header v1: flags, client index, object version, timestamp.
+    // Object header v2: flags, timestamp status, reserved, object version, timestamp, original timestamp.
+    const flags = view.getUint32(OBJECT_HEADER_BASE_SIZE, true);
+    const rawTimestamp = Number(view.getBigUint64(OBJECT_HEADER_BASE_SIZE + 8, true));
+    const factor = flags & TIME_ONE_NANS ? 1e-9 : flags & TIME_TEN_MICS ? 1e-5 : 1e-9;
+    const timestamp = parseFloat((rawTimestamp * factor).toPrecision(15));
+
+    const body = headerSize;
+
+    switch (objectType) {
+        case CAN_MESSAGE:
+        case CAN_MESSAGE2: {
+            // channel (u16), flags (u8), dlc (u8), id (u32), data[8]
+            const messageFlags = view.getUint8(body + 2);
+            const dlc = view.getUint8(body + 3);
+            const id = view.getUint32(body + 4, true);
+            const isRemote = (messageFlags & CAN_MSG_RTR) !== 0;
+            return {
+                timestamp,
+                id: formatCanId(id & CAN_ID_MASK),
+                isExtended: (id & CAN_ID_EXTENDED) !== 0,
+                dlc,
+                data: isRemote ? [] : formatDataBytes(bytes.subarray(body + 8, body + 8 + Math.min(dlc, 8))),
+                isTx: (messageFlags & CAN_MSG_DIR_TX) !== 0,
+                channel: view.getUint16(body, true),
+                ...(isRemote ? { isRemote } : {}),
+            };
+        }
+        case CAN_FD_MESSAGE: {
+            // channel (u16), flags (u8), dlc (u8), id (u32), frame length (u32), bit count (u8),
+            // FD flags (u8), valid data bytes (u8), reserved (5), data[64]
+            const messageFlags = view.getUint8(body + 2);
+            const dlc = view.getUint8(body + 3);
+            const id = view.getUint32(body + 4, true);
+            const canFdFlags = view.getUint8(body + 13);
+            const validBytes = view.getUint8(body + 14);
+            const isFd = (canFdFlags & CAN_FD_EDL) !== 0;
+            const isRemote = (messageFlags & CAN_MSG_RTR) !== 0;
+            const length = Math.min(validBytes, dlcToLength(dlc, isFd));
+            return {
+                timestamp,
+                id: formatCanId(id & CAN_ID_MASK),
+                isExtended: (id & CAN_ID_EXTENDED) !== 0,
+                dlc,
+                data: isRemote ? [] : formatDataBytes(bytes.subarray(body + 20, body + 20 + length)),
+                isTx: (messageFlags & CAN_MSG_DIR_TX) !== 0,
+                channel: view.getUint16(body, true),
+                ...(isRemote ? { isRemote } : {}),
+                ...fdFlags(isFd, (canFdFlags & CAN_FD_BRS) !== 0, (canFdFlags & CAN_FD_ESI) !== 0),
+            };
+        }
+        case CAN_FD_MESSAGE_64: {
+            // channel (u8), dlc (u8), valid bytes (u8), tx count (u8), id (u32), frame length (u32),
+            // flags (u32), btr cfg arb/data (2 x u32), time offsets (2 x u32), bit count (u16),
+            // direction (u8), ext data offset (u8), crc (u32), data[valid bytes]
+            const dlc = view.getUint8(body + 1);
+            const validBytes = view.getUint8(body + 2);
+            const id = view.getUint32(body + 4, true);
+            const messageFlags = view.getUint32(body + 12, true);
+            const direction = view.getUint8(body + 34);
+            const isFd = (messageFlags & CAN_FD_MSG_64_EDL) !== 0;
+            const isRemote = (messageFlags & CAN_FD_MSG_64_RTR) !== 0;
+            const length = Math.min(validBytes, dlcToLength(dlc, isFd));
+            return {
+                timestamp,
+                id: formatCanId(id & CAN_ID_MASK),
+                isExtended: (id & CAN_ID_EXTENDED) !== 0,
+                dlc,
+                data: isRemote ? [] : formatDataBytes(bytes.subarray(body + 40, body + 40 + length)),
+                isTx: direction === CAN_FD_MSG_64_TX,
+                channel: view.getUint8(body),
+                ...(isRemote ? { isRemote } : {}),
+                ...fdFlags(isFd, (messageFlags & CAN_FD_MSG_64_BRS) !== 0, (messageFlags & CAN_FD_MSG_64_ESI) !== 0),
+            };
+        }
+        case CAN_ERROR:
+        case CAN_ERROR_EXT:
+            return { timestamp, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel: view.getUint16(body, true), isErrorFrame: true };
+        case CAN_FD_ERROR_64:
+            return { timestamp, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel: view.getUint8(body), isErrorFrame: true };
+        default:
+            return null;
+    }
+};
+
+// Parses the objects packed into (decompressed) container data. Returns the bytes of a trailing
+// object that continues in the next container.
+const parseContainerData = (data: Uint8Array, messages: CANMessage[]): Uint8Array => {
+    const view = dataViewOf(data);
+    let pos = 0;
+
+    while (pos + OBJECT_HEADER_BASE_SIZE <= data.length) {
+        // Objects are padded; the next one starts within a few bytes.
+        let signatureFound = false;
+        for (let skip = 0; skip < 8 && pos + skip + 4 <= data.length; skip++) {
+            if (readAscii(data, pos + skip, 4) === OBJECT_SIGNATURE) {
+                pos += skip;
+                signatureFound = true;
+                break;
+            }
+        }
+        if (!signatureFound) {
+            if (pos + 8 > data.length) break;
+            throw new Error('Corrupt BLF file: could not find the next object.');
+        }
+        if (pos + OBJECT_HEADER_BASE_SIZE > data.length) break;
+
+        const objectSize = view.getUint32(pos + 8, true);
+        const objectType = view.getUint32(pos + 12, true);
+        if (objectSize < OBJECT_HEADER_BASE_SIZE) throw new Error(`Corrupt BLF file: invalid object size ${objectSize}.`);
+        if (pos + objectSize > data.length) break;
+
+        const message = parseObject(data.subarray(pos, pos + objectSize), objectType);
+        if (message) messages.push(message);
+        pos += objectSize;
+    }
+
+    return data.slice(pos);
+};
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+    if (a.length === 0) return b;
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a, 0);
+    result.set(b, a.length);
+    return result;
+};
+
+// Hands the frames over container by container, so a large file is never held as one message list.
+export const parseBlfFile = async (
+    file: File,
+    onBatch: (messages: CANMessage[]) => void,
+    onProgress?: (bytesRead: number) => void
+): Promise<LogFileInfo> => {
+    const reader = new BinaryFileReader(file, 16 * 1024 * 1024);
+    const fileHeader = await reader.read(0, Math.min(144, file.size));
+    if (fileHeader.length < 72 || readAscii(fileHeader, 0, 4) !== FILE_SIGNATURE) {
+        throw new Error(`"${file.name}" is not a valid BLF file.`);
+    }
+    const headerView = dataViewOf(fileHeader);
+    const headerSize = headerView.getUint32(4, true);
+    const startDate = readSystemTime(headerView, 40);
+
+    const info: LogFileInfo = { fileName: file.name, format: 'Vector BLF' };
+    if (startDate !== undefined) {
+        info.startDate = startDate;
+        info.startTime = new Date(startDate).toLocaleString();
+    }
+
+    let messages: CANMessage[] = [];
+    let pending: Uint8Array = new Uint8Array(0);
+    let pos = headerSize;
+
+    while (pos + OBJECT_HEADER_BASE_SIZE <= file.size) {
+        const baseHeader = await reader.read(pos, OBJECT_HEADER_BASE_SIZE);
+        if (readAscii(baseHeader, 0, 4) !== OBJECT_SIGNATURE) {
+            // Padding between top-level objects.
+            pos++;
+            continue;
+        }
+        const baseView = dataViewOf(baseHeader);
+        const objectSize = baseView.getUint32(8, true);
+        const objectType = baseView.getUint32(12, true);
+        if (objectSize < OBJECT_HEADER_BASE_SIZE) throw new Error(`Corrupt BLF file: invalid object size ${objectSize}.`);
+        if (objectType === LOG_CONTAINER && objectSize < OBJECT_HEADER_BASE_SIZE + LOG_CONTAINER_HEADER_SIZE) {
+            throw new Error('Corrupt BLF file: log container is too short.');
+        }
+        if (pos + objectSize > file.size) break;
+
+        const object = await reader.read(pos, objectSize);
+
+        if (objectType === LOG_CONTAINER) {
+            const compressionMethod = dataViewOf(object).getUint16(OBJECT_HEADER_BASE_SIZE, true);
+            const payload = object.subarray(OBJECT_HEADER_BASE_SIZE + LOG_CONTAINER_HEADER_SIZE);
+            let containerData: Uint8Array;
+            if (compressionMethod === NO_COMPRESSION) {
+                containerData = payload;
+            } else if (compressionMethod === ZLIB_DEFLATE) {
+                containerData = await inflateZlib(payload);
+            } else {
+                throw new Error(`Unsupported BLF compression method ${compressionMethod}.`);
+            }
+            pending = parseContainerData(concat(pending, containerData), messages);
+            if (messages.length > 0) {
+                onBatch(messages);
+                messages = [];
+            }
+            onProgress?.(pos + objectSize);
+        } else {
+            const message = parseObject(object.slice(), objectType);
+            if (message) messages.push(message);
+        }
+
+        pos += objectSize + (objectSize % 4);
+    }
+
+    if (messages.length > 0) onBatch(messages);
+    return info;
+};
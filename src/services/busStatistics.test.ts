@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { CANMessage } from '../types';
+import { computeBusLoad, computeIdStatistics, getFrameBits } from './busStatistics';
+import { FrameEncoder } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+const frame = (timestamp: number, id: number, data: number[], fields: Partial<CANMessage> = {}): CANMessage => ({
+    timestamp,
+    id: `0x${id.toString(16).toUpperCase()}`,
+    isExtended: false,
+    dlc: data.length,
+    data: data.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')),
+    isTx: false,
+    ...fields,
+});
+
+const encode = (messages: CANMessage[]): EncodedFrames => {
+    const encoder = new FrameEncoder();
+    messages.forEach(message => encoder.push(message));
+    return encoder.finish();
+};
+
+const bitsOf = (message: CANMessage) => getFrameBits(encode([message]), 0);
+
+describe('getFrameBits', () => {
+    // Expected counts include stuff bits, CRC delimiter, ACK, EOF and the 3-bit intermission.
+    it('counts classic frames bit by bit', () => {
+        // SOF, ID, RTR, IDE, r0, DLC and CRC are 34 dominant bits: a stuff bit after every five.
+        expect(bitsOf(frame(0, 0x000, []))).toEqual({ nominal: 34 + 6 + 13, data: 0 });
+        expect(bitsOf(frame(0, 0x7FF, []))).toEqual({ nominal: 50, data: 0 });
+        expect(bitsOf(frame(0, 0x123, [1, 2, 3, 4, 5, 6, 7, 8]))).toEqual({ nominal: 119, data: 0 });
+        expect(bitsOf(frame(0, 0x18FEF100, new Array(8).fill(0xFF), { isExtended: true }))).toEqual({ nominal: 146, data: 0 });
+    });
+
+    it('counts no data bytes for remote frames, whatever their DLC', () => {
+        expect(bitsOf(frame(0, 0x200, [], { dlc: 4, isRemote: true }))).toEqual({ nominal: 48, data: 0 });
+    });
+
+    it('splits CAN FD frames with bit rate switch into nominal and data phase bits', () => {
+        const data = Array.from({ length: 12 }, (_, i) => i);
+        // CRC-17 field: stuff count and CRC with 6 fixed stuff bits.
+        expect(bitsOf(frame(0, 0x123, data, { dlc: 9, isFd: true, brs: true }))).toEqual({ nominal: 30, data: 139 });
+        expect(bitsOf(frame(0, 0x123, data, { dlc: 9, isFd: true, brs: false }))).toEqual({ nominal: 169, data: 0 });
+    });
+
+    it('uses CRC-21 for CAN FD payloads over 16 bytes', () => {
+        const data = new Array(64).fill(0x55);
+        expect(bitsOf(frame(0, 0x18DAF110, data, { isExtended: true, dlc: 15, isFd: true, brs: true }))).toEqual({ nominal: 50, data: 549 });
+        expect(bitsOf(frame(0, 0x18DAF110, data, { isExtended: true, dlc: 15, isFd: true, brs: false }))).toEqual({ nominal: 599, data: 0 });
+    });
+
+    it('counts error frames as flag, delimiter and intermission', () => {
+        expect(bitsOf({ timestamp: 0, id: '', isExtended: false, dlc: 0, data: [], isTx: false, isErrorFrame: true })).toEqual({ nominal: 17, data: 0 });
+    });
+});
+
+describe('computeBusLoad', () => {
+    it('bins the bus time of each frame by its start', () => {
+        // 53 bits at 500 kbit/s: 106 µs per frame.
+        const frames = encode([frame(0, 0x000, []), frame(0.0004, 0x000, []), frame(0.0012, 0x000, [])]);
+        const load = computeBusLoad(frames, { bitrate: 500_000, dataBitrate: 2_000_000, binWidth: 0.001 });
+        expect(load.times).toEqual([0, 0.001, 0.002]);
+        expect(load.loads.map(value => value.toFixed(2))).toEqual(['21.20', '10.60', '0.00']);
+        expect(load.peak).toBeCloseTo(21.2, 9);
+        expect(load.average).toBeCloseTo((3 * 106e-6 / 0.0012) * 100, 9);
+    });
+
+    it('times the data phase at the data bit rate and skips reassembled transport protocol messages', () => {
+        const frames = encode([
+            frame(0, 0x123, Array.from({ length: 12 }, (_, i) => i), { dlc: 9, isFd: true, brs: true }),
+            frame(0, 0x18FECA00, new Array(14).fill(0x33), {
+                isExtended: true,
+                j1939: { priority: 6, pgn: 0xFECA, sourceAddress: 0, destinationAddress: 0xFF },
+                transportProtocol: 'BAM',
+            }),
+        ]);
+        const load = computeBusLoad(frames, { bitrate: 500_000, dataBitrate: 2_000_000, binWidth: 0.001 });
+        // 30 bits at 500 kbit/s and 139 bits at 2 Mbit/s: 129.5 µs.
+        expect(load.loads).toHaveLength(1);
+        expect(load.loads[0]).toBeCloseTo(12.95, 9);
+    });
+
+    it('returns no bins without frames or with an invalid bit rate', () => {
+        const empty = { times: [], loads: [], average: 0, peak: 0 };
+        expect(computeBusLoad(encode([]), { bitrate: 500_000, dataBitrate: 0, binWidth: 0.1 })).toEqual(empty);
+        expect(computeBusLoad(encode([frame(0, 0x100, [])]), { bitrate: 0, dataBitrate: 0, binWidth: 0.1 })).toEqual(empty);
+    });
+});
+
+describe('computeIdStatistics', () => {
+    it('reports periods, DLC mismatches and silent periods per ID and channel', () => {
+        const frames = encode([
+            ...[0, 0.01, 0.02, 0.03, 0.3].map(timestamp => frame(timestamp, 0x100, [1, 2], { channel: 1 })),
+            frame(0, 0x200, [1, 2, 3, 4, 5, 6, 7, 8], { channel: 2 }),
+            frame(0.05, 0x200, [1, 2, 3, 4], { channel: 2 }),
+        ]);
+        const matrix = { '512': { name: 'Status', dlc: 8, signals: {}, cycleTime: 50 } };
+        const [first, second] = computeIdStatistics(frames, matrix, { silenceFactor: 3 });
+
+        expect(first).toMatchObject({
+            id: '0x100', isExtended: false, channel: 1, count: 5, firstSeen: 0, lastSeen: 0.3,
+            minPeriod: expect.closeTo(0.01, 9), maxPeriod: expect.closeTo(0.27, 9), meanPeriod: expect.closeTo(0.075, 9),
+            jitter: expect.closeTo(Math.sqrt(0.012675), 9),
+            expectedCycle: expect.closeTo(0.01, 9), expectedCycleSource: 'measured',
+            dlcMismatches: 0,
+            silentPeriods: [{ start: 0.03, end: 0.3 }],
+        });
+        expect(second).toMatchObject({
+            id: '0x200', channel: 2, name: 'Status', count: 2, expectedLength: 8, dlcMismatches: 1,
+            expectedCycle: 0.05, expectedCycleSource: 'DBC',
+            // Not seen for 0.25 s before the end of the log: more than three 50 ms cycles.
+            silentPeriods: [{ start: 0.05 }],
+        });
+    });
+
+    it('keeps the same channel of files merged as separate sources apart', () => {
+        const frames = encode([
+            frame(0, 0x100, [1], { channel: 1, source: 0 }),
+            frame(0.005, 0x100, [1], { channel: 1, source: 1 }),
+            frame(0.01, 0x100, [1], { channel: 1, source: 0 }),
+        ]);
+        expect(computeIdStatistics(frames, {}, { silenceFactor: 3 }).map(row => [row.source, row.channel, row.count])).toEqual([[undefined, 1, 3]]);
+
+        frames.separateSources = true;
+        expect(computeIdStatistics(frames, {}, { silenceFactor: 3 }).map(row => [row.source, row.channel, row.count])).toEqual([[0, 1, 2], [1, 1, 1]]);
+    });
+});
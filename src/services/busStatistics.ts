@@ -0,0 +1,298 @@
+import type { CanMatrix } from '../types';
+import { createDefinitionLookup, getFrameKey } from './trace';
+import {
+    formatFrameId,
+    getFrameChannel,
+    getFrameData,
+    getTransportProtocol,
+    hasBitRateSwitch,
+    hasErrorStateIndicator,
+    isErrorFrame,
+    isExtendedFrame,
+    isFdFrame,
+    isRemoteFrame,
+} from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+// ---- Frame length ----
+
+// CRC delimiter, ACK slot and delimiter, end of frame and intermission: never stuffed.
+const FRAME_TRAILER_BITS = 1 + 2 + 7 + 3;
+// Error flag, delimiter and intermission of an error frame, assuming the flags of all nodes overlap.
+const ERROR_FRAME_BITS = 6 + 8 + 3;
+
+const pushBits = (bits: number[], value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+};
+
+// CAN CRC-15 (polynomial 0x4599) over the unstuffed bits from SOF to the end of the data field.
+const crc15 = (bits: number[]): number => {
+    let crc = 0;
+    for (const bit of bits) {
+        const feedback = bit ^ ((crc >> 14) & 1);
+        crc = (crc << 1) & 0x7FFF;
+        if (feedback) crc ^= 0x4599;
+    }
+    return crc;
+};
+
+// Number of stuff bits a transmitter inserts into `bits`: one after every five equal bits, the stuff
+// bit itself starting the next run.
+const countStuffBits = (bits: number[], from = 0, to = bits.length): number => {
+    let stuffBits = 0;
+    let runBit = -1;
+    let runLength = 0;
+    for (let i = from; i < to; i++) {
+        if (bits[i] === runBit) {
+            runLength++;
+        } else {
+            runBit = bits[i];
+            runLength = 1;
+        }
+        if (runLength === 5) {
+            stuffBits++;
+            runBit = 1 - runBit;
+            runLength = 1;
+        }
+    }
+    return stuffBits;
+};
+
+export interface FrameBits {
+    // Bits sent at the nominal (arbitration) bit rate.
+    nominal: number;
+    // Bits sent in the data phase of CAN FD frames with the bit rate switch set.
+    data: number;
+}
+
+// Bits on the wire for one frame, including stuff bits and the interframe space. Classic frames are
+// exact: the arbitration field, control field, data and CRC are built and stuffed bit by bit. For CAN
+// FD the dynamically stuffed part is exact as well; the CRC field adds its fixed stuff bits.
+export const getFrameBits = (frames: EncodedFrames, i: number): FrameBits => {
+    if (isErrorFrame(frames, i)) return { nominal: ERROR_FRAME_BITS, data: 0 };
+
+    const id = frames.ids[i];
+    const dlc = frames.dlcs[i];
+    const isRemote = isRemoteFrame(frames, i);
+    const isExtended = isExtendedFrame(frames, i);
+    const brs = hasBitRateSwitch(frames, i);
+    const payload = isRemote ? new Uint8Array(0) : getFrameData(frames, i);
+    const bits: number[] = [0]; // SOF
+
+    if (isExtended) {
+        pushBits(bits, (id >>> 18) & 0x7FF, 11);
+        bits.push(1, 1); // SRR, IDE
+        pushBits(bits, id & 0x3FFFF, 18);
+    } else {
+        pushBits(bits, id & 0x7FF, 11);
+    }
+
+    if (!isFdFrame(frames, i)) {
+        bits.push(isRemote ? 1 : 0); // RTR
+        bits.push(0); // IDE (standard) or r1 (extended)
+        bits.push(0); // r0
+        pushBits(bits, Math.min(dlc, 15), 4);
+        payload.forEach(byte => pushBits(bits, byte, 8));
+        pushBits(bits, crc15(bits), 15);
+        return { nominal: bits.length + countStuffBits(bits) + FRAME_TRAILER_BITS, data: 0 };
+    }
+
+    if (!isExtended) bits.push(0); // IDE
+    bits.push(0, 1, 0, brs ? 1 : 0); // RRS, FDF, res, BRS
+    const arbitrationEnd = bits.length;
+    bits.push(hasErrorStateIndicator(frames, i) ? 1 : 0);
+    pushBits(bits, dlc & 0xF, 4);
+    payload.forEach(byte => pushBits(bits, byte, 8));
+
+    // Stuff count (4 bits) and CRC-17 or CRC-21, with a fixed stuff bit before and after every four bits.
+    const crcLength = payload.length > 16 ? 21 : 17;
+    const crcFieldBits = 4 + crcLength + Math.ceil((4 + crcLength) / 4);
+    const arbitrationBits = arbitrationEnd + countStuffBits(bits, 0, arbitrationEnd);
+    const dataPhaseBits = bits.length - arbitrationEnd + countStuffBits(bits) - countStuffBits(bits, 0, arbitrationEnd) + crcFieldBits;
+
+    return brs
+        ? { nominal: arbitrationBits + FRAME_TRAILER_BITS, data: dataPhaseBits }
+        : { nominal: arbitrationBits + dataPhaseBits + FRAME_TRAILER_BITS, data: 0 };
+};
+
+// ---- Bus load ----
+
+export interface BusLoadOptions {
+    // Nominal and CAN FD data phase bit rates, in bit/s.
+    bitrate: number;
+    dataBitrate: number;
+    // Width of one load sample, in seconds.
+    binWidth: number;
+}
+
+export interface BusLoad {
+    // Start time and bus load (percent of the bus time) of each bin.
+    times: number[];
+    loads: number[];
+    average: number;
+    peak: number;
+}
+
+// Bus load of the frames of one bus, binned over time. Reassembled transport protocol messages
+// were never on the bus; their packets are counted instead.
+export const computeBusLoad = (frames: EncodedFrames, options: BusLoadOptions): BusLoad => {
+    if (frames.count === 0 || options.bitrate <= 0 || options.binWidth <= 0) return { times: [], loads: [], average: 0, peak: 0 };
+
+    let start = Infinity;
+    let end = -Infinity;
+    for (let i = 0; i < frames.count; i++) {
+        if (getTransportProtocol(frames, i)) continue;
+        const timestamp = frames.timestamps[i];
+        if (timestamp < start) start = timestamp;
+        if (timestamp > end) end = timestamp;
+    }
+
+    if (start > end) return { times: [], loads: [], average: 0, peak: 0 };
+
+    const binCount = Math.max(1, Math.ceil((end - start) / options.binWidth) + 1);
+    const busySeconds = new Float64Array(binCount);
+    let totalBusySeconds = 0;
+    for (let i = 0; i < frames.count; i++) {
+        if (getTransportProtocol(frames, i)) continue;
+        const { nominal, data } = getFrameBits(frames, i);
+        const seconds = nominal / options.bitrate + (data > 0 ? data / (options.dataBitrate || options.bitrate) : 0);
+        busySeconds[Math.floor((frames.timestamps[i] - start) / options.binWidth)] += seconds;
+        totalBusySeconds += seconds;
+    }
+
+    const times: number[] = [];
+    const loads: number[] = [];
+    let peak = 0;
+    busySeconds.forEach((seconds, i) => {
+        const load = (seconds / options.binWidth) * 100;
+        times.push(start + i * options.binWidth);
+        loads.push(load);
+        if (load > peak) peak = load;
+    });
+
+    const duration = Math.max(end - start, options.binWidth);
+    return { times, loads, average: (totalBusySeconds / duration) * 100, peak };
+};
+
+// ---- Per-ID statistics ----
+
+export interface SilentPeriod {
+    start: number;
+    // Undefined when the ID never came back before the end of the log.
+    end?: number;
+}
+
+export interface IdStatistics {
+    key: string;
+    id: string;
+    isExtended: boolean;
+    channel?: number;
+    // Index of the file, when files were merged as separate sources.
+    source?: number;
+    name?: string;
+    count: number;
+    firstSeen: number;
+    lastSeen: number;
+    // Periods between consecutive frames, in seconds; undefined for a single frame.
+    meanPeriod?: number;
+    minPeriod?: number;
+    maxPeriod?: number;
+    // Standard deviation of the period.
+    jitter?: number;
+    // DBC DLC (payload length) and the number of frames whose payload length differs from it.
+    expectedLength?: number;
+    dlcMismatches: number;
+    // Expected cycle time in seconds: GenMsgCycleTime when the DBC has it, otherwise the median period.
+    expectedCycle?: number;
+    expectedCycleSource?: 'DBC' | 'measured';
+    silentPeriods: SilentPeriod[];
+}
+
+export interface IdStatisticsOptions {
+    // A gap longer than this many expected cycle times is reported as a silent period.
+    silenceFactor: number;
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const computeIdStatistics = (frames: EncodedFrames, matrix: CanMatrix, options: IdStatisticsOptions): IdStatistics[] => {
+    const getDefinition = createDefinitionLookup(matrix);
+    const groups = new Map<number, { first: number; timestamps: number[]; dlcMismatches: number; expectedLength?: number; cycleTime?: number; name?: string }>();
+    let logEnd = -Infinity;
+
+    for (let i = 0; i < frames.count; i++) {
+        // Reassembled transport protocol messages are not frames on the bus.
+        if (isErrorFrame(frames, i) || getTransportProtocol(frames, i)) continue;
+        const timestamp = frames.timestamps[i];
+        if (timestamp > logEnd) logEnd = timestamp;
+
+        const key = getFrameKey(frames, i);
+        let group = groups.get(key);
+        if (!group) {
+            const definition = getDefinition(frames, i);
+            group = { first: i, timestamps: [], dlcMismatches: 0, expectedLength: definition?.dlc, cycleTime: definition?.cycleTime, name: definition?.name };
+            groups.set(key, group);
+        }
+        group.timestamps.push(timestamp);
+        const length = frames.dataOffsets[i + 1] - frames.dataOffsets[i];
+        if (!isRemoteFrame(frames, i) && group.expectedLength !== undefined && length !== group.expectedLength) {
+            group.dlcMismatches++;
+        }
+    }
+
+    const statistics: IdStatistics[] = [];
+    groups.forEach((group, key) => {
+        const channel = getFrameChannel(frames, group.first);
+        const timestamps = group.timestamps.sort((a, b) => a - b);
+        const periods: number[] = [];
+        for (let i = 1; i < timestamps.length; i++) periods.push(timestamps[i] - timestamps[i - 1]);
+
+        const row: IdStatistics = {
+            key: String(key),
+            id: formatFrameId(frames, group.first),
+            isExtended: isExtendedFrame(frames, group.first),
+            ...(channel !== undefined ? { channel } : {}),
+            ...(frames.separateSources ? { source: frames.sources[group.first] } : {}),
+            ...(group.name ? { name: group.name } : {}),
+            count: timestamps.length,
+            firstSeen: timestamps[0],
+            lastSeen: timestamps[timestamps.length - 1],
+            ...(group.expectedLength !== undefined ? { expectedLength: group.expectedLength } : {}),
+            dlcMismatches: group.dlcMismatches,
+            silentPeriods: [],
+        };
+
+        if (periods.length > 0) {
+            const mean = periods.reduce((sum, period) => sum + period, 0) / periods.length;
+            row.meanPeriod = mean;
+            row.minPeriod = periods.reduce((a, b) => Math.min(a, b));
+            row.maxPeriod = periods.reduce((a, b) => Math.max(a, b));
+            row.jitter = Math.sqrt(periods.reduce((sum, period) => sum + (period - mean) ** 2, 0) / periods.length);
+        }
+
+        if (group.cycleTime) {
+            row.expectedCycle = group.cycleTime / 1000;
+            row.expectedCycleSource = 'DBC';
+        } else if (periods.length > 0) {
+            row.expectedCycle = median(periods);
+            row.expectedCycleSource = 'measured';
+        }
+
+        if (row.expectedCycle && row.expectedCycle > 0) {
+            const limit = row.expectedCycle * options.silenceFactor;
+            periods.forEach((period, i) => {
+                if (period > limit) row.silentPeriods.push({ start: timestamps[i], end: timestamps[i + 1] });
+            });
+            if (logEnd - row.lastSeen > limit) row.silentPeriods.push({ start: row.lastSeen });
+        }
+
+        statistics.push(row);
+    });
+
+    return statistics.sort((a, b) =>
+        (a.source ?? -1) - (b.source ?? -1) || (a.channel ?? -1) - (b.channel ?? -1) || Number(a.isExtended) - Number(b.isExtended) || parseInt(a.id, 16) - parseInt(b.id, 16));
+};
@@ -0,0 +1,14 @@
+// CAN FD data length codes: 0-8 are byte counts, 9-15 select the larger FD payloads.
+const FD_LENGTHS = [12, 16, 20, 24, 32, 48, 64];
+
+export const dlcToLength = (dlc: number, isFd = true): number => {
+    if (dlc <= 8) return Math.max(0, dlc);
+    return isFd ? FD_LENGTHS[Math.min(dlc, 15) - 9] : 8;
+};
+
+// Smallest DLC whose payload holds `length` bytes (FD frames are padded up to it).
+export const lengthToDlc = (length: number): number => {
+    if (length <= 8) return Math.max(0, length);
+    const index = FD_LENGTHS.findIndex(fdLength => fdLength >= length);
+    return index === -1 ? 15 : index + 9;
+};
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { parseCanLogFile } from './canParser';
+
+describe('Vector ASC parser', () => {
+    const ascLog = [
+        'date Wed Jun 5 10:22:33.123 am 2024',
+        'base hex  timestamps absolute',
+        'internal events logged',
+        '// version 13.0.0',
+        'Begin Triggerblock Wed Jun 5 10:22:33.123 am 2024',
+        '   0.000000 Start of measurement',
+        '   0.010000 1  123             Rx   d 8 01 02 03 04 05 06 07 08  Length = 272000 BitCount = 140 ID = 291',
+        '   0.020000 2  18FF0360x       Tx   d 3 AA BB CC',
+        '   0.030000 1  200             Rx   r 4',
+        '   0.040000 1  ErrorFrame',
+        '   0.050000 CANFD   1 Rx        7ff                                   1 0 9 12 00 01 02 03 04 05 06 07 08 09 0A 0B   0    0   1000 0 0 0 0 0',
+        '   0.060000 CANFD   2 Tx   1FFFFFFFx  EngineData                      0 1 8  8 11 22 33 44 55 66 77 88   0    0   1000 0 0 0 0 0',
+        'End TriggerBlock',
+    ].join('\n');
+
+    it('reads the header', () => {
+        const { info } = parseCanLogFile(ascLog, 'trace.asc');
+        expect(info.format).toBe('Vector ASC');
+        expect(info.numberBase).toBe('hex');
+        expect(info.timestampMode).toBe('absolute');
+        expect(info.startTime).toBe('Wed Jun 5 10:22:33.123 am 2024');
+        expect(info.startDate).toBe(new Date(2024, 5, 5, 10, 22, 33, 123).getTime());
+    });
+
+    it('reads classic, remote, error and CAN FD frames', () => {
+        const { messages } = parseCanLogFile(ascLog, 'trace.asc');
+        expect(messages).toEqual([
+            { timestamp: 0.01, id: '0x123', isExtended: false, dlc: 8, data: ['01', '02', '03', '04', '05', '06', '07', '08'], isTx: false, channel: 1 },
+            { timestamp: 0.02, id: '0x18FF0360', isExtended: true, dlc: 3, data: ['AA', 'BB', 'CC'], isTx: true, channel: 2 },
+            { timestamp: 0.03, id: '0x200', isExtended: false, dlc: 4, data: [], isTx: false, channel: 1, isRemote: true },
+            { timestamp: 0.04, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel: 1, isErrorFrame: true },
+            {
+                timestamp: 0.05, id: '0x7FF', isExtended: false, dlc: 9,
+                data: ['00', '01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B'],
+                isTx: false, channel: 1, isFd: true, brs: true, esi: false,
+            },
+            {
+                timestamp: 0.06, id: '0x1FFFFFFF', isExtended: true, dlc: 8,
+                data: ['11', '22', '33', '44', '55', '66', '77', '88'],
+                isTx: true, channel: 2, isFd: true, brs: false, esi: true,
+            },
+        ]);
+    });
+
+    it('reads decimal logs', () => {
+        const { messages, info } = parseCanLogFile([
+            'base dec  timestamps absolute',
+            '   1.500000 1  291             Rx   d 2 1 255',
+        ].join('\n'), 'trace.asc');
+        expect(info.numberBase).toBe('dec');
+        expect(messages).toEqual([{ timestamp: 1.5, id: '0x123', isExtended: false, dlc: 2, data: ['01', 'FF'], isTx: false, channel: 1 }]);
+    });
+
+    it('counts relative timestamps from the previous event, frame or not', () => {
+        const { messages } = parseCanLogFile([
+            'base hex  timestamps relative',
+            '   0.010000 1  100             Rx   d 1 01',
+            '   0.005000 CAN 1 Status:chip status error active',
+            '   0.005000 1  Statistic: D 0 R 0 XD 0 XR 0 E 0 O 0 B 0.00%',
+            '   0.005000 1  100             Rx   d 1 02',
+        ].join('\n'), 'trace.asc');
+        expect(messages.map(message => message.timestamp)).toEqual([0.01, expect.closeTo(0.025, 9)]);
+    });
+});
+
+describe('PCAN TRC 2.x parser', () => {
+    it('reads the columns named by the $COLUMNS header of a 2.1 file, with time offsets in ms', () => {
+        const { info, messages } = parseCanLogFile([
+            ';$FILEVERSION=2.1',
+            ';$STARTTIME=43008.920986006946',
+            ';$COLUMNS=N,O,T,B,I,d,R,L,D',
+            ';   Start time: 30.09.2017 22:06:13.196.0',
+            ';---+-- ------+------ +- +- --+----- +- +- +--- +- -- -- -- -- -- -- --',
+            '      1      1059.900 DT 1      0300 Rx -  8    00 00 00 00 04 00 00 00',
+            '      2      1283.231 FB 1  18EFC000 Tx -  12   01 02 03 04 05 06 07 08 09 0A 0B 0C 0D 0E 0F 10 11 12 13 14 15 16 17 18',
+            '      3      1298.750 RR 2      0123 Rx -  4',
+            '      4      1300.000 ST 1         - Rx -  4    00 00 00 04',
+            '      5      1310.000 ER 1         - Rx -  5    04 00 08 00 00',
+        ].join('\n'), 'trace.trc');
+        expect(info.format).toBe('PCAN TRC');
+        expect(info.startTime).toBe('30.09.2017 22:06:13.196.0');
+        expect(messages).toEqual([
+            { timestamp: 1.0599, isTx: false, channel: 1, id: '0x0300', isExtended: false, dlc: 8, data: ['00', '00', '00', '00', '04', '00', '00', '00'] },
+            {
+                timestamp: 1.283231, isTx: true, channel: 1, id: '0x18EFC000', isExtended: true, dlc: 12,
+                data: ['01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B', '0C', '0D', '0E', '0F', '10', '11', '12', '13', '14', '15', '16', '17', '18'],
+                isFd: true, brs: true, esi: false,
+            },
+            { timestamp: 1.29875, isTx: false, channel: 2, id: '0x0123', isExtended: false, dlc: 4, data: [], isRemote: true },
+            { timestamp: 1.31, isTx: false, channel: 1, id: '', isExtended: false, dlc: 0, data: [], isErrorFrame: true },
+        ]);
+    });
+
+    it('falls back to the default 2.0 columns', () => {
+        const { messages } = parseCanLogFile([
+            ';$FILEVERSION=2.0',
+            ';$STARTTIME=42209.4075997106',
+            '      1      1059.900 DT     0300 Rx 7  00 00 00 00 04 00 00',
+            '      2      1283.231 FD     0400 Tx 12 00 01 02 03 04 05 06 07 08 09 0A 0B',
+        ].join('\n'), 'trace.trc');
+        expect(messages).toEqual([
+            { timestamp: 1.0599, isTx: false, id: '0x0300', isExtended: false, dlc: 7, data: ['00', '00', '00', '00', '04', '00', '00'] },
+            {
+                timestamp: 1.283231, isTx: true, id: '0x0400', isExtended: false, dlc: 9,
+                data: ['00', '01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B'],
+                isFd: true, brs: false, esi: false,
+            },
+        ]);
+    });
+
+    it('recognises 2.x lines without a header', () => {
+        const { info, messages } = parseCanLogFile([
+            '      1      1059.900 DT     0300 Rx 7  00 00 00 00 04 00 00',
+            '      2      1283.231 FD     0400 Tx 12 00 01 02 03 04 05 06 07 08 09 0A 0B',
+            '      3      1290.500 DT 2  18FF0001 Rx -  2    01 02',
+        ].join('\n'), 'trace.txt');
+        expect(info.format).toBe('PCAN TRC');
+        expect(messages).toEqual([
+            { timestamp: 1.0599, id: '0x0300', isExtended: false, dlc: 7, data: ['00', '00', '00', '00', '04', '00', '00'], isTx: false },
+            {
+                timestamp: 1.283231, id: '0x0400', isExtended: false, dlc: 9,
+                data: ['00', '01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B'],
+                isTx: true, isFd: true, brs: false, esi: false,
+            },
+            { timestamp: 1.2905, id: '0x18FF0001', isExtended: true, dlc: 2, data: ['01', '02'], isTx: false },
+        ]);
+    });
+});
+
+describe('log timestamps', () => {
+    const timestamps = (content: string) => parseCanLogFile(content, 'trace.log').messages.map(message => message.timestamp);
+
+    it('reads whole numbers without a fractional part as milliseconds', () => {
+        expect(timestamps('1500 0x123 2 01 02\n2500 0x123 2 01 03\n')).toEqual([1.5, 2.5]);
+        expect(timestamps('1 | 1500 | 0x123 | 2 | 01 02\n2 | 2500 | 0x123 | 2 | 01 03\n')).toEqual([1.5, 2.5]);
+    });
+
+    it('keeps candump seconds that happen to be whole', () => {
+        // Read as milliseconds, 12.000000 would fall back to 0.012 s between its neighbours.
+        expect(timestamps('(11.999999) can0 123#01\n(12.000000) can0 123#02\n(12.000001) can0 123#03\n')).toEqual([11.999999, 12, 12.000001]);
+        // candump -l writes seconds since the epoch, which the interleave merge aligns on.
+        expect(timestamps('(1600000000.000000) can1 123#01\n(1600000000.250000) can1 123#02\n')).toEqual([1600000000, 1600000000.25]);
+    });
+});
+
+describe('trace time units', () => {
+    const timestamps = (content: string, fileName: string) => parseCanLogFile(content, fileName).messages.map(message => message.timestamp);
+
+    it('reads PCAN trace offsets as milliseconds in version 1.x files', () => {
+        // PCAN-View 4, file version 1.1.
+        expect(timestamps('     1)      1059.9  Rx         0300  8  00 00 00 00 04 00 00 00\n', 'trace.trc')).toEqual([1.0599]);
+        // The same layout with "0x" identifiers.
+        expect(timestamps('     1)      1059.9  Rx       0x0300  8  00 00 00 00 04 00 00 00\n', 'trace.trc')).toEqual([1.0599]);
+    });
+
+    it('reads PCAN-View offsets as milliseconds in files without a version header', () => {
+        expect(timestamps('     1      1059.900 DT     0300 Rx 8  00 00 00 00 04 00 00 00\n', 'trace.trc')).toEqual([1.0599]);
+        expect(timestamps('     1      1059.900 DT   0x0300 Rx 8  00 00 00 00 04 00 00 00\n', 'trace.trc')).toEqual([1.0599]);
+    });
+
+    it('reads the last BusMaster time field as tenths of a millisecond', () => {
+        const content = [
+            '***BUSMASTER Ver 3.2.2***',
+            '***<Time><Tx/Rx><Channel><CAN ID><Type><DLC><DataBytes>***',
+            '10:22:33:1234 Rx 1 0x100 s 8 01 02 03 04 05 06 07 08',
+            '10:22:33:1334 Rx 1 0x100 s 8 01 02 03 04 05 06 07 08',
+            '10:22:34:0234 Rx 1 0x100 s 8 01 02 03 04 05 06 07 08',
+        ].join('\n');
+        expect(timestamps(content, 'trace.log')).toEqual([0, 0.01, 0.9]);
+    });
+});
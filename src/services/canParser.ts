@@ -1,16 +1,39 @@
 
 import * as XLSX from 'xlsx';
-import type { CANMessage, CanMatrix, SignalDefinition } from '../types';
+import type { CANMessage, CanMatrix, LogFileInfo, MessageDefinition, ParsedLogFile, SignalDefinition, SignalStore } from '../types';
+import { dlcToLength, lengthToDlc } from './canFd';
+import { getMatrixKey, getMessageQualifiers, getSignalKey } from './matrixParser';
+import { buildPgnIndex, parseJ1939Id } from './j1939';
+import { SignalStoreBuilder } from './signalStore';
+import type { SignalIdentity } from './signalStore';
 
 let DEFAULT_PARSER_FOR_UNKNOWN_TYPES: 'log' | 'trc' = 'log';
-const LOG_REGEX = /^\s*\((\d+(?:\.\d+)?)\)\s+\w+\s+([0-9A-Fa-f]+)#([0-9A-Fa-f]*)\s*$/;
+const LOG_REGEX = /^\s*\((\d+(?:\.\d+)?)\)\s+\w+\s+([0-9A-Fa-f]+)#(?:#([0-9A-Fa-f]))?([0-9A-Fa-f]*|R\d*)\s*$/;
 const TRC_REGEX = /^\s*\d+\)\s+(\d+(?:\.\d+)?)\s+(Rx|Tx)\s+([0-9A-Fa-fxX]+)\s+\d+\s*([0-9A-Fa-f\s]*)$/;
+// TRC 2.x without a $COLUMNS header: "<n>[)] <time> [<bus>] <type> [<bus>] <id> <dir> [-] <dlc> <data...>"
+const TRC_V2_REGEX = /^\s*\d+\)?\s+(\d+(?:\.\d+)?)\s+(?:\d+\s+)?(DT|FD|FB|FE|BI|RR)\s+(?:\d+\s+)?([0-9A-Fa-f]+)\s+(Rx|Tx)\s+(?:-\s+)?(\d+)\s*([0-9A-Fa-f\s]*)$/;
 const PCAN_VIEW_REGEX = /^\s*\d+\s+([\d.]+)\s+\w+\s+([0-9A-Fa-fxX]+)\s+(Rx|Tx)\s+\d+\s*([0-9A-Fa-f\s]*)$/;
 const PCAN_V5_REGEX = /^\s*\d+\)\s+([\d.]+)\s+(Rx|Tx)\s+([0-9A-Fa-f]+)\s+\d+\s*([0-9A-Fa-f\s]*)$/;
 const CUSTOM_FORMAT_REGEX = /^\s*(\d+)\s+(0x[0-9A-Fa-f]+|[0-9A-Fa-f]+)\s+(\d+)\s+([0-9A-Fa-f\s]*)\s*$/;
 const BUSMASTER_PIPE_REGEX = /^\s*[\d-]+\s*\|\s*(\d+)\s*\|\s*([0-9A-Fa-fxX]+)\s*\|\s*(\d+)\s*\|\s*([0-9A-Fa-f\s]+)\s*$/;
 const BUSMASTER_V3_REGEX = /^(\d{1,2}:\d{1,2}:\d{1,2}:\d{4})\s+(Rx|Tx)\s+\d+\s+([0-9A-Fa-fxX]+)\s+([a-zA-Z])\s+(\d+)(?:\s+([0-9A-Fa-f\s]*))?$/;
 
+// Logs print extended identifiers with 8 hex digits (candump "00000123", PCAN "00000300"); an ID
+// that does not fit 11 bits is extended however it is printed.
+const isExtendedIdText = (id: string): boolean => {
+    const digits = id.replace(/^0x/i, '');
+    return digits.length >= 8 || parseInt(digits, 16) > 0x7FF;
+};
+
+// Timestamps written without a fractional part are milliseconds; with one, seconds. Checking the
+// text rather than the value keeps whole seconds such as candump's "1600000000.000000" intact.
+const parseLogTimestamp = (text: string): number => {
+    const value = parseFloat(text);
+    return text.includes('.') ? value : value / 1000.0;
+};
+
+// PCAN trace files give the time offset in milliseconds in every version.
+const parseTrcTimestamp = (text: string): number => parseFloat(text) / 1000.0;
 
 const parseBusMasterPipeLine = (line: string): CANMessage | null => {
     const match = line.match(BUSMASTER_PIPE_REGEX);
@@ -20,14 +43,12 @@ const parseBusMasterPipeLine = (line: string): CANMessage | null => {
     const data = rawData.trim().split(/\s+/).filter(Boolean);
     const parsedId = id.toLowerCase().startsWith('0x') ? id : `0x${id}`;
     
-    let parsedTimestamp = parseFloat(timestamp);
-    if (Number.isInteger(parsedTimestamp)) {
-        parsedTimestamp /= 1000.0;
-    }
+    const parsedTimestamp = parseLogTimestamp(timestamp);
 
     return {
         timestamp: parsedTimestamp,
         id: parsedId.toUpperCase(),
+        isExtended: isExtendedIdText(id),
         dlc: parseInt(dlc, 10),
         data: data.map(byte => byte.toUpperCase()),
         isTx: false, 
@@ -38,7 +59,7 @@ const parseBusMasterV3Line = (line: string): CANMessage | null => {
     const match = line.match(BUSMASTER_V3_REGEX);
     if (!match) return null;
 
-    const [_, timeStr, direction, id, _type, dlc, rawData] = match;
+    const [_, timeStr, direction, id, type, dlc, rawData] = match;
     
     const timeParts = timeStr.split(':');
     if (timeParts.length !== 4) return null;
@@ -46,9 +67,10 @@ const parseBusMasterV3Line = (line: string): CANMessage | null => {
     const hours = parseInt(timeParts[0], 10);
     const minutes = parseInt(timeParts[1], 10);
     const seconds = parseInt(timeParts[2], 10);
-    const milliseconds = parseInt(timeParts[3], 10);
-    
-    const absoluteTimestamp = (hours * 3600) + (minutes * 60) + seconds + (milliseconds / 1000.0);
+    // The last field counts tenths of a millisecond.
+    const fraction = parseInt(timeParts[3], 10);
+
+    const absoluteTimestamp = (hours * 3600) + (minutes * 60) + seconds + (fraction / 10000.0);
 
     const data = (rawData || '').trim().split(/\s+/).filter(Boolean);
     const parsedId = id.toLowerCase().startsWith('0x') ? id : `0x${id}`;
@@ -56,6 +78,8 @@ const parseBusMasterV3Line = (line: string): CANMessage | null => {
     return {
         timestamp: absoluteTimestamp,
         id: parsedId.toUpperCase(),
+        // Message type column: s = standard, x = extended
+        isExtended: type.toLowerCase() === 'x' || isExtendedIdText(id),
         dlc: parseInt(dlc, 10),
         data: data.map(byte => byte.toUpperCase()),
         isTx: direction === 'Tx',
@@ -75,14 +99,12 @@ const parseCustomFormatLine = (line: string): CANMessage | null => {
     const data = rawData.trim().split(/\s+/).filter(Boolean);
     const parsedId = id.toLowerCase().startsWith('0x') ? id : `0x${id}`;
     
-    let parsedTimestamp = parseFloat(timestamp);
-    if (Number.isInteger(parsedTimestamp)) {
-        parsedTimestamp /= 1000.0;
-    }
+    const parsedTimestamp = parseLogTimestamp(timestamp);
 
     return {
         timestamp: parsedTimestamp,
         id: parsedId.toUpperCase(),
+        isExtended: isExtendedIdText(id),
         dlc: parseInt(dlc, 10),
         data: data.map(byte => byte.toUpperCase()),
         isTx: false,
@@ -93,21 +115,41 @@ const parseLogLine = (line: string): CANMessage | null => {
     const match = line.match(LOG_REGEX);
     if (!match) return null;
 
-    const [, timestamp, id, rawData] = match;
-    const data = rawData.match(/.{1,2}/g) || [];
+    const [, timestamp, id, fdFlags, rawData] = match;
     
-    let parsedTimestamp = parseFloat(timestamp);
-    if (Number.isInteger(parsedTimestamp)) {
-        parsedTimestamp /= 1000.0;
+    const parsedTimestamp = parseLogTimestamp(timestamp);
+
+    // "<id>#R[<dlc>]" is a remote frame, "<id>##<flags><data>" a CAN FD frame (flags: 1 = BRS, 2 = ESI).
+    if (rawData.startsWith('R')) {
+        if (fdFlags !== undefined) return null;
+        return {
+            timestamp: parsedTimestamp,
+            id: `0x${id.toUpperCase()}`,
+            isExtended: isExtendedIdText(id),
+            dlc: rawData.length > 1 ? parseInt(rawData.slice(1), 10) : 0,
+            data: [],
+            isTx: false,
+            isRemote: true,
+        };
     }
 
-    return {
+    const data = rawData.match(/.{1,2}/g) || [];
+    const message: CANMessage = {
         timestamp: parsedTimestamp,
         id: `0x${id.toUpperCase()}`,
+        isExtended: isExtendedIdText(id),
         dlc: data.length,
         data: data.map(byte => byte.toUpperCase()),
         isTx: false,
     };
+    if (fdFlags !== undefined) {
+        const flags = parseInt(fdFlags, 16);
+        message.dlc = lengthToDlc(data.length);
+        message.isFd = true;
+        message.brs = (flags & 0x1) !== 0;
+        message.esi = (flags & 0x2) !== 0;
+    }
+    return message;
 };
 
 const parseTrcLine = (line: string): CANMessage | null => {
@@ -117,20 +159,48 @@ const parseTrcLine = (line: string): CANMessage | null => {
     const [, timestamp, direction, id, rawData] = match;
     const data = rawData.trim().split(/\s+/).filter(Boolean);
     
-    let parsedTimestamp = parseFloat(timestamp);
-    if (Number.isInteger(parsedTimestamp)) {
-        parsedTimestamp /= 1000.0;
-    }
+    const parsedTimestamp = parseTrcTimestamp(timestamp);
 
     return {
         timestamp: parsedTimestamp,
         id: id.startsWith('0x') ? id.toUpperCase() : `0x${id.toUpperCase()}`,
+        isExtended: isExtendedIdText(id),
         dlc: data.length,
         data: data.map(byte => byte.toUpperCase()),
         isTx: direction === 'Tx',
     };
 };
 
+// TRC 2.x names the frame type: DT (CAN), RR (remote), FD (CAN FD), FB (FD with bit rate switch),
+// FE (FD with error state indicator) and BI (FD with both).
+const parseTrcV2Line = (line: string): CANMessage | null => {
+    const match = line.match(TRC_V2_REGEX);
+    if (!match) return null;
+
+    const [, timestamp, type, id, direction, dlc, rawData] = match;
+    const data = rawData.trim().split(/\s+/).filter(Boolean);
+    const isFd = type !== 'DT' && type !== 'RR';
+    // Version 2.0 logs the byte count in this column, later versions the DLC.
+    const column = parseInt(dlc, 10);
+    const parsedDlc = isFd && data.length !== dlcToLength(column) ? lengthToDlc(data.length) : column;
+
+    const message: CANMessage = {
+        timestamp: parseTrcTimestamp(timestamp),
+        id: `0x${id.toUpperCase()}`,
+        isExtended: isExtendedIdText(id),
+        dlc: parsedDlc,
+        data: type === 'RR' ? [] : data.slice(0, dlcToLength(parsedDlc, isFd)).map(byte => byte.toUpperCase()),
+        isTx: direction === 'Tx',
+    };
+    if (type === 'RR') message.isRemote = true;
+    if (isFd) {
+        message.isFd = true;
+        message.brs = type === 'FB' || type === 'BI';
+        message.esi = type === 'FE' || type === 'BI';
+    }
+    return message;
+};
+
 const parsePcanViewLine = (line: string): CANMessage | null => {
     const trimmedLine = line.trim();
     if (trimmedLine.startsWith(';')) {
@@ -143,8 +213,9 @@ const parsePcanViewLine = (line: string): CANMessage | null => {
     const data = rawData.trim().split(/\s+/).filter(Boolean);
 
     return {
-        timestamp: parseFloat(timestamp),
+        timestamp: parseTrcTimestamp(timestamp),
         id: id.startsWith('0x') ? id.toUpperCase() : `0x${id.toUpperCase()}`,
+        isExtended: isExtendedIdText(id),
         dlc: data.length,
         data: data.map(byte => byte.toUpperCase()),
         isTx: direction === 'Tx',
@@ -159,14 +230,221 @@ const parsePcanV5Line = (line: string): CANMessage | null => {
     const data = rawData.trim().split(/\s+/).filter(Boolean);
 
     return {
-        timestamp: parseFloat(timestamp),
+        timestamp: parseTrcTimestamp(timestamp),
         id: `0x${id.toUpperCase()}`,
+        isExtended: isExtendedIdText(id),
         dlc: data.length,
         data: data.map(byte => byte.toUpperCase()),
         isTx: direction === 'Tx',
     };
 };
 
+// ---- PCAN TRC 2.x ----
+
+// Column letters of the ";$COLUMNS=" header: N number, O time offset (ms), T type, B bus, I ID,
+// d direction, R reserved, l data length (bytes), L DLC and D data bytes, which come last.
+const TRC_DEFAULT_COLUMNS: Record<string, string> = { '2.0': 'N,O,T,I,d,l,D', '2.1': 'N,O,T,B,I,d,R,L,D' };
+const TRC_FRAME_TYPES = new Set(['DT', 'RR', 'FD', 'FB', 'FE', 'BI']);
+const TRC_HEADER_REGEX = /^;\$(\w+)=(.*)$/;
+const TRC_START_TIME_REGEX = /^;\s*Start time:\s*(.+)$/i;
+
+// PCAN's $STARTTIME, days since 1899-12-30 in local time, as epoch milliseconds.
+const fromOleDate = (days: number): number => {
+    const local = (days - 25569) * 86400000;
+    return Math.round(local + new Date(local).getTimezoneOffset() * 60000);
+};
+
+// Line parser for TRC 2.0 and later, whose column layout is given by the $COLUMNS header.
+const createTrcV2LineParser = (fileName: string, head: string) => {
+    const info: LogFileInfo = { fileName, format: 'PCAN TRC' };
+    const version = head.match(/^;\$FILEVERSION=(\d+\.\d+)/m)?.[1] ?? '2.1';
+    let columns = (TRC_DEFAULT_COLUMNS[version] ?? TRC_DEFAULT_COLUMNS['2.1']).split(',');
+
+    const parseHeaderLine = (line: string) => {
+        const headerMatch = line.match(TRC_HEADER_REGEX);
+        if (headerMatch) {
+            const [, key, value] = headerMatch;
+            if (key === 'COLUMNS') columns = value.split(',').map(column => column.trim());
+            if (key === 'STARTTIME' && !isNaN(parseFloat(value))) {
+                info.startDate = fromOleDate(parseFloat(value));
+                info.startTime ??= new Date(info.startDate).toLocaleString();
+            }
+            return;
+        }
+        const startTimeMatch = line.match(TRC_START_TIME_REGEX);
+        if (startTimeMatch) info.startTime = startTimeMatch[1].trim();
+    };
+
+    const parseLine = (line: string): CANMessage | null => {
+        const trimmedLine = line.trim();
+        if (!trimmedLine) return null;
+        if (trimmedLine.startsWith(';')) {
+            parseHeaderLine(trimmedLine);
+            return null;
+        }
+
+        const tokens = trimmedLine.split(/\s+/);
+        const dataIndex = columns.indexOf('D');
+        const fixedColumns = dataIndex === -1 ? columns : columns.slice(0, dataIndex);
+        if (tokens.length < fixedColumns.length) return null;
+        const fields: Record<string, string> = {};
+        fixedColumns.forEach((column, index) => { fields[column] = tokens[index]; });
+        const data = dataIndex === -1 ? [] : tokens.slice(fixedColumns.length);
+
+        const timestamp = parseTrcTimestamp(fields.O);
+        if (isNaN(timestamp)) return null;
+        const channel = fields.B !== undefined ? parseInt(fields.B, 10) : NaN;
+        const common = { timestamp, isTx: fields.d === 'Tx', ...(isNaN(channel) ? {} : { channel }) };
+
+        const type = fields.T;
+        if (type === 'ER') return { ...common, id: '', isExtended: false, dlc: 0, data: [], isErrorFrame: true };
+        // Status (ST), error counter (EC) and event (EV) lines carry no frame.
+        if (!TRC_FRAME_TYPES.has(type) || !/^[0-9A-Fa-f]+$/.test(fields.I ?? '')) return null;
+
+        const isFd = type !== 'DT' && type !== 'RR';
+        // Version 2.0 logs the byte count ("l"), later versions the DLC ("L").
+        const dlc = fields.L !== undefined ? parseInt(fields.L, 10) : lengthToDlc(fields.l !== undefined ? parseInt(fields.l, 10) : data.length);
+        if (isNaN(dlc)) return null;
+
+        const message: CANMessage = {
+            ...common,
+            id: `0x${fields.I.toUpperCase()}`,
+            isExtended: isExtendedIdText(fields.I),
+            dlc,
+            data: type === 'RR' ? [] : data.slice(0, dlcToLength(dlc, isFd)).map(byte => byte.toUpperCase()),
+        };
+        if (type === 'RR') message.isRemote = true;
+        if (isFd) {
+            message.isFd = true;
+            message.brs = type === 'FB' || type === 'BI';
+            message.esi = type === 'FE' || type === 'BI';
+        }
+        return message;
+    };
+
+    return { parseLine, info };
+};
+
+// ---- Vector ASC ----
+
+const ASC_DATE_REGEX = /^date\s+(.+)$/i;
+const ASC_BASE_REGEX = /^base\s+(hex|dec)(?:\s+timestamps\s+(absolute|relative))?/i;
+const ASC_HEADER_DATE_REGEX = /^(?:\w+\s+)?([A-Za-z]{3})\w*\s+(\d{1,2})\s+(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d{1,3}))?\s*(am|pm)?\s+(\d{4})/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// e.g. "Wed Jun 5 10:22:33.123 am 2024" or "Thu Mar 14 09:04:35 2019"
+const parseAscHeaderDate = (text: string): number | undefined => {
+    const match = text.trim().match(ASC_HEADER_DATE_REGEX);
+    if (!match) return undefined;
+    const [, monthName, day, hours, minutes, seconds, millis, meridiem, year] = match;
+    const month = MONTHS.indexOf(monthName.toLowerCase());
+    if (month === -1) return undefined;
+
+    let hour = parseInt(hours, 10);
+    if (meridiem) {
+        const isPm = meridiem.toLowerCase() === 'pm';
+        if (isPm && hour < 12) hour += 12;
+        if (!isPm && hour === 12) hour = 0;
+    }
+    return new Date(
+        parseInt(year, 10), month, parseInt(day, 10), hour,
+        parseInt(minutes, 10), parseInt(seconds, 10), millis ? parseInt(millis.padEnd(3, '0'), 10) : 0
+    ).getTime();
+};
+
+const createAscLineParser = (fileName: string) => {
+    const info: LogFileInfo = { fileName, format: 'Vector ASC', numberBase: 'hex', timestampMode: 'absolute' };
+    let radix = 16;
+    let previousTimestamp = 0;
+
+    const toHexByte = (token: string) => parseInt(token, radix).toString(16).toUpperCase().padStart(2, '0');
+    // Extended identifiers carry an "x" suffix, e.g. "18FF0360x".
+    const parseId = (token: string) => {
+        const match = token.match(/^([0-9A-Fa-f]+)(x?)$/i);
+        if (!match) return null;
+        const value = parseInt(match[1], radix);
+        return { id: `0x${value.toString(16).toUpperCase()}`, isExtended: match[2] !== '' || value > 0x7FF };
+    };
+
+    const parseLine = (line: string): CANMessage | null => {
+        const trimmedLine = line.trim();
+        if (!trimmedLine || trimmedLine.startsWith('//')) return null;
+
+        const dateMatch = trimmedLine.match(ASC_DATE_REGEX);
+        if (dateMatch) {
+            info.startTime = dateMatch[1].trim();
+            info.startDate = parseAscHeaderDate(dateMatch[1]);
+            return null;
+        }
+        const baseMatch = trimmedLine.match(ASC_BASE_REGEX);
+        if (baseMatch) {
+            info.numberBase = baseMatch[1].toLowerCase() as 'hex' | 'dec';
+            radix = info.numberBase === 'hex' ? 16 : 10;
+            if (baseMatch[2]) info.timestampMode = baseMatch[2].toLowerCase() as 'absolute' | 'relative';
+            return null;
+        }
+
+        const tokens = trimmedLine.split(/\s+/);
+        let timestamp = parseFloat(tokens[0]);
+        if (isNaN(timestamp)) return null;
+        if (info.timestampMode === 'relative') {
+            timestamp += previousTimestamp;
+        }
+        // Relative times count from the previous event of any kind, not only from frames.
+        previousTimestamp = timestamp;
+        if (tokens.length < 3) return null;
+
+        let message: CANMessage | null = null;
+
+        if (tokens[1] === 'CANFD') {
+            // <time> CANFD <ch> <dir> <id> [symbolic name] <brs> <esi> <dlc> <data length> <data...> ...
+            const channel = parseInt(tokens[2], 10);
+            const direction = tokens[3];
+            if (tokens[4] === 'ErrorFrame') {
+                message = { timestamp, id: '', isExtended: false, dlc: 0, data: [], isTx: direction === 'Tx', channel, isErrorFrame: true };
+            } else {
+                const frameId = parseId(tokens[4] ?? '');
+                let i = 5;
+                if (tokens[i] !== undefined && !/^[01]$/.test(tokens[i])) i++; // symbolic message name
+                const dlc = parseInt(tokens[i + 2], 16);
+                const dataLength = parseInt(tokens[i + 3], 10);
+                if (frameId && !isNaN(dataLength)) {
+                    const data = tokens.slice(i + 4, i + 4 + dataLength);
+                    message = {
+                        timestamp, ...frameId, dlc: isNaN(dlc) ? lengthToDlc(data.length) : dlc, data: data.map(toHexByte), isTx: direction === 'Tx', channel,
+                        isFd: true, brs: tokens[i] === '1', esi: tokens[i + 1] === '1',
+                    };
+                }
+            }
+        } else {
+            // <time> <ch> <id>[x] <dir> d <dlc> <data...> | <time> <ch> <id>[x] <dir> r [dlc] | <time> <ch> ErrorFrame
+            const channel = parseInt(tokens[1], 10);
+            if (isNaN(channel)) return null;
+            if (tokens[2] === 'ErrorFrame') {
+                message = { timestamp, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel, isErrorFrame: true };
+            } else {
+                const frameId = parseId(tokens[2]);
+                const direction = tokens[3];
+                const frameType = tokens[4]?.toLowerCase();
+                if (frameId && (direction === 'Rx' || direction === 'Tx')) {
+                    if (frameType === 'd') {
+                        const dlc = parseInt(tokens[5], 16);
+                        const data = tokens.slice(6, 6 + Math.min(dlc, 8));
+                        message = { timestamp, ...frameId, dlc, data: data.map(toHexByte), isTx: direction === 'Tx', channel };
+                    } else if (frameType === 'r') {
+                        const dlc = tokens[5] !== undefined ? parseInt(tokens[5], 16) : 0;
+                        message = { timestamp, ...frameId, dlc: isNaN(dlc) ? 0 : dlc, data: [], isTx: direction === 'Tx', channel, isRemote: true };
+                    }
+                }
+            }
+        }
+
+        return message;
+    };
+
+    return { parseLine, info };
+};
+
 export const parseExcelFile = async (file: File): Promise<CANMessage[]> => {
     const data = await file.arrayBuffer();
     const workbook = XLSX.read(data);
@@ -215,14 +493,12 @@ export const parseExcelFile = async (file: File): Promise<CANMessage[]> => {
             const dataStr = String(rawData).trim().replace(/0x/gi, '');
             const dataBytes = dataStr.split(/[\s,]+/).filter(Boolean);
             
-            let parsedTimestamp = parseFloat(String(timestamp));
-            if (Number.isInteger(parsedTimestamp)) {
-                parsedTimestamp /= 1000.0;
-            }
+            const parsedTimestamp = parseLogTimestamp(String(timestamp));
 
             const message: CANMessage = {
                 timestamp: parsedTimestamp,
                 id: idStr.startsWith('0x') ? idStr.toUpperCase() : `0x${idStr.toUpperCase()}`,
+                isExtended: isExtendedIdText(idStr),
                 dlc: parseInt(String(dlc), 10),
                 data: dataBytes.map(byte => byte.toUpperCase()),
                 isTx: typeHeader && row[typeHeader] ? String(row[typeHeader]).toLowerCase().includes('tx') : false,
@@ -242,121 +518,292 @@ export const parseExcelFile = async (file: File): Promise<CANMessage[]> => {
     return messages;
 };
 
-export const parseCanLogFile = (content: string, fileName: string): CANMessage[] => {
-    const lines = content.split(/\r?\n/);
-    const messages: CANMessage[] = [];
+const FORMAT_NAMES = new Map<(line: string) => CANMessage | null, string>([
+    [parseBusMasterV3Line, 'BusMaster'],
+    [parseBusMasterPipeLine, 'BusMaster'],
+    [parseCustomFormatLine, 'Custom'],
+    [parseLogLine, 'candump'],
+    [parseTrcV2Line, 'PCAN TRC'],
+    [parsePcanV5Line, 'PCAN TRC'],
+    [parseTrcLine, 'PCAN TRC'],
+    [parsePcanViewLine, 'PCAN TRC'],
+]);
+
+// Bytes at the start of a log used to recognise formats announced by a header (ASC, BusMaster).
+export const LOG_HEAD_SIZE = 64 * 1024;
+
+export interface TextLogParser {
+    // Parses one line of the log; returns the frame it holds, if any.
+    parseLine(line: string): CANMessage | null;
+    // Describes the log once all lines have been parsed.
+    finish(): LogFileInfo;
+}
 
-    const isBusMasterV3 = content.includes('***BUSMASTER Ver');
+// Line-by-line parser for text logs, so that large files can be parsed while they are read.
+// `head` is the start of the file (up to LOG_HEAD_SIZE characters).
+export const createTextLogParser = (fileName: string, head: string): TextLogParser => {
+    if (/\.asc$/i.test(fileName) || /^\s*base\s+(hex|dec)\b/im.test(head)) {
+        const ascParser = createAscLineParser(fileName);
+        return { parseLine: ascParser.parseLine, finish: () => ascParser.info };
+    }
+
+    if (/^;\$FILEVERSION=2\./m.test(head)) {
+        const trcParser = createTrcV2LineParser(fileName, head);
+        return { parseLine: trcParser.parseLine, finish: () => trcParser.info };
+    }
+
+    const isBusMasterV3 = head.includes('***BUSMASTER Ver');
 
     const parsers = [
         parseBusMasterV3Line,
         parseBusMasterPipeLine,
         parseCustomFormatLine,
         parseLogLine,
+        parseTrcV2Line,
         parsePcanV5Line,
         parseTrcLine,
         parsePcanViewLine
     ];
 
     let detectedParser: ((line: string) => CANMessage | null) | null = null;
-    
-    for (const line of lines) {
+    let firstTimestamp: number | null = null;
+
+    const parseLine = (line: string): CANMessage | null => {
         const trimmedLine = line.trim();
         if (!trimmedLine) {
-            continue;
+            return null;
         }
 
         if (isBusMasterV3) {
             if (!/^\d/.test(trimmedLine)) {
-                continue; 
+                return null; 
             }
         } else if (/^(;|\*\*|=====|Date\s\||---)/.test(trimmedLine)) {
-            continue;
+            return null;
         }
 
+        let message: CANMessage | null = null;
         if (detectedParser) {
-            const message = detectedParser(trimmedLine);
-            if (message) {
-                messages.push(message);
-            }
+            message = detectedParser(trimmedLine);
         } else {
             for (const parser of parsers) {
-                const message = parser(trimmedLine);
+                message = parser(trimmedLine);
                 if (message) {
-                    messages.push(message);
                     detectedParser = parser;
                     break;
                 }
             }
         }
+
+        // BusMaster V3 logs the time of day; make it relative to the first frame.
+        if (message && detectedParser === parseBusMasterV3Line) {
+            if (firstTimestamp === null) firstTimestamp = Number(message.timestamp);
+            if (!isNaN(firstTimestamp)) {
+                message.timestamp = parseFloat((Number(message.timestamp) - firstTimestamp).toPrecision(10));
+            }
+        }
+        return message;
+    };
+
+    return {
+        parseLine,
+        finish: () => ({ fileName, format: (detectedParser && FORMAT_NAMES.get(detectedParser)) || 'Unknown' }),
+    };
+};
+
+export const parseCanLogFile = (content: string, fileName: string): ParsedLogFile => {
+    const parser = createTextLogParser(fileName, content.slice(0, LOG_HEAD_SIZE));
+    const messages: CANMessage[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const message = parser.parseLine(line);
+        if (message) messages.push(message);
+    }
+    return { messages, info: parser.finish() };
+};
+
+// The frame payload as unsigned integers, built once per frame and shared by all of its signals.
+// BigInt extracts signals of up to 64 bits exactly; 32-bit JS bitwise operators would overflow.
+interface FramePayload {
+    bytes: Uint8Array;
+    littleEndianBits?: bigint;
+    bigEndianBits?: bigint;
+}
+
+const getLittleEndianBits = (payload: FramePayload): bigint => {
+    if (payload.littleEndianBits === undefined) {
+        let bits = 0n;
+        for (let i = payload.bytes.length - 1; i >= 0; i--) {
+            bits = (bits << 8n) | BigInt(payload.bytes[i]);
+        }
+        payload.littleEndianBits = bits;
     }
-    
-    if (detectedParser === parseBusMasterV3Line && messages.length > 0) {
-        const firstTimestamp = Number(messages[0].timestamp);
-        if (!isNaN(firstTimestamp)) {
-            return messages.map(msg => ({
-                ...msg,
-                timestamp: parseFloat((Number(msg.timestamp) - firstTimestamp).toPrecision(10))
-            }));
+    return payload.littleEndianBits;
+};
+
+const getBigEndianBits = (payload: FramePayload): bigint => {
+    if (payload.bigEndianBits === undefined) {
+        let bits = 0n;
+        for (let i = 0; i < payload.bytes.length; i++) {
+            bits = (bits << 8n) | BigInt(payload.bytes[i]);
         }
+        payload.bigEndianBits = bits;
     }
+    return payload.bigEndianBits;
+};
 
-    return messages;
+// Motorola (DBC @0): the start bit is the signal's MSB in the sawtooth numbering (bit = byte * 8 +
+// bit-in-byte, so the bit after bit 0 of byte 0 is bit 15). Convert it to a linear MSB-first
+// position within the big-endian payload; the remaining bits follow it contiguously.
+const getMotorolaMsbPosition = (startBit: number): number => Math.floor(startBit / 8) * 8 + (7 - (startBit % 8));
+
+// CAN FD payloads of one message may vary in length; a signal that does not fit the received
+// payload is not part of the frame.
+const isSignalInPayload = (payload: FramePayload, signal: SignalDefinition): boolean => {
+    const firstBit = signal.isLittleEndian ? signal.startBit : getMotorolaMsbPosition(signal.startBit);
+    return firstBit + signal.length <= payload.bytes.length * 8;
 };
 
-const extractSignalValue = (data: Uint8Array, signal: SignalDefinition): number => {
-    let rawValue = 0;
-    
+// Returns the signal's bits as an unsigned integer. Bits beyond the end of the payload read as 0.
+const extractRawBits = (payload: FramePayload, signal: SignalDefinition): bigint => {
+    const mask = (1n << BigInt(signal.length)) - 1n;
+
     if (signal.isLittleEndian) {
-        for (let i = 0; i < signal.length; i++) {
-            const bitIndex = signal.startBit + i;
-            const byteIndex = Math.floor(bitIndex / 8);
-            if (byteIndex >= data.length) continue;
-            const bitInByte = bitIndex % 8;
-            if ((data[byteIndex] >> bitInByte) & 1) {
-                rawValue |= 1 << i;
-            }
-        }
-    } else {
-        let bitCount = 0;
-        for (let i = 0; i < 8 * 8; i++) {
-            const byteIndex = Math.floor(i / 8);
-            if (byteIndex >= data.length) break;
-            const bitInByte = 7 - (i % 8);
-            if (i >= signal.startBit && i < signal.startBit + signal.length) {
-                if ((data[byteIndex] >> bitInByte) & 1) {
-                    rawValue |= 1 << (signal.length - 1 - bitCount);
-                }
-                bitCount++;
-            }
-        }
+        return (getLittleEndianBits(payload) >> BigInt(signal.startBit)) & mask;
+    }
+
+    const msbPosition = getMotorolaMsbPosition(signal.startBit);
+    const shift = payload.bytes.length * 8 - msbPosition - signal.length;
+    const bits = getBigEndianBits(payload);
+    return (shift >= 0 ? bits >> BigInt(shift) : bits << BigInt(-shift)) & mask;
+};
+
+const floatView = new DataView(new ArrayBuffer(8));
+
+// Raw values are stored as doubles: integer signals are exact up to 53 bits, wider ones (e.g. a
+// 64-bit counter above 2^53) are rounded to the nearest representable value.
+const extractRawValue = (payload: FramePayload, signal: SignalDefinition): number => {
+    const bits = extractRawBits(payload, signal);
+
+    if (signal.valueType === 'float32' && signal.length === 32) {
+        floatView.setUint32(0, Number(bits));
+        return floatView.getFloat32(0);
+    }
+    if (signal.valueType === 'float64' && signal.length === 64) {
+        floatView.setBigUint64(0, bits);
+        return floatView.getFloat64(0);
+    }
+    if (signal.isSigned) {
+        return Number(BigInt.asIntN(signal.length, bits));
+    }
+    return Number(bits);
+};
+
+// A multiplexed signal is only present in a frame when its multiplexor (itself possibly
+// multiplexed, for extended multiplexing) carries one of the signal's selector values.
+const isSignalActive = (
+    signal: SignalDefinition,
+    definition: MessageDefinition,
+    getRawValue: (signal: SignalDefinition) => number,
+    depth = 0
+): boolean => {
+    if (depth > 8) return false;
+
+    if (signal.multiplexerSignal && signal.multiplexerRanges) {
+        const multiplexor = definition.signals[signal.multiplexerSignal];
+        if (!multiplexor || !isSignalActive(multiplexor, definition, getRawValue, depth + 1)) return false;
+        const selector = getRawValue(multiplexor);
+        return signal.multiplexerRanges.some(([from, to]) => selector >= from && selector <= to);
     }
 
-    if (signal.isSigned && (rawValue & (1 << (signal.length - 1)))) {
-        rawValue -= 1 << signal.length;
+    if (signal.multiplexerValue !== undefined) {
+        const multiplexor = Object.values(definition.signals).find(s => s.isMultiplexor && s.multiplexerValue === undefined);
+        if (!multiplexor) return false;
+        return getRawValue(multiplexor) === signal.multiplexerValue;
     }
 
-    return rawValue * signal.scale + signal.offset;
+    return true;
+};
+
+export interface DecodeOptions {
+    // J1939: attach PGN/SA/DA to 29-bit frames and match them to the matrix by PGN alone, so that
+    // priority and source address do not have to match the DBC ID.
+    j1939?: boolean;
+}
+
+export interface MessageDecoder {
+    // Records the signal values of one frame; returns the frame, with its J1939 addressing in
+    // J1939 mode.
+    decode(message: CANMessage): CANMessage;
+    // The samples of all frames decoded so far.
+    finish(): SignalStore;
 }
 
-export const decodeMessages = (messages: CANMessage[], matrix: CanMatrix): CANMessage[] => {
-    return messages.map(message => {
-        const messageId = parseInt(message.id, 16).toString();
-        const definition = matrix[messageId];
+// Decodes frames one at a time into a columnar signal store, so that large logs can be decoded
+// while they are parsed.
+export const createMessageDecoder = (matrix: CanMatrix, options: DecodeOptions = {}): MessageDecoder => {
+    const pgnIndex = options.j1939 ? buildPgnIndex(matrix) : null;
+    const qualifiers = getMessageQualifiers(matrix);
+    const identities = new Map<SignalDefinition, SignalIdentity>();
+    const store = new SignalStoreBuilder();
+
+    const getIdentity = (signal: SignalDefinition, definition: MessageDefinition): SignalIdentity => {
+        let identity = identities.get(signal);
+        if (!identity) {
+            const messageName = qualifiers.get(definition) ?? definition.name;
+            identity = { key: getSignalKey(messageName, signal.name), messageName, signalName: signal.name };
+            identities.set(signal, identity);
+        }
+        return identity;
+    };
+
+    const decode = (message: CANMessage): CANMessage => {
+        const id = parseInt(message.id, 16);
+        let definition: MessageDefinition | undefined;
+
+        if (pgnIndex && message.isExtended) {
+            const j1939 = parseJ1939Id(id);
+            definition = pgnIndex.get(j1939.pgn);
+            message = { ...message, j1939 };
+        } else {
+            definition = matrix[getMatrixKey(id, message.isExtended)];
+        }
 
         if (!definition) {
             return message;
         }
 
-        const dataBytes = new Uint8Array(message.data.map(hex => parseInt(hex, 16)));
-        const decodedSignals: { [key: string]: number } = {};
+        const payload: FramePayload = { bytes: new Uint8Array(message.data.map(hex => parseInt(hex, 16))) };
+        const timestamp = Number(message.timestamp);
+        const rawValues = new Map<string, number>();
+        const getRawValue = (signal: SignalDefinition): number => {
+            let rawValue = rawValues.get(signal.name);
+            if (rawValue === undefined) {
+                rawValue = extractRawValue(payload, signal);
+                rawValues.set(signal.name, rawValue);
+            }
+            return rawValue;
+        };
 
         for (const signalName in definition.signals) {
             const signal = definition.signals[signalName];
-            const value = extractSignalValue(dataBytes, signal);
-            decodedSignals[signal.name] = parseFloat(value.toPrecision(10));
+            if (!isSignalInPayload(payload, signal) || !isSignalActive(signal, definition, getRawValue)) continue;
+            const value = getRawValue(signal) * signal.scale + signal.offset;
+            // Trim floating-point noise from the scaling (e.g. 0.1 * 3) without rounding large integers.
+            store.push(getIdentity(signal, definition), timestamp, Number.isInteger(value) ? value : parseFloat(value.toPrecision(15)), message.isFd, message.brs);
         }
 
-        return { ...message, decoded: decodedSignals };
-    });
+        return message;
+    };
+
+    return { decode, finish: () => store.finish() };
+};
+
+export interface DecodedLog {
+    messages: CANMessage[];
+    signals: SignalStore;
+}
+
+export const decodeMessages = (messages: CANMessage[], matrix: CanMatrix, options: DecodeOptions = {}): DecodedLog => {
+    const decoder = createMessageDecoder(matrix, options);
+    return { messages: messages.map(decoder.decode), signals: decoder.finish() };
 };
@@ -0,0 +1,38 @@
+// Finds references to the log in chat replies, so that they can be shown as links to the chart.
+// The system prompt asks the model to write times as "t=12.5 s", time ranges as "t=12.5-14 s"
+// (or "t=12.5 s to 14 s") and signals by their qualified names.
+
+export type ChatReference =
+    | { type: 'time'; time: number }
+    | { type: 'range'; start: number; end: number }
+    | { type: 'signal'; signalKey: string };
+
+export interface ChatSegment {
+    text: string;
+    reference?: ChatReference;
+}
+
+const REFERENCE_PATTERN = /\bt\s*=\s*(\d+(?:\.\d+)?)(?:\s*s\b)?(?:\s*(?:-|–|to)\s*(?:t\s*=\s*)?(\d+(?:\.\d+)?)\s*s\b)?|\b[A-Za-z_]\w*(?:\[0x[0-9A-Fa-f]+\])?\.[A-Za-z_]\w*\b/g;
+
+// Splits text into plain runs and references; `isSignal` tells qualified signal names, including
+// ones whose message name carries its ID ("Msg[0x123].Signal"), from other dotted words such as "e.g".
+export const splitChatReferences = (text: string, isSignal: (name: string) => boolean): ChatSegment[] => {
+    const segments: ChatSegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(REFERENCE_PATTERN)) {
+        let reference: ChatReference | undefined;
+        if (match[1] !== undefined) {
+            const start = parseFloat(match[1]);
+            const end = match[2] !== undefined ? parseFloat(match[2]) : NaN;
+            reference = end > start ? { type: 'range', start, end } : { type: 'time', time: start };
+        } else if (isSignal(match[0])) {
+            reference = { type: 'signal', signalKey: match[0] };
+        }
+        if (!reference) continue;
+        if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+        segments.push({ text: match[0], reference });
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last) });
+    return segments;
+};
@@ -0,0 +1,175 @@
+import * as XLSX from 'xlsx';
+import type { CanMatrix, SignalSeries, SignalStore } from '../types';
+import { getSignalUnit } from './matrixParser';
+import { lowerBound, upperBound } from './signalStore';
+import { writeMdf4 } from './mdfWriter';
+import { writeParquet } from './parquetWriter';
+
+export type ExportFormat = 'mf4' | 'parquet' | 'xlsx';
+
+// - raw: the samples as logged; a signal without a sample at a row's time has no value there;
+// - fixed: a fixed-rate time grid, values linearly interpolated between the neighbouring samples;
+// - hold: every time any exported signal was sampled, each signal holding its last value (zero-order hold).
+export type ResamplingMode = 'raw' | 'fixed' | 'hold';
+
+export interface ExportOptions {
+    signalKeys: string[];
+    start: number;
+    end: number;
+    resampling: ResamplingMode;
+    // Samples per second of the fixed-rate grid.
+    rate: number;
+}
+
+export interface ExportColumn {
+    key: string;
+    // Signal name within its message.
+    name: string;
+    unit: string;
+    // NaN where the signal has no value.
+    values: Float64Array;
+}
+
+export interface ExportTable {
+    name: string;
+    timestamps: Float64Array;
+    columns: ExportColumn[];
+}
+
+// Keeps an accidental fixed rate over a long log from exhausting memory.
+const MAX_EXPORT_ROWS = 20_000_000;
+// Excel's row limit, less the header row.
+const MAX_SHEET_ROWS = 1_048_575;
+
+const getRawTimestamps = (series: SignalSeries[], start: number, end: number): Float64Array => {
+    const slices = series.map(s => s.timestamps.subarray(lowerBound(s.timestamps, start), upperBound(s.timestamps, end)));
+    const merged = new Float64Array(slices.reduce((sum, slice) => sum + slice.length, 0));
+    let offset = 0;
+    slices.forEach(slice => { merged.set(slice, offset); offset += slice.length; });
+    merged.sort();
+
+    let count = 0;
+    for (let i = 0; i < merged.length; i++) {
+        if (i === 0 || merged[i] !== merged[count - 1]) merged[count++] = merged[i];
+    }
+    return merged.slice(0, count);
+};
+
+const getFixedTimestamps = (start: number, end: number, rate: number): Float64Array => {
+    if (!(rate > 0)) throw new Error('The sample rate must be a positive number.');
+    const count = Math.floor((end - start) * rate + 1e-9) + 1;
+    if (count > MAX_EXPORT_ROWS) throw new Error(`${count.toLocaleString()} rows at ${rate} Hz is too many; choose a lower rate or a shorter range.`);
+    // Multiplying rather than accumulating keeps the grid free of drift.
+    return Float64Array.from({ length: count }, (_, i) => parseFloat((start + i / rate).toPrecision(12)));
+};
+
+// The grid is increasing, so one pass over the samples resolves every row.
+const resample = (series: SignalSeries, grid: Float64Array, mode: ResamplingMode): Float64Array => {
+    const { timestamps, values } = series;
+    const result = new Float64Array(grid.length).fill(NaN);
+    let next = 0;
+    for (let row = 0; row < grid.length; row++) {
+        const time = grid[row];
+        while (next < timestamps.length && timestamps[next] <= time) next++;
+        // Samples [0, next) are at or before the row's time.
+        const previous = next - 1;
+        if (mode === 'raw') {
+            if (previous >= 0 && timestamps[previous] === time) result[row] = values[previous];
+        } else if (mode === 'hold') {
+            if (previous >= 0) result[row] = values[previous];
+        } else if (previous >= 0 && timestamps[previous] === time) {
+            result[row] = values[previous];
+        } else if (previous >= 0 && next < timestamps.length) {
+            const fraction = (time - timestamps[previous]) / (timestamps[next] - timestamps[previous]);
+            result[row] = values[previous] + (values[next] - values[previous]) * fraction;
+        }
+    }
+    return result;
+};
+
+export const buildExportTable = (name: string, signalKeys: string[], signals: SignalStore, matrix: CanMatrix, options: ExportOptions): ExportTable => {
+    const series = signalKeys.map(key => signals[key]);
+    let timestamps = options.resampling === 'fixed'
+        ? getFixedTimestamps(options.start, options.end, options.rate)
+        : getRawTimestamps(series, options.start, options.end);
+    // With hold, values carried in from before the range show from its first row on.
+    if (options.resampling === 'hold' && isFinite(options.start) && !(timestamps[0] <= options.start)) {
+        const withStart = new Float64Array(timestamps.length + 1);
+        withStart[0] = options.start;
+        withStart.set(timestamps, 1);
+        timestamps = withStart;
+    }
+    return {
+        name,
+        timestamps,
+        columns: series.map((s, i) => ({
+            key: signalKeys[i],
+            name: s.signalName,
+            unit: getSignalUnit(matrix, signalKeys[i]),
+            values: resample(s, timestamps, options.resampling),
+        })),
+    };
+};
+
+// One table per message, in message name order.
+export const buildMessageTables = (signals: SignalStore, matrix: CanMatrix, options: ExportOptions): ExportTable[] => {
+    const byMessage = new Map<string, string[]>();
+    options.signalKeys.forEach(key => {
+        const { messageName } = signals[key];
+        byMessage.set(messageName, [...(byMessage.get(messageName) ?? []), key]);
+    });
+    return Array.from(byMessage.keys())
+        .sort((a, b) => a.localeCompare(b))
+        .map(messageName => buildExportTable(messageName, byMessage.get(messageName)!, signals, matrix, options));
+};
+
+// Sheet names are at most 31 characters, without []:*?/\ and unique within the workbook.
+const getSheetName = (name: string, used: Set<string>): string => {
+    const base = name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet';
+    let sheetName = base;
+    for (let i = 2; used.has(sheetName.toLowerCase()); i++) {
+        const suffix = ` (${i})`;
+        sheetName = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(sheetName.toLowerCase());
+    return sheetName;
+};
+
+const writeXlsx = (tables: ExportTable[]): Uint8Array => {
+    const workbook = XLSX.utils.book_new();
+    const used = new Set<string>();
+    tables.forEach(table => {
+        if (table.timestamps.length > MAX_SHEET_ROWS) {
+            throw new Error(`${table.name} has ${table.timestamps.length.toLocaleString()} rows, more than an Excel sheet holds; choose a shorter range or a lower rate.`);
+        }
+        const header = ['Time (s)', ...table.columns.map(column => column.unit ? `${column.name} [${column.unit}]` : column.name)];
+        const rows: (number | null)[][] = Array.from(table.timestamps, (time, row) => [
+            time,
+            ...table.columns.map(column => Number.isNaN(column.values[row]) ? null : column.values[row]),
+        ]);
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([header, ...rows]), getSheetName(table.name, used));
+    });
+    return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    mf4: 'application/octet-stream',
+    parquet: 'application/vnd.apache.parquet',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// MF4 gets one channel group and XLSX one sheet per message; Parquet one column per signal, keyed
+// by the qualified signal name. `startDate` (epoch ms of time zero) goes into the MF4 header.
+export const exportSignals = (format: ExportFormat, signals: SignalStore, matrix: CanMatrix, options: ExportOptions, startDate?: number): Blob => {
+    if (options.signalKeys.length === 0) throw new Error('Select at least one signal to export.');
+    if (!(options.end >= options.start)) throw new Error('The end of the time range must not be before its start.');
+
+    let bytes: Uint8Array;
+    if (format === 'parquet') {
+        bytes = writeParquet(buildExportTable('signals', options.signalKeys, signals, matrix, options));
+    } else {
+        const tables = buildMessageTables(signals, matrix, options);
+        bytes = format === 'mf4' ? writeMdf4(tables, { startDate }) : writeXlsx(tables);
+    }
+    return new Blob([bytes as BlobPart], { type: MIME_TYPES[format] });
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseDbcFile } from './matrixParser';
+import { decodeMessages } from './canParser';
+import type { CANMessage } from '../types';
+
+// Reference frames with known physical values for both byte orders. Each entry is a DBC SG_ line,
+// so the corpus exercises the matrix parser and the decoder together. Motorola start bits use the
+// DBC sawtooth numbering (the MSB's position, byte * 8 + bit-in-byte).
+
+interface DecodingCorpusEntry {
+    description: string;
+    signal: string;
+    data: string[];
+    expected: number;
+    valueType?: 1 | 2;
+}
+
+const DECODING_CORPUS: DecodingCorpusEntry[] = [
+    // Intel (little-endian)
+    { description: 'Intel 8-bit at bit 0', signal: 'SG_ S : 0|8@1+ (1,0) [0|255] "" X', data: ['12'], expected: 18 },
+    { description: 'Intel 16-bit scaled', signal: 'SG_ S : 8|16@1+ (0.1,0) [0|0] "" X', data: ['00', '34', '12'], expected: 466 },
+    { description: 'Intel 12-bit not byte aligned', signal: 'SG_ S : 4|12@1+ (1,0) [0|0] "" X', data: ['AB', 'CD'], expected: 3290 },
+    { description: 'Intel signed 16-bit', signal: 'SG_ S : 16|16@1- (1,0) [0|0] "" X', data: ['00', '00', 'FE', 'FF'], expected: -2 },
+    { description: 'Intel 32-bit odometer', signal: 'SG_ S : 32|32@1+ (0.1,0) [0|0] "km" X', data: ['00', '00', '00', '00', '40', '42', '0F', '00'], expected: 100000 },
+    { description: 'Intel 32-bit with MSB set', signal: 'SG_ S : 32|32@1+ (1,0) [0|0] "" X', data: ['00', '00', '00', '00', 'FF', 'FF', 'FF', 'FF'], expected: 4294967295 },
+    { description: 'Intel 64-bit unsigned', signal: 'SG_ S : 0|64@1+ (1,0) [0|0] "" X', data: ['00', '00', '00', '00', '00', '00', '10', '00'], expected: 2 ** 52 },
+    { description: 'Intel signed 40-bit', signal: 'SG_ S : 0|40@1- (1,0) [0|0] "" X', data: ['FF', 'FF', 'FF', 'FF', 'FF'], expected: -1 },
+    { description: 'Intel 1-bit flag', signal: 'SG_ S : 13|1@1+ (1,0) [0|1] "" X', data: ['00', '20'], expected: 1 },
+    // Motorola (big-endian)
+    { description: 'Motorola 8-bit at bit 7', signal: 'SG_ S : 7|8@0+ (1,0) [0|255] "" X', data: ['12'], expected: 18 },
+    { description: 'Motorola 16-bit across bytes 0-1', signal: 'SG_ S : 7|16@0+ (1,0) [0|0] "" X', data: ['12', '34'], expected: 4660 },
+    { description: 'Motorola 12-bit starting mid-byte', signal: 'SG_ S : 3|12@0+ (1,0) [0|0] "" X', data: ['0A', 'BC'], expected: 2748 },
+    { description: 'Motorola 16-bit in bytes 2-3', signal: 'SG_ S : 23|16@0+ (1,0) [0|0] "" X', data: ['00', '00', 'AB', 'CD'], expected: 43981 },
+    { description: 'Motorola 4-bit inside one byte', signal: 'SG_ S : 5|4@0+ (1,0) [0|0] "" X', data: ['3C'], expected: 15 },
+    { description: 'Motorola 10-bit across bytes 1-2', signal: 'SG_ S : 13|10@0+ (1,0) [0|0] "" X', data: ['00', '2A', 'F0'], expected: 687 },
+    { description: 'Motorola signed 16-bit scaled with offset', signal: 'SG_ S : 39|16@0- (0.5,10) [0|0] "" X', data: ['00', '00', '00', '00', 'FF', '38'], expected: -90 },
+    { description: 'Motorola 32-bit', signal: 'SG_ S : 7|32@0+ (1,0) [0|0] "" X', data: ['12', '34', '56', '78'], expected: 305419896 },
+    { description: 'Motorola 64-bit', signal: 'SG_ S : 7|64@0+ (1,0) [0|0] "" X', data: ['00', '00', '00', '00', '00', '00', '01', '00'], expected: 256 },
+    { description: 'Motorola 1-bit flag', signal: 'SG_ S : 62|1@0+ (1,0) [0|1] "" X', data: ['00', '00', '00', '00', '00', '00', '00', '40'], expected: 1 },
+];
+
+const FLOAT_CORPUS: DecodingCorpusEntry[] = [
+    { description: 'Motorola IEEE float32', signal: 'SG_ S : 7|32@0- (1,0) [0|0] "" X', data: ['40', '49', '0F', 'DB'], expected: Math.fround(Math.PI), valueType: 1 },
+    { description: 'Intel IEEE float64', signal: 'SG_ S : 0|64@1- (1,0) [0|0] "" X', data: ['00', '00', '00', '00', '00', '00', 'F0', '3F'], expected: 1, valueType: 2 },
+];
+
+const decodeCorpusEntry = (entry: DecodingCorpusEntry): number | undefined => {
+    const valueType = entry.valueType ? `\nSIG_VALTYPE_ 256 S : ${entry.valueType};` : '';
+    const matrix = parseDbcFile(`BO_ 256 Corpus: ${entry.data.length} X\n ${entry.signal}\n${valueType}`);
+    const frame: CANMessage = { timestamp: 0, id: '0x100', isExtended: false, dlc: entry.data.length, data: entry.data, isTx: false };
+    return decodeMessages([frame], matrix).signals['Corpus.S']?.values[0];
+};
+
+describe('decoding corpus', () => {
+    it.each([...DECODING_CORPUS, ...FLOAT_CORPUS])('$description', entry => {
+        const actual = decodeCorpusEntry(entry);
+        expect(actual).toBeDefined();
+        expect(Math.abs(actual! - entry.expected)).toBeLessThanOrEqual(1e-9 * Math.max(1, Math.abs(entry.expected)));
+    });
+});
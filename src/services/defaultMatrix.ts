@@ -4,19 +4,21 @@ import type { CanMatrix } from '../types';
 
 // This matrix is derived from the user-provided PDF.
 // It serves as the default for decoding uploaded log files.
-// Message IDs are stored as decimal strings.
+// Message IDs are stored as decimal strings, as in a DBC file (bit 31 set for extended IDs).
 // Defaulting to little-endian (Intel) format based on user feedback.
 
 export const defaultMatrix: CanMatrix = {
-    "405274497": { // 0X1827FF81
+    "2552758145": { // 0X1827FF81
         name: "MCU_Faults",
+        isExtended: true,
         dlc: 8,
         signals: {
             "Odometer": { name: "Odometer", startBit: 32, length: 32, isLittleEndian: true, isSigned: false, scale: 0.1, offset: 0, min: 0, max: 0, unit: "Kms" },  
         }
     },
-    "272170832": { // 0X1038FF50
+    "2419654480": { // 0X1038FF50
         name: "Battery_Faults",
+        isExtended: true,
         dlc: 8,
         signals: {
              "Battery Cutoff Low Voltage Fault": { name: "Battery Cutoff Low Voltage Fault", startBit: 8, length: 1, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 1, unit: "" },
@@ -42,8 +44,9 @@ export const defaultMatrix: CanMatrix = {
             
         }
     },
-    "405819456": { // 0X18305040
+    "2553303104": { // 0X18305040
         name: "MCU_Faults",
+        isExtended: true,
         dlc: 8,
         signals: {
             "Controller Fault": { name: "Controller Fault", startBit: 0, length: 1, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 1, unit: "" },
@@ -79,8 +82,9 @@ export const defaultMatrix: CanMatrix = {
             "High Pedal Disable Fault": { name: "High Pedal Disable Fault", startBit: 30, length: 1, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 1, unit: "" },
         }
     },
-    "271061072": { // 0X10281050
+    "2418544720": { // 0X10281050
         name: "Battery_IPC_Info",
+        isExtended: true,
         dlc: 8,
         signals: {
             "StateOfCharge": { name: "StateOfCharge", startBit: 0, length: 8, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 100, unit: "%" },
@@ -92,15 +96,17 @@ export const defaultMatrix: CanMatrix = {
             "BatterySwap": { name: "BatterySwap", startBit: 38, length: 1, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 1, unit: "" },
         }
     },
-    "419365728": { // 0X18FF0360
+    "2566849376": { // 0X18FF0360
         name: "Battery_Status_TPDO3",
+        isExtended: true,
         dlc: 8,
         signals: {
             "BatteryState": { name: "BatteryState", startBit: 56, length: 8, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 5, unit: "" },
         }
     },
-    "337854544": { // 0X14234050
+    "2485338192": { // 0X14234050
         name: "Battery_MCU_Current",
+        isExtended: true,
         dlc: 8,
         signals: {
             "BatteryCurrent": { name: "BatteryCurrent", startBit: 0, length: 16, isLittleEndian: true, isSigned: true, scale: 0.1, offset: 0, min: -250, max: 250, unit: "A" },
@@ -108,8 +114,9 @@ export const defaultMatrix: CanMatrix = {
             "RegenCurrentLimit": { name: "RegenCurrentLimit", startBit: 24, length: 8, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 255, unit: "" },
         }
     },
-    "338624400": { // 0X142EFF90
+    "2486108048": { // 0X142EFF90
         name: "Battery_IPC_Capacity",
+        isExtended: true,
         dlc: 8,
         signals: {
             "BatteryCurrent1": { name: "BatteryCurrent1", startBit: 0, length: 16, isLittleEndian: true, isSigned: true, scale: 0.1, offset: 0, min: -250, max: 250, unit: "A" },
@@ -118,32 +125,36 @@ export const defaultMatrix: CanMatrix = {
             "BatteryPackVoltage": { name: "BatteryPackVoltage", startBit: 48, length: 16, isLittleEndian: true, isSigned: false, scale: 0.01, offset: 0, min: 0, max: 0, unit: "Volt" },
         }
     },
-    "337920080": { // 0X14244050
+    "2485403728": { // 0X14244050
         name: "Battery_MCU_CellVoltage",
+        isExtended: true,
         dlc: 8,
         signals: {
             "MinCellVoltage": { name: "MinCellVoltage", startBit: 0, length: 16, isLittleEndian: true, isSigned: false, scale: 0.001, offset: 0, min: 0, max: 0, unit: "Volt" },
             "MaxCellVoltage": { name: "MaxCellVoltage", startBit: 32, length: 16, isLittleEndian: true, isSigned: false, scale: 0.001, offset: 0, min: 0, max: 0, unit: "Volt" },
         }
     },
-    "405164096": { // 0X18265040
+    "2552647744": { // 0X18265040
         name: "MCU_IPC_ControllerInfo",
+        isExtended: true,
         dlc: 8,
         signals: {
             "ControllerTemp": { name: "ControllerTemp", startBit: 0, length: 8, isLittleEndian: true, isSigned: true, scale: 1, offset: 0, min: -40, max: 215, unit: "DegC" },
             "MotorTemp": { name: "MotorTemp", startBit: 8, length: 8, isLittleEndian: true, isSigned: false, scale: 1, offset: -50, min: -50, max: 205, unit: "DegC" },
         }
     },
-    "405229632": { // 0X18275040
+    "2552713280": { // 0X18275040
         name: "MCU_IPC_VehicleInfo",
+        isExtended: true,
         dlc: 8,
         signals: {
             "CapacitorVoltage": { name: "CapacitorVoltage", startBit: 16, length: 16, isLittleEndian: true, isSigned: false, scale: 0.1, offset: 0, min: 0, max: 0, unit: "Volt" },
             "Speed": { name: "Speed", startBit: 48, length: 8, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 100, unit: "Kmph" },
         }
     },
-    "405208961": { // 0X1826FF81
+    "2552692609": { // 0X1826FF81
         name: "MCU_IPC_ModeInfo",
+        isExtended: true,
         dlc: 8,
         signals: {
              "VehicleMode": { name: "VehicleMode", startBit: 32, length: 3, isLittleEndian: true, isSigned: false, scale: 1, offset: 0, min: 0, max: 7, unit: "" },
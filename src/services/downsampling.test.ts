@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { SignalSeries } from '../types';
+import { decimateSeries } from './downsampling';
+
+const series = (values: number[], timestamps = values.map((_, i) => i)): SignalSeries => ({
+    messageName: 'Engine',
+    signalName: 'Speed',
+    timestamps: Float64Array.from(timestamps),
+    values: Float64Array.from(values),
+    isFd: false,
+    brs: false,
+});
+
+describe('decimateSeries', () => {
+    it('keeps raw samples when there are few per pixel column, with one neighbour either side of the window', () => {
+        const result = decimateSeries(series([10, 11, 12, 13, 14, 15, 16, 17, 18, 19]), 2, 5, 10);
+        expect(result.isDecimated).toBe(false);
+        expect(result.points).toEqual([1, 2, 3, 4, 5, 6].map(x => ({ x, y: 10 + x })));
+    });
+
+    it('keeps the first, lowest, highest and last sample of each pixel column', () => {
+        // 1000 samples over 10 columns of 100 samples each, flat but for a dip and a one-sample spike.
+        const values = new Array(1000).fill(0);
+        values[123] = -3;
+        values[537] = 5;
+        const result = decimateSeries(series(values), 0, 1000, 10);
+
+        expect(result.isDecimated).toBe(true);
+        expect(result.points.map(point => point.x)).toEqual([
+            0, 99,
+            100, 123, 199,
+            200, 299, 300, 399, 400, 499,
+            500, 537, 599,
+            600, 699, 700, 799, 800, 899, 900, 999,
+        ]);
+        expect(result.points.find(point => point.x === 123)?.y).toBe(-3);
+        expect(result.points.find(point => point.x === 537)?.y).toBe(5);
+    });
+
+    it('keeps time order when the highest sample comes before the lowest', () => {
+        const values = new Array(400).fill(1);
+        values[10] = 9;
+        values[20] = -9;
+        const { points } = decimateSeries(series(values), 0, 400, 4);
+        expect(points.slice(0, 4)).toEqual([{ x: 0, y: 1 }, { x: 10, y: 9 }, { x: 20, y: -9 }, { x: 99, y: 1 }]);
+    });
+
+    it('returns the raw samples for an empty window', () => {
+        const result = decimateSeries(series([1, 2, 3]), 5, 5, 100);
+        expect(result).toEqual({ points: [{ x: 2, y: 3 }], isDecimated: false });
+    });
+});
@@ -0,0 +1,55 @@
+import type { SignalSeries } from '../types';
+import { lowerBound, upperBound } from './signalStore';
+
+export interface ChartPoint {
+    x: number;
+    y: number;
+}
+
+export interface DecimatedSeries {
+    points: ChartPoint[];
+    // Fewer points than raw samples in the window.
+    isDecimated: boolean;
+}
+
+// Raw samples are shown as long as there are at most this many per pixel column.
+const RAW_SAMPLES_PER_COLUMN = 4;
+
+// Min/max decimation of the samples in [start, end] for a chart `columns` pixels wide: each pixel
+// column keeps its first, lowest, highest and last sample, in time order. The line then looks as
+// it would with every sample drawn, so one-frame spikes and pulses are never dropped. Zoomed in
+// far enough, the raw samples come back. The nearest samples outside the window are included so
+// that lines run to the chart edges.
+export const decimateSeries = (series: SignalSeries, start: number, end: number, columns: number): DecimatedSeries => {
+    const { timestamps, values } = series;
+    const from = Math.max(0, lowerBound(timestamps, start) - 1);
+    const to = Math.min(timestamps.length, upperBound(timestamps, end) + 1);
+    const points: ChartPoint[] = [];
+
+    if (end <= start || to - from <= Math.max(1, columns) * RAW_SAMPLES_PER_COLUMN) {
+        for (let i = from; i < to; i++) points.push({ x: timestamps[i], y: values[i] });
+        return { points, isDecimated: false };
+    }
+
+    const columnWidth = (end - start) / columns;
+    const pushIndex = (index: number) => {
+        if (points.length > 0 && points[points.length - 1].x === timestamps[index] && points[points.length - 1].y === values[index]) return;
+        points.push({ x: timestamps[index], y: values[index] });
+    };
+
+    let i = from;
+    while (i < to) {
+        const column = Math.floor((timestamps[i] - start) / columnWidth);
+        const first = i;
+        let minIndex = i;
+        let maxIndex = i;
+        for (i++; i < to && Math.floor((timestamps[i] - start) / columnWidth) === column; i++) {
+            if (values[i] < values[minIndex]) minIndex = i;
+            if (values[i] > values[maxIndex]) maxIndex = i;
+        }
+        const last = i - 1;
+        [first, Math.min(minIndex, maxIndex), Math.max(minIndex, maxIndex), last].forEach(pushIndex);
+    }
+
+    return { points, isDecimated: true };
+};
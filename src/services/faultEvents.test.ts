@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getFaultOccurrences, summarizeOccurrences } from './faultEvents';
+
+// Condition with a 50 ms glitch at 1 s, a fault from 2 s to 3.5 s and a 20 ms dropout at 3 s.
+const CHANGES = [
+    { time: 0, active: false },
+    { time: 1, active: true },
+    { time: 1.05, active: false },
+    { time: 2, active: true },
+    { time: 3, active: false },
+    { time: 3.02, active: true },
+    { time: 3.5, active: false },
+];
+
+describe('getFaultOccurrences', () => {
+    it('follows every change without debounce times', () => {
+        expect(getFaultOccurrences(CHANGES, 5)).toEqual([
+            { onset: 1, clear: 1.05, duration: expect.closeTo(0.05, 9) },
+            { onset: 2, clear: 3, duration: 1 },
+            { onset: 3.02, clear: 3.5, duration: expect.closeTo(0.48, 9) },
+        ]);
+    });
+
+    it('ignores glitches shorter than the hold time and dropouts shorter than the release time', () => {
+        expect(getFaultOccurrences(CHANGES, 5, { hold: 0.1, release: 0.1 })).toEqual([
+            { onset: expect.closeTo(2.1, 9), clear: expect.closeTo(3.6, 9), duration: expect.closeTo(1.5, 9) },
+        ]);
+    });
+
+    it('keeps a fault that never clears active until the end of the log', () => {
+        const occurrences = getFaultOccurrences([{ time: 0.5, active: true }, { time: 1, active: true }], 4, { hold: 0.5, release: 0 });
+        expect(occurrences).toEqual([{ onset: 1, duration: 3 }]);
+        expect(summarizeOccurrences(occurrences)).toEqual({ totalActiveDuration: 3, firstOnset: 1, lastOnset: 1 });
+    });
+
+    it('raises nothing when the condition holds for less than the hold time before the log ends', () => {
+        expect(getFaultOccurrences([{ time: 9.95, active: true }], 10, { hold: 0.1, release: 0 })).toEqual([]);
+    });
+});
@@ -0,0 +1,74 @@
+import type { SignalSeries } from '../types';
+
+export const isFaultSignal = (series: SignalSeries): boolean => series.signalName.toLowerCase().includes('fault');
+
+export interface FaultOccurrence {
+    // Rising edge: the fault becomes active.
+    onset: number;
+    // Falling edge: the fault is cleared; undefined while still active at the end of the log.
+    clear?: number;
+    // Active time, up to the end of the log for a fault that never clears.
+    duration: number;
+}
+
+// One point where a condition changes: from `time` on it is `active` until the next change.
+export interface ConditionChange {
+    time: number;
+    active: boolean;
+}
+
+export interface DebounceTimes {
+    // Seconds the condition has to hold before the fault becomes active.
+    hold: number;
+    // Seconds the condition has to be gone before the fault clears.
+    release: number;
+}
+
+// Active periods of a fault from the changes of its condition, in time order. A condition that is
+// true from the first change on starts there, as the log does not show when it was raised.
+export const getFaultOccurrences = (changes: ConditionChange[], logEnd: number, debounce: DebounceTimes = { hold: 0, release: 0 }): FaultOccurrence[] => {
+    const occurrences: FaultOccurrence[] = [];
+    let onset: number | null = null;
+
+    for (let i = 0; i < changes.length; i++) {
+        const { time, active } = changes[i];
+        if (i > 0 && changes[i - 1].active === active) continue;
+        // A period lasts until the next change of state or the end of the log.
+        let next = i + 1;
+        while (next < changes.length && changes[next].active === active) next++;
+        const periodEnd = next < changes.length ? changes[next].time : logEnd;
+        const length = periodEnd - time;
+
+        if (active && onset === null && length >= debounce.hold) {
+            onset = time + debounce.hold;
+        } else if (!active && onset !== null && length >= debounce.release) {
+            const clear = time + debounce.release;
+            occurrences.push({ onset, clear, duration: clear - onset });
+            onset = null;
+        }
+    }
+
+    if (onset !== null) occurrences.push({ onset, duration: Math.max(0, logEnd - onset) });
+    return occurrences;
+};
+
+export type FaultSeverity = 'info' | 'warning' | 'error' | 'critical';
+
+export interface FaultTimeline {
+    // Id of the rule that raised the fault.
+    key: string;
+    name: string;
+    severity: FaultSeverity;
+    // Signals the rule looks at, to show next to an occurrence on the chart.
+    signalKeys: string[];
+    occurrences: FaultOccurrence[];
+    totalActiveDuration: number;
+    firstOnset?: number;
+    lastOnset?: number;
+}
+
+export const summarizeOccurrences = (occurrences: FaultOccurrence[]) => ({
+    totalActiveDuration: occurrences.reduce((sum, occurrence) => sum + occurrence.duration, 0),
+    firstOnset: occurrences[0]?.onset,
+    lastOnset: occurrences[occurrences.length - 1]?.onset,
+});
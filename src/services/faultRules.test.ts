@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { SignalSeries, SignalStore } from '../types';
+import { evaluateFaultRule, parseFaultRuleSet } from './faultRules';
+import type { FaultCondition, FaultRule } from './faultRules';
+
+const series = (messageName: string, signalName: string, timestamps: number[], values: number[]): SignalSeries => ({
+    messageName,
+    signalName,
+    timestamps: Float64Array.from(timestamps),
+    values: Float64Array.from(values),
+    isFd: false,
+    brs: false,
+});
+
+const SIGNALS: SignalStore = {
+    'Engine.Temp': series('Engine', 'Temp', [0, 1, 2, 3, 4], [90, 105, 110, 95, Infinity]),
+    'Engine.Status': series('Engine', 'Status', [0, 1.5, 2.5, 3.5], [0, 4, 6, 1]),
+    'Brake.Status': series('Brake', 'Status', [0], [0]),
+};
+const LOG_END = 5;
+
+const rule = (condition: FaultCondition, fields: Partial<FaultRule> = {}): FaultRule =>
+    ({ id: 'rule', name: 'Rule', severity: 'error', condition, ...fields });
+
+const periods = (condition: FaultCondition, fields: Partial<FaultRule> = {}) =>
+    evaluateFaultRule(rule(condition, fields), SIGNALS, LOG_END).occurrences.map(({ onset, clear }) => [onset, clear]);
+
+describe('evaluateFaultRule', () => {
+    it('raises a fault while a comparison holds, until the end of the log when it never clears', () => {
+        const result = evaluateFaultRule(rule({ type: 'compare', signal: 'Temp', operator: '>', value: 100 }), SIGNALS, LOG_END);
+        expect(result.signalKeys).toEqual(['Engine.Temp']);
+        expect(result.occurrences).toEqual([{ onset: 1, clear: 3, duration: 2 }, { onset: 4, duration: 1 }]);
+        expect(result).toMatchObject({ totalActiveDuration: 3, firstOnset: 1, lastOnset: 4 });
+    });
+
+    it('applies the hold and release times in milliseconds', () => {
+        expect(periods({ type: 'compare', signal: 'Engine.Temp', operator: '>', value: 100 }, { holdTime: 500 }))
+            .toEqual([[1.5, 3], [4.5, undefined]]);
+    });
+
+    it('masks integer values before comparing', () => {
+        expect(periods({ type: 'compare', signal: 'Engine.Status', operator: '==', value: 4, mask: 0x4 })).toEqual([[1.5, 3.5]]);
+    });
+
+    it('treats masked comparisons of infinite values as false', () => {
+        expect(periods({ type: 'compare', signal: 'Engine.Temp', operator: '==', value: 0, mask: 0x1 })).toEqual([[0, 1], [2, 3]]);
+    });
+
+    it('combines conditions over signals sampled at different times', () => {
+        const overheated: FaultCondition = { type: 'compare', signal: 'Engine.Temp', operator: '>', value: 100 };
+        const warning: FaultCondition = { type: 'compare', signal: 'Engine.Status', operator: '!=', value: 0, mask: 0x4 };
+        expect(periods({ type: 'and', conditions: [overheated, warning] })).toEqual([[1.5, 3]]);
+        expect(periods({ type: 'or', conditions: [overheated, warning] })).toEqual([[1, 3.5], [4, undefined]]);
+    });
+
+    it('reports signals that are missing or ambiguous instead of evaluating', () => {
+        const result = evaluateFaultRule(rule({
+            type: 'or',
+            conditions: [
+                { type: 'compare', signal: 'Gearbox.Oil', operator: '<', value: 1 },
+                { type: 'compare', signal: 'Status', operator: '!=', value: 0 },
+            ],
+        }), SIGNALS, LOG_END);
+        expect(result.occurrences).toEqual([]);
+        expect(result.error).toBe('Signal "Gearbox.Oil" is not in the log. Signal "Status" is ambiguous: Brake.Status, Engine.Status.');
+    });
+});
+
+describe('parseFaultRuleSet', () => {
+    it('fills in defaults and keeps the optional fields', () => {
+        expect(parseFaultRuleSet(JSON.stringify([
+            { id: 'hot', condition: { type: 'compare', signal: 'Engine.Temp', operator: '>', value: 100 }, holdTime: 200, enabled: false },
+        ]))).toEqual({
+            version: 1,
+            rules: [{
+                id: 'hot', name: 'hot', severity: 'error',
+                condition: { type: 'compare', signal: 'Engine.Temp', operator: '>', value: 100 },
+                holdTime: 200, enabled: false,
+            }],
+        });
+    });
+
+    it('names the path of the first problem', () => {
+        expect(() => parseFaultRuleSet('{"rules": [{"id": "a", "condition": {"type": "and", "conditions": [{"type": "compare", "signal": "x", "operator": "=", "value": 1}]}}]}'))
+            .toThrow('rules[0].condition.conditions[0]: "operator" must be one of == != > >= < <=.');
+        expect(() => parseFaultRuleSet('{"rules": [{"id": "a", "condition": {"type": "compare", "signal": "x", "operator": "==", "value": 1, "mask": -1}}]}'))
+            .toThrow('rules[0].condition: "mask" must be a non-negative integer.');
+        expect(() => parseFaultRuleSet('not json')).toThrow('The rule set is not valid JSON.');
+    });
+});
@@ -0,0 +1,228 @@
+import type { SignalStore } from '../types';
+import { getSignalNames, resolveSignalKey } from './signalStore';
+import { getFaultOccurrences, isFaultSignal, summarizeOccurrences } from './faultEvents';
+import type { ConditionChange, FaultSeverity, FaultTimeline } from './faultEvents';
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+// Rule format, stored and exchanged as JSON.
+export type FaultCondition =
+    // Physical signal value against a constant. With `mask`, the integer value is masked first, for
+    // bits of status words and multi-bit status codes.
+    | { type: 'compare'; signal: string; operator: ComparisonOperator; value: number; mask?: number }
+    | { type: 'and'; conditions: FaultCondition[] }
+    | { type: 'or'; conditions: FaultCondition[] };
+
+export interface FaultRule {
+    id: string;
+    name: string;
+    severity: FaultSeverity;
+    condition: FaultCondition;
+    // Milliseconds the condition has to hold before the fault is raised, and be gone before it clears.
+    holdTime?: number;
+    releaseTime?: number;
+    enabled?: boolean;
+    description?: string;
+}
+
+export interface FaultRuleSet {
+    version: 1;
+    rules: FaultRule[];
+}
+
+export interface FaultRuleResult extends FaultTimeline {
+    // Why the rule could not be evaluated, e.g. a signal missing from the log.
+    error?: string;
+}
+
+const OPERATORS: ComparisonOperator[] = ['==', '!=', '>', '>=', '<', '<='];
+export const SEVERITIES: FaultSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+// The classic heuristic as a rule set: every signal with "fault" in its name is a fault while non-zero.
+export const createDefaultFaultRules = (signals: SignalStore): FaultRuleSet => ({
+    version: 1,
+    rules: getSignalNames(signals)
+        .filter(key => isFaultSignal(signals[key]))
+        .map(key => ({
+            id: key,
+            name: key,
+            severity: 'error',
+            condition: { type: 'compare', signal: key, operator: '!=', value: 0 },
+        })),
+});
+
+const validateCondition = (condition: unknown, path: string): FaultCondition => {
+    if (typeof condition !== 'object' || condition === null) throw new Error(`${path}: expected an object.`);
+    const { type } = condition as { type?: unknown };
+    if (type === 'and' || type === 'or') {
+        const { conditions } = condition as { conditions?: unknown };
+        if (!Array.isArray(conditions) || conditions.length === 0) throw new Error(`${path}: "${type}" needs a non-empty "conditions" list.`);
+        return { type, conditions: conditions.map((child, i) => validateCondition(child, `${path}.conditions[${i}]`)) };
+    }
+    if (type === 'compare') {
+        const { signal, operator, value, mask } = condition as Record<string, unknown>;
+        if (typeof signal !== 'string' || !signal) throw new Error(`${path}: "signal" must be a signal name.`);
+        if (!OPERATORS.includes(operator as ComparisonOperator)) throw new Error(`${path}: "operator" must be one of ${OPERATORS.join(' ')}.`);
+        if (typeof value !== 'number' || !isFinite(value)) throw new Error(`${path}: "value" must be a number.`);
+        if (mask !== undefined && (typeof mask !== 'number' || !Number.isInteger(mask) || mask < 0)) throw new Error(`${path}: "mask" must be a non-negative integer.`);
+        return { type, signal, operator: operator as ComparisonOperator, value, ...(mask !== undefined ? { mask } : {}) };
+    }
+    throw new Error(`${path}: unknown condition type "${String(type)}".`);
+};
+
+// Validates a single condition given in the rule format, e.g. by the analysis chat.
+export const parseFaultCondition = (condition: unknown): FaultCondition => validateCondition(condition, 'condition');
+
+const validateDelay = (value: unknown, field: string, path: string): number | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !(value >= 0)) throw new Error(`${path}: "${field}" must be a number of milliseconds.`);
+    return value;
+};
+
+// Parses and validates a rule set, e.g. an imported file. Throws with the path of the first problem.
+export const parseFaultRuleSet = (json: string): FaultRuleSet => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error('The rule set is not valid JSON.');
+    }
+    // A bare list of rules is accepted as well.
+    const rules = Array.isArray(data) ? data : (data as { rules?: unknown } | null)?.rules;
+    if (!Array.isArray(rules)) throw new Error('Expected a rule set with a "rules" list.');
+
+    const ids = new Set<string>();
+    return {
+        version: 1,
+        rules: rules.map((rule, i): FaultRule => {
+            const path = `rules[${i}]`;
+            if (typeof rule !== 'object' || rule === null) throw new Error(`${path}: expected an object.`);
+            const { id, name, severity, condition, holdTime, releaseTime, enabled, description } = rule as Record<string, unknown>;
+            if (typeof id !== 'string' || !id) throw new Error(`${path}: "id" must be a non-empty string.`);
+            if (ids.has(id)) throw new Error(`${path}: duplicate id "${id}".`);
+            ids.add(id);
+            if (severity !== undefined && !SEVERITIES.includes(severity as FaultSeverity)) throw new Error(`${path}: "severity" must be one of ${SEVERITIES.join(', ')}.`);
+            if (enabled !== undefined && typeof enabled !== 'boolean') throw new Error(`${path}: "enabled" must be true or false.`);
+
+            const parsed: FaultRule = {
+                id,
+                name: typeof name === 'string' && name ? name : id,
+                severity: (severity as FaultSeverity | undefined) ?? 'error',
+                condition: validateCondition(condition, `${path}.condition`),
+            };
+            const hold = validateDelay(holdTime, 'holdTime', path);
+            const release = validateDelay(releaseTime, 'releaseTime', path);
+            if (hold !== undefined) parsed.holdTime = hold;
+            if (release !== undefined) parsed.releaseTime = release;
+            if (enabled !== undefined) parsed.enabled = enabled as boolean;
+            if (typeof description === 'string') parsed.description = description;
+            return parsed;
+        }),
+    };
+};
+
+export const serializeFaultRuleSet = (ruleSet: FaultRuleSet): string => JSON.stringify(ruleSet, null, 2);
+
+const getConditionSignals = (condition: FaultCondition, names: Set<string> = new Set()): Set<string> => {
+    if (condition.type === 'compare') names.add(condition.signal);
+    else condition.conditions.forEach(child => getConditionSignals(child, names));
+    return names;
+};
+
+const compare = (value: number, operator: ComparisonOperator, reference: number): boolean => {
+    switch (operator) {
+        case '==': return value === reference;
+        case '!=': return value !== reference;
+        case '>': return value > reference;
+        case '>=': return value >= reference;
+        case '<': return value < reference;
+        case '<=': return value <= reference;
+    }
+};
+
+// A condition over the latest value of each signal; a signal without a sample yet makes its comparisons false.
+const evaluateCondition = (condition: FaultCondition, values: Map<string, number>, keys: Map<string, string>): boolean => {
+    switch (condition.type) {
+        case 'and': return condition.conditions.every(child => evaluateCondition(child, values, keys));
+        case 'or': return condition.conditions.some(child => evaluateCondition(child, values, keys));
+        case 'compare': {
+            let value = values.get(keys.get(condition.signal)!);
+            if (value === undefined || Number.isNaN(value)) return false;
+            if (condition.mask !== undefined) {
+                // An infinite value has no bits to mask.
+                if (!Number.isFinite(value)) return false;
+                value = Number(BigInt(Math.trunc(value)) & BigInt(condition.mask));
+            }
+            return compare(value, condition.operator, condition.value);
+        }
+    }
+};
+
+// Walks the samples of all signals of a condition in time order and records where its result changes.
+const getConditionChanges = (condition: FaultCondition, signals: SignalStore, keys: Map<string, string>): ConditionChange[] => {
+    const seriesKeys = Array.from(new Set(keys.values()));
+    const positions = seriesKeys.map(() => 0);
+    const values = new Map<string, number>();
+    const changes: ConditionChange[] = [];
+
+    for (;;) {
+        let time = Infinity;
+        seriesKeys.forEach((key, i) => {
+            const { timestamps } = signals[key];
+            if (positions[i] < timestamps.length && timestamps[positions[i]] < time) time = timestamps[positions[i]];
+        });
+        if (time === Infinity) break;
+
+        // Every sample at this time is applied before the condition is evaluated.
+        seriesKeys.forEach((key, i) => {
+            const { timestamps, values: samples } = signals[key];
+            while (positions[i] < timestamps.length && timestamps[positions[i]] === time) {
+                values.set(key, samples[positions[i]]);
+                positions[i]++;
+            }
+        });
+
+        const active = evaluateCondition(condition, values, keys);
+        if (changes.length === 0 || changes[changes.length - 1].active !== active) changes.push({ time, active });
+    }
+    return changes;
+};
+
+export const evaluateFaultRule = (rule: FaultRule, signals: SignalStore, logEnd: number): FaultRuleResult => {
+    const keys = new Map<string, string>();
+    const problems: string[] = [];
+    getConditionSignals(rule.condition).forEach(name => {
+        const resolved = resolveSignalKey(signals, name);
+        if (typeof resolved === 'string') keys.set(name, resolved);
+        else if (resolved.length === 0) problems.push(`Signal "${name}" is not in the log.`);
+        else problems.push(`Signal "${name}" is ambiguous: ${resolved.join(', ')}.`);
+    });
+
+    const base = { key: rule.id, name: rule.name, severity: rule.severity, signalKeys: Array.from(new Set(keys.values())) };
+    if (problems.length > 0) {
+        return { ...base, occurrences: [], totalActiveDuration: 0, error: problems.join(' ') };
+    }
+
+    const changes = getConditionChanges(rule.condition, signals, keys);
+    const occurrences = getFaultOccurrences(changes, logEnd, {
+        hold: (rule.holdTime ?? 0) / 1000,
+        release: (rule.releaseTime ?? 0) / 1000,
+    });
+    return { ...base, occurrences, ...summarizeOccurrences(occurrences) };
+};
+
+// Results of the enabled rules, ordered by first onset; rules that never fired come last.
+export const evaluateFaultRules = (ruleSet: FaultRuleSet, signals: SignalStore, logEnd: number): FaultRuleResult[] =>
+    ruleSet.rules
+        .filter(rule => rule.enabled !== false)
+        .map(rule => evaluateFaultRule(rule, signals, logEnd))
+        .sort((a, b) => (a.firstOnset ?? Infinity) - (b.firstOnset ?? Infinity) || a.name.localeCompare(b.name));
+
+// One line per raised fault, for the AI system prompt.
+export const describeFaultResults = (results: FaultRuleResult[]): string[] =>
+    results
+        .filter(result => result.occurrences.length > 0)
+        .map(result => {
+            const count = result.occurrences.length;
+            return `${result.name} (${result.severity}; ${count} occurrence${count === 1 ? '' : 's'}, first at ${result.firstOnset!.toFixed(3)} s, active ${result.totalActiveDuration.toFixed(3)} s in total)`;
+        });
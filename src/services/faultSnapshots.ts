@@ -0,0 +1,129 @@
+import type { SignalStore } from '../types';
+import { getSamplesInRange, getSignalNames, upperBound } from './signalStore';
+import type { FaultOccurrence, FaultSeverity, FaultTimeline } from './faultEvents';
+
+export interface SnapshotOptions {
+    // Seconds before the onset summarized for each signal.
+    preWindow: number;
+    // Seconds before the pre-window that show how each signal normally behaves.
+    baselineWindow: number;
+}
+
+export interface SignalSnapshot {
+    key: string;
+    // Last value at or before the onset, and when it was sampled.
+    value?: number;
+    valueTime?: number;
+    // Over the pre-window; undefined without samples there.
+    min?: number;
+    max?: number;
+    // Least-squares slope in units per second; undefined with fewer than two samples.
+    trend?: number;
+    sampleCount: number;
+    // How far the signal strayed from its baseline in the pre-window, in baseline standard deviations.
+    // Undefined when the baseline has fewer than two samples, e.g. right at the start of the log.
+    score?: number;
+    // The signal is part of the fault rule itself.
+    isRuleSignal: boolean;
+}
+
+export interface FaultSnapshot {
+    faultKey: string;
+    faultName: string;
+    severity: FaultSeverity;
+    onset: number;
+    preWindow: number;
+    // Ordered by score, the most unusual first; signals without a score and then the rule's own
+    // signals, which trivially changed, at the end.
+    signals: SignalSnapshot[];
+}
+
+// Scores are capped so that a signal that was constant in the baseline does not rank as infinitely unusual.
+const MAX_SCORE = 1000;
+
+const getTrend = (timestamps: Float64Array, values: Float64Array): number | undefined => {
+    const n = timestamps.length;
+    if (n < 2) return undefined;
+    let sumT = 0, sumV = 0;
+    for (let i = 0; i < n; i++) { sumT += timestamps[i]; sumV += values[i]; }
+    const meanT = sumT / n;
+    const meanV = sumV / n;
+    let covariance = 0, variance = 0;
+    for (let i = 0; i < n; i++) {
+        covariance += (timestamps[i] - meanT) * (values[i] - meanV);
+        variance += (timestamps[i] - meanT) ** 2;
+    }
+    return variance > 0 ? covariance / variance : undefined;
+};
+
+const getScore = (baseline: Float64Array, window: Float64Array): number | undefined => {
+    if (baseline.length < 2 || window.length === 0) return undefined;
+    let sum = 0;
+    baseline.forEach(v => { sum += v; });
+    const mean = sum / baseline.length;
+    let sumOfSquares = 0;
+    baseline.forEach(v => { sumOfSquares += (v - mean) ** 2; });
+    const deviation = Math.sqrt(sumOfSquares / baseline.length);
+    // A constant baseline: any change counts, relative to the signal's magnitude.
+    const spread = deviation > 0 ? deviation : Math.max(Math.abs(mean), 1) * 1e-3;
+
+    let largest = 0;
+    window.forEach(v => { largest = Math.max(largest, Math.abs(v - mean)); });
+    return Math.min(largest / spread, MAX_SCORE);
+};
+
+export const buildFaultSnapshot = (fault: FaultTimeline, occurrence: FaultOccurrence, signals: SignalStore, options: SnapshotOptions): FaultSnapshot => {
+    const { onset } = occurrence;
+    const windowStart = onset - options.preWindow;
+    const ruleSignals = new Set(fault.signalKeys);
+
+    const snapshots = getSignalNames(signals).map((key): SignalSnapshot => {
+        const series = signals[key];
+        const window = getSamplesInRange(series, windowStart, onset);
+        const baseline = getSamplesInRange(series, windowStart - options.baselineWindow, windowStart);
+        // The baseline ends where the window begins; a sample exactly there belongs to the window.
+        const baselineValues = baseline.timestamps[baseline.timestamps.length - 1] === windowStart ? baseline.values.subarray(0, -1) : baseline.values;
+        const lastIndex = upperBound(series.timestamps, onset) - 1;
+
+        let min: number | undefined;
+        let max: number | undefined;
+        window.values.forEach(v => {
+            if (min === undefined || v < min) min = v;
+            if (max === undefined || v > max) max = v;
+        });
+
+        return {
+            key,
+            ...(lastIndex >= 0 ? { value: series.values[lastIndex], valueTime: series.timestamps[lastIndex] } : {}),
+            min,
+            max,
+            trend: getTrend(window.timestamps, window.values),
+            sampleCount: window.values.length,
+            score: getScore(baselineValues, window.values),
+            isRuleSignal: ruleSignals.has(key),
+        };
+    });
+
+    snapshots.sort((a, b) => Number(a.isRuleSignal) - Number(b.isRuleSignal) || (b.score ?? -1) - (a.score ?? -1) || a.key.localeCompare(b.key));
+    return { faultKey: fault.key, faultName: fault.name, severity: fault.severity, onset, preWindow: options.preWindow, signals: snapshots };
+};
+
+export const buildFaultSnapshots = (faults: FaultTimeline[], signals: SignalStore, options: SnapshotOptions): FaultSnapshot[] =>
+    faults.flatMap(fault => fault.occurrences.map(occurrence => buildFaultSnapshot(fault, occurrence, signals, options)));
+
+const csvField = (value: string | number | undefined): string => {
+    if (value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per fault occurrence and signal, in ranking order.
+export const faultSnapshotsToCsv = (snapshots: FaultSnapshot[], getUnit: (signalKey: string) => string = () => ''): string => {
+    const header = ['Fault', 'Severity', 'Onset (s)', 'Pre-window (s)', 'Rank', 'Signal', 'Unit', 'Value at onset', 'Sampled at (s)', 'Min', 'Max', 'Trend (/s)', 'Samples', 'Unusualness', 'Rule signal'];
+    const rows = snapshots.flatMap(snapshot => snapshot.signals.map((signal, i) => [
+        snapshot.faultName, snapshot.severity, snapshot.onset, snapshot.preWindow, i + 1,
+        signal.key, getUnit(signal.key), signal.value, signal.valueTime, signal.min, signal.max,
+        signal.trend, signal.sampleCount, signal.score, signal.isRuleSignal ? 'yes' : '',
+    ].map(csvField).join(',')));
+    return [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,232 @@
+import type { CANMessage } from '../types';
+import { parseJ1939Id } from './j1939';
+
+// Columnar, transferable form of a frame list. Moving typed arrays between
+// threads costs nothing, whereas cloning millions of message objects would stall both sides.
+export interface EncodedFrames {
+    count: number;
+    timestamps: Float64Array;
+    ids: Uint32Array;
+    // Reassembled J1939 transport protocol messages carry their byte count (up to 1785) as DLC.
+    dlcs: Uint16Array;
+    flags: Uint16Array;
+    // -1 when the log has no channel information.
+    channels: Int32Array;
+    // Index of the source log file.
+    sources: Uint16Array;
+    // Frame i's payload is data[dataOffsets[i] .. dataOffsets[i + 1]).
+    dataOffsets: Uint32Array;
+    data: Uint8Array;
+    // Set when several files were merged as separate sources: a channel number then names a bus of
+    // its own file only.
+    separateSources?: boolean;
+}
+
+const FLAG_TX = 0x1;
+const FLAG_EXTENDED = 0x2;
+const FLAG_REMOTE = 0x4;
+const FLAG_ERROR = 0x8;
+const FLAG_FD = 0x10;
+const FLAG_BRS = 0x20;
+const FLAG_ESI = 0x40;
+const FLAG_J1939 = 0x80;
+const FLAG_TP_BAM = 0x100;
+const FLAG_TP_RTS_CTS = 0x200;
+
+type NumericArray = Float64Array | Uint32Array | Uint16Array | Uint8Array | Int32Array;
+
+const withCapacity = <T extends NumericArray>(array: T, length: number): T => {
+    if (length <= array.length) return array;
+    const grown = new (array.constructor as new (length: number) => T)(Math.max(length, array.length * 2));
+    grown.set(array);
+    return grown;
+};
+
+const HEX_BYTES = Array.from({ length: 256 }, (_, byte) => byte.toString(16).toUpperCase().padStart(2, '0'));
+
+// Appends frames to growable typed arrays.
+export class FrameEncoder {
+    private count = 0;
+    private timestamps = new Float64Array(1024);
+    private ids = new Uint32Array(1024);
+    private dlcs = new Uint16Array(1024);
+    private flags = new Uint16Array(1024);
+    private channels = new Int32Array(1024);
+    private sources = new Uint16Array(1024);
+    private dataOffsets = new Uint32Array(1025);
+    private data = new Uint8Array(8192);
+    private dataLength = 0;
+
+    get frameCount(): number {
+        return this.count;
+    }
+
+    push(message: CANMessage) {
+        const i = this.count;
+        this.timestamps = withCapacity(this.timestamps, i + 1);
+        this.ids = withCapacity(this.ids, i + 1);
+        this.dlcs = withCapacity(this.dlcs, i + 1);
+        this.flags = withCapacity(this.flags, i + 1);
+        this.channels = withCapacity(this.channels, i + 1);
+        this.sources = withCapacity(this.sources, i + 1);
+        this.dataOffsets = withCapacity(this.dataOffsets, i + 2);
+
+        this.timestamps[i] = Number(message.timestamp);
+        this.ids[i] = message.id ? parseInt(message.id, 16) : 0;
+        this.dlcs[i] = message.dlc;
+        this.channels[i] = message.channel ?? -1;
+        this.sources[i] = message.source ?? 0;
+        this.flags[i] =
+            (message.isTx ? FLAG_TX : 0) |
+            (message.isExtended ? FLAG_EXTENDED : 0) |
+            (message.isRemote ? FLAG_REMOTE : 0) |
+            (message.isErrorFrame ? FLAG_ERROR : 0) |
+            (message.isFd ? FLAG_FD : 0) |
+            (message.brs ? FLAG_BRS : 0) |
+            (message.esi ? FLAG_ESI : 0) |
+            (message.j1939 ? FLAG_J1939 : 0) |
+            (message.transportProtocol === 'BAM' ? FLAG_TP_BAM : 0) |
+            (message.transportProtocol === 'RTS/CTS' ? FLAG_TP_RTS_CTS : 0);
+
+        this.data = withCapacity(this.data, this.dataLength + message.data.length);
+        for (const hex of message.data) {
+            this.data[this.dataLength++] = parseInt(hex, 16);
+        }
+        this.dataOffsets[i + 1] = this.dataLength;
+        this.count++;
+    }
+
+    finish(): EncodedFrames {
+        const n = this.count;
+        return {
+            count: n,
+            timestamps: this.timestamps.slice(0, n),
+            ids: this.ids.slice(0, n),
+            dlcs: this.dlcs.slice(0, n),
+            flags: this.flags.slice(0, n),
+            channels: this.channels.slice(0, n),
+            sources: this.sources.slice(0, n),
+            dataOffsets: this.dataOffsets.slice(0, n + 1),
+            data: this.data.slice(0, this.dataLength),
+        };
+    }
+}
+
+export const getTransferables = (frames: EncodedFrames): ArrayBuffer[] => [
+    frames.timestamps, frames.ids, frames.dlcs, frames.flags, frames.channels, frames.sources,
+    frames.dataOffsets, frames.data,
+].map(array => array.buffer as ArrayBuffer);
+
+// ---- Reading frames ----
+
+// Views read the columns in place and rebuild message objects only for the rows they show, so a
+// large log is never held as one object per frame.
+
+export const isTxFrame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_TX) !== 0;
+export const isExtendedFrame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_EXTENDED) !== 0;
+export const isRemoteFrame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_REMOTE) !== 0;
+export const isErrorFrame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_ERROR) !== 0;
+export const isFdFrame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_FD) !== 0;
+export const hasBitRateSwitch = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_BRS) !== 0;
+export const hasErrorStateIndicator = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_ESI) !== 0;
+export const isJ1939Frame = (frames: EncodedFrames, i: number): boolean => (frames.flags[i] & FLAG_J1939) !== 0;
+
+// Set on reassembled J1939 transport protocol messages, which were never on the bus as one frame.
+export const getTransportProtocol = (frames: EncodedFrames, i: number): 'BAM' | 'RTS/CTS' | undefined => {
+    if (frames.flags[i] & FLAG_TP_BAM) return 'BAM';
+    if (frames.flags[i] & FLAG_TP_RTS_CTS) return 'RTS/CTS';
+    return undefined;
+};
+
+export const getFrameChannel = (frames: EncodedFrames, i: number): number | undefined =>
+    frames.channels[i] >= 0 ? frames.channels[i] : undefined;
+
+// Bus numbers of files merged as separate sources are offset per file. Frame keys built from them
+// (see getFrameKey) stay exact for up to 1024 files with channel numbers below 4095.
+const BUSES_PER_SOURCE = 0x1000;
+
+// The bus frame i was logged on as one number: 0 without channel information, otherwise the channel
+// plus one, told apart per file when files were merged as separate sources.
+export const getFrameBus = (frames: EncodedFrames, i: number): number =>
+    (frames.separateSources ? frames.sources[i] * BUSES_PER_SOURCE : 0) + frames.channels[i] + 1;
+
+export const getFrameData = (frames: EncodedFrames, i: number): Uint8Array =>
+    frames.data.subarray(frames.dataOffsets[i], frames.dataOffsets[i + 1]);
+
+// As in decoded messages: 0x-prefixed upper-case hex without leading zeros, empty for error frames.
+export const formatFrameId = (frames: EncodedFrames, i: number): string =>
+    isErrorFrame(frames, i) ? '' : `0x${frames.ids[i].toString(16).toUpperCase()}`;
+
+// Payload bytes as space-separated hex.
+export const formatFrameData = (frames: EncodedFrames, i: number): string => {
+    const bytes: string[] = [];
+    for (let j = frames.dataOffsets[i]; j < frames.dataOffsets[i + 1]; j++) bytes.push(HEX_BYTES[frames.data[j]]);
+    return bytes.join(' ');
+};
+
+// The frames for which `keep` holds, as a new frame list.
+export const filterFrames = (frames: EncodedFrames, keep: (i: number) => boolean): EncodedFrames => {
+    const indices: number[] = [];
+    let dataLength = 0;
+    for (let i = 0; i < frames.count; i++) {
+        if (!keep(i)) continue;
+        indices.push(i);
+        dataLength += frames.dataOffsets[i + 1] - frames.dataOffsets[i];
+    }
+
+    const n = indices.length;
+    const result: EncodedFrames = {
+        count: n,
+        timestamps: new Float64Array(n),
+        ids: new Uint32Array(n),
+        dlcs: new Uint16Array(n),
+        flags: new Uint16Array(n),
+        channels: new Int32Array(n),
+        sources: new Uint16Array(n),
+        dataOffsets: new Uint32Array(n + 1),
+        data: new Uint8Array(dataLength),
+        ...(frames.separateSources ? { separateSources: true } : {}),
+    };
+    indices.forEach((from, to) => {
+        result.timestamps[to] = frames.timestamps[from];
+        result.ids[to] = frames.ids[from];
+        result.dlcs[to] = frames.dlcs[from];
+        result.flags[to] = frames.flags[from];
+        result.channels[to] = frames.channels[from];
+        result.sources[to] = frames.sources[from];
+        result.data.set(getFrameData(frames, from), result.dataOffsets[to]);
+        result.dataOffsets[to + 1] = result.dataOffsets[to] + frames.dataOffsets[from + 1] - frames.dataOffsets[from];
+    });
+    return result;
+};
+
+// Rebuilds the message object of frame i. IDs come back as 0x-prefixed upper-case hex without leading zeros.
+export const decodeFrame = (frames: EncodedFrames, i: number): CANMessage => {
+    const flags = frames.flags[i];
+    const id = frames.ids[i];
+    const message: CANMessage = {
+        timestamp: frames.timestamps[i],
+        id: flags & FLAG_ERROR ? '' : `0x${id.toString(16).toUpperCase()}`,
+        isExtended: (flags & FLAG_EXTENDED) !== 0,
+        dlc: frames.dlcs[i],
+        data: [],
+        isTx: (flags & FLAG_TX) !== 0,
+        source: frames.sources[i],
+    };
+
+    for (let j = frames.dataOffsets[i]; j < frames.dataOffsets[i + 1]; j++) {
+        message.data.push(HEX_BYTES[frames.data[j]]);
+    }
+    if (frames.channels[i] >= 0) message.channel = frames.channels[i];
+    if (flags & FLAG_REMOTE) message.isRemote = true;
+    if (flags & FLAG_ERROR) message.isErrorFrame = true;
+    if (flags & FLAG_FD) {
+        message.isFd = true;
+        message.brs = (flags & FLAG_BRS) !== 0;
+        message.esi = (flags & FLAG_ESI) !== 0;
+    }
+    if (flags & FLAG_J1939) message.j1939 = parseJ1939Id(id);
+    const transportProtocol = getTransportProtocol(frames, i);
+    if (transportProtocol) message.transportProtocol = transportProtocol;
+    return message;
+};
@@ -0,0 +1,69 @@
+import { GoogleGenAI } from '@google/genai';
+import type { Content, Part } from '@google/genai';
+import type { LlmMessage, LlmProvider, LlmSettings } from './llmProvider';
+
+// Gemini usually leaves function call ids out; ids made up for the chat history are not sent back.
+const LOCAL_ID_PREFIX = 'local_';
+const getSentId = (id: string) => id.startsWith(LOCAL_ID_PREFIX) ? undefined : id;
+
+// Tool results of one round go back to Gemini together, as the parts of a single user turn.
+const toContents = (messages: LlmMessage[]): Content[] => {
+    const contents: Content[] = [];
+    messages.forEach(message => {
+        if (message.role === 'user') {
+            contents.push({ role: 'user', parts: [{ text: message.text }] });
+        } else if (message.role === 'model') {
+            const parts: Part[] = message.text ? [{ text: message.text }] : [];
+            message.toolCalls?.forEach(call => parts.push({ functionCall: { id: getSentId(call.id), name: call.name, args: call.args } }));
+            contents.push({ role: 'model', parts });
+        } else {
+            const part: Part = { functionResponse: { id: getSentId(message.callId), name: message.name, response: { result: message.result } } };
+            const last = contents[contents.length - 1];
+            if (last?.role === 'user' && last.parts?.every(p => p.functionResponse)) {
+                last.parts.push(part);
+            } else {
+                contents.push({ role: 'user', parts: [part] });
+            }
+        }
+    });
+    return contents;
+};
+
+// The key the app was built with, where the build provides one.
+const getBuildApiKey = (): string | undefined => typeof process !== 'undefined' ? process.env.API_KEY : undefined;
+
+export const createGeminiProvider = (settings: LlmSettings['gemini']): LlmProvider => {
+    const apiKey = settings.apiKey.trim() || getBuildApiKey();
+    if (!apiKey) throw new Error('Enter a Gemini API key in the model settings.');
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        label: `Gemini (${settings.model})`,
+        generate: async ({ systemInstruction, messages, tools }) => {
+            const response = await ai.models.generateContent({
+                model: settings.model,
+                contents: toContents(messages),
+                config: {
+                    systemInstruction,
+                    ...(tools.length > 0 ? {
+                        tools: [{ functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }],
+                    } : {}),
+                },
+            });
+            const parts = response.candidates?.[0]?.content?.parts ?? [];
+            const toolCalls = parts
+                .filter(part => part.functionCall?.name)
+                .map((part, i) => ({
+                    id: part.functionCall!.id ?? `${LOCAL_ID_PREFIX}${Date.now()}_${i}`,
+                    name: part.functionCall!.name!,
+                    args: part.functionCall!.args ?? {},
+                }));
+            return {
+                role: 'model',
+                // Thought summaries are not part of the answer.
+                text: parts.filter(part => !part.thought).map(part => part.text ?? '').join(''),
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+            };
+        },
+    };
+};
@@ -1,36 +1,4 @@
 
-import { FunctionDeclaration, Type } from "@google/genai";
-
-export const modelName = "gemini-2.5-flash";
-
-export const canDataQueryTool: FunctionDeclaration = {
-  name: 'query_can_data',
-  description: 'Queries the loaded CAN log data for specific signal values or statistics within a given time range. Use this tool to answer any user questions about the data.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      signal_name: {
-        type: Type.STRING,
-        description: 'The exact name of the signal to query. Must be one of the available signals provided.',
-      },
-      statistic: {
-        type: Type.STRING,
-        description: 'The statistical calculation to perform. If omitted, returns a brief summary of the data points.',
-        enum: ["MIN", "MAX", "AVERAGE", "COUNT", "EVENTS"],
-      },
-      start_timestamp: {
-        type: Type.NUMBER,
-        description: 'The start of the time range for the query, in seconds.',
-      },
-      end_timestamp: {
-        type: Type.NUMBER,
-        description: 'The end of the time range for the query, in seconds.',
-      },
-    },
-    required: ['signal_name'],
-  },
-};
-
 export const getSystemInstruction = (
     availableSignals: string[],
     generatedFaults: string[],
@@ -41,7 +9,7 @@ export const getSystemInstruction = (
     
     let faultSummary = 'No faults were generated during this drive.';
     if (generatedFaults.length > 0) {
-        faultSummary = `The following faults were detected: ${generatedFaults.join(', ')}.`;
+        faultSummary = `The following faults were detected: ${generatedFaults.join('; ')}.`;
     }
 
     const dataSummary = `
@@ -57,16 +25,25 @@ export const getSystemInstruction = (
           
           ${dataSummary}
 
-          IMPORTANT: For any signal name that includes the word "Fault", its value should be interpreted as follows: 0 means 'No Fault', and 1 means 'Fault Triggered'.
-
-          To do this, you MUST use the 'query_can_data' tool to get specific data points, statistics, and event timelines. 
-          Do not guess or hallucinate values; always use the tool to get precise information.
+          IMPORTANT: Faults are evaluated from a set of rules over the signals (threshold, status code and flag checks with hold times); the Fault Analysis above lists each raised fault with its severity, number of occurrences and first onset. For any signal name that includes the word "Fault", 0 means 'No Fault' and any other value means 'Fault Triggered'.
+
+          To do this, you MUST use the tools to get specific data points, statistics, and event timelines:
+          - 'query_can_data' for statistics of one signal and the times its value changed;
+          - 'find_intervals' for when a condition over signals holds;
+          - 'get_values_at' for the values of several signals at given times;
+          - 'correlate_signals' for the correlation and lag between two signals;
+          - 'list_fault_onsets' for when each fault became active and cleared;
+          - 'get_raw_frames' for the raw frames of an identifier or message in a time window;
+          - 'summarize_series' for how a signal evolved over a time range.
+          Show the user what you found on their chart with 'show_signals', 'zoom_to_range', 'select_range' and 'add_annotation', e.g. the signals involved around a fault onset.
+          Do not guess or hallucinate values; always use the tools to get precise information.
           Your analysis should focus on:
           1.  Understanding the overall vehicle behavior by examining key signals (e.g., Speed, StateOfCharge, temperatures).
           2.  Investigating any faults that were detected. Use the tool to check the values of other signals around the time a fault occurred to find correlations.
           3.  Identifying any unusual behavior or anomalies in the signal data, even if they didn't trigger a specific fault.
           ${signalList}
-          When a user asks a question, use the tool to gather the necessary data before providing a concise and helpful response. Do not use markdown.`;
+          When a user asks a question, use the tools to gather the necessary data before providing a concise and helpful response. Do not use markdown.
+          Write times as t=12.345 s and time ranges as t=12.3-15.0 s, and refer to signals by their qualified names (Message.Signal); the chat turns these into links to the chart.`;
 }
 
 export const getInitialAnalysisPrompt = (): string => {
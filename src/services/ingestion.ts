@@ -0,0 +1,90 @@
+import type { CanMatrix, LogFileInfo, SignalStore } from '../types';
+import type { EncodedFrames } from './frameCodec';
+import { DEFAULT_MERGE_OPTIONS } from './logMerge';
+import type { MergeOptions } from './logMerge';
+
+// Log ingestion runs in a Web Worker: files are streamed, parsed and decoded there, and only the
+// compact result comes back, so the page stays responsive on logs of hundreds of MB.
+
+export interface IngestionProgress {
+    // Files are read first; their frames are then decoded in merged time order.
+    stage: 'reading' | 'decoding';
+    fileName: string;
+    fileIndex: number;
+    fileCount: number;
+    // Across all files.
+    bytesRead: number;
+    totalBytes: number;
+    // Frames read, or decoded in the decoding stage.
+    frames: number;
+    // Of the current stage.
+    percent: number;
+}
+
+export interface IngestionRequest {
+    files: File[];
+    matrix: CanMatrix;
+    j1939: boolean;
+    merge: MergeOptions;
+}
+
+export type IngestionResponse =
+    | { type: 'progress'; progress: IngestionProgress }
+    | { type: 'done'; frames: EncodedFrames; signals: SignalStore; fileInfos: LogFileInfo[] }
+    | { type: 'error'; message: string };
+
+export interface IngestionOptions {
+    j1939: boolean;
+    // How several files are put on one time axis; files are interleaved by recording time by default.
+    merge?: MergeOptions;
+    onProgress?: (progress: IngestionProgress) => void;
+    // Aborting terminates the worker; the promise then rejects with an "AbortError".
+    signal?: AbortSignal;
+}
+
+export interface IngestionResult {
+    frames: EncodedFrames;
+    signals: SignalStore;
+    fileInfos: LogFileInfo[];
+}
+
+export const ingestLogFiles = (files: File[], matrix: CanMatrix, options: IngestionOptions): Promise<IngestionResult> => {
+    return new Promise((resolve, reject) => {
+        if (options.signal?.aborted) {
+            reject(new DOMException('Processing was cancelled.', 'AbortError'));
+            return;
+        }
+
+        const worker = new Worker(new URL('./ingestion.worker.ts', import.meta.url), { type: 'module' });
+
+        const handleAbort = () => {
+            worker.terminate();
+            reject(new DOMException('Processing was cancelled.', 'AbortError'));
+        };
+        const cleanUp = () => {
+            worker.terminate();
+            options.signal?.removeEventListener('abort', handleAbort);
+        };
+        options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+        worker.onmessage = (event: MessageEvent<IngestionResponse>) => {
+            const response = event.data;
+            if (response.type === 'progress') {
+                options.onProgress?.(response.progress);
+            } else if (response.type === 'done') {
+                cleanUp();
+                resolve({ frames: response.frames, signals: response.signals, fileInfos: response.fileInfos });
+            } else {
+                cleanUp();
+                reject(new Error(response.message));
+            }
+        };
+        worker.onerror = (event: ErrorEvent) => {
+            cleanUp();
+            reject(new Error(event.message || 'The log parser stopped unexpectedly.'));
+        };
+
+        const request: IngestionRequest = { files, matrix, j1939: options.j1939, merge: options.merge ?? DEFAULT_MERGE_OPTIONS };
+        worker.postMessage(request);
+    });
+};
@@ -0,0 +1,163 @@
+import type { CANMessage, LogFileInfo } from '../types';
+import { createMessageDecoder, createTextLogParser, parseExcelFile, LOG_HEAD_SIZE } from './canParser';
+import { parseBlfFile } from './blfParser';
+import { parseMdfFile } from './mdfParser';
+import { createTransportProtocolReassembler } from './j1939';
+import { FrameEncoder, decodeFrame, getTransferables } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+import { getSignalStoreTransferables } from './signalStore';
+import { getFileTimeRange, getFileTimeShifts, getMergedOrder } from './logMerge';
+import type { IngestionProgress, IngestionRequest, IngestionResponse } from './ingestion';
+
+// Files are read into compact per-file frame lists first, in batches, so no more than a batch of
+// message objects is alive at a time while text logs stream in. Once every file is read, the files
+// are aligned in time and their frames decoded in merged time order.
+const BATCH_SIZE = 10000;
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (response: IngestionResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+// Streams a text log and hands over its frames in batches.
+const streamTextLog = async (file: File, onBatch: (messages: CANMessage[]) => void, onBytes: (bytesRead: number) => void): Promise<LogFileInfo> => {
+    const parser = createTextLogParser(file.name, await file.slice(0, LOG_HEAD_SIZE).text());
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+    let remainder = '';
+    let bytesRead = 0;
+    let batch: CANMessage[] = [];
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+        const lines = (remainder + text).split('\n');
+        remainder = done ? '' : lines.pop() ?? '';
+
+        for (const line of lines) {
+            const message = parser.parseLine(line);
+            if (!message) continue;
+            batch.push(message);
+            if (batch.length >= BATCH_SIZE) {
+                onBatch(batch);
+                batch = [];
+            }
+        }
+
+        if (done) break;
+        bytesRead += value.byteLength;
+        onBytes(bytesRead);
+    }
+
+    if (batch.length > 0) onBatch(batch);
+    return parser.finish();
+};
+
+self.onmessage = async (event: MessageEvent<IngestionRequest>) => {
+    const { files, matrix, j1939, merge } = event.data;
+    const fileFrames: EncodedFrames[] = [];
+    const fileInfos: LogFileInfo[] = [];
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    let completedBytes = 0;
+    let completedFrames = 0;
+    let lastProgressTime = 0;
+
+    const throttle = (force: boolean) => {
+        const now = Date.now();
+        if (!force && now - lastProgressTime < PROGRESS_INTERVAL_MS) return false;
+        lastProgressTime = now;
+        return true;
+    };
+
+    try {
+        for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+            const file = files[fileIndex];
+            const lowerFileName = file.name.toLowerCase();
+            const reassemble = j1939 ? createTransportProtocolReassembler() : null;
+            const encoder = new FrameEncoder();
+
+            const reportProgress = (bytesInFile: number, force = false) => {
+                if (!throttle(force)) return;
+                const bytesRead = completedBytes + Math.min(bytesInFile, file.size);
+                const progress: IngestionProgress = {
+                    stage: 'reading',
+                    fileName: file.name,
+                    fileIndex,
+                    fileCount: files.length,
+                    bytesRead,
+                    totalBytes,
+                    frames: completedFrames + encoder.frameCount,
+                    percent: totalBytes > 0 ? (bytesRead / totalBytes) * 100 : 100,
+                };
+                post({ type: 'progress', progress });
+            };
+
+            const addBatch = (messages: CANMessage[]) => {
+                for (const message of messages) {
+                    message.source = fileIndex;
+                    encoder.push(message);
+                    const reassembled = reassemble?.(message);
+                    if (reassembled) encoder.push({ ...reassembled, source: fileIndex });
+                }
+            };
+            const onBytes = (bytesRead: number) => reportProgress(bytesRead);
+
+            reportProgress(0, true);
+
+            if (lowerFileName.endsWith('.xlsx') || lowerFileName.endsWith('.xls')) {
+                addBatch(await parseExcelFile(file));
+                fileInfos.push({ fileName: file.name, format: 'Excel' });
+            } else if (lowerFileName.endsWith('.blf')) {
+                fileInfos.push(await parseBlfFile(file, addBatch, onBytes));
+            } else if (lowerFileName.endsWith('.mf4') || lowerFileName.endsWith('.mdf')) {
+                fileInfos.push(await parseMdfFile(file, addBatch, onBytes));
+            } else {
+                fileInfos.push(await streamTextLog(file, addBatch, onBytes));
+            }
+
+            fileFrames.push(encoder.finish());
+            completedBytes += file.size;
+            completedFrames += encoder.frameCount;
+            reportProgress(0, true);
+        }
+
+        const shifts = getFileTimeShifts(fileFrames.map(frames => getFileTimeRange(frames.timestamps)), fileInfos, merge);
+        if (files.length > 1) {
+            fileInfos.forEach((info, i) => { info.timeShift = shifts[i]; });
+        }
+        const order = getMergedOrder(fileFrames.map(frames => frames.timestamps), shifts);
+
+        const encoder = new FrameEncoder();
+        const decoder = createMessageDecoder(matrix, { j1939 });
+        for (let i = 0; i < order.files.length; i++) {
+            const file = order.files[i];
+            const message = decodeFrame(fileFrames[file], order.indices[i]);
+            if (shifts[file] !== 0) {
+                // Trim floating-point noise from the addition, e.g. 0.1 + 0.2.
+                message.timestamp = parseFloat((Number(message.timestamp) + shifts[file]).toPrecision(15));
+            }
+            encoder.push(decoder.decode(message));
+
+            if (throttle(false)) {
+                const progress: IngestionProgress = {
+                    stage: 'decoding',
+                    fileName: files[file].name,
+                    fileIndex: file,
+                    fileCount: files.length,
+                    bytesRead: totalBytes,
+                    totalBytes,
+                    frames: i,
+                    percent: (i / order.files.length) * 100,
+                };
+                post({ type: 'progress', progress });
+            }
+        }
+
+        const frames = encoder.finish();
+        if (merge.mode === 'separate' && files.length > 1) frames.separateSources = true;
+        const signals = decoder.finish();
+        post({ type: 'done', frames, signals, fileInfos }, [...getTransferables(frames), ...getSignalStoreTransferables(signals)]);
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : 'An unknown error occurred during parsing.' });
+    }
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { CANMessage } from '../types';
+import { FrameEncoder } from './frameCodec';
+import { buildJ1939Id, decodeDm1, parseJ1939Id, reassembleTransportProtocol, summarizeDm1 } from './j1939';
+
+const frame = (timestamp: number, id: number, data: number[]): CANMessage => ({
+    timestamp,
+    id: `0x${id.toString(16).toUpperCase()}`,
+    isExtended: true,
+    dlc: data.length,
+    data: data.map(byte => byte.toString(16).toUpperCase().padStart(2, '0')),
+    isTx: false,
+    channel: 1,
+});
+
+// DM1 with the malfunction and amber warning lamps on and two DTCs: SPN 100 FMI 1 (3 occurrences)
+// and SPN 520192 FMI 4 (1 occurrence, SPN conversion method bit set).
+const DM1_PAYLOAD = [0x44, 0xFF, 0x64, 0x00, 0x01, 0x03, 0x00, 0xF0, 0xE4, 0x81];
+
+describe('J1939 identifiers', () => {
+    it('splits PDU2 (broadcast) identifiers, data page included', () => {
+        expect(parseJ1939Id(0x18FECA00)).toEqual({ priority: 6, pgn: 0xFECA, sourceAddress: 0x00, destinationAddress: 0xFF });
+        expect(parseJ1939Id(0x0DF00400)).toEqual({ priority: 3, pgn: 0x1F004, sourceAddress: 0x00, destinationAddress: 0xFF });
+    });
+
+    it('splits PDU1 (peer to peer) identifiers', () => {
+        expect(parseJ1939Id(0x18DA00F1)).toEqual({ priority: 6, pgn: 0xDA00, sourceAddress: 0xF1, destinationAddress: 0x00 });
+    });
+
+    it('builds the identifiers it parses', () => {
+        for (const id of [0x18FECA00, 0x0DF00400, 0x18DA00F1, 0x1CECFF3D]) {
+            expect(buildJ1939Id(parseJ1939Id(id))).toBe(id);
+        }
+    });
+});
+
+describe('reassembleTransportProtocol', () => {
+    it('reassembles a BAM transfer after its last packet', () => {
+        const result = reassembleTransportProtocol([
+            frame(1.0, 0x18ECFF00, [0x20, 10, 0, 2, 0xFF, 0xCA, 0xFE, 0x00]),
+            frame(1.05, 0x1CEBFF00, [1, ...DM1_PAYLOAD.slice(0, 7)]),
+            frame(1.1, 0x1CEBFF00, [2, ...DM1_PAYLOAD.slice(7), 0xFF, 0xFF, 0xFF, 0xFF]),
+        ]);
+        expect(result).toHaveLength(4);
+        expect(result[3]).toEqual({
+            ...frame(1.1, 0x18FECA00, DM1_PAYLOAD),
+            j1939: { priority: 6, pgn: 0xFECA, sourceAddress: 0x00, destinationAddress: 0xFF },
+            transportProtocol: 'BAM',
+        });
+    });
+
+    it('reassembles RTS/CTS transfers addressed to one node, with packets out of order', () => {
+        const result = reassembleTransportProtocol([
+            frame(2.0, 0x18EC003D, [0x10, 9, 0, 2, 0xFF, 0x00, 0xEF, 0x00]),
+            frame(2.01, 0x18EC3D00, [0x11, 2, 1, 0xFF, 0xFF, 0x00, 0xEF, 0x00]),
+            frame(2.03, 0x1CEB003D, [2, 8, 9, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]),
+            frame(2.02, 0x1CEB003D, [1, 1, 2, 3, 4, 5, 6, 7]),
+        ]);
+        expect(result[4]).toMatchObject({
+            id: '0x18EF003D',
+            dlc: 9,
+            data: ['01', '02', '03', '04', '05', '06', '07', '08', '09'],
+            j1939: { pgn: 0xEF00, sourceAddress: 0x3D, destinationAddress: 0x00 },
+            transportProtocol: 'RTS/CTS',
+        });
+    });
+
+    it('drops a session when either side aborts it', () => {
+        const result = reassembleTransportProtocol([
+            frame(3.0, 0x18EC003D, [0x10, 9, 0, 2, 0xFF, 0x00, 0xEF, 0x00]),
+            frame(3.01, 0x1CEB003D, [1, 1, 2, 3, 4, 5, 6, 7]),
+            frame(3.02, 0x18EC3D00, [0xFF, 1, 0xFF, 0xFF, 0xFF, 0x00, 0xEF, 0x00]),
+            frame(3.03, 0x1CEB003D, [2, 8, 9, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF]),
+        ]);
+        expect(result).toHaveLength(4);
+    });
+
+    it('keeps transfers on different channels apart', () => {
+        const onChannel2 = (message: CANMessage): CANMessage => ({ ...message, channel: 2 });
+        const result = reassembleTransportProtocol([
+            frame(4.0, 0x18ECFF00, [0x20, 10, 0, 2, 0xFF, 0xCA, 0xFE, 0x00]),
+            onChannel2(frame(4.01, 0x1CEBFF00, [1, ...DM1_PAYLOAD.slice(0, 7)])),
+            frame(4.02, 0x1CEBFF00, [2, ...DM1_PAYLOAD.slice(7), 0xFF, 0xFF, 0xFF, 0xFF]),
+        ]);
+        expect(result).toHaveLength(3);
+    });
+});
+
+describe('DM1', () => {
+    it('decodes lamps and DTCs', () => {
+        expect(decodeDm1(DM1_PAYLOAD)).toEqual({
+            lamps: { malfunction: true, redStop: false, amberWarning: true, protect: false },
+            dtcs: [
+                { spn: 100, fmi: 1, occurrenceCount: 3 },
+                { spn: 520192, fmi: 4, occurrenceCount: 1 },
+            ],
+        });
+    });
+
+    it('skips the "no active faults" and padding DTCs', () => {
+        expect(decodeDm1([0x00, 0xFF, 0x00, 0x00, 0x00, 0x00, 0xFF, 0xFF]).dtcs).toEqual([]);
+        expect(decodeDm1([0x00, 0xFF, 0x64, 0x00, 0x01, 0x03, 0xFF, 0xFF, 0xFF, 0xFF]).dtcs).toEqual([{ spn: 100, fmi: 1, occurrenceCount: 3 }]);
+    });
+
+    it('summarizes DTCs per source address and marks those in the latest report active', () => {
+        const encoder = new FrameEncoder();
+        const dm1 = (timestamp: number, sourceAddress: number, data: number[]) => encoder.push({
+            ...frame(timestamp, 0x18FECA00 | sourceAddress, data),
+            j1939: parseJ1939Id(0x18FECA00 | sourceAddress),
+        });
+        dm1(1, 0x00, [0x04, 0xFF, 0x64, 0x00, 0x01, 0x02, 0xFF, 0xFF]);
+        dm1(2, 0x03, [0x10, 0xFF, 0x6E, 0x00, 0x00, 0x01, 0xFF, 0xFF]);
+        dm1(3, 0x00, DM1_PAYLOAD);
+        dm1(4, 0x00, [0x00, 0xFF, 0x00, 0xF0, 0xE4, 0x02, 0xFF, 0xFF]);
+
+        const { dtcs, lampsBySource } = summarizeDm1(encoder.finish());
+        expect(dtcs).toEqual([
+            { spn: 100, fmi: 1, occurrenceCount: 3, sourceAddress: 0x00, firstSeen: 1, lastSeen: 3, isActive: false },
+            { spn: 520192, fmi: 4, occurrenceCount: 2, sourceAddress: 0x00, firstSeen: 3, lastSeen: 4, isActive: true },
+            { spn: 110, fmi: 0, occurrenceCount: 1, sourceAddress: 0x03, firstSeen: 2, lastSeen: 2, isActive: true },
+        ]);
+        expect(lampsBySource.get(0x00)).toEqual({ malfunction: false, redStop: false, amberWarning: false, protect: false });
+        expect(lampsBySource.get(0x03)).toEqual({ malfunction: false, redStop: true, amberWarning: false, protect: false });
+    });
+});
@@ -0,0 +1,300 @@
+import type { CANMessage, CanMatrix, J1939Address, MessageDefinition } from '../types';
+import { formatCanId } from './binaryUtils';
+import { getFrameData, getTransportProtocol, isJ1939Frame } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+// SAE J1939 on 29-bit identifiers: priority (3 bits), data page bits and PDU format (PF) and
+// PDU specific (PS) bytes, source address (8 bits). PF < 240 (PDU1) makes PS a destination
+// address; otherwise (PDU2) PS is part of the PGN and the message is broadcast.
+
+export const GLOBAL_ADDRESS = 0xFF;
+export const PGN_TP_CM = 0xEC00;
+export const PGN_TP_DT = 0xEB00;
+export const PGN_DM1 = 0xFECA;
+
+// TP.CM control bytes; CTS and EndOfMsgAck only pace the transfer and need no handling here.
+const TP_CM_RTS = 16;
+const TP_CM_BAM = 32;
+const TP_CM_ABORT = 255;
+
+export const parseJ1939Id = (id: number): J1939Address => {
+    const priority = (id >>> 26) & 0x7;
+    const pduFormat = (id >>> 16) & 0xFF;
+    const pduSpecific = (id >>> 8) & 0xFF;
+    const dataPage = (id >>> 16) & 0x300;
+    const isPdu1 = pduFormat < 240;
+    return {
+        priority,
+        pgn: ((dataPage | pduFormat) << 8) | (isPdu1 ? 0 : pduSpecific),
+        sourceAddress: id & 0xFF,
+        destinationAddress: isPdu1 ? pduSpecific : GLOBAL_ADDRESS,
+    };
+};
+
+export const buildJ1939Id = ({ priority, pgn, sourceAddress, destinationAddress }: J1939Address): number => {
+    const isPdu1 = ((pgn >> 8) & 0xFF) < 240;
+    const pduSpecific = isPdu1 ? destinationAddress : pgn & 0xFF;
+    return ((priority << 26) | ((pgn & 0x3FF00) << 8) | (pduSpecific << 8) | sourceAddress) >>> 0;
+};
+
+// Extended matrix messages by PGN. When a DBC defines the same PGN for several source addresses,
+// the first definition wins.
+export const buildPgnIndex = (matrix: CanMatrix): Map<number, MessageDefinition> => {
+    const index = new Map<number, MessageDefinition>();
+    for (const key in matrix) {
+        const definition = matrix[key];
+        if (!definition.isExtended) continue;
+        const { pgn } = parseJ1939Id(Number(key) & 0x1FFFFFFF);
+        if (!index.has(pgn)) index.set(pgn, definition);
+    }
+    return index;
+};
+
+interface TransportSession {
+    kind: 'BAM' | 'RTS/CTS';
+    pgn: number;
+    priority: number;
+    size: number;
+    packetCount: number;
+    packets: Map<number, string[]>;
+}
+
+// Follows BAM and RTS/CTS transport protocol sessions (TP.CM / TP.DT) frame by frame. Returns the
+// reassembled multi-packet message when a frame completes one. Frames must be fed in
+// chronological order.
+export const createTransportProtocolReassembler = () => {
+    const sessions = new Map<string, TransportSession>();
+
+    return (message: CANMessage): CANMessage | null => {
+        if (!message.isExtended || message.isErrorFrame || message.isRemote) return null;
+
+        const address = parseJ1939Id(parseInt(message.id, 16));
+        const bytes = message.data.map(hex => parseInt(hex, 16));
+        const sessionKey = (from: number, to: number) => `${message.channel ?? 0}:${from}:${to}`;
+
+        if (address.pgn === PGN_TP_CM && bytes.length >= 8) {
+            const control = bytes[0];
+            const { sourceAddress: from, destinationAddress: to } = address;
+            if (control === TP_CM_BAM || control === TP_CM_RTS) {
+                sessions.set(sessionKey(from, to), {
+                    kind: control === TP_CM_BAM ? 'BAM' : 'RTS/CTS',
+                    pgn: bytes[5] | (bytes[6] << 8) | (bytes[7] << 16),
+                    priority: address.priority,
+                    size: bytes[1] | (bytes[2] << 8),
+                    packetCount: bytes[3],
+                    packets: new Map(),
+                });
+            } else if (control === TP_CM_ABORT) {
+                // Either side may abort a connection.
+                sessions.delete(sessionKey(from, to));
+                sessions.delete(sessionKey(to, from));
+            }
+            return null;
+        }
+
+        if (address.pgn !== PGN_TP_DT || bytes.length < 2) return null;
+
+        const key = sessionKey(address.sourceAddress, address.destinationAddress);
+        const session = sessions.get(key);
+        const sequence = bytes[0];
+        if (!session || sequence < 1 || sequence > session.packetCount) return null;
+
+        session.packets.set(sequence, message.data.slice(1, 8));
+        if (session.packets.size < session.packetCount) return null;
+
+        const data: string[] = [];
+        for (let i = 1; i <= session.packetCount; i++) data.push(...(session.packets.get(i) ?? []));
+        sessions.delete(key);
+
+        const j1939: J1939Address = {
+            priority: session.priority,
+            pgn: session.pgn,
+            sourceAddress: address.sourceAddress,
+            destinationAddress: session.kind === 'BAM' ? GLOBAL_ADDRESS : address.destinationAddress,
+        };
+        return {
+            timestamp: message.timestamp,
+            id: formatCanId(buildJ1939Id(j1939)),
+            isExtended: true,
+            dlc: session.size,
+            data: data.slice(0, session.size),
+            isTx: message.isTx,
+            ...(message.channel !== undefined ? { channel: message.channel } : {}),
+            j1939,
+            transportProtocol: session.kind,
+        };
+    };
+};
+
+// Inserts the reassembled transport protocol messages of one log after the packet that completes
+// them. The TP frames themselves are kept.
+export const reassembleTransportProtocol = (messages: CANMessage[]): CANMessage[] => {
+    const reassemble = createTransportProtocolReassembler();
+    const result: CANMessage[] = [];
+    for (const message of messages) {
+        result.push(message);
+        const reassembled = reassemble(message);
+        if (reassembled) result.push(reassembled);
+    }
+    return result;
+};
+
+// ---- DM1 (active diagnostic trouble codes) ----
+
+export interface J1939Lamps {
+    malfunction: boolean;
+    redStop: boolean;
+    amberWarning: boolean;
+    protect: boolean;
+}
+
+export interface J1939Dtc {
+    spn: number;
+    fmi: number;
+    occurrenceCount: number;
+}
+
+export interface Dm1Report {
+    lamps: J1939Lamps;
+    dtcs: J1939Dtc[];
+}
+
+// DM1: lamp status (2 bytes), then 4 bytes per DTC: SPN (19 bits, spread over three bytes),
+// FMI (5 bits), SPN conversion method (1 bit) and occurrence count (7 bits).
+export const decodeDm1 = (data: number[]): Dm1Report => {
+    const lampOn = (shift: number) => ((data[0] >> shift) & 0x3) === 1;
+    const lamps = { malfunction: lampOn(6), redStop: lampOn(4), amberWarning: lampOn(2), protect: lampOn(0) };
+
+    const dtcs: J1939Dtc[] = [];
+    for (let i = 2; i + 4 <= data.length; i += 4) {
+        const spn = data[i] | (data[i + 1] << 8) | ((data[i + 2] >> 5) << 16);
+        const fmi = data[i + 2] & 0x1F;
+        // An all-zero DTC means "no active faults"; all-ones is padding.
+        if ((spn === 0 && fmi === 0) || (spn === 0x7FFFF && fmi === 0x1F)) continue;
+        dtcs.push({ spn, fmi, occurrenceCount: data[i + 3] & 0x7F });
+    }
+    return { lamps, dtcs };
+};
+
+export interface J1939DtcRecord extends J1939Dtc {
+    sourceAddress: number;
+    firstSeen: number;
+    lastSeen: number;
+    // Listed in the latest DM1 of its source address.
+    isActive: boolean;
+}
+
+export interface J1939DiagnosticSummary {
+    dtcs: J1939DtcRecord[];
+    lampsBySource: Map<number, J1939Lamps>;
+}
+
+// Collects the DTCs of every DM1 report, single frame or reassembled, per source address.
+export const summarizeDm1 = (frames: EncodedFrames): J1939DiagnosticSummary => {
+    const records = new Map<string, J1939DtcRecord>();
+    const latestKeys = new Map<number, Set<string>>();
+    const lampsBySource = new Map<number, J1939Lamps>();
+
+    for (let i = 0; i < frames.count; i++) {
+        if (!isJ1939Frame(frames, i)) continue;
+        const { pgn, sourceAddress } = parseJ1939Id(frames.ids[i]);
+        if (pgn !== PGN_DM1) continue;
+        const timestamp = frames.timestamps[i];
+        const report = decodeDm1(Array.from(getFrameData(frames, i)));
+        const keys = new Set<string>();
+
+        for (const dtc of report.dtcs) {
+            const key = `${sourceAddress}:${dtc.spn}:${dtc.fmi}`;
+            keys.add(key);
+            const record = records.get(key);
+            if (record) {
+                record.lastSeen = timestamp;
+                record.occurrenceCount = Math.max(record.occurrenceCount, dtc.occurrenceCount);
+            } else {
+                records.set(key, { ...dtc, sourceAddress, firstSeen: timestamp, lastSeen: timestamp, isActive: false });
+            }
+        }
+        latestKeys.set(sourceAddress, keys);
+        lampsBySource.set(sourceAddress, report.lamps);
+    }
+
+    latestKeys.forEach(keys => keys.forEach(key => { records.get(key)!.isActive = true; }));
+    const dtcs = Array.from(records.values()).sort((a, b) => a.sourceAddress - b.sourceAddress || a.firstSeen - b.firstSeen);
+    return { dtcs, lampsBySource };
+};
+
+export const FMI_DESCRIPTIONS: string[] = [
+    'Data valid but above normal operating range (most severe)',
+    'Data valid but below normal operating range (most severe)',
+    'Data erratic, intermittent or incorrect',
+    'Voltage above normal, or shorted to high source',
+    'Voltage below normal, or shorted to low source',
+    'Current below normal or open circuit',
+    'Current above normal or grounded circuit',
+    'Mechanical system not responding or out of adjustment',
+    'Abnormal frequency or pulse width or period',
+    'Abnormal update rate',
+    'Abnormal rate of change',
+    'Root cause not known',
+    'Bad intelligent device or component',
+    'Out of calibration',
+    'Special instructions',
+    'Data valid but above normal operating range (least severe)',
+    'Data valid but above normal operating range (moderately severe)',
+    'Data valid but below normal operating range (least severe)',
+    'Data valid but below normal operating range (moderately severe)',
+    'Received network data in error',
+    'Data drifted high',
+    'Data drifted low',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Reserved',
+    'Condition exists',
+];
+
+// ---- PGN overview ----
+
+export interface PgnSummaryRow {
+    pgn: number;
+    sourceAddress: number;
+    destinationAddress: number;
+    name?: string;
+    count: number;
+    transportProtocol?: 'BAM' | 'RTS/CTS';
+}
+
+export const summarizePgns = (frames: EncodedFrames, matrix: CanMatrix): PgnSummaryRow[] => {
+    const pgnIndex = buildPgnIndex(matrix);
+    const rows = new Map<string, PgnSummaryRow>();
+
+    for (let i = 0; i < frames.count; i++) {
+        if (!isJ1939Frame(frames, i)) continue;
+        const { pgn, sourceAddress, destinationAddress } = parseJ1939Id(frames.ids[i]);
+        const key = `${pgn}:${sourceAddress}:${destinationAddress}`;
+        const row = rows.get(key);
+        if (row) {
+            row.count++;
+        } else {
+            const transportProtocol = getTransportProtocol(frames, i);
+            rows.set(key, {
+                pgn, sourceAddress, destinationAddress,
+                name: pgnIndex.get(pgn)?.name,
+                count: 1,
+                ...(transportProtocol ? { transportProtocol } : {}),
+            });
+        }
+    }
+
+    return Array.from(rows.values()).sort((a, b) => a.pgn - b.pgn || a.sourceAddress - b.sourceAddress);
+};
+
+export const formatPgn = (pgn: number): string => `${pgn} (0x${pgn.toString(16).toUpperCase().padStart(4, '0')})`;
+
+export const formatAddress = (address: number): string =>
+    address === GLOBAL_ADDRESS ? 'Global' : `0x${address.toString(16).toUpperCase().padStart(2, '0')}`;
@@ -0,0 +1,130 @@
+// The analysis chat talks to its model through an LlmProvider, so that the same conversation and
+// tools run against Gemini or a local OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...).
+// Chat history is kept in the provider-neutral form below; each provider translates it.
+
+export interface LlmToolCall {
+    // Pairs the call with its result; providers that do not return one get a generated id.
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export type LlmMessage =
+    | { role: 'user'; text: string }
+    | { role: 'model'; text: string; toolCalls?: LlmToolCall[] }
+    | { role: 'tool'; callId: string; name: string; result: string };
+
+export type LlmModelMessage = Extract<LlmMessage, { role: 'model' }>;
+
+// The JSON Schema subset tool parameters are declared with.
+export interface JsonSchema {
+    type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+}
+
+export interface LlmTool {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface LlmRequest {
+    systemInstruction: string;
+    messages: LlmMessage[];
+    tools: LlmTool[];
+}
+
+export interface LlmProvider {
+    // Shown in the chat, e.g. "Gemini (gemini-2.5-flash)".
+    readonly label: string;
+    generate(request: LlmRequest): Promise<LlmModelMessage>;
+}
+
+export type LlmProviderKind = 'gemini' | 'openai-compatible';
+
+export interface LlmSettings {
+    provider: LlmProviderKind;
+    gemini: {
+        model: string;
+        // Empty to use the key the app was built with.
+        apiKey: string;
+    };
+    openAiCompatible: {
+        // The API root, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp.
+        baseUrl: string;
+        model: string;
+        // Sent as a bearer token when set; local servers usually need none.
+        apiKey: string;
+    };
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+    provider: 'gemini',
+    gemini: { model: 'gemini-2.5-flash', apiKey: '' },
+    openAiCompatible: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+};
+
+// The settings are per browser rather than per session.
+const SETTINGS_KEY = 'can-signal-intelligence.llm';
+
+export const loadLlmSettings = (): LlmSettings => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null') as Partial<LlmSettings> | null;
+        if (!saved) return DEFAULT_LLM_SETTINGS;
+        return {
+            provider: saved.provider === 'openai-compatible' ? 'openai-compatible' : 'gemini',
+            gemini: { ...DEFAULT_LLM_SETTINGS.gemini, ...saved.gemini },
+            openAiCompatible: { ...DEFAULT_LLM_SETTINGS.openAiCompatible, ...saved.openAiCompatible },
+        };
+    } catch {
+        return DEFAULT_LLM_SETTINGS;
+    }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getLlmProviderLabel = (settings: LlmSettings): string => settings.provider === 'gemini'
+    ? `Gemini (${settings.gemini.model})`
+    : `${settings.openAiCompatible.model} at ${settings.openAiCompatible.baseUrl}`;
+
+// Providers are loaded on first use, so that the Gemini SDK stays out of the initial bundle.
+export const createLlmProvider = async (settings: LlmSettings): Promise<LlmProvider> => {
+    if (settings.provider === 'gemini') {
+        const { createGeminiProvider } = await import('./geminiProvider');
+        return createGeminiProvider(settings.gemini);
+    }
+    const { createOpenAiCompatibleProvider } = await import('./openAiProvider');
+    return createOpenAiCompatibleProvider(settings.openAiCompatible);
+};
+
+export type ToolExecutor = (name: string, args: Record<string, unknown>) => string;
+
+// Bounds a model that keeps calling tools without ever answering.
+const MAX_TOOL_ROUNDS = 10;
+
+// Runs one turn of the chat: asks the model, runs the tools it calls and hands back their results
+// until it answers in text. Returns the messages the turn added, tool calls and results included.
+export const runChatTurn = async (provider: LlmProvider, request: LlmRequest, executeTool: ToolExecutor): Promise<LlmMessage[]> => {
+    const added: LlmMessage[] = [];
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const reply = await provider.generate({ ...request, messages: [...request.messages, ...added] });
+        added.push(reply);
+        if (!reply.toolCalls || reply.toolCalls.length === 0) return added;
+        reply.toolCalls.forEach(call => {
+            let result: string;
+            try {
+                result = executeTool(call.name, call.args);
+            } catch (err) {
+                result = `Error: ${err instanceof Error ? err.message : 'The tool failed.'}`;
+            }
+            added.push({ role: 'tool', callId: call.id, name: call.name, result });
+        });
+    }
+    throw new Error(`The model called tools ${MAX_TOOL_ROUNDS} times in a row without answering.`);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getFileTimeRange, getFileTimeShifts, getMergedOrder } from './logMerge';
+
+describe('getFileTimeRange', () => {
+    it('finds the earliest and latest timestamp, in any order', () => {
+        expect(getFileTimeRange(Float64Array.from([2, 0.5, 3, 1]))).toEqual({ first: 0.5, last: 3 });
+        expect(getFileTimeRange(new Float64Array(0))).toEqual({});
+    });
+});
+
+describe('getFileTimeShifts', () => {
+    it('only applies the offset of a single file', () => {
+        expect(getFileTimeShifts([{ first: 5, last: 9 }], [{ fileName: 'a.asc', format: 'Vector ASC', startDate: 1_600_000_000_000 }], { mode: 'interleave', offsets: [2] }))
+            .toEqual([2]);
+    });
+
+    it('lets each file follow the previous one in sequential mode', () => {
+        const ranges = [{ first: 0, last: 10 }, { first: 0, last: 5 }, {}, { first: 3, last: 4 }];
+        const infos = ranges.map((_, i) => ({ fileName: `${i}.log`, format: 'candump' }));
+        // The second file is moved 1 s further on by its offset, and the files after it with it.
+        expect(getFileTimeShifts(ranges, infos, { mode: 'sequential', offsets: [0, 1] })).toEqual([0, 11, 0, 13]);
+    });
+
+    it('aligns files on their recording start in interleave mode', () => {
+        const ranges = [{ first: 0, last: 10 }, { first: 0.2, last: 8 }, { first: 1_600_000_000.25, last: 1_600_000_005 }, { first: 3, last: 4 }];
+        const infos = [
+            { fileName: 'a.asc', format: 'Vector ASC', startDate: 1_600_000_000_000 },
+            { fileName: 'b.blf', format: 'Vector BLF', startDate: 1_600_000_000_500 },
+            // Epoch timestamps (candump -l) tell the recording time by themselves.
+            { fileName: 'c.log', format: 'candump' },
+            // No start time at all: starts at zero, to be moved by its offset.
+            { fileName: 'd.trc', format: 'PCAN TRC' },
+        ];
+        expect(getFileTimeShifts(ranges, infos, { mode: 'interleave', offsets: [0, 0, 0, 0.5] }))
+            .toEqual([0, 0.5, -1_600_000_000, -2.5]);
+    });
+
+    it('keeps each file on its own time base in separate mode', () => {
+        const ranges = [{ first: 0, last: 10 }, { first: 100, last: 105 }];
+        const infos = [{ fileName: 'a.asc', format: 'Vector ASC', startDate: 1_600_000_000_000 }, { fileName: 'b.asc', format: 'Vector ASC', startDate: 1_600_000_060_000 }];
+        expect(getFileTimeShifts(ranges, infos, { mode: 'separate', offsets: [0, -100] })).toEqual([0, -100]);
+    });
+});
+
+describe('getMergedOrder', () => {
+    const pairs = ({ files, indices }: { files: Uint16Array; indices: Uint32Array }) => Array.from(files, (file, i) => [file, indices[i]]);
+
+    it('keeps files that are already in order as they are', () => {
+        expect(pairs(getMergedOrder([Float64Array.from([0, 1]), Float64Array.from([2, 3])], [0, 0]))).toEqual([[0, 0], [0, 1], [1, 0], [1, 1]]);
+    });
+
+    it('orders frames by shifted time, keeping file and in-file order for equal times', () => {
+        const order = getMergedOrder([Float64Array.from([0, 1, 1, 2]), Float64Array.from([0, 0.5, 1])], [0, 0.5]);
+        // File 1 runs at 0.5, 1 and 1.5 after its shift.
+        expect(pairs(order)).toEqual([[0, 0], [1, 0], [0, 1], [0, 2], [1, 1], [1, 2], [0, 3]]);
+    });
+});
@@ -0,0 +1,111 @@
+import type { LogFileInfo } from '../types';
+
+// How frames of several log files are put on one time axis:
+// - sequential: each file follows the previous one, as for consecutive recordings;
+// - interleave: files are aligned by their absolute recording time, as for loggers on different buses;
+// - separate: every file keeps its own time base and its channels are buses of their own, apart from
+//   the same channel numbers in the other files.
+export type MergeMode = 'sequential' | 'interleave' | 'separate';
+
+export interface MergeOptions {
+    mode: MergeMode;
+    // Seconds added to each file's timestamps on top of the automatic alignment.
+    offsets: number[];
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = { mode: 'interleave', offsets: [] };
+
+export interface FileTimeRange {
+    // Earliest and latest timestamp in the file; undefined for a file without frames.
+    first?: number;
+    last?: number;
+}
+
+// Timestamps this large are seconds since the epoch (candump -l) rather than since the recording start.
+const EPOCH_TIMESTAMP_THRESHOLD = 1e8;
+
+export const getFileTimeRange = (timestamps: Float64Array): FileTimeRange => {
+    if (timestamps.length === 0) return {};
+    let first = Infinity;
+    let last = -Infinity;
+    for (let i = 0; i < timestamps.length; i++) {
+        if (timestamps[i] < first) first = timestamps[i];
+        if (timestamps[i] > last) last = timestamps[i];
+    }
+    return { first, last };
+};
+
+// Epoch seconds at which the file's timestamps count from, when the file tells.
+const getFileEpoch = (range: FileTimeRange, info: LogFileInfo | undefined): number | undefined => {
+    if (range.first !== undefined && range.first >= EPOCH_TIMESTAMP_THRESHOLD) return 0;
+    return info?.startDate !== undefined ? info.startDate / 1000 : undefined;
+};
+
+// Seconds to add to each file's timestamps. A single file is only moved by its own offset.
+export const getFileTimeShifts = (ranges: FileTimeRange[], infos: LogFileInfo[], options: MergeOptions): number[] => {
+    const offsets = ranges.map((_, i) => options.offsets[i] ?? 0);
+    if (ranges.length < 2 || options.mode === 'separate') return offsets;
+
+    if (options.mode === 'sequential') {
+        let previousEnd: number | undefined;
+        return ranges.map((range, i) => {
+            if (range.first === undefined || range.last === undefined) return offsets[i];
+            const shift = (previousEnd !== undefined ? previousEnd - range.first : 0) + offsets[i];
+            previousEnd = range.last + shift;
+            return shift;
+        });
+    }
+
+    // Interleave: the earliest recorded frame of all files becomes time zero. Files that do not record
+    // when they started begin at zero too, and can be moved with their offset.
+    const epochs = ranges.map((range, i) => getFileEpoch(range, infos[i]));
+    let origin = Infinity;
+    ranges.forEach((range, i) => {
+        if (range.first !== undefined && epochs[i] !== undefined) origin = Math.min(origin, epochs[i]! + range.first);
+    });
+    if (origin === Infinity) return offsets;
+
+    return ranges.map((range, i) => {
+        if (range.first === undefined) return offsets[i];
+        return (epochs[i] !== undefined ? epochs[i]! - origin : -range.first) + offsets[i];
+    });
+};
+
+export interface MergedOrder {
+    files: Uint16Array;
+    indices: Uint32Array;
+}
+
+// Frames of all files in time order after shifting. Frames with the same time keep their file and
+// in-file order, so that e.g. a reassembled transport protocol message stays after its last packet.
+export const getMergedOrder = (timestamps: Float64Array[], shifts: number[]): MergedOrder => {
+    const count = timestamps.reduce((sum, times) => sum + times.length, 0);
+    const times = new Float64Array(count);
+    const files = new Uint16Array(count);
+    const indices = new Uint32Array(count);
+    let position = 0;
+    timestamps.forEach((fileTimes, file) => {
+        for (let i = 0; i < fileTimes.length; i++, position++) {
+            times[position] = fileTimes[i] + shifts[file];
+            files[position] = file;
+            indices[position] = i;
+        }
+    });
+
+    let isSorted = true;
+    for (let i = 1; i < count && isSorted; i++) {
+        if (times[i] < times[i - 1]) isSorted = false;
+    }
+    if (isSorted) return { files, indices };
+
+    const order = new Uint32Array(count);
+    for (let i = 0; i < count; i++) order[i] = i;
+    order.sort((a, b) => times[a] - times[b] || a - b);
+    const sortedFiles = new Uint16Array(count);
+    const sortedIndices = new Uint32Array(count);
+    order.forEach((from, to) => {
+        sortedFiles[to] = files[from];
+        sortedIndices[to] = indices[from];
+    });
+    return { files: sortedFiles, indices: sortedIndices };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import type { CANMessage } from '../types';
+import { parseCanLogFile } from './canParser';
+import { FrameEncoder } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+import { writeLog } from './logWriter';
+import type { LogWriteFormat, LogWriteOptions } from './logWriter';
+
+const encode = (messages: CANMessage[]): EncodedFrames => {
+    const encoder = new FrameEncoder();
+    messages.forEach(message => encoder.push(message));
+    return encoder.finish();
+};
+
+const lines = (frames: EncodedFrames, format: LogWriteFormat, options: LogWriteOptions) =>
+    writeLog(frames, format, options).parts.join('').split('\n');
+
+describe('writeLog', () => {
+    it('pads CAN FD data in ASC logs up to the length of the DLC', () => {
+        const frames = encode([{ timestamp: 0, id: '0x123', isExtended: false, dlc: 9, data: ['01', '02', '03'], isTx: false, isFd: true, brs: true }]);
+        const line = lines(frames, 'asc', { timestamps: 'relative' }).find(text => text.includes('CANFD'));
+        expect(line).toBe('   0.000000 CANFD   1 Rx      123 1 0 9 12 01 02 03 00 00 00 00 00 00 00 00 00 0 0 3000 0 0 0 0 0');
+    });
+});
+
+const frame = (timestamp: number, id: string, data: string[], fields: Partial<CANMessage> = {}): CANMessage =>
+    ({ timestamp, id, isExtended: false, dlc: data.length, data, isTx: false, channel: 1, ...fields });
+
+const MESSAGES: CANMessage[] = [
+    frame(2.5, '0x123', ['01', '02', '03']),
+    frame(2.5125, '0x18FEF100', ['11', '22', '33', '44', '55', '66', '77', '88'], { isExtended: true, isTx: true, channel: 2 }),
+    frame(2.53, '0x7FF', [], { dlc: 4, isRemote: true }),
+    frame(2.54, '0x456', ['00', '11', '22', '33', '44', '55', '66', '77', '88', '99', 'AA', 'BB'], { dlc: 9, isFd: true, brs: true }),
+    frame(2.55, '0x1ABCDE00', new Array(16).fill('A5'), { dlc: 10, isExtended: true, isFd: true, esi: true }),
+    { timestamp: 2.56, id: '', isExtended: false, dlc: 0, data: [], isTx: false, channel: 1, isErrorFrame: true },
+    frame(2.6, '0x000', ['FF']),
+];
+const START_DATE = 1_600_000_000_000;
+
+// The fields every format carries, with IDs as numbers since formats print them differently.
+const normalize = (message: CANMessage) => ({
+    timestamp: message.timestamp,
+    id: message.isErrorFrame ? undefined : parseInt(message.id, 16),
+    isExtended: message.isExtended,
+    isFd: !!message.isFd,
+    brs: !!message.brs,
+    esi: !!message.esi,
+    isRemote: !!message.isRemote,
+    isErrorFrame: !!message.isErrorFrame,
+    dlc: message.dlc,
+    data: message.data,
+});
+
+interface RoundTripCase {
+    format: LogWriteFormat;
+    fileName: string;
+    // Which frames the format holds, and the time it gives back for a frame's time.
+    holds: (message: CANMessage) => boolean;
+    time: (timestamp: number, mode: LogWriteOptions['timestamps']) => number;
+}
+
+const fromLogTime = (timestamp: number, mode: LogWriteOptions['timestamps']) => (mode === 'relative' ? timestamp - 2.5 : timestamp);
+const isClassicDataFrame = (message: CANMessage) => !message.isErrorFrame && !message.isRemote && !message.isFd;
+
+const ROUND_TRIP_CASES: RoundTripCase[] = [
+    // Absolute candump logs count from the epoch.
+    { format: 'candump', fileName: 'out.log', holds: message => !message.isErrorFrame, time: (timestamp, mode) => fromLogTime(timestamp, mode) + (mode === 'absolute' ? START_DATE / 1000 : 0) },
+    { format: 'trc', fileName: 'out.trc', holds: message => !message.isErrorFrame, time: fromLogTime },
+    { format: 'asc', fileName: 'out.asc', holds: () => true, time: fromLogTime },
+    // The reader makes BusMaster's time of day relative to the first frame.
+    { format: 'busmaster', fileName: 'out.log', holds: isClassicDataFrame, time: timestamp => timestamp - 2.5 },
+    // Whole milliseconds.
+    { format: 'custom', fileName: 'out.txt', holds: isClassicDataFrame, time: (timestamp, mode) => Math.round(fromLogTime(timestamp, mode) * 1000) / 1000 },
+];
+
+describe('writeLog round trip', () => {
+    const frames = encode(MESSAGES);
+
+    for (const { format, fileName, holds, time } of ROUND_TRIP_CASES) {
+        for (const mode of ['relative', 'absolute'] as const) {
+            it(`reads ${format} logs with ${mode} times back as written`, () => {
+                const result = writeLog(frames, format, { timestamps: mode, startDate: START_DATE });
+                const expected = MESSAGES.filter(holds);
+                expect(result).toMatchObject({ written: expected.length, skipped: MESSAGES.length - expected.length });
+
+                const parsed = parseCanLogFile(result.parts.join(''), fileName).messages.map(normalize);
+                expect(parsed).toEqual(expected.map(message => ({ ...normalize(message), timestamp: expect.closeTo(time(Number(message.timestamp), mode), 6) })));
+            });
+        }
+    }
+});
@@ -0,0 +1,282 @@
+import type { CANMessage } from '../types';
+import { dlcToLength } from './canFd';
+import { decodeFrame, getTransportProtocol, isErrorFrame } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+// Writes frames back out as raw text logs, in a form the text log parsers read back. Frames a
+// format cannot hold (e.g. CAN FD in BusMaster, error frames in candump) are skipped and counted.
+
+export type LogWriteFormat = 'candump' | 'trc' | 'asc' | 'busmaster' | 'custom';
+
+export const LOG_WRITE_FORMATS: { format: LogWriteFormat; label: string; extension: string }[] = [
+    { format: 'candump', label: 'candump (.log)', extension: 'log' },
+    { format: 'trc', label: 'PCAN TRC 2.1 (.trc)', extension: 'trc' },
+    { format: 'asc', label: 'Vector ASC (.asc)', extension: 'asc' },
+    { format: 'busmaster', label: 'BusMaster (.log)', extension: 'log' },
+    { format: 'custom', label: 'Custom text (.txt)', extension: 'txt' },
+];
+
+export interface IdRange {
+    from: number;
+    to: number;
+}
+
+export interface LogWriteOptions {
+    // Only frames with an ID in these ranges, or with `excludeIds` all others.
+    idRanges?: IdRange[];
+    excludeIds?: boolean;
+    start?: number;
+    end?: number;
+    // Relative logs start at zero with the first written frame; absolute ones keep the log's time
+    // base, as wall-clock time where the format has it and the recording start is known.
+    timestamps: 'absolute' | 'relative';
+    // Epoch milliseconds of time zero.
+    startDate?: number;
+}
+
+export interface LogWriteResult {
+    // The log text in parts, so that large logs need not become a single string.
+    parts: string[];
+    written: number;
+    skipped: number;
+}
+
+const LINES_PER_PART = 10000;
+
+// Parses e.g. "123, 0x200-2FF 18FF0300" into ID ranges; null when a token is not a hex ID or range.
+export const parseIdList = (text: string): IdRange[] | null => {
+    const ranges: IdRange[] = [];
+    for (const token of text.split(/[\s,;]+/).filter(Boolean)) {
+        const match = token.match(/^(?:0x)?([0-9a-f]{1,8})(?:-(?:0x)?([0-9a-f]{1,8}))?$/i);
+        if (!match) return null;
+        const from = parseInt(match[1], 16);
+        const to = match[2] !== undefined ? parseInt(match[2], 16) : from;
+        ranges.push({ from: Math.min(from, to), to: Math.max(from, to) });
+    }
+    return ranges;
+};
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+const getId = (message: CANMessage): number => parseInt(message.id, 16);
+const formatId = (message: CANMessage, standardDigits: number) => hex(getId(message), message.isExtended ? 8 : standardDigits);
+
+// Vector's header date, e.g. "Wed Jun 5 10:22:33.123 am 2024", in local time.
+const formatAscDate = (epochMs: number): string => {
+    const date = new Date(epochMs);
+    const hours = date.getHours() % 12 || 12;
+    return `${date.toLocaleDateString('en-US', { weekday: 'short' })} ${date.toLocaleDateString('en-US', { month: 'short' })} ${date.getDate()} `
+        + `${pad2(hours)}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}.${String(date.getMilliseconds()).padStart(3, '0')} `
+        + `${date.getHours() < 12 ? 'am' : 'pm'} ${date.getFullYear()}`;
+};
+
+// PCAN's header start time, e.g. "5.6.2024 10:22:33.123.0", in local time.
+const formatTrcDate = (epochMs: number): string => {
+    const date = new Date(epochMs);
+    return `${date.getDate()}.${date.getMonth() + 1}.${date.getFullYear()} ${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}.${String(date.getMilliseconds()).padStart(3, '0')}.0`;
+};
+
+// Days since 1899-12-30 in local time, as PCAN's $STARTTIME.
+const toOleDate = (epochMs: number): number => (epochMs - new Date(epochMs).getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+interface LogFormatter {
+    header: string[];
+    // The frame's line, or null when the format cannot hold the frame.
+    line: (message: CANMessage, time: number) => string | null;
+    footer: string[];
+}
+
+const createCandumpFormatter = (epochOffset: number): LogFormatter => ({
+    header: [],
+    line: (message, time) => {
+        if (message.isErrorFrame) return null;
+        const prefix = `(${(time + epochOffset).toFixed(6)}) can${Math.max(0, (message.channel ?? 1) - 1)} ${formatId(message, 3)}`;
+        if (message.isRemote) return `${prefix}#R${message.dlc > 0 ? message.dlc : ''}`;
+        if (message.isFd) return `${prefix}##${(message.brs ? 1 : 0) | (message.esi ? 2 : 0)}${message.data.join('')}`;
+        return `${prefix}#${message.data.join('')}`;
+    },
+    footer: [],
+});
+
+const getTrcType = (message: CANMessage): string => {
+    if (message.isRemote) return 'RR';
+    if (!message.isFd) return 'DT';
+    if (message.brs) return message.esi ? 'BI' : 'FB';
+    return message.esi ? 'FE' : 'FD';
+};
+
+const createTrcFormatter = (wallClockStart?: number): LogFormatter => {
+    let number = 0;
+    return {
+        header: [
+            ';$FILEVERSION=2.1',
+            ...(wallClockStart !== undefined ? [`;$STARTTIME=${toOleDate(wallClockStart).toFixed(10)}`] : []),
+            ';$COLUMNS=N,O,T,B,I,d,R,L,D',
+            ';',
+            ...(wallClockStart !== undefined ? [`;   Start time: ${formatTrcDate(wallClockStart)}`] : []),
+            ';-------------------------------------------------------------------------------',
+            ';   Message   Time    Type    ID     Rx/Tx',
+            ';   Number    Offset  |  Bus  [hex]  |  Reserved',
+            ';   |         [ms]    |  |    |      |  |  Data Length Code',
+            ';   |         |       |  |    |      |  |  |    Data [hex] ...',
+            ';   |         |       |  |    |      |  |  |    |',
+            ';---+-- ------+------ +- +- --+----- +- +- +--- +- -- -- -- -- -- -- --',
+        ],
+        line: (message, time) => {
+            if (message.isErrorFrame) return null;
+            number++;
+            const data = message.isRemote ? '' : message.data.join(' ');
+            // Version 2.x lines have no ')' after the message number.
+            return `${String(number).padStart(7)} ${(time * 1000).toFixed(3).padStart(13)} ${getTrcType(message)} ${String(message.channel ?? 1).padEnd(2)} `
+                + `${formatId(message, 4).padStart(8)} ${message.isTx ? 'Tx' : 'Rx'} -  ${String(message.dlc).padEnd(4)} ${data}`.trimEnd();
+        },
+        footer: [],
+    };
+};
+
+const createAscFormatter = (wallClockStart?: number): LogFormatter => {
+    const date = wallClockStart !== undefined ? formatAscDate(wallClockStart) : undefined;
+    return {
+        header: [
+            ...(date ? [`date ${date}`] : []),
+            'base hex  timestamps absolute',
+            'internal events logged',
+            date ? `Begin Triggerblock ${date}` : 'Begin Triggerblock',
+            '   0.000000 Start of measurement',
+        ],
+        line: (message, time) => {
+            const timeText = time.toFixed(6).padStart(11);
+            const channel = message.channel ?? 1;
+            const direction = message.isTx ? 'Tx' : 'Rx';
+            if (message.isErrorFrame) return `${timeText} ${channel}  ErrorFrame`;
+            const id = `${hex(getId(message), 1)}${message.isExtended ? 'x' : ''}`;
+            if (message.isFd) {
+                const flags = 0x1000 | (message.brs ? 0x2000 : 0) | (message.esi ? 0x4000 : 0);
+                const length = dlcToLength(message.dlc, true);
+                // ASC lists all bytes of the DLC; payloads shorter than that are padded with zeros.
+                const data = Array.from({ length }, (_, i) => message.data[i] ?? '00');
+                return `${timeText} CANFD ${String(channel).padStart(3)} ${direction} ${id.padStart(8)} ${message.brs ? 1 : 0} ${message.esi ? 1 : 0} `
+                    + `${hex(message.dlc, 1).toLowerCase()} ${String(length).padStart(2)} ${data.join(' ')} 0 0 ${flags.toString(16)} 0 0 0 0 0`;
+            }
+            if (message.isRemote) return `${timeText} ${channel}  ${id.padEnd(15)} ${direction}   r ${hex(message.dlc, 1)}`;
+            return `${timeText} ${channel}  ${id.padEnd(15)} ${direction}   d ${hex(message.dlc, 1)} ${message.data.join(' ')}`.trimEnd();
+        },
+        footer: ['End TriggerBlock'],
+    };
+};
+
+// BusMaster logs the time of day in tenths of a millisecond.
+const formatBusMasterTime = (seconds: number): string => {
+    const units = Math.round(seconds * 10000);
+    const totalSeconds = Math.floor(units / 10000);
+    return `${pad2(Math.floor(totalSeconds / 3600) % 24)}:${pad2(Math.floor(totalSeconds / 60) % 60)}:${pad2(totalSeconds % 60)}:${String(units % 10000).padStart(4, '0')}`;
+};
+
+const formatBusMasterDate = (epochMs: number): string => {
+    const date = new Date(epochMs);
+    return `${date.getDate()}:${date.getMonth() + 1}:${date.getFullYear()} ${date.getHours()}:${date.getMinutes()}:${date.getSeconds()}:${date.getMilliseconds()}`;
+};
+
+// `timeOfDayStart` is the second of the day at which time zero falls, when known.
+const createBusMasterFormatter = (wallClockStart: number | undefined, timeOfDayStart: number): LogFormatter => ({
+    header: [
+        '***BUSMASTER Ver 3.2.2***',
+        '***PROTOCOL CAN***',
+        '***NOTE: PLEASE DO NOT EDIT THIS DOCUMENT***',
+        '***[START LOGGING SESSION]***',
+        ...(wallClockStart !== undefined ? [`***START DATE AND TIME ${formatBusMasterDate(wallClockStart)}***`] : []),
+        '***HEX***',
+        '***SYSTEM MODE***',
+        '***START CHANNEL BAUD RATE***',
+        '***END CHANNEL BAUD RATE***',
+        '***START DATABASE FILES***',
+        '***END OF DATABASE FILES***',
+        '***<Time><Tx/Rx><Channel><CAN ID><Type><DLC><DataBytes>***',
+    ],
+    line: (message, time) => {
+        if (message.isErrorFrame || message.isRemote || message.isFd) return null;
+        return `${formatBusMasterTime(timeOfDayStart + time)} ${message.isTx ? 'Tx' : 'Rx'} ${message.channel ?? 1} 0x${formatId(message, 3)} ${message.isExtended ? 'x' : 's'} ${message.dlc} ${message.data.join(' ')}`.trimEnd();
+    },
+    footer: ['***[STOP LOGGING SESSION]***'],
+});
+
+// "<time in ms> <id> <dlc> <data>"; the format has whole milliseconds and no flags.
+const createCustomFormatter = (): LogFormatter => ({
+    header: ['Timestamp CAN_ID DLC Data(hex)'],
+    line: (message, time) => {
+        if (message.isErrorFrame || message.isRemote || message.isFd || message.data.length === 0) return null;
+        return `${Math.round(time * 1000)} 0x${formatId(message, 3)} ${message.dlc} ${message.data.join(' ')}`;
+    },
+    footer: [],
+});
+
+const matchesIds = (frames: EncodedFrames, i: number, options: LogWriteOptions): boolean => {
+    if (!options.idRanges || options.idRanges.length === 0) return true;
+    if (isErrorFrame(frames, i)) return !!options.excludeIds;
+    const id = frames.ids[i];
+    const isListed = options.idRanges.some(range => id >= range.from && id <= range.to);
+    return isListed !== !!options.excludeIds;
+};
+
+export const writeLog = (frames: EncodedFrames, format: LogWriteFormat, options: LogWriteOptions): LogWriteResult => {
+    const start = options.start ?? -Infinity;
+    const end = options.end ?? Infinity;
+    // Reassembled transport protocol messages were never on the bus.
+    const selected: number[] = [];
+    for (let i = 0; i < frames.count; i++) {
+        const time = frames.timestamps[i];
+        if (!getTransportProtocol(frames, i) && time >= start && time <= end && matchesIds(frames, i, options)) selected.push(i);
+    }
+
+    const origin = options.timestamps === 'relative' && selected.length > 0 ? frames.timestamps[selected[0]] : 0;
+    const wallClockStart = options.startDate !== undefined ? options.startDate + origin * 1000 : undefined;
+
+    let formatter: LogFormatter;
+    switch (format) {
+        case 'candump':
+            formatter = createCandumpFormatter(options.timestamps === 'absolute' && wallClockStart !== undefined ? wallClockStart / 1000 : 0);
+            break;
+        case 'trc':
+            formatter = createTrcFormatter(wallClockStart);
+            break;
+        case 'asc':
+            formatter = createAscFormatter(wallClockStart);
+            break;
+        case 'busmaster': {
+            let timeOfDay = 0;
+            if (options.timestamps === 'absolute' && wallClockStart !== undefined) {
+                const date = new Date(wallClockStart);
+                timeOfDay = date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds() + date.getMilliseconds() / 1000;
+            }
+            formatter = createBusMasterFormatter(wallClockStart, timeOfDay);
+            break;
+        }
+        case 'custom':
+            formatter = createCustomFormatter();
+            break;
+    }
+
+    const parts: string[] = [];
+    let lines: string[] = [...formatter.header];
+    let written = 0;
+    let skipped = 0;
+    for (const i of selected) {
+        const time = frames.timestamps[i] - origin;
+        // None of the formats can write a time before zero.
+        const line = time >= 0 ? formatter.line(decodeFrame(frames, i), time) : null;
+        if (line === null) {
+            skipped++;
+            continue;
+        }
+        lines.push(line);
+        written++;
+        if (lines.length >= LINES_PER_PART) {
+            parts.push(lines.join('\n') + '\n');
+            lines = [];
+        }
+    }
+    lines.push(...formatter.footer);
+    if (lines.length > 0) parts.push(lines.join('\n') + '\n');
+    return { parts, written, skipped };
+};
@@ -1,66 +1,559 @@
 
 import type { CanMatrix, MessageDefinition, SignalDefinition } from '../types';
 
-// Regex to capture message definitions (BO_)
-const MESSAGE_REGEX = /^BO_\s+(\d+)\s+(\w+)\s*:\s*(\d+)\s+(.+)/;
+// A DBC file is a sequence of keyword-led statements. Some of them (BO_, SG_, BU_) are
+// line based, the rest are terminated by ';' and may span several lines (e.g. multi-line
+// CM_ comments), so the file is tokenized first and parsed statement by statement.
 
-// Regex to capture signal definitions (SG_)
-// UPDATED: Made the [min|max] value range optional by using a non-capturing group (?:...)?
-// This makes the parser compatible with a wider variety of DBC files.
-const SIGNAL_REGEX = /^\s*SG_\s+(\w+)\s*:\s*(\d+)\|(\d+)@(\d+)([+-])\s+\(([\d.-]+),([\d.-]+)\)(?:\s+\[([\d.-]+)\|([\d.-]+)\])?\s+"([^"]*)"/;
+type Token =
+    | { type: 'word'; value: string }
+    | { type: 'string'; value: string }
+    | { type: 'punct'; value: string };
+
+const PUNCTUATION = new Set([':', ';', '|', '@', '(', ')', '[', ']', ',']);
+
+// Keywords that start a new statement. Used to find the end of statements without a terminator.
+const KEYWORDS = new Set([
+    'VERSION', 'NS_', 'BS_', 'BU_', 'VAL_TABLE_', 'BO_', 'SG_', 'BO_TX_BU_', 'EV_', 'ENVVAR_DATA_',
+    'SGTYPE_', 'SIG_GROUP_', 'CM_', 'BA_DEF_', 'BA_DEF_REL_', 'BA_DEF_DEF_', 'BA_DEF_DEF_REL_',
+    'BA_', 'BA_REL_', 'VAL_', 'SIG_VALTYPE_', 'SG_MUL_VAL_', 'CAT_DEF_', 'CAT_', 'FILTER',
+]);
+
+// Vector tools put signals that belong to no message into this pseudo message.
+const INDEPENDENT_SIGNALS_MESSAGE = 'VECTOR__INDEPENDENT_SIG_MSG';
+const MAX_STANDARD_ID = 0x7FF;
+const EXTENDED_ID_FLAG = 0x80000000;
+
+const tokenize = (content: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < content.length) {
+        const char = content[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '"') {
+            let value = '';
+            i++;
+            while (i < content.length && content[i] !== '"') {
+                if (content[i] === '\\' && i + 1 < content.length) {
+                    i++;
+                }
+                value += content[i];
+                i++;
+            }
+            i++; // closing quote
+            tokens.push({ type: 'string', value });
+        } else if (PUNCTUATION.has(char)) {
+            tokens.push({ type: 'punct', value: char });
+            i++;
+        } else {
+            let value = '';
+            while (i < content.length && !/\s/.test(content[i]) && !PUNCTUATION.has(content[i]) && content[i] !== '"') {
+                value += content[i];
+                i++;
+            }
+            tokens.push({ type: 'word', value });
+        }
+    }
+    return tokens;
+};
+
+interface AttributeDefinition {
+    objectType: 'network' | 'BU_' | 'BO_' | 'SG_' | 'EV_';
+    valueType: string;
+    enumValues?: string[];
+    defaultValue?: string | number;
+}
+
+class DbcParser {
+    private pos = 0;
+    private readonly matrix: CanMatrix = {};
+    private readonly attributeDefinitions = new Map<string, AttributeDefinition>();
+    private readonly explicitAttributes = new Set<string>();
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): CanMatrix {
+        while (this.pos < this.tokens.length) {
+            const token = this.tokens[this.pos];
+            if (token.type !== 'word' || !KEYWORDS.has(token.value)) {
+                this.pos++;
+                continue;
+            }
+            const start = this.pos;
+            try {
+                this.parseStatement(token.value);
+            } catch {
+                // Malformed statement: skip it and resynchronize on the next keyword.
+                this.pos = start + 1;
+            }
+            if (this.pos === start) this.pos++;
+        }
+        this.applyAttributeDefaults();
+        return this.matrix;
+    }
+
+    private parseStatement(keyword: string) {
+        switch (keyword) {
+            case 'BO_': return this.parseMessage();
+            case 'BO_TX_BU_': return this.parseMessageTransmitters();
+            case 'CM_': return this.parseComment();
+            case 'BA_DEF_': return this.parseAttributeDefinition();
+            case 'BA_DEF_DEF_': return this.parseAttributeDefault();
+            case 'BA_': return this.parseAttribute();
+            case 'VAL_': return this.parseValueDescriptions();
+            case 'SIG_VALTYPE_': return this.parseSignalValueType();
+            case 'SG_MUL_VAL_': return this.parseExtendedMultiplexing();
+            case 'SG_':
+                // Only reachable for signals outside a BO_ block; skip the line.
+                this.pos++;
+                this.skipToNextKeyword();
+                return;
+            case 'NS_':
+                this.pos++;
+                this.skipUntil('BS_');
+                return;
+            case 'VERSION':
+            case 'BS_':
+            case 'BU_':
+                this.pos++;
+                this.skipToNextKeyword();
+                return;
+            default:
+                this.skipStatement();
+        }
+    }
+
+    // ---- Token helpers ----
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos++];
+        if (!token) throw new Error('Unexpected end of DBC file.');
+        return token;
+    }
+
+    private expectWord(): string {
+        const token = this.next();
+        if (token.type !== 'word') throw new Error(`Expected identifier, got "${token.value}".`);
+        return token.value;
+    }
+
+    private expectString(): string {
+        const token = this.next();
+        if (token.type !== 'string') throw new Error(`Expected string, got "${token.value}".`);
+        return token.value;
+    }
+
+    private expectNumber(): number {
+        const value = Number(this.expectWord());
+        if (isNaN(value)) throw new Error('Expected number.');
+        return value;
+    }
+
+    private expectPunct(value: string) {
+        const token = this.next();
+        if (token.type !== 'punct' || token.value !== value) throw new Error(`Expected "${value}".`);
+    }
+
+    private isPunct(value: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token?.type === 'punct' && token.value === value;
+    }
+
+    private isKeyword(offset = 0): boolean {
+        const token = this.peek(offset);
+        return token?.type === 'word' && KEYWORDS.has(token.value);
+    }
+
+    private skipStatement() {
+        while (this.pos < this.tokens.length && !this.isPunct(';')) this.pos++;
+        this.pos++;
+    }
+
+    private skipToNextKeyword() {
+        while (this.pos < this.tokens.length && !this.isKeyword()) this.pos++;
+    }
+
+    private skipUntil(keyword: string) {
+        while (this.pos < this.tokens.length) {
+            const token = this.peek();
+            if (token?.type === 'word' && token.value === keyword) return;
+            this.pos++;
+        }
+    }
+
+    private findSignal(messageId: string, signalName: string): SignalDefinition | undefined {
+        return this.matrix[messageId]?.signals[signalName];
+    }
+
+    // Message IDs are matrix keys. DBC marks extended (29-bit) identifiers by setting bit 31; an ID
+    // too large for 11 bits is extended even when a tool left that bit out.
+    private expectMessageId(): string {
+        const id = this.expectNumber();
+        return id > MAX_STANDARD_ID && id < EXTENDED_ID_FLAG ? getMatrixKey(id, true) : String(id);
+    }
+
+    // ---- Statements ----
+
+    // BO_ <id> <name>: <dlc> <sender>  followed by its SG_ lines
+    private parseMessage() {
+        this.next();
+        const id = this.expectMessageId();
+        const name = this.expectWord();
+        this.expectPunct(':');
+        const dlc = this.expectNumber();
+        const sender = this.peek()?.type === 'word' && !this.isKeyword() ? this.expectWord() : undefined;
+
+        const message: MessageDefinition = { name, dlc, signals: {} };
+        if (Number(id) >= EXTENDED_ID_FLAG) message.isExtended = true;
+        if (sender && sender !== 'Vector__XXX') message.sender = sender;
+
+        while (this.peek()?.type === 'word' && this.peek()?.value === 'SG_') {
+            const start = this.pos;
+            try {
+                const signal = this.parseSignal();
+                message.signals[signal.name] = signal;
+            } catch {
+                this.pos = start + 1;
+                this.skipToNextKeyword();
+            }
+        }
+
+        if (name !== INDEPENDENT_SIGNALS_MESSAGE) {
+            this.matrix[id] = message;
+        }
+    }
+
+    // SG_ <name> [M|mX|mXM] : <start>|<length>@<order><sign> (<scale>,<offset>) [<min>|<max>] "<unit>" <receivers>
+    private parseSignal(): SignalDefinition {
+        this.next();
+        const name = this.expectWord();
+
+        let isMultiplexor = false;
+        let multiplexerValue: number | undefined;
+        if (!this.isPunct(':')) {
+            const indicator = this.expectWord();
+            const muxMatch = indicator.match(/^(?:m(\d+))?(M)?$/);
+            if (!muxMatch) throw new Error(`Invalid multiplexer indicator "${indicator}".`);
+            if (muxMatch[1] !== undefined) multiplexerValue = parseInt(muxMatch[1], 10);
+            isMultiplexor = muxMatch[2] === 'M';
+        }
+        this.expectPunct(':');
+
+        const startBit = this.expectNumber();
+        this.expectPunct('|');
+        const length = this.expectNumber();
+        this.expectPunct('@');
+        const orderAndSign = this.expectWord();
+        if (!/^[01][+-]$/.test(orderAndSign)) throw new Error(`Invalid byte order "${orderAndSign}".`);
+
+        this.expectPunct('(');
+        const scale = this.expectNumber();
+        this.expectPunct(',');
+        const offset = this.expectNumber();
+        this.expectPunct(')');
+
+        // The [min|max] range is optional in some exporters.
+        let min = 0;
+        let max = 0;
+        if (this.isPunct('[')) {
+            this.next();
+            min = this.expectNumber();
+            this.expectPunct('|');
+            max = this.expectNumber();
+            this.expectPunct(']');
+        }
+
+        const unit = this.peek()?.type === 'string' ? this.expectString() : '';
+
+        const receivers: string[] = [];
+        while (this.peek()?.type === 'word' && !this.isKeyword()) {
+            receivers.push(this.expectWord());
+            if (this.isPunct(',')) this.next(); else break;
+        }
+
+        const signal: SignalDefinition = {
+            name,
+            startBit,
+            length,
+            isLittleEndian: orderAndSign[0] === '1', // 1 for Intel (little-endian), 0 for Motorola (big-endian)
+            isSigned: orderAndSign[1] === '-',
+            scale,
+            offset,
+            min,
+            max,
+            unit,
+        };
+        if (isMultiplexor) signal.isMultiplexor = true;
+        if (multiplexerValue !== undefined) signal.multiplexerValue = multiplexerValue;
+        const realReceivers = receivers.filter(r => r !== 'Vector__XXX');
+        if (realReceivers.length > 0) signal.receivers = realReceivers;
+        return signal;
+    }
+
+    // BO_TX_BU_ <id> : <node>,<node>;
+    private parseMessageTransmitters() {
+        this.next();
+        const id = this.expectMessageId();
+        this.expectPunct(':');
+        const transmitters: string[] = [];
+        while (!this.isPunct(';') && this.pos < this.tokens.length) {
+            const token = this.next();
+            if (token.type === 'word') transmitters.push(token.value);
+        }
+        this.next();
+        if (this.matrix[id]) this.matrix[id].transmitters = transmitters;
+    }
+
+    // CM_ ["text" | BU_ <node> "text" | BO_ <id> "text" | SG_ <id> <signal> "text" | EV_ <var> "text"];
+    private parseComment() {
+        this.next();
+        const target = this.peek();
+        if (target?.type === 'word' && target.value === 'BO_') {
+            this.next();
+            const id = this.expectMessageId();
+            const text = this.expectString();
+            if (this.matrix[id]) this.matrix[id].comment = text;
+        } else if (target?.type === 'word' && target.value === 'SG_') {
+            this.next();
+            const id = this.expectMessageId();
+            const signalName = this.expectWord();
+            const text = this.expectString();
+            const signal = this.findSignal(id, signalName);
+            if (signal) signal.comment = text;
+        }
+        this.skipStatement();
+    }
+
+    // BA_DEF_ [BU_|BO_|SG_|EV_] "<name>" <INT|HEX|FLOAT|STRING|ENUM> ...;
+    private parseAttributeDefinition() {
+        this.next();
+        let objectType: AttributeDefinition['objectType'] = 'network';
+        const target = this.peek();
+        if (target?.type === 'word' && ['BU_', 'BO_', 'SG_', 'EV_'].includes(target.value)) {
+            objectType = target.value as AttributeDefinition['objectType'];
+            this.next();
+        }
+        const name = this.expectString();
+        const valueType = this.expectWord();
+        const definition: AttributeDefinition = { objectType, valueType };
+        if (valueType === 'ENUM') {
+            definition.enumValues = [];
+            while (!this.isPunct(';') && this.pos < this.tokens.length) {
+                const token = this.next();
+                if (token.type === 'string') definition.enumValues.push(token.value);
+            }
+        }
+        this.attributeDefinitions.set(name, definition);
+        this.skipStatement();
+    }
+
+    // BA_DEF_DEF_ "<name>" <value>;
+    private parseAttributeDefault() {
+        this.next();
+        const name = this.expectString();
+        const token = this.next();
+        const definition = this.attributeDefinitions.get(name);
+        if (definition) {
+            definition.defaultValue = token.type === 'string' ? token.value : Number(token.value);
+        }
+        this.skipStatement();
+    }
+
+    // BA_ "<name>" [BU_ <node> | BO_ <id> | SG_ <id> <signal> | EV_ <var>] <value>;
+    private parseAttribute() {
+        this.next();
+        const name = this.expectString();
+        const target = this.peek();
+        if (target?.type === 'word' && target.value === 'BO_') {
+            this.next();
+            const id = this.expectMessageId();
+            const value = this.readAttributeValue(name);
+            const message = this.matrix[id];
+            if (message) {
+                this.setAttribute(message, name, value);
+                this.explicitAttributes.add(`BO_:${id}:${name}`);
+            }
+        } else if (target?.type === 'word' && target.value === 'SG_') {
+            this.next();
+            const id = this.expectMessageId();
+            const signalName = this.expectWord();
+            const value = this.readAttributeValue(name);
+            const signal = this.findSignal(id, signalName);
+            if (signal) {
+                signal.attributes = { ...signal.attributes, [name]: value };
+                this.explicitAttributes.add(`SG_:${id}:${signalName}:${name}`);
+            }
+        }
+        this.skipStatement();
+    }
+
+    private readAttributeValue(name: string): string | number {
+        const token = this.next();
+        if (token.type === 'string') return token.value;
+        const value = Number(token.value);
+        const enumValues = this.attributeDefinitions.get(name)?.enumValues;
+        // Enum attributes are stored as the index into the definition's value list.
+        if (enumValues && Number.isInteger(value) && enumValues[value] !== undefined) {
+            return enumValues[value];
+        }
+        return value;
+    }
+
+    private setAttribute(message: MessageDefinition, name: string, value: string | number) {
+        message.attributes = { ...message.attributes, [name]: value };
+        if (name === 'GenMsgCycleTime' && typeof value === 'number' && value > 0) {
+            message.cycleTime = value;
+        }
+    }
+
+    // VAL_ <id> <signal> <raw> "<description>" ...;
+    private parseValueDescriptions() {
+        this.next();
+        // VAL_ statements for environment variables have no message id.
+        const idToken = this.peek();
+        if (idToken?.type !== 'word' || isNaN(Number(idToken.value))) {
+            this.skipStatement();
+            return;
+        }
+        const id = this.expectMessageId();
+        const signalName = this.expectWord();
+        const descriptions: { [rawValue: number]: string } = {};
+        while (!this.isPunct(';') && this.pos < this.tokens.length) {
+            const rawValue = this.expectNumber();
+            descriptions[rawValue] = this.expectString();
+        }
+        this.next();
+        const signal = this.findSignal(id, signalName);
+        if (signal) signal.valueDescriptions = descriptions;
+    }
+
+    // SIG_VALTYPE_ <id> <signal> : <0|1|2>;
+    private parseSignalValueType() {
+        this.next();
+        const id = this.expectMessageId();
+        const signalName = this.expectWord();
+        if (this.isPunct(':')) this.next();
+        const valueType = this.expectNumber();
+        const signal = this.findSignal(id, signalName);
+        if (signal) {
+            signal.valueType = valueType === 1 ? 'float32' : valueType === 2 ? 'float64' : 'integer';
+        }
+        this.skipStatement();
+    }
+
+    // SG_MUL_VAL_ <id> <signal> <multiplexor> <from>-<to>, <from>-<to> ...;
+    private parseExtendedMultiplexing() {
+        this.next();
+        const id = this.expectMessageId();
+        const signalName = this.expectWord();
+        const multiplexerSignal = this.expectWord();
+        const ranges: [number, number][] = [];
+        while (!this.isPunct(';') && this.pos < this.tokens.length) {
+            const token = this.next();
+            const rangeMatch = token.type === 'word' ? token.value.match(/^(\d+)-(\d+)$/) : null;
+            if (rangeMatch) ranges.push([parseInt(rangeMatch[1], 10), parseInt(rangeMatch[2], 10)]);
+        }
+        this.next();
+        const signal = this.findSignal(id, signalName);
+        if (signal) {
+            signal.multiplexerSignal = multiplexerSignal;
+            signal.multiplexerRanges = ranges;
+        }
+    }
+
+    private applyAttributeDefaults() {
+        this.attributeDefinitions.forEach((definition, name) => {
+            if (definition.defaultValue === undefined) return;
+            let defaultValue = definition.defaultValue;
+            if (definition.enumValues && typeof defaultValue === 'number' && definition.enumValues[defaultValue] !== undefined) {
+                defaultValue = definition.enumValues[defaultValue];
+            }
+            for (const id in this.matrix) {
+                const message = this.matrix[id];
+                if (definition.objectType === 'BO_' && !this.explicitAttributes.has(`BO_:${id}:${name}`)) {
+                    this.setAttribute(message, name, defaultValue);
+                } else if (definition.objectType === 'SG_') {
+                    for (const signalName in message.signals) {
+                        if (!this.explicitAttributes.has(`SG_:${id}:${signalName}:${name}`)) {
+                            const signal = message.signals[signalName];
+                            signal.attributes = { ...signal.attributes, [name]: defaultValue };
+                        }
+                    }
+                }
+            }
+        });
+    }
+}
+
+// The matrix key for a frame identifier: the ID as a DBC file writes it, in decimal, with bit 31
+// set for extended identifiers so that standard 0x123 and extended 0x00000123 stay distinct.
+export const getMatrixKey = (id: number, isExtended: boolean): string =>
+    String(isExtended ? (id | EXTENDED_ID_FLAG) >>> 0 : id);
 
 export const parseDbcFile = (content: string): CanMatrix => {
-    const lines = content.split('\n');
-    const matrix: CanMatrix = {};
-    let currentMessage: MessageDefinition | null = null;
-    let currentMessageId: string | null = null;
-
-    for (const line of lines) {
-        const trimmedLine = line.trim();
-        const messageMatch = trimmedLine.match(MESSAGE_REGEX);
-        const signalMatch = trimmedLine.match(SIGNAL_REGEX);
-
-        if (messageMatch) {
-            const [, id, name, dlc] = messageMatch;
-            currentMessageId = id;
-            currentMessage = {
-                name,
-                dlc: parseInt(dlc, 10),
-                signals: {},
-            };
-            matrix[currentMessageId] = currentMessage;
-        } else if (signalMatch && currentMessage && currentMessageId) {
-            // UPDATED: Destructuring now accounts for optional min/max values, which may be undefined.
-            const [
-                ,
-                name,
-                startBit,
-                length,
-                byteOrder,
-                sign,
-                scale,
-                offset,
-                min, // Can be undefined
-                max, // Can be undefined
-                unit,
-            ] = signalMatch;
-
-            const signal: SignalDefinition = {
-                name,
-                startBit: parseInt(startBit, 10),
-                length: parseInt(length, 10),
-                isLittleEndian: parseInt(byteOrder, 10) === 1, // 1 for Intel (little-endian), 0 for Motorola (big-endian)
-                isSigned: sign === '-',
-                scale: parseFloat(scale),
-                offset: parseFloat(offset),
-                // UPDATED: Provide default values for min/max if they are not defined in the signal.
-                min: parseFloat(min || '0'),
-                max: parseFloat(max || '0'),
-                unit,
-            };
-            currentMessage.signals[name] = signal;
-        }
-    }
-
-    return matrix;
-};
\ No newline at end of file
+    return new DbcParser(tokenize(content)).parse();
+};
+
+// Display name of each matrix message for qualified signal names: the message name, followed by
+// its identifier when several messages share the name (e.g. "MCU_Faults[0x1827FF81]").
+export const getMessageQualifiers = (matrix: CanMatrix): Map<MessageDefinition, string> => {
+    const nameCounts = new Map<string, number>();
+    for (const messageId in matrix) {
+        const { name } = matrix[messageId];
+        nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+    }
+
+    const qualifiers = new Map<MessageDefinition, string>();
+    for (const messageId in matrix) {
+        const definition = matrix[messageId];
+        if ((nameCounts.get(definition.name) ?? 0) > 1) {
+            const id = Number(messageId) >= EXTENDED_ID_FLAG ? Number(messageId) - EXTENDED_ID_FLAG : Number(messageId);
+            qualifiers.set(definition, `${definition.name}[0x${id.toString(16).toUpperCase()}]`);
+        } else {
+            qualifiers.set(definition, definition.name);
+        }
+    }
+    return qualifiers;
+};
+
+// Signals are identified by their message and name, "Message.Signal", as DBC files allow the same
+// signal name in several messages.
+export const getSignalKey = (messageQualifier: string, signalName: string): string => `${messageQualifier}.${signalName}`;
+
+// Signal definitions by signal key, built once per matrix: units and value descriptions are
+// looked up for every chart tooltip and table cell.
+const signalIndexes = new WeakMap<CanMatrix, Map<string, SignalDefinition>>();
+
+const findSignalDefinition = (matrix: CanMatrix, signalKey: string): SignalDefinition | undefined => {
+    let index = signalIndexes.get(matrix);
+    if (!index) {
+        index = new Map();
+        for (const [definition, qualifier] of getMessageQualifiers(matrix)) {
+            for (const signalDef of Object.values(definition.signals)) {
+                const key = getSignalKey(qualifier, signalDef.name);
+                if (!index.has(key)) index.set(key, signalDef);
+            }
+        }
+        signalIndexes.set(matrix, index);
+    }
+    return index.get(signalKey);
+};
+
+export const getSignalUnit = (matrix: CanMatrix, signalKey: string | null): string => {
+    if (!signalKey) return '';
+    return findSignalDefinition(matrix, signalKey)?.unit ?? '';
+};
+
+// Returns the VAL_ description for a decoded (physical) value, e.g. "Eco" for VehicleMode = 2.
+export const getValueDescription = (matrix: CanMatrix, signalKey: string | null, value: number): string | undefined => {
+    if (!signalKey) return undefined;
+    const signalDef = findSignalDefinition(matrix, signalKey);
+    if (!signalDef?.valueDescriptions) return undefined;
+    const rawValue = Math.round((value - signalDef.offset) / (signalDef.scale || 1));
+    return signalDef.valueDescriptions[rawValue];
+};
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import type { CANMessage } from '../types';
+import { parseMdfFile } from './mdfParser';
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const littleEndian = (size: number, write: (view: DataView) => void): Uint8Array => {
+    const bytes = new Uint8Array(size);
+    write(new DataView(bytes.buffer));
+    return bytes;
+};
+const u8 = (...values: number[]) => Uint8Array.from(values);
+const u16 = (value: number) => littleEndian(2, view => view.setUint16(0, value, true));
+const u32 = (value: number) => littleEndian(4, view => view.setUint32(0, value, true));
+const u64 = (value: number) => littleEndian(8, view => view.setBigUint64(0, BigInt(value), true));
+const f64 = (value: number) => littleEndian(8, view => view.setFloat64(0, value, true));
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+interface ChannelFields {
+    type?: number;
+    syncType?: number;
+    dataType?: number;
+    byteOffset: number;
+    bitCount: number;
+    composition?: number;
+    conversion?: number;
+}
+
+const HEADER_BLOCK_SIZE = 24 + 6 * 8 + 24;
+
+// Lays out MDF4 blocks after the identification and header blocks; each call returns the block's
+// address, so linked blocks are written before the blocks that link to them.
+const createMdfBuilder = () => {
+    const blocks: Uint8Array[] = [];
+    let position = 64 + HEADER_BLOCK_SIZE;
+
+    const block = (id: string, links: number[], data: Uint8Array): number => {
+        const length = 24 + links.length * 8 + data.length;
+        const padding = (8 - length % 8) % 8;
+        const address = position;
+        blocks.push(ascii(id), new Uint8Array(4), u64(length), u64(links.length), ...links.map(u64), data, new Uint8Array(padding));
+        position += length + padding;
+        return address;
+    };
+    const text = (value: string) => block('##TX', [], ascii(`${value}\0`));
+    const channels = (list: [string, ChannelFields][]): number =>
+        list.reduceRight((next, [name, fields]) => block('##CN', [next, fields.composition ?? 0, text(name), 0, fields.conversion ?? 0, 0, 0, 0], concatBytes(
+            u8(fields.type ?? 0, fields.syncType ?? 0, fields.dataType ?? 0, 0), u32(fields.byteOffset), u32(fields.bitCount),
+            u32(0), u32(0), u8(0, 0), u16(0), new Uint8Array(48)
+        )), 0);
+    const linearConversion = (offset: number, factor: number) =>
+        block('##CC', [0, 0, 0, 0], concatBytes(u8(1, 0), u16(0), u16(0), u16(2), new Uint8Array(16), f64(offset), f64(factor)));
+    const channelGroup = (next: number, firstChannel: number, recordId: number, dataBytes: number) =>
+        block('##CG', [next, firstChannel, 0, 0, 0, 0], concatBytes(u64(recordId), u64(0), u16(0), u16(0), new Uint8Array(4), u32(dataBytes), u32(0)));
+    const dataGroup = (firstChannelGroup: number, data: number, recordIdSize: number) =>
+        block('##DG', [0, firstChannelGroup, data, 0], concatBytes(u8(recordIdSize), new Uint8Array(7)));
+
+    const finish = (firstDataGroup: number, startTimeNs: number): Uint8Array => {
+        const identification = new Uint8Array(64);
+        identification.set(ascii('MDF     4.10    '));
+        new DataView(identification.buffer).setUint16(28, 410, true);
+        const header = concatBytes(
+            ascii('##HD'), new Uint8Array(4), u64(HEADER_BLOCK_SIZE), u64(6),
+            u64(firstDataGroup), u64(0), u64(0), u64(0), u64(0), u64(0),
+            u64(startTimeNs), new Uint8Array(16)
+        );
+        return concatBytes(identification, header, ...blocks);
+    };
+
+    return { block, channels, linearConversion, channelGroup, dataGroup, finish };
+};
+
+const readMdf = async (bytes: Uint8Array, fileName = 'trace.mf4') => {
+    const messages: CANMessage[] = [];
+    const info = await parseMdfFile(new File([new Uint8Array(bytes)], fileName), batch => messages.push(...batch));
+    return { info, messages };
+};
+
+describe('parseMdfFile', () => {
+    it('reads a CAN_DataFrame structure from a zipped data list', async () => {
+        const mdf = createMdfBuilder();
+        // Record: time (u64, µs), ID (u32, bit 31 = extended), DLC (u8), DataLength (u8), DataBytes (8 bytes)
+        const members = mdf.channels([
+            ['CAN_DataFrame.ID', { byteOffset: 8, bitCount: 32 }],
+            ['CAN_DataFrame.DLC', { byteOffset: 12, bitCount: 8 }],
+            ['CAN_DataFrame.DataLength', { byteOffset: 13, bitCount: 8 }],
+            ['CAN_DataFrame.DataBytes', { dataType: 10, byteOffset: 14, bitCount: 64 }],
+        ]);
+        const group = mdf.channelGroup(0, mdf.channels([
+            ['Timestamp', { type: 2, syncType: 1, byteOffset: 0, bitCount: 64, conversion: mdf.linearConversion(0, 1e-6) }],
+            ['CAN_DataFrame', { dataType: 10, byteOffset: 8, bitCount: 14 * 8, composition: members }],
+        ]), 0, 22);
+
+        const record = (microseconds: number, id: number, data: number[]) =>
+            concatBytes(u64(microseconds), u32(id), u8(data.length, data.length), u8(...data, ...Array(8 - data.length).fill(0)));
+        const records = concatBytes(record(500_000, 0x80000100, [1, 2]), record(1_500_000, 0x200, [3, 4, 5, 6, 7, 8, 9, 10]));
+        const compressed = await deflate(records);
+        const zipped = mdf.block('##DZ', [], concatBytes(ascii('DT'), u8(0, 0), u32(0), u64(records.length), u64(compressed.length), compressed));
+        const list = mdf.block('##DL', [0, zipped], concatBytes(u8(0), new Uint8Array(3), u32(1), u64(records.length)));
+
+        const { info, messages } = await readMdf(mdf.finish(mdf.dataGroup(group, list, 0), 1_718_619_000_000 * 1e6));
+        expect(info.format).toBe('ASAM MDF4');
+        expect(info.startDate).toBe(1_718_619_000_000);
+        expect(messages).toEqual([
+            { timestamp: 0.5, id: '0x100', isExtended: true, dlc: 2, data: ['01', '02'], isTx: false },
+            { timestamp: 1.5, id: '0x200', isExtended: false, dlc: 8, data: ['03', '04', '05', '06', '07', '08', '09', '0A'], isTx: false },
+        ]);
+    });
+
+    it('reads data and error frame groups told apart by record id', async () => {
+        const mdf = createMdfBuilder();
+        // Data frame record: time (f64, s), ID (u32), IDE, DLC, DataLength, BusChannel, Dir, EDL, BRS, ESI (u8 each),
+        // DataBytes (64 bytes)
+        const dataGroupChannels = mdf.channels([
+            ['Timestamp', { type: 2, syncType: 1, dataType: 4, byteOffset: 0, bitCount: 64 }],
+            ['CAN_DataFrame', { dataType: 10, byteOffset: 8, bitCount: 76 * 8 }],
+            ['CAN_DataFrame.ID', { byteOffset: 8, bitCount: 32 }],
+            ['CAN_DataFrame.IDE', { byteOffset: 12, bitCount: 8 }],
+            ['CAN_DataFrame.DLC', { byteOffset: 13, bitCount: 8 }],
+            ['CAN_DataFrame.DataLength', { byteOffset: 14, bitCount: 8 }],
+            ['CAN_DataFrame.BusChannel', { byteOffset: 15, bitCount: 8 }],
+            ['CAN_DataFrame.Dir', { byteOffset: 16, bitCount: 8 }],
+            ['CAN_DataFrame.EDL', { byteOffset: 17, bitCount: 8 }],
+            ['CAN_DataFrame.BRS', { byteOffset: 18, bitCount: 8 }],
+            ['CAN_DataFrame.ESI', { byteOffset: 19, bitCount: 8 }],
+            ['CAN_DataFrame.DataBytes', { dataType: 10, byteOffset: 20, bitCount: 64 * 8 }],
+        ]);
+        // Error frame record: time (f64, s), BusChannel (u8)
+        const errorGroupChannels = mdf.channels([
+            ['Timestamp', { type: 2, syncType: 1, dataType: 4, byteOffset: 0, bitCount: 64 }],
+            ['CAN_ErrorFrame', { dataType: 10, byteOffset: 8, bitCount: 8 }],
+            ['CAN_ErrorFrame.BusChannel', { byteOffset: 8, bitCount: 8 }],
+        ]);
+        const groups = mdf.channelGroup(mdf.channelGroup(0, errorGroupChannels, 2, 9), dataGroupChannels, 1, 84);
+
+        const dataRecord = (seconds: number, id: number, flags: number[], data: number[]) =>
+            concatBytes(u8(1), f64(seconds), u32(id), u8(...flags), u8(...data, ...Array(64 - data.length).fill(0)));
+        const records = concatBytes(
+            dataRecord(0.25, 0x18FEF100, [1, 9, 12, 2, 1, 1, 1, 0], [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]),
+            concatBytes(u8(2), f64(0.5), u8(1)),
+            dataRecord(0.75, 0x7DF, [0, 2, 2, 1, 0, 0, 0, 0], [0x02, 0x01])
+        );
+        const data = mdf.block('##DT', [], records);
+
+        const { info, messages } = await readMdf(mdf.finish(mdf.dataGroup(groups, data, 1), 0));
+        expect(info.startDate).toBeUndefined();
+        expect(messages).toEqual([
+            {
+                timestamp: 0.25, id: '0x18FEF100', isExtended: true, dlc: 9,
+                data: ['00', '01', '02', '03', '04', '05', '06', '07', '08', '09', '0A', '0B'],
+                isTx: true, channel: 2, isFd: true, brs: true, esi: false,
+            },
+            { timestamp: 0.5, id: '', isExtended: false, dlc: 0, data: [], isTx: false, isErrorFrame: true, channel: 1 },
+            { timestamp: 0.75, id: '0x7DF', isExtended: false, dlc: 2, data: ['02', '01'], isTx: false, channel: 1 },
+        ]);
+    });
+
+    it('rejects files that are not MDF 4', async () => {
+        await expect(readMdf(ascii('LOGG'.padEnd(64, '\0')), 'trace.blf')).rejects.toThrow('"trace.blf" is not a valid MDF file.');
+
+        const mdf3 = new Uint8Array(64);
+        mdf3.set(ascii('MDF     3.30    '));
+        new DataView(mdf3.buffer).setUint16(28, 330, true);
+        await expect(readMdf(mdf3, 'trace.mdf')).rejects.toThrow('"trace.mdf" is MDF 3.30; only MDF 4.x bus logging files are supported.');
+    });
+});
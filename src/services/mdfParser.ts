@@ -0,0 +1,504 @@
+import type { CANMessage, LogFileInfo } from '../types';
+import { BinaryFileReader, dataViewOf, formatCanId, formatDataBytes, inflateZlib, readAscii } from './binaryUtils';
+import { lengthToDlc } from './canFd';
+
+// ASAM MDF 4.x with bus logging (CAN_DataFrame, CAN_RemoteFrame and CAN_ErrorFrame channel groups).
+// The file is a graph of blocks ("##HD", "##DG", "##CG", "##CN", ...), each with a 24-byte header
+// (id, reserved, length, link count) followed by its links (file offsets) and its data section.
+
+const BLOCK_HEADER_SIZE = 24;
+const DATA_SLICE_SIZE = 16 * 1024 * 1024;
+// Frames handed over at a time.
+const BATCH_SIZE = 10000;
+
+// cn_type
+const CN_TYPE_VLSD = 1;
+const CN_TYPE_VIRTUAL_MASTER = 3;
+// cn_data_type
+const DT_UINT_LE = 0;
+const DT_UINT_BE = 1;
+const DT_INT_LE = 2;
+const DT_INT_BE = 3;
+const DT_FLOAT_LE = 4;
+const DT_FLOAT_BE = 5;
+// cg_flags
+const CG_FLAG_VLSD = 0x1;
+// cc_type
+const CC_LINEAR = 1;
+
+const FRAME_KIND_REGEX = /CAN_(DataFrame|RemoteFrame|ErrorFrame)$/;
+const FRAME_FIELD_REGEX = /\.(ID|IDE|DLC|DataLength|DataBytes|BusChannel|Dir|EDL|BRS|ESI)$/;
+
+interface Block {
+    id: string;
+    links: number[];
+    data: Uint8Array;
+    view: DataView;
+}
+
+interface ChannelInfo {
+    name: string;
+    type: number;
+    syncType: number;
+    dataType: number;
+    bitOffset: number;
+    byteOffset: number;
+    bitCount: number;
+    dataLink: number;
+    conversion?: { type: number; values: number[] };
+    children: ChannelInfo[];
+}
+
+interface ChannelGroupInfo {
+    recordId: number;
+    flags: number;
+    dataBytes: number;
+    invalBytes: number;
+    address: number;
+    channels: ChannelInfo[];
+}
+
+interface FrameLayout {
+    kind: 'DataFrame' | 'RemoteFrame' | 'ErrorFrame';
+    group: ChannelGroupInfo;
+    time: ChannelInfo;
+    fields: { [field: string]: ChannelInfo };
+}
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+    if (chunks.length === 1) return chunks[0];
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
+
+// Reads an integer or float channel value from a record (without the record id prefix).
+const readChannelValue = (record: Uint8Array, channel: ChannelInfo): number => {
+    const view = dataViewOf(record);
+    const { byteOffset, bitOffset, bitCount, dataType } = channel;
+
+    if (dataType === DT_FLOAT_LE || dataType === DT_FLOAT_BE) {
+        const littleEndian = dataType === DT_FLOAT_LE;
+        return bitCount === 32 ? view.getFloat32(byteOffset, littleEndian) : view.getFloat64(byteOffset, littleEndian);
+    }
+
+    const byteCount = Math.ceil((bitOffset + bitCount) / 8);
+    const bigEndian = dataType === DT_UINT_BE || dataType === DT_INT_BE;
+    let value = 0;
+    for (let i = 0; i < byteCount; i++) {
+        const byte = record[byteOffset + (bigEndian ? byteCount - 1 - i : i)] ?? 0;
+        value += byte * 2 ** (8 * i);
+    }
+    value = Math.floor(value / 2 ** bitOffset) % 2 ** bitCount;
+
+    if ((dataType === DT_INT_LE || dataType === DT_INT_BE) && value >= 2 ** (bitCount - 1)) {
+        value -= 2 ** bitCount;
+    }
+    return value;
+};
+
+const applyConversion = (value: number, channel: ChannelInfo): number => {
+    if (channel.conversion?.type === CC_LINEAR && channel.conversion.values.length >= 2) {
+        const [offset, factor] = channel.conversion.values;
+        return offset + factor * value;
+    }
+    return value;
+};
+
+// Reads one (length-prefixed) entry of variable length signal data.
+const readVlsdEntry = (signalData: Uint8Array, offset: number): Uint8Array => {
+    if (offset + 4 > signalData.length) return new Uint8Array(0);
+    const length = dataViewOf(signalData).getUint32(offset, true);
+    return signalData.subarray(offset + 4, offset + 4 + length);
+};
+
+class MdfFile {
+    private readonly reader: BinaryFileReader;
+
+    constructor(
+        private readonly file: File,
+        private readonly onBatch: (messages: CANMessage[]) => void,
+        private readonly onProgress?: (bytesRead: number) => void
+    ) {
+        this.reader = new BinaryFileReader(file, 64 * 1024);
+    }
+
+    private async readBlockHeader(offset: number) {
+        const header = await this.reader.read(offset, BLOCK_HEADER_SIZE);
+        const view = dataViewOf(header);
+        return {
+            id: readAscii(header, 0, 4),
+            length: Number(view.getBigUint64(8, true)),
+            linkCount: Number(view.getBigUint64(16, true)),
+        };
+    }
+
+    private async readBlock(offset: number): Promise<Block> {
+        const { id, length, linkCount } = await this.readBlockHeader(offset);
+        const bytes = (await this.reader.read(offset, length)).slice();
+        const view = dataViewOf(bytes);
+        const links: number[] = [];
+        for (let i = 0; i < linkCount; i++) {
+            links.push(Number(view.getBigUint64(BLOCK_HEADER_SIZE + i * 8, true)));
+        }
+        const data = bytes.subarray(BLOCK_HEADER_SIZE + linkCount * 8);
+        return { id, links, data, view: dataViewOf(data) };
+    }
+
+    private async readText(offset: number): Promise<string> {
+        if (!offset) return '';
+        const block = await this.readBlock(offset);
+        const end = block.data.indexOf(0);
+        return new TextDecoder().decode(end === -1 ? block.data : block.data.subarray(0, end));
+    }
+
+    private async readConversion(offset: number): Promise<ChannelInfo['conversion']> {
+        if (!offset) return undefined;
+        const block = await this.readBlock(offset);
+        // cc_type (u8), precision (u8), flags (u16), ref count (u16), val count (u16), phy range (2 x f64), values
+        const type = block.view.getUint8(0);
+        const valueCount = block.view.getUint16(6, true);
+        const values: number[] = [];
+        for (let i = 0; i < valueCount; i++) {
+            values.push(block.view.getFloat64(24 + i * 8, true));
+        }
+        return { type, values };
+    }
+
+    private async readChannels(firstOffset: number, depth = 0): Promise<ChannelInfo[]> {
+        const channels: ChannelInfo[] = [];
+        let offset = firstOffset;
+        while (offset) {
+            const block = await this.readBlock(offset);
+            // links: next, composition, name, source, conversion, data, unit, comment
+            const [next, composition, nameLink, , conversionLink, dataLink] = block.links;
+            const channel: ChannelInfo = {
+                name: await this.readText(nameLink),
+                type: block.view.getUint8(0),
+                syncType: block.view.getUint8(1),
+                dataType: block.view.getUint8(2),
+                bitOffset: block.view.getUint8(3),
+                byteOffset: block.view.getUint32(4, true),
+                bitCount: block.view.getUint32(8, true),
+                dataLink,
+                conversion: await this.readConversion(conversionLink),
+                children: [],
+            };
+            if (composition && depth < 4) {
+                const compositionHeader = await this.readBlockHeader(composition);
+                if (compositionHeader.id === '##CN') {
+                    channel.children = await this.readChannels(composition, depth + 1);
+                }
+            }
+            channels.push(channel);
+            offset = next;
+        }
+        return channels;
+    }
+
+    private async readChannelGroups(firstOffset: number): Promise<ChannelGroupInfo[]> {
+        const groups: ChannelGroupInfo[] = [];
+        let offset = firstOffset;
+        while (offset) {
+            const block = await this.readBlock(offset);
+            // record id (u64), cycle count (u64), flags (u16), path separator (u16), reserved (4),
+            // data bytes (u32), invalidation bytes (u32)
+            groups.push({
+                recordId: Number(block.view.getBigUint64(0, true)),
+                flags: block.view.getUint16(16, true),
+                dataBytes: block.view.getUint32(24, true),
+                invalBytes: block.view.getUint32(28, true),
+                address: offset,
+                channels: await this.readChannels(block.links[1]),
+            });
+            offset = block.links[0];
+        }
+        return groups;
+    }
+
+    // Yields the contents of a data block chain (DT/SD, DZ, DL, HL) in order, in bounded slices.
+    private async *streamData(offset: number): AsyncGenerator<Uint8Array> {
+        if (!offset) return;
+        const header = await this.readBlockHeader(offset);
+
+        switch (header.id) {
+            case '##DT':
+            case '##SD':
+            case '##RD': {
+                const start = offset + BLOCK_HEADER_SIZE + header.linkCount * 8;
+                const end = offset + header.length;
+                for (let pos = start; pos < end; pos += DATA_SLICE_SIZE) {
+                    const length = Math.min(DATA_SLICE_SIZE, end - pos);
+                    yield new Uint8Array(await this.file.slice(pos, pos + length).arrayBuffer());
+                    this.onProgress?.(pos + length);
+                }
+                return;
+            }
+            case '##DZ': {
+                const block = await this.readBlock(offset);
+                // original block type (2 chars), zip type (u8), reserved (u8), zip parameter (u32),
+                // original data length (u64), compressed data length (u64), data
+                const zipType = block.view.getUint8(2);
+                const columns = block.view.getUint32(4, true);
+                const originalLength = Number(block.view.getBigUint64(8, true));
+                const compressedLength = Number(block.view.getBigUint64(16, true));
+                let data = await inflateZlib(block.data.subarray(24, 24 + compressedLength));
+                if (zipType === 1 && columns > 0) {
+                    // Transposition + deflate: the record bytes were stored column by column.
+                    const rows = Math.floor(originalLength / columns);
+                    const transposed = data;
+                    data = new Uint8Array(originalLength);
+                    for (let c = 0; c < columns; c++) {
+                        for (let r = 0; r < rows; r++) {
+                            data[r * columns + c] = transposed[c * rows + r];
+                        }
+                    }
+                    data.set(transposed.subarray(rows * columns), rows * columns);
+                }
+                yield data;
+                this.onProgress?.(offset + header.length);
+                return;
+            }
+            case '##DL': {
+                let listOffset = offset;
+                while (listOffset) {
+                    const block = await this.readBlock(listOffset);
+                    for (const dataOffset of block.links.slice(1)) {
+                        yield* this.streamData(dataOffset);
+                    }
+                    listOffset = block.links[0];
+                }
+                return;
+            }
+            case '##HL': {
+                const block = await this.readBlock(offset);
+                yield* this.streamData(block.links[0]);
+                return;
+            }
+            default:
+                throw new Error(`Unsupported MDF data block "${header.id}".`);
+        }
+    }
+
+    private async readAllData(offset: number): Promise<Uint8Array> {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of this.streamData(offset)) chunks.push(chunk);
+        return chunks.length > 0 ? concat(chunks) : new Uint8Array(0);
+    }
+
+    // Splits a data group's records, which may straddle slice boundaries, and passes each record
+    // (without its record id prefix) to the callback.
+    private async forEachRecord(
+        dataLink: number,
+        recordIdSize: number,
+        groups: ChannelGroupInfo[],
+        callback: (group: ChannelGroupInfo, record: Uint8Array) => void
+    ) {
+        const groupsById = new Map(groups.map(group => [group.recordId, group]));
+        let carry = new Uint8Array(0);
+
+        for await (const chunk of this.streamData(dataLink)) {
+            const buffer = carry.length > 0 ? concat([carry, chunk]) : chunk;
+            const view = dataViewOf(buffer);
+            let pos = 0;
+
+            while (pos + recordIdSize <= buffer.length) {
+                let group = groups[0];
+                if (recordIdSize > 0) {
+                    const recordId = recordIdSize === 1 ? view.getUint8(pos)
+                        : recordIdSize === 2 ? view.getUint16(pos, true)
+                        : recordIdSize === 4 ? view.getUint32(pos, true)
+                        : Number(view.getBigUint64(pos, true));
+                    const found = groupsById.get(recordId);
+                    if (!found) throw new Error(`Corrupt MDF file: unknown record id ${recordId}.`);
+                    group = found;
+                }
+
+                const recordStart = pos + recordIdSize;
+                let recordEnd: number;
+                if (group.flags & CG_FLAG_VLSD) {
+                    if (recordStart + 4 > buffer.length) break;
+                    recordEnd = recordStart + 4 + view.getUint32(recordStart, true);
+                } else {
+                    recordEnd = recordStart + group.dataBytes + group.invalBytes;
+                }
+                if (recordEnd > buffer.length) break;
+
+                callback(group, buffer.subarray(recordStart, recordEnd));
+                pos = recordEnd;
+            }
+
+            carry = buffer.slice(pos);
+        }
+    }
+
+    private findFrameLayout(group: ChannelGroupInfo): FrameLayout | null {
+        const time = group.channels.find(channel => channel.syncType === 1 && (channel.type === 2 || channel.type === CN_TYPE_VIRTUAL_MASTER));
+        const frameChannel = group.channels.find(channel => FRAME_KIND_REGEX.test(channel.name));
+        if (!time || !frameChannel) return null;
+
+        const kind = frameChannel.name.match(FRAME_KIND_REGEX)![1] as FrameLayout['kind'];
+        const members = frameChannel.children.length > 0 ? frameChannel.children : group.channels;
+
+        // Structure members' byte offsets are normally given within the record; some writers give
+        // them relative to the parent instead.
+        const isRelative = frameChannel.children.length > 0
+            && frameChannel.byteOffset > 0
+            && Math.min(...frameChannel.children.map(child => child.byteOffset)) < frameChannel.byteOffset;
+
+        const fields: FrameLayout['fields'] = {};
+        for (const member of members) {
+            const fieldMatch = member.name.match(FRAME_FIELD_REGEX);
+            if (fieldMatch) {
+                fields[fieldMatch[1]] = isRelative ? { ...member, byteOffset: member.byteOffset + frameChannel.byteOffset } : member;
+            }
+        }
+        if (kind !== 'ErrorFrame' && !fields.ID) return null;
+
+        return { kind, group, time, fields };
+    }
+
+    async parse(): Promise<LogFileInfo> {
+        const idBlock = await this.reader.read(0, 64);
+        if (readAscii(idBlock, 0, 3) !== 'MDF') {
+            throw new Error(`"${this.file.name}" is not a valid MDF file.`);
+        }
+        const version = dataViewOf(idBlock).getUint16(28, true);
+        if (version < 400) {
+            throw new Error(`"${this.file.name}" is MDF ${readAscii(idBlock, 8, 4).trim()}; only MDF 4.x bus logging files are supported.`);
+        }
+
+        const header = await this.readBlock(64);
+        const startTimeNs = Number(header.view.getBigUint64(0, true));
+        const info: LogFileInfo = { fileName: this.file.name, format: 'ASAM MDF4' };
+        if (startTimeNs > 0) {
+            info.startDate = startTimeNs / 1e6;
+            info.startTime = new Date(info.startDate).toLocaleString();
+        }
+
+        let dataGroupOffset = header.links[0];
+
+        while (dataGroupOffset) {
+            const dataGroup = await this.readBlock(dataGroupOffset);
+            const [nextDataGroup, firstChannelGroup, dataLink] = dataGroup.links;
+            const recordIdSize = dataGroup.view.getUint8(0);
+            const groups = await this.readChannelGroups(firstChannelGroup);
+            const layouts = new Map<ChannelGroupInfo, FrameLayout>();
+            groups.forEach(group => {
+                const layout = this.findFrameLayout(group);
+                if (layout) layouts.set(group, layout);
+            });
+
+            if (layouts.size > 0) {
+                await this.readDataGroupFrames(dataLink, recordIdSize, groups, layouts);
+            }
+            dataGroupOffset = nextDataGroup;
+        }
+
+        return info;
+    }
+
+    private async readDataGroupFrames(
+        dataLink: number,
+        recordIdSize: number,
+        groups: ChannelGroupInfo[],
+        layouts: Map<ChannelGroupInfo, FrameLayout>
+    ) {
+        // Variable length DataBytes live either in an SD block chain or in a VLSD channel group of
+        // the same data group; the latter is collected in a first pass over the records.
+        const signalData = new Map<number, Uint8Array>();
+        const vlsdGroups = new Map<number, Uint8Array[]>();
+        for (const layout of layouts.values()) {
+            const dataBytes = layout.fields.DataBytes;
+            if (!dataBytes || dataBytes.type !== CN_TYPE_VLSD || !dataBytes.dataLink || signalData.has(dataBytes.dataLink)) continue;
+            const { id } = await this.readBlockHeader(dataBytes.dataLink);
+            if (id === '##CG') {
+                vlsdGroups.set(dataBytes.dataLink, []);
+            } else {
+                signalData.set(dataBytes.dataLink, await this.readAllData(dataBytes.dataLink));
+            }
+        }
+        if (vlsdGroups.size > 0) {
+            await this.forEachRecord(dataLink, recordIdSize, groups, (group, record) => {
+                vlsdGroups.get(group.address)?.push(record.slice());
+            });
+            vlsdGroups.forEach((records, address) => signalData.set(address, concat(records)));
+        }
+
+        const recordIndices = new Map<ChannelGroupInfo, number>();
+        let messages: CANMessage[] = [];
+        await this.forEachRecord(dataLink, recordIdSize, groups, (group, record) => {
+            const layout = layouts.get(group);
+            if (!layout) return;
+            const recordIndex = recordIndices.get(group) ?? 0;
+            recordIndices.set(group, recordIndex + 1);
+            const message = this.readFrame(layout, record, recordIndex, signalData);
+            if (!message) return;
+            messages.push(message);
+            if (messages.length >= BATCH_SIZE) {
+                this.onBatch(messages);
+                messages = [];
+            }
+        });
+        if (messages.length > 0) this.onBatch(messages);
+    }
+
+    private readFrame(layout: FrameLayout, record: Uint8Array, recordIndex: number, signalData: Map<number, Uint8Array>): CANMessage | null {
+        const { fields, time } = layout;
+        const rawTime = time.type === CN_TYPE_VIRTUAL_MASTER ? recordIndex : readChannelValue(record, time);
+        const timestamp = parseFloat(applyConversion(rawTime, time).toPrecision(15));
+        const read = (field: string): number | undefined => fields[field] ? readChannelValue(record, fields[field]) : undefined;
+
+        const channel = read('BusChannel');
+        const isTx = read('Dir') === 1;
+
+        if (layout.kind === 'ErrorFrame') {
+            return { timestamp, id: '', isExtended: false, dlc: 0, data: [], isTx, isErrorFrame: true, ...(channel !== undefined ? { channel } : {}) };
+        }
+
+        const rawId = read('ID') ?? 0;
+        const id = rawId % 2 ** 29;
+        // IDE channel, or bit 31 of the ID when the writer has no IDE channel
+        const isExtended = fields.IDE ? read('IDE') === 1 : rawId >= 2 ** 31;
+        let data: Uint8Array = new Uint8Array(0);
+
+        if (layout.kind === 'DataFrame' && fields.DataBytes) {
+            const dataBytes = fields.DataBytes;
+            if (dataBytes.type === CN_TYPE_VLSD) {
+                const offset = readChannelValue(record, { ...dataBytes, dataType: DT_UINT_LE });
+                data = readVlsdEntry(signalData.get(dataBytes.dataLink) ?? new Uint8Array(0), offset);
+            } else {
+                data = record.subarray(dataBytes.byteOffset, dataBytes.byteOffset + dataBytes.bitCount / 8);
+            }
+            const dataLength = read('DataLength');
+            if (dataLength !== undefined) data = data.subarray(0, dataLength);
+        }
+        const isFd = read('EDL') === 1 || data.length > 8;
+
+        return {
+            timestamp,
+            id: formatCanId(id),
+            isExtended,
+            dlc: read('DLC') ?? lengthToDlc(data.length),
+            data: formatDataBytes(data),
+            isTx,
+            ...(channel !== undefined ? { channel } : {}),
+            ...(layout.kind === 'RemoteFrame' ? { isRemote: true } : {}),
+            ...(isFd ? { isFd, brs: read('BRS') === 1, esi: read('ESI') === 1 } : {}),
+        };
+    }
+}
+
+// Frames come in batches in record order; data groups are not merged by time, the ingestion
+// worker orders all frames once they are read.
+export const parseMdfFile = async (
+    file: File,
+    onBatch: (messages: CANMessage[]) => void,
+    onProgress?: (bytesRead: number) => void
+): Promise<LogFileInfo> => {
+    return new MdfFile(file, onBatch, onProgress).parse();
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportTable } from './dataExport';
+import { writeMdf4 } from './mdfWriter';
+
+// Walks the written blocks by their links: header, data groups, their channel group, channels and
+// records. The log parser only reads bus logging groups, so the signal tables are read back here.
+const readMdf = (file: Uint8Array) => {
+    const view = new DataView(file.buffer);
+    const block = (offset: number, id: string) => {
+        expect(new TextDecoder().decode(file.subarray(offset, offset + 4))).toBe(id);
+        expect(offset % 8).toBe(0);
+        const linkCount = Number(view.getBigUint64(offset + 16, true));
+        return {
+            link: (index: number) => Number(view.getBigUint64(offset + 24 + index * 8, true)),
+            data: offset + 24 + linkCount * 8,
+        };
+    };
+    const text = (offset: number) => {
+        if (offset === 0) return '';
+        const start = block(offset, '##TX').data;
+        return new TextDecoder().decode(file.subarray(start, file.indexOf(0, start)));
+    };
+
+    const header = block(64, '##HD');
+    const tables = [];
+    for (let groupOffset = header.link(0); groupOffset !== 0;) {
+        const dataGroup = block(groupOffset, '##DG');
+        const channelGroup = block(dataGroup.link(1), '##CG');
+        const rowCount = Number(view.getBigUint64(channelGroup.data + 8, true));
+        const dataBytes = view.getUint32(channelGroup.data + 24, true);
+        const recordSize = dataBytes + view.getUint32(channelGroup.data + 28, true);
+        const records = block(dataGroup.link(2), '##DT').data;
+
+        const channels = [];
+        for (let channelOffset = channelGroup.link(1); channelOffset !== 0;) {
+            const channel = block(channelOffset, '##CN');
+            const byteOffset = view.getUint32(channel.data + 4, true);
+            const hasInvalidationBit = (view.getUint32(channel.data + 12, true) & 0x2) !== 0;
+            const invalidationBit = view.getUint32(channel.data + 16, true);
+            channels.push({
+                name: text(channel.link(2)),
+                unit: text(channel.link(6)),
+                type: view.getUint8(channel.data),
+                syncType: view.getUint8(channel.data + 1),
+                dataType: view.getUint8(channel.data + 2),
+                bitCount: view.getUint32(channel.data + 8, true),
+                values: Array.from({ length: rowCount }, (_, row) => {
+                    const record = records + row * recordSize;
+                    const isInvalid = hasInvalidationBit && (file[record + dataBytes + (invalidationBit >> 3)] & (1 << (invalidationBit & 7))) !== 0;
+                    return isInvalid ? NaN : view.getFloat64(record + byteOffset, true);
+                }),
+            });
+            channelOffset = channel.link(0);
+        }
+        tables.push({ name: text(channelGroup.link(2)), channels });
+        groupOffset = dataGroup.link(0);
+    }
+    return {
+        id: new TextDecoder().decode(file.subarray(0, 16)),
+        version: view.getUint16(28, true),
+        startTime: view.getBigUint64(header.data, true),
+        tables,
+    };
+};
+
+const TABLES: ExportTable[] = [
+    {
+        name: 'Engine',
+        timestamps: Float64Array.from([0, 0.01, 0.02]),
+        columns: [
+            { key: 'Engine.Speed', name: 'Speed', unit: 'rpm', values: Float64Array.from([800, NaN, 812.5]) },
+            { key: 'Engine.Mode', name: 'Mode', unit: '', values: Float64Array.from([1, 2, NaN]) },
+        ],
+    },
+    {
+        name: 'Brake',
+        timestamps: Float64Array.from([0.005, 0.5]),
+        columns: Array.from({ length: 9 }, (_, i) => ({
+            key: `Brake.P${i}`,
+            name: `P${i}`,
+            unit: 'bar',
+            values: Float64Array.from([i, i === 8 ? NaN : -i]),
+        })),
+    },
+];
+
+describe('writeMdf4', () => {
+    it('writes an MDF 4.10 file with the start time in nanoseconds', () => {
+        const file = readMdf(writeMdf4(TABLES, { startDate: 1_600_000_000_123 }));
+        expect(file.id).toBe('MDF     4.10    ');
+        expect(file.version).toBe(410);
+        expect(file.startTime).toBe(1_600_000_000_123_000_000n);
+    });
+
+    it('writes a data group per table with a time master channel and a float64 channel per signal', () => {
+        const [engine] = readMdf(writeMdf4(TABLES)).tables;
+        expect(engine.name).toBe('Engine');
+        expect(engine.channels.map(({ name, unit, type, syncType, dataType, bitCount }) => ({ name, unit, type, syncType, dataType, bitCount }))).toEqual([
+            { name: 't', unit: 's', type: 2, syncType: 1, dataType: 4, bitCount: 64 },
+            { name: 'Speed', unit: 'rpm', type: 0, syncType: 0, dataType: 4, bitCount: 64 },
+            { name: 'Mode', unit: '', type: 0, syncType: 0, dataType: 4, bitCount: 64 },
+        ]);
+    });
+
+    it('reads back the values, with rows without a value marked invalid', () => {
+        const tables = readMdf(writeMdf4(TABLES)).tables.map(table => ({ name: table.name, channels: table.channels.map(({ name, values }) => ({ name, values })) }));
+        expect(tables).toEqual(TABLES.map(table => ({
+            name: table.name,
+            channels: [
+                { name: 't', values: Array.from(table.timestamps) },
+                ...table.columns.map(column => ({ name: column.name, values: Array.from(column.values) })),
+            ],
+        })));
+    });
+
+    it('writes a file without data groups when there are no tables', () => {
+        expect(readMdf(writeMdf4([])).tables).toEqual([]);
+    });
+});
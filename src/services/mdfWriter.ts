@@ -0,0 +1,157 @@
+import type { ExportTable } from './dataExport';
+
+// Writes ASAM MDF 4.1 with one data group and channel group per table: a float64 time master
+// channel followed by a float64 channel per signal. Rows where a signal has no value are marked
+// with its invalidation bit. Blocks are laid out in file order as they are created.
+
+const BLOCK_HEADER_SIZE = 24;
+const ID_BLOCK_SIZE = 64;
+
+// cn_type
+const CN_TYPE_FIXED = 0;
+const CN_TYPE_MASTER = 2;
+// cn_sync_type
+const CN_SYNC_NONE = 0;
+const CN_SYNC_TIME = 1;
+// cn_data_type
+const DT_FLOAT_LE = 4;
+// cn_flags
+const CN_FLAG_INVALIDATION_BIT = 0x2;
+
+const align8 = (length: number) => Math.ceil(length / 8) * 8;
+
+interface PendingBlock {
+    offset: number;
+    bytes: Uint8Array;
+    view: DataView;
+}
+
+class MdfBuilder {
+    private blocks: PendingBlock[] = [];
+    private length = ID_BLOCK_SIZE;
+
+    // Reserves a block and returns it, with its links and data to be filled in by the caller.
+    add(id: string, linkCount: number, dataSize: number): PendingBlock {
+        const size = align8(BLOCK_HEADER_SIZE + linkCount * 8 + dataSize);
+        const bytes = new Uint8Array(size);
+        const view = new DataView(bytes.buffer);
+        for (let i = 0; i < 4; i++) bytes[i] = id.charCodeAt(i);
+        view.setBigUint64(8, BigInt(size), true);
+        view.setBigUint64(16, BigInt(linkCount), true);
+        const block = { offset: this.length, bytes, view };
+        this.blocks.push(block);
+        this.length += size;
+        return block;
+    }
+
+    // A TX or MD block holding zero-terminated UTF-8 text.
+    addText(id: '##TX' | '##MD', text: string): number {
+        const encoded = new TextEncoder().encode(text);
+        const block = this.add(id, 0, encoded.length + 1);
+        block.bytes.set(encoded, BLOCK_HEADER_SIZE);
+        return block.offset;
+    }
+
+    finish(): Uint8Array {
+        const file = new Uint8Array(this.length);
+        const write = (offset: number, text: string) => {
+            for (let i = 0; i < text.length; i++) file[offset + i] = text.charCodeAt(i);
+        };
+        write(0, 'MDF     ');
+        write(8, '4.10    ');
+        write(16, 'CANSI   ');
+        new DataView(file.buffer).setUint16(28, 410, true);
+        this.blocks.forEach(block => file.set(block.bytes, block.offset));
+        return file;
+    }
+}
+
+const setLink = (block: PendingBlock, index: number, offset: number) => {
+    block.view.setBigUint64(BLOCK_HEADER_SIZE + index * 8, BigInt(offset), true);
+};
+
+const addChannel = (builder: MdfBuilder, name: string, unit: string, type: number, syncType: number, byteOffset: number, invalidationBit?: number): PendingBlock => {
+    const nameLink = builder.addText('##TX', name);
+    const unitLink = unit ? builder.addText('##TX', unit) : 0;
+    // Links: next, composition, name, source, conversion, data, unit, comment.
+    const channel = builder.add('##CN', 8, 72);
+    setLink(channel, 2, nameLink);
+    setLink(channel, 6, unitLink);
+    const data = BLOCK_HEADER_SIZE + 8 * 8;
+    channel.view.setUint8(data, type);
+    channel.view.setUint8(data + 1, syncType);
+    channel.view.setUint8(data + 2, DT_FLOAT_LE);
+    channel.view.setUint32(data + 4, byteOffset, true);
+    channel.view.setUint32(data + 8, 64, true);
+    if (invalidationBit !== undefined) {
+        channel.view.setUint32(data + 12, CN_FLAG_INVALIDATION_BIT, true);
+        channel.view.setUint32(data + 16, invalidationBit, true);
+    }
+    return channel;
+};
+
+const addTable = (builder: MdfBuilder, table: ExportTable): PendingBlock => {
+    const rowCount = table.timestamps.length;
+    const dataBytes = (table.columns.length + 1) * 8;
+    const invalidationBytes = Math.ceil(table.columns.length / 8);
+    const recordSize = dataBytes + invalidationBytes;
+
+    // Links: next data group, first channel group, data, comment.
+    const dataGroup = builder.add('##DG', 4, 8);
+    const acquisitionName = builder.addText('##TX', table.name);
+    // Links: next, first channel, acquisition name, source, sample reduction, comment.
+    const channelGroup = builder.add('##CG', 6, 32);
+    setLink(dataGroup, 1, channelGroup.offset);
+    setLink(channelGroup, 2, acquisitionName);
+    const groupData = BLOCK_HEADER_SIZE + 6 * 8;
+    channelGroup.view.setBigUint64(groupData + 8, BigInt(rowCount), true);
+    channelGroup.view.setUint32(groupData + 24, dataBytes, true);
+    channelGroup.view.setUint32(groupData + 28, invalidationBytes, true);
+
+    const channels = [
+        addChannel(builder, 't', 's', CN_TYPE_MASTER, CN_SYNC_TIME, 0),
+        ...table.columns.map((column, i) => addChannel(builder, column.name, column.unit, CN_TYPE_FIXED, CN_SYNC_NONE, (i + 1) * 8, i)),
+    ];
+    setLink(channelGroup, 1, channels[0].offset);
+    channels.forEach((channel, i) => { if (i > 0) setLink(channels[i - 1], 0, channel.offset); });
+
+    const records = builder.add('##DT', 0, rowCount * recordSize);
+    setLink(dataGroup, 2, records.offset);
+    for (let row = 0; row < rowCount; row++) {
+        const record = BLOCK_HEADER_SIZE + row * recordSize;
+        records.view.setFloat64(record, table.timestamps[row], true);
+        table.columns.forEach((column, i) => {
+            const value = column.values[row];
+            if (Number.isNaN(value)) {
+                records.bytes[record + dataBytes + (i >> 3)] |= 1 << (i & 7);
+            } else {
+                records.view.setFloat64(record + (i + 1) * 8, value, true);
+            }
+        });
+    }
+    return dataGroup;
+};
+
+export interface MdfWriteOptions {
+    // Epoch milliseconds of time zero.
+    startDate?: number;
+}
+
+export const writeMdf4 = (tables: ExportTable[], options: MdfWriteOptions = {}): Uint8Array => {
+    const builder = new MdfBuilder();
+    // Links: first data group, file history, channel hierarchy, attachment, event, comment.
+    const header = builder.add('##HD', 6, 32);
+    // Nanoseconds; scaling a date to them as a double would round them to a multiple of 256.
+    header.view.setBigUint64(BLOCK_HEADER_SIZE + 6 * 8, BigInt(Math.round((options.startDate ?? 0) * 1000)) * 1000n, true);
+
+    const history = builder.add('##FH', 2, 16);
+    setLink(header, 1, history.offset);
+    setLink(history, 1, builder.addText('##MD',
+        `<FHcomment><TX>Decoded CAN signals</TX><tool_id>CAN Signal Intelligence</tool_id><tool_vendor>CAN Signal Intelligence</tool_vendor><tool_version>1.0</tool_version></FHcomment>`));
+    history.view.setBigUint64(BLOCK_HEADER_SIZE + 2 * 8, BigInt(Date.now()) * 1000000n, true);
+
+    const dataGroups = tables.map(table => addTable(builder, table));
+    if (dataGroups.length > 0) setLink(header, 0, dataGroups[0].offset);
+    dataGroups.forEach((group, i) => { if (i > 0) setLink(dataGroups[i - 1], 0, group.offset); });
+    return builder.finish();
+};
@@ -0,0 +1,102 @@
+import type { LlmMessage, LlmModelMessage, LlmProvider, LlmSettings, LlmToolCall } from './llmProvider';
+
+// Talks to any server with an OpenAI-style /chat/completions endpoint and function calling, such as
+// llama.cpp's server, Ollama or vLLM, so that log data can stay on the machine.
+
+interface ChatCompletionToolCall {
+    id?: string;
+    type?: 'function';
+    function: { name: string; arguments: string | Record<string, unknown> };
+}
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: ChatCompletionToolCall[];
+    tool_call_id?: string;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: Partial<ChatCompletionMessage> }[];
+    error?: { message?: string };
+}
+
+const toChatMessages = (systemInstruction: string, messages: LlmMessage[]): ChatCompletionMessage[] => [
+    { role: 'system', content: systemInstruction },
+    ...messages.map((message): ChatCompletionMessage => {
+        if (message.role === 'user') return { role: 'user', content: message.text };
+        if (message.role === 'tool') return { role: 'tool', tool_call_id: message.callId, content: message.result };
+        return {
+            role: 'assistant',
+            content: message.text || null,
+            ...(message.toolCalls?.length ? {
+                tool_calls: message.toolCalls.map(call => ({ id: call.id, type: 'function' as const, function: { name: call.name, arguments: JSON.stringify(call.args) } })),
+            } : {}),
+        };
+    }),
+];
+
+// Arguments arrive as a JSON string, though some servers send the object itself.
+const parseArguments = (args: string | Record<string, unknown> | undefined): Record<string, unknown> => {
+    if (!args) return {};
+    if (typeof args !== 'string') return args;
+    try {
+        const parsed = JSON.parse(args);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+};
+
+const toModelMessage = (message: Partial<ChatCompletionMessage>): LlmModelMessage => {
+    const toolCalls: LlmToolCall[] = (message.tool_calls ?? [])
+        .filter(call => call.function?.name)
+        .map((call, i) => ({
+            id: call.id || `call_${Date.now()}_${i}`,
+            name: call.function.name,
+            args: parseArguments(call.function.arguments),
+        }));
+    return {
+        role: 'model',
+        text: message.content ?? '',
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+    };
+};
+
+export const createOpenAiCompatibleProvider = (settings: LlmSettings['openAiCompatible']): LlmProvider => {
+    const baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+    if (!baseUrl) throw new Error('Enter the address of the model server in the model settings.');
+    if (!settings.model.trim()) throw new Error('Enter the model name in the model settings.');
+
+    return {
+        label: `${settings.model} at ${baseUrl}`,
+        generate: async ({ systemInstruction, messages, tools }) => {
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/chat/completions`, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(settings.apiKey.trim() ? { Authorization: `Bearer ${settings.apiKey.trim()}` } : {}),
+                    },
+                    body: JSON.stringify({
+                        model: settings.model.trim(),
+                        messages: toChatMessages(systemInstruction, messages),
+                        ...(tools.length > 0 ? { tools: tools.map(tool => ({ type: 'function', function: tool })) } : {}),
+                        stream: false,
+                    }),
+                });
+            } catch {
+                throw new Error(`Could not reach the model server at ${baseUrl}. Check that it is running and allows requests from this page (CORS).`);
+            }
+
+            const body = await response.json().catch(() => null) as ChatCompletionResponse | null;
+            if (!response.ok) {
+                throw new Error(`The model server answered ${response.status}${body?.error?.message ? `: ${body.error.message}` : '.'}`);
+            }
+            const message = body?.choices?.[0]?.message;
+            if (!message) throw new Error('The model server sent no reply.');
+            return toModelMessage(message);
+        },
+    };
+};
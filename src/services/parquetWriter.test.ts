@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import type { ExportTable } from './dataExport';
+import { writeParquet } from './parquetWriter';
+
+// Enough of a Parquet reader to check the file: the Thrift compact protocol for the footer and page
+// headers, and PLAIN doubles behind bit-packed definition levels.
+
+type ThriftValue = number | string | ThriftValue[] | ThriftStruct;
+interface ThriftStruct {
+    [field: number]: ThriftValue;
+}
+
+const createThriftReader = (bytes: Uint8Array, offset: number) => {
+    let position = offset;
+    const varint = (): number => {
+        let result = 0;
+        let scale = 1;
+        let byte: number;
+        do {
+            byte = bytes[position++];
+            result += (byte & 0x7F) * scale;
+            scale *= 0x80;
+        } while (byte & 0x80);
+        return result;
+    };
+    const zigzag = () => {
+        const value = varint();
+        return value % 2 ? -(value + 1) / 2 : value / 2;
+    };
+    const value = (type: number): ThriftValue => {
+        switch (type) {
+            case 5: case 6: return zigzag();
+            case 8: {
+                const length = varint();
+                position += length;
+                return new TextDecoder().decode(bytes.subarray(position - length, position));
+            }
+            case 9: {
+                const header = bytes[position++];
+                const size = header >> 4 === 15 ? varint() : header >> 4;
+                return Array.from({ length: size }, () => value(header & 0x0F));
+            }
+            case 12: return struct();
+        }
+        throw new Error(`Unexpected Thrift type ${type}.`);
+    };
+    const struct = (): ThriftStruct => {
+        const fields: ThriftStruct = {};
+        let id = 0;
+        for (;;) {
+            const header = bytes[position++];
+            if (header === 0) return fields;
+            id = header >> 4 ? id + (header >> 4) : zigzag();
+            fields[id] = value(header & 0x0F);
+        }
+    };
+    return { struct, varint, position: () => position };
+};
+
+const readMetadata = (file: Uint8Array): ThriftStruct => {
+    const length = new DataView(file.buffer).getUint32(file.length - 8, true);
+    return createThriftReader(file, file.length - 8 - length).struct();
+};
+
+// The values of one column chunk, with NaN for nulls.
+const readColumnChunk = (file: Uint8Array, offset: number, isOptional: boolean): number[] => {
+    const reader = createThriftReader(file, offset);
+    const header = reader.struct();
+    const count = (header[5] as ThriftStruct)[1] as number;
+    const view = new DataView(file.buffer);
+    let position = reader.position();
+    let present = new Array<boolean>(count).fill(true);
+    if (isOptional) {
+        const length = view.getUint32(position, true);
+        const levels = createThriftReader(file, position + 4);
+        // A single bit-packed run of groups of eight levels.
+        expect(levels.varint()).toBe((Math.ceil(count / 8) << 1) | 1);
+        const bits = file.subarray(levels.position(), position + 4 + length);
+        present = present.map((_, i) => (bits[i >> 3] & (1 << (i & 7))) !== 0);
+        position += 4 + length;
+    }
+    return present.map(isPresent => {
+        if (!isPresent) return NaN;
+        position += 8;
+        return view.getFloat64(position - 8, true);
+    });
+};
+
+const readParquet = (file: Uint8Array) => {
+    const metadata = readMetadata(file);
+    const schema = (metadata[2] as ThriftStruct[]).slice(1);
+    const rowGroups = metadata[4] as ThriftStruct[];
+    return schema.map((element, i) => ({
+        name: element[4],
+        isOptional: element[3] === 1,
+        values: rowGroups.flatMap(group => {
+            const chunk = (group[1] as ThriftStruct[])[i];
+            return readColumnChunk(file, chunk[2] as number, element[3] === 1);
+        }),
+    }));
+};
+
+const TABLE: ExportTable = {
+    name: 'Engine',
+    timestamps: Float64Array.from([0, 0.01, 0.02]),
+    columns: [
+        { key: 'Engine.Speed', name: 'Speed', unit: 'rpm', values: Float64Array.from([800, NaN, 812.5]) },
+        { key: 'Engine.Mode', name: 'Mode', unit: '', values: Float64Array.from([1, 2, NaN]) },
+    ],
+};
+
+describe('writeParquet', () => {
+    it('frames the file with the magic and the footer length', () => {
+        const file = writeParquet(TABLE);
+        const text = (start: number, end: number) => new TextDecoder().decode(file.subarray(start, end));
+        expect(text(0, 4)).toBe('PAR1');
+        expect(text(file.length - 4, file.length)).toBe('PAR1');
+        const metadata = readMetadata(file);
+        expect(metadata[1]).toBe(1);
+        expect(metadata[3]).toBe(3);
+        expect(metadata[6]).toBe('CAN Signal Intelligence');
+    });
+
+    it('describes a required time column and an optional double column per signal', () => {
+        const metadata = readMetadata(writeParquet(TABLE));
+        expect(metadata[2]).toEqual([
+            { 4: 'schema', 5: 3 },
+            { 1: 5, 3: 0, 4: 'time' },
+            { 1: 5, 3: 1, 4: 'Engine.Speed' },
+            { 1: 5, 3: 1, 4: 'Engine.Mode' },
+        ]);
+        // Units of the signals that have one, as JSON in the key-value metadata.
+        expect(metadata[5]).toEqual([{ 1: 'units', 2: '{"Engine.Speed":"rpm"}' }]);
+
+        const [group] = metadata[4] as ThriftStruct[];
+        expect(group[3]).toBe(3);
+        const chunks = group[1] as ThriftStruct[];
+        expect(chunks.map(chunk => (chunk[3] as ThriftStruct)[3])).toEqual([['time'], ['Engine.Speed'], ['Engine.Mode']]);
+        expect(group[2]).toBe(chunks.reduce((sum, chunk) => sum + ((chunk[3] as ThriftStruct)[7] as number), 0));
+    });
+
+    it('stores the values, with nulls where a signal has none', () => {
+        expect(readParquet(writeParquet(TABLE))).toEqual([
+            { name: 'time', isOptional: false, values: [0, 0.01, 0.02] },
+            { name: 'Engine.Speed', isOptional: true, values: [800, NaN, 812.5] },
+            { name: 'Engine.Mode', isOptional: true, values: [1, 2, NaN] },
+        ]);
+    });
+
+    it('writes lists of 15 columns and more and definition levels over several bytes', () => {
+        const rows = 19;
+        const table: ExportTable = {
+            name: 'Wide',
+            timestamps: Float64Array.from({ length: rows }, (_, row) => row / 100),
+            columns: Array.from({ length: 20 }, (_, i) => ({
+                key: `Wide.S${i}`,
+                name: `S${i}`,
+                unit: 'V',
+                values: Float64Array.from({ length: rows }, (_, row) => ((row + i) % 3 === 0 ? NaN : row * i)),
+            })),
+        };
+        const columns = readParquet(writeParquet(table));
+        expect(columns).toHaveLength(21);
+        expect(columns[0].values).toEqual(Array.from(table.timestamps));
+        table.columns.forEach((column, i) => expect(columns[i + 1]).toEqual({ name: column.key, isOptional: true, values: Array.from(column.values) }));
+    });
+});
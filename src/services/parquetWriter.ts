@@ -0,0 +1,275 @@
+import type { ExportTable } from './dataExport';
+
+// Writes Apache Parquet: a required double "time" column and an optional double column per signal,
+// named by its qualified key, where missing values are nulls. Pages are uncompressed and PLAIN
+// encoded. The file metadata is Thrift in the compact protocol; signal units are stored in the
+// key-value metadata under "units".
+
+const MAGIC = 'PAR1';
+const ROW_GROUP_SIZE = 1_000_000;
+
+// parquet.thrift enums
+const TYPE_DOUBLE = 5;
+const REPETITION_REQUIRED = 0;
+const REPETITION_OPTIONAL = 1;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_DATA = 0;
+
+// Thrift compact protocol types
+const T_I32 = 5;
+const T_I64 = 6;
+const T_BINARY = 8;
+const T_LIST = 9;
+const T_STRUCT = 12;
+
+class ByteWriter {
+    private buffer = new Uint8Array(1024);
+    length = 0;
+
+    private reserve(count: number) {
+        if (this.length + count <= this.buffer.length) return;
+        const grown = new Uint8Array(Math.max(this.length + count, this.buffer.length * 2));
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+    }
+
+    byte(value: number) {
+        this.reserve(1);
+        this.buffer[this.length++] = value;
+    }
+
+    bytes(values: Uint8Array) {
+        this.reserve(values.length);
+        this.buffer.set(values, this.length);
+        this.length += values.length;
+    }
+
+    // Unsigned LEB128; plain arithmetic keeps values above 2^31 exact.
+    varint(value: number) {
+        while (value >= 0x80) {
+            this.byte((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        this.byte(value);
+    }
+
+    uint32(value: number) {
+        this.reserve(4);
+        new DataView(this.buffer.buffer).setUint32(this.length, value, true);
+        this.length += 4;
+    }
+
+    toBytes(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+}
+
+// The subset of the Thrift compact protocol the Parquet metadata needs.
+class ThriftWriter {
+    readonly out = new ByteWriter();
+    private lastFieldIds: number[] = [0];
+
+    private fieldHeader(id: number, type: number) {
+        const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+        const delta = id - last;
+        if (delta > 0 && delta <= 15) {
+            this.out.byte((delta << 4) | type);
+        } else {
+            this.out.byte(type);
+            this.out.varint(id * 2); // zigzag i16
+        }
+        this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+    }
+
+    // Zigzag encoding of a non-negative integer.
+    private integer(value: number) {
+        this.out.varint(value * 2);
+    }
+
+    private string(value: string) {
+        const bytes = new TextEncoder().encode(value);
+        this.out.varint(bytes.length);
+        this.out.bytes(bytes);
+    }
+
+    private listHeader(size: number, elementType: number) {
+        if (size < 15) {
+            this.out.byte((size << 4) | elementType);
+        } else {
+            this.out.byte(0xF0 | elementType);
+            this.out.varint(size);
+        }
+    }
+
+    i32(id: number, value: number) {
+        this.fieldHeader(id, T_I32);
+        this.integer(value);
+    }
+
+    i64(id: number, value: number) {
+        this.fieldHeader(id, T_I64);
+        this.integer(value);
+    }
+
+    binary(id: number, value: string) {
+        this.fieldHeader(id, T_BINARY);
+        this.string(value);
+    }
+
+    struct(id: number, write: () => void) {
+        this.fieldHeader(id, T_STRUCT);
+        this.structBody(write);
+    }
+
+    i32List(id: number, values: number[]) {
+        this.fieldHeader(id, T_LIST);
+        this.listHeader(values.length, T_I32);
+        values.forEach(value => this.integer(value));
+    }
+
+    stringList(id: number, values: string[]) {
+        this.fieldHeader(id, T_LIST);
+        this.listHeader(values.length, T_BINARY);
+        values.forEach(value => this.string(value));
+    }
+
+    structList<T>(id: number, items: T[], write: (item: T) => void) {
+        this.fieldHeader(id, T_LIST);
+        this.listHeader(items.length, T_STRUCT);
+        items.forEach(item => this.structBody(() => write(item)));
+    }
+
+    structBody(write: () => void) {
+        this.lastFieldIds.push(0);
+        write();
+        this.out.byte(0); // stop
+        this.lastFieldIds.pop();
+    }
+}
+
+interface ColumnChunkInfo {
+    name: string;
+    offset: number;
+    size: number;
+    valueCount: number;
+}
+
+// Definition levels of an optional column (1 = value present) in the RLE/bit-packed hybrid
+// encoding, as a single bit-packed run, prefixed with its byte length.
+const encodeDefinitionLevels = (present: boolean[]): Uint8Array => {
+    const groups = Math.ceil(present.length / 8);
+    const header = new ByteWriter();
+    header.varint((groups << 1) | 1);
+    const headerBytes = header.toBytes();
+    const levels = new Uint8Array(4 + headerBytes.length + groups);
+    new DataView(levels.buffer).setUint32(0, headerBytes.length + groups, true);
+    levels.set(headerBytes, 4);
+    present.forEach((isPresent, i) => {
+        if (isPresent) levels[4 + headerBytes.length + (i >> 3)] |= 1 << (i & 7);
+    });
+    return levels;
+};
+
+const encodePage = (values: Float64Array, isOptional: boolean): { page: Uint8Array; valueCount: number } => {
+    const present = Array.from(values, value => !Number.isNaN(value));
+    const presentCount = isOptional ? present.filter(Boolean).length : values.length;
+    const levels = isOptional ? encodeDefinitionLevels(present) : new Uint8Array(0);
+
+    const body = new Uint8Array(levels.length + presentCount * 8);
+    body.set(levels);
+    const view = new DataView(body.buffer);
+    let offset = levels.length;
+    values.forEach((value, i) => {
+        if (isOptional && !present[i]) return;
+        view.setFloat64(offset, value, true);
+        offset += 8;
+    });
+
+    const header = new ThriftWriter();
+    header.structBody(() => {
+        header.i32(1, PAGE_DATA);
+        header.i32(2, body.length);
+        header.i32(3, body.length);
+        header.struct(5, () => {
+            header.i32(1, values.length);
+            header.i32(2, ENCODING_PLAIN);
+            header.i32(3, ENCODING_RLE);
+            header.i32(4, ENCODING_RLE);
+        });
+    });
+    const headerBytes = header.out.toBytes();
+    const page = new Uint8Array(headerBytes.length + body.length);
+    page.set(headerBytes);
+    page.set(body, headerBytes.length);
+    return { page, valueCount: values.length };
+};
+
+export const writeParquet = (table: ExportTable): Uint8Array => {
+    const output = new ByteWriter();
+    output.bytes(new TextEncoder().encode(MAGIC));
+
+    const columns = [
+        { name: 'time', values: table.timestamps, isOptional: false },
+        ...table.columns.map(column => ({ name: column.key, values: column.values, isOptional: true })),
+    ];
+    const rowCount = table.timestamps.length;
+    const rowGroups: { rows: number; chunks: ColumnChunkInfo[] }[] = [];
+
+    for (let start = 0; start < rowCount; start += ROW_GROUP_SIZE) {
+        const end = Math.min(rowCount, start + ROW_GROUP_SIZE);
+        const chunks = columns.map(column => {
+            const { page, valueCount } = encodePage(column.values.subarray(start, end), column.isOptional);
+            const offset = output.length;
+            output.bytes(page);
+            return { name: column.name, offset, size: page.length, valueCount };
+        });
+        rowGroups.push({ rows: end - start, chunks });
+    }
+
+    const metadata = new ThriftWriter();
+    metadata.structBody(() => {
+        metadata.i32(1, 1);
+        metadata.structList(2, [null, ...columns], column => {
+            if (column === null) {
+                metadata.binary(4, 'schema');
+                metadata.i32(5, columns.length);
+                return;
+            }
+            metadata.i32(1, TYPE_DOUBLE);
+            metadata.i32(3, column.isOptional ? REPETITION_OPTIONAL : REPETITION_REQUIRED);
+            metadata.binary(4, column.name);
+        });
+        metadata.i64(3, rowCount);
+        metadata.structList(4, rowGroups, group => {
+            metadata.structList(1, group.chunks, chunk => {
+                metadata.i64(2, chunk.offset);
+                metadata.struct(3, () => {
+                    metadata.i32(1, TYPE_DOUBLE);
+                    metadata.i32List(2, [ENCODING_PLAIN, ENCODING_RLE]);
+                    metadata.stringList(3, [chunk.name]);
+                    metadata.i32(4, CODEC_UNCOMPRESSED);
+                    metadata.i64(5, chunk.valueCount);
+                    metadata.i64(6, chunk.size);
+                    metadata.i64(7, chunk.size);
+                    metadata.i64(9, chunk.offset);
+                });
+            });
+            metadata.i64(2, group.chunks.reduce((sum, chunk) => sum + chunk.size, 0));
+            metadata.i64(3, group.rows);
+        });
+        const units = Object.fromEntries(table.columns.filter(column => column.unit).map(column => [column.key, column.unit]));
+        metadata.structList(5, [{ key: 'units', value: JSON.stringify(units) }], entry => {
+            metadata.binary(1, entry.key);
+            metadata.binary(2, entry.value);
+        });
+        metadata.binary(6, 'CAN Signal Intelligence');
+    });
+
+    const metadataBytes = metadata.out.toBytes();
+    output.bytes(metadataBytes);
+    output.uint32(metadataBytes.length);
+    output.bytes(new TextEncoder().encode(MAGIC));
+    return output.toBytes();
+};
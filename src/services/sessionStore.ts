@@ -0,0 +1,193 @@
+import type { CanMatrix, DashboardLayout, LogFileInfo, SignalStore } from '../types';
+import type { EncodedFrames } from './frameCodec';
+import type { LlmMessage } from './llmProvider';
+
+// Sessions live in IndexedDB: a small summary per session for the recent list, and the data itself
+// in a separate store so that listing does not read whole logs. Frames are kept columnar, the way
+// the ingestion worker hands them over, and signals as their typed arrays.
+const DB_NAME = 'can-signal-intelligence';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    fileNames: string[];
+    frameCount: number;
+    signalCount: number;
+    // Bytes of frame and signal data.
+    size: number;
+}
+
+// View state that changes while a session is open.
+export interface SessionUiState {
+    dashboardLayout?: DashboardLayout;
+    chatHistory?: LlmMessage[];
+}
+
+interface SessionRecord {
+    id: string;
+    frames: EncodedFrames;
+    signals: SignalStore;
+    matrix: CanMatrix;
+    fileInfos: LogFileInfo[];
+    ui: SessionUiState;
+}
+
+export interface LoadedSession {
+    summary: SessionSummary;
+    frames: EncodedFrames;
+    signals: SignalStore;
+    matrix: CanMatrix;
+    fileInfos: LogFileInfo[];
+    ui: SessionUiState;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('This browser does not support local session storage.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (e.g. private mode) is retried on the next call.
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+const toStorageError = (error: unknown): Error => {
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        return new Error('Not enough local storage space to save the session. Delete old sessions and try again.');
+    }
+    return error instanceof Error ? error : new Error('Local session storage failed.');
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(toStorageError(request.error));
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(toStorageError(transaction.error));
+        transaction.onabort = () => reject(toStorageError(transaction.error));
+    });
+
+const createSessionId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const getDataSize = (frames: EncodedFrames, signals: SignalStore): number => {
+    let size = frames.timestamps.byteLength + frames.ids.byteLength + frames.dlcs.byteLength + frames.flags.byteLength
+        + frames.channels.byteLength + frames.sources.byteLength + frames.dataOffsets.byteLength + frames.data.byteLength;
+    for (const key in signals) size += signals[key].timestamps.byteLength + signals[key].values.byteLength;
+    return size;
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const db = await openDatabase();
+    const summaries = await requestResult(db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE).getAll() as IDBRequest<SessionSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (
+    name: string,
+    data: { frames: EncodedFrames; signals: SignalStore; matrix: CanMatrix; fileInfos: LogFileInfo[] },
+    ui: SessionUiState = {}
+): Promise<SessionSummary> => {
+    const { frames } = data;
+    const now = Date.now();
+    const summary: SessionSummary = {
+        id: createSessionId(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        fileNames: data.fileInfos.map(info => info.fileName),
+        frameCount: frames.count,
+        signalCount: Object.keys(data.signals).length,
+        size: getDataSize(frames, data.signals),
+    };
+    const record: SessionRecord = { id: summary.id, frames, signals: data.signals, matrix: data.matrix, fileInfos: data.fileInfos, ui };
+
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(DATA_STORE).put(record);
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    await transactionDone(transaction);
+    return summary;
+};
+
+export const loadSession = async (id: string): Promise<LoadedSession> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE]);
+    const [summary, record] = await Promise.all([
+        requestResult(transaction.objectStore(SUMMARY_STORE).get(id) as IDBRequest<SessionSummary | undefined>),
+        requestResult(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<SessionRecord | undefined>),
+    ]);
+    if (!summary || !record) throw new Error('The session no longer exists.');
+
+    return {
+        summary,
+        frames: record.frames,
+        signals: record.signals,
+        matrix: record.matrix,
+        fileInfos: record.fileInfos,
+        ui: record.ui,
+    };
+};
+
+// Merges view state into a saved session; the log data is left untouched.
+export const updateSessionUi = async (id: string, ui: SessionUiState): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    const summaryStore = transaction.objectStore(SUMMARY_STORE);
+    const dataStore = transaction.objectStore(DATA_STORE);
+    const [summary, record] = await Promise.all([
+        requestResult(summaryStore.get(id) as IDBRequest<SessionSummary | undefined>),
+        requestResult(dataStore.get(id) as IDBRequest<SessionRecord | undefined>),
+    ]);
+    if (!summary || !record) return;
+    dataStore.put({ ...record, ui: { ...record.ui, ...ui } });
+    summaryStore.put({ ...summary, updatedAt: Date.now() });
+    await transactionDone(transaction);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SUMMARY_STORE, 'readwrite');
+    const store = transaction.objectStore(SUMMARY_STORE);
+    const summary = await requestResult(store.get(id) as IDBRequest<SessionSummary | undefined>);
+    if (summary) store.put({ ...summary, name });
+    await transactionDone(transaction);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([SUMMARY_STORE, DATA_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(DATA_STORE).delete(id);
+    await transactionDone(transaction);
+};
+
+// Storage used by this site and the quota the browser grants it, when the browser reports them.
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
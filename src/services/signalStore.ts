@@ -0,0 +1,130 @@
+import type { SignalSeries, SignalStore } from '../types';
+
+export interface SignalIdentity {
+    key: string;
+    messageName: string;
+    signalName: string;
+}
+
+interface GrowingSeries {
+    identity: SignalIdentity;
+    length: number;
+    timestamps: Float64Array;
+    values: Float64Array;
+    isSorted: boolean;
+    isFd: boolean;
+    brs: boolean;
+}
+
+// Collects decoded samples signal by signal into growable typed arrays.
+export class SignalStoreBuilder {
+    private series = new Map<string, GrowingSeries>();
+
+    push(signal: SignalIdentity, timestamp: number, value: number, isFd = false, brs = false) {
+        let series = this.series.get(signal.key);
+        if (!series) {
+            series = { identity: signal, length: 0, timestamps: new Float64Array(256), values: new Float64Array(256), isSorted: true, isFd: false, brs: false };
+            this.series.set(signal.key, series);
+        }
+
+        if (series.length === series.timestamps.length) {
+            const timestamps = new Float64Array(series.length * 2);
+            const values = new Float64Array(series.length * 2);
+            timestamps.set(series.timestamps);
+            values.set(series.values);
+            series.timestamps = timestamps;
+            series.values = values;
+        }
+
+        if (series.length > 0 && timestamp < series.timestamps[series.length - 1]) series.isSorted = false;
+        series.timestamps[series.length] = timestamp;
+        series.values[series.length] = value;
+        series.length++;
+        series.isFd = series.isFd || isFd;
+        series.brs = series.brs || brs;
+    }
+
+    // Series are sorted by timestamp here if their samples arrived out of order (e.g. logs of
+    // several files that overlap in time).
+    finish(): SignalStore {
+        const store: SignalStore = {};
+        this.series.forEach((series, signalKey) => {
+            let timestamps = series.timestamps.slice(0, series.length);
+            let values = series.values.slice(0, series.length);
+            if (!series.isSorted) {
+                const order = Array.from({ length: series.length }, (_, i) => i).sort((a, b) => timestamps[a] - timestamps[b] || a - b);
+                const sortedTimestamps = new Float64Array(series.length);
+                const sortedValues = new Float64Array(series.length);
+                order.forEach((index, i) => {
+                    sortedTimestamps[i] = timestamps[index];
+                    sortedValues[i] = values[index];
+                });
+                timestamps = sortedTimestamps;
+                values = sortedValues;
+            }
+            const { messageName, signalName } = series.identity;
+            store[signalKey] = { messageName, signalName, timestamps, values, isFd: series.isFd, brs: series.brs };
+        });
+        return store;
+    }
+}
+
+export const getSignalStoreTransferables = (store: SignalStore): ArrayBuffer[] =>
+    Object.values(store).flatMap(series => [series.timestamps.buffer as ArrayBuffer, series.values.buffer as ArrayBuffer]);
+
+export const getSignalNames = (store: SignalStore): string[] => Object.keys(store).sort();
+
+// Resolves a signal given by its qualified name, or by its bare name when only one message has a
+// signal of that name. Returns the matching keys otherwise (none, or several).
+export const resolveSignalKey = (store: SignalStore, name: string): string | string[] => {
+    if (store[name]) return name;
+    const matches = getSignalNames(store).filter(key => store[key].signalName === name);
+    return matches.length === 1 ? matches[0] : matches;
+};
+
+// Index of the first sample at or after `timestamp`; the series length if there is none.
+export const lowerBound = (timestamps: Float64Array, timestamp: number): number => {
+    let low = 0;
+    let high = timestamps.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (timestamps[mid] < timestamp) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
+
+// Index of the first sample after `timestamp`.
+export const upperBound = (timestamps: Float64Array, timestamp: number): number => {
+    let low = 0;
+    let high = timestamps.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (timestamps[mid] <= timestamp) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
+
+// The samples within [start, end] (inclusive, either bound optional) as views on the series.
+export const getSamplesInRange = (series: SignalSeries, start?: number, end?: number): { timestamps: Float64Array; values: Float64Array } => {
+    const from = start === undefined ? 0 : lowerBound(series.timestamps, start);
+    const to = end === undefined ? series.timestamps.length : upperBound(series.timestamps, end);
+    return {
+        timestamps: series.timestamps.subarray(from, Math.max(from, to)),
+        values: series.values.subarray(from, Math.max(from, to)),
+    };
+};
+
+// First and last sample time over all signals, or null for an empty store.
+export const getTimeBounds = (store: SignalStore): { start: number; end: number } | null => {
+    let start = Infinity;
+    let end = -Infinity;
+    for (const signalName in store) {
+        const { timestamps } = store[signalName];
+        if (timestamps.length === 0) continue;
+        start = Math.min(start, timestamps[0]);
+        end = Math.max(end, timestamps[timestamps.length - 1]);
+    }
+    return start <= end ? { start, end } : null;
+};
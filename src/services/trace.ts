@@ -0,0 +1,145 @@
+import type { CanMatrix, MessageDefinition } from '../types';
+import { getMatrixKey } from './matrixParser';
+import { buildPgnIndex, parseJ1939Id } from './j1939';
+import { formatFrameData, formatFrameId, getFrameBus, getFrameChannel, getFrameData, isErrorFrame, isExtendedFrame, isJ1939Frame } from './frameCodec';
+import type { EncodedFrames } from './frameCodec';
+
+// Frames of one "stream" share identifier, frame format and bus. The key packs the bus (see
+// getFrameBus), the error and extended flags and the 29-bit identifier into one exact number.
+export const getFrameKey = (frames: EncodedFrames, i: number): number =>
+    (getFrameBus(frames, i) * 4 + (isErrorFrame(frames, i) ? 2 : 0) + (isExtendedFrame(frames, i) ? 1 : 0)) * 0x20000000 + frames.ids[i];
+
+// For each frame, the index of the previous frame with the same key, or -1.
+export const buildPreviousFrameIndex = (frames: EncodedFrames): Int32Array => {
+    const previous = new Int32Array(frames.count);
+    const lastIndex = new Map<number, number>();
+    for (let i = 0; i < frames.count; i++) {
+        const key = getFrameKey(frames, i);
+        previous[i] = lastIndex.get(key) ?? -1;
+        lastIndex.set(key, i);
+    }
+    return previous;
+};
+
+// Whether each payload byte of frame i differs from frame `previous` (the previous frame of the
+// same key, or -1). Bytes the previous frame did not have count as changed; nothing is marked on
+// the first frame.
+export const getChangedBytes = (frames: EncodedFrames, i: number, previous: number): boolean[] => {
+    const data = getFrameData(frames, i);
+    const previousData = previous >= 0 ? getFrameData(frames, previous) : undefined;
+    return Array.from(data, (byte, j) => previousData !== undefined && (j >= previousData.length || previousData[j] !== byte));
+};
+
+// Matrix definition of a frame, matching J1939 frames by PGN like the decoder does.
+export const createDefinitionLookup = (matrix: CanMatrix) => {
+    const pgnIndex = buildPgnIndex(matrix);
+    return (frames: EncodedFrames, i: number): MessageDefinition | undefined => {
+        if (isJ1939Frame(frames, i)) return pgnIndex.get(parseJ1939Id(frames.ids[i]).pgn);
+        if (isErrorFrame(frames, i)) return undefined;
+        return matrix[getMatrixKey(frames.ids[i], isExtendedFrame(frames, i))];
+    };
+};
+
+export const createMessageNameLookup = (matrix: CanMatrix) => {
+    const getDefinition = createDefinitionLookup(matrix);
+    return (frames: EncodedFrames, i: number): string | undefined => getDefinition(frames, i)?.name;
+};
+
+export interface TraceFilter {
+    // Hex identifier and mask: a frame matches when (id & mask) === (value & mask).
+    idValue: string;
+    idMask: string;
+    // Hex bytes ("01 A0 FF") and their masks, compared byte by byte from the start of the payload.
+    dataValue: string;
+    dataMask: string;
+    // Free text matched against ID, name, data and channel.
+    search: string;
+}
+
+export const EMPTY_TRACE_FILTER: TraceFilter = { idValue: '', idMask: '', dataValue: '', dataMask: '', search: '' };
+
+export const parseHexNumber = (text: string): number | null => {
+    const trimmed = text.trim().replace(/^0x/i, '');
+    if (!/^[0-9a-f]{1,8}$/i.test(trimmed)) return null;
+    return parseInt(trimmed, 16);
+};
+
+export const parseHexBytes = (text: string): number[] | null => {
+    const compact = text.replace(/0x/gi, '').replace(/[\s,:-]/g, '');
+    if (!/^([0-9a-f]{2})+$/i.test(compact)) return null;
+    return compact.match(/../g)!.map(byte => parseInt(byte, 16));
+};
+
+// Fields of the filter that are filled in but cannot be parsed.
+export const getInvalidFilterFields = (filter: TraceFilter): (keyof TraceFilter)[] => {
+    const invalid: (keyof TraceFilter)[] = [];
+    if (filter.idValue.trim() && parseHexNumber(filter.idValue) === null) invalid.push('idValue');
+    if (filter.idMask.trim() && parseHexNumber(filter.idMask) === null) invalid.push('idMask');
+    if (filter.dataValue.trim() && parseHexBytes(filter.dataValue) === null) invalid.push('dataValue');
+    if (filter.dataMask.trim() && parseHexBytes(filter.dataMask) === null) invalid.push('dataMask');
+    return invalid;
+};
+
+// Builds the frame predicate for a filter. Fields that are empty or invalid do not filter.
+export const createTraceFilter = (filter: TraceFilter, getName: (frames: EncodedFrames, i: number) => string | undefined) => {
+    const idValue = parseHexNumber(filter.idValue);
+    const idMask = parseHexNumber(filter.idMask) ?? 0x1FFFFFFF;
+    const dataValue = parseHexBytes(filter.dataValue);
+    const dataMask = parseHexBytes(filter.dataMask);
+    const search = filter.search.trim().toLowerCase();
+
+    return (frames: EncodedFrames, i: number): boolean => {
+        if (idValue !== null && ((frames.ids[i] & idMask) >>> 0) !== ((idValue & idMask) >>> 0)) return false;
+
+        if (dataValue) {
+            const data = getFrameData(frames, i);
+            for (let j = 0; j < dataValue.length; j++) {
+                const mask = dataMask?.[j] ?? 0xFF;
+                if (mask === 0) continue;
+                if (j >= data.length || (data[j] & mask) !== (dataValue[j] & mask)) return false;
+            }
+        }
+
+        if (search) {
+            const channel = getFrameChannel(frames, i);
+            const text = [
+                formatFrameId(frames, i),
+                getName(frames, i) ?? '',
+                formatFrameData(frames, i),
+                channel !== undefined ? `ch${channel}` : '',
+            ].join(' ').toLowerCase();
+            if (!text.includes(search)) return false;
+        }
+
+        return true;
+    };
+};
+
+export interface FixedTraceRow {
+    // Latest frame of the key.
+    index: number;
+    count: number;
+    // Mean time between frames in seconds; undefined for a single frame.
+    cycleTime?: number;
+}
+
+// One row per frame key, in order of first appearance, for the frames (indices into `frames`)
+// up to and including `untilTime`.
+export const buildFixedTraceRows = (frames: EncodedFrames, indices: ArrayLike<number>, untilTime?: number): FixedTraceRow[] => {
+    const rows = new Map<number, FixedTraceRow & { firstTime: number }>();
+    for (let i = 0; i < indices.length; i++) {
+        const index = indices[i];
+        const timestamp = frames.timestamps[index];
+        if (untilTime !== undefined && timestamp > untilTime) continue;
+        const key = getFrameKey(frames, index);
+        const row = rows.get(key);
+        if (row) {
+            row.index = index;
+            row.count++;
+            row.cycleTime = (timestamp - row.firstTime) / (row.count - 1);
+        } else {
+            rows.set(key, { index, count: 1, firstTime: timestamp });
+        }
+    }
+    return Array.from(rows.values()).map(({ index, count, cycleTime }) => ({ index, count, cycleTime }));
+};
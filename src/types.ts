@@ -2,10 +2,50 @@
 export interface CANMessage {
     timestamp: number | string;
     id: string;
+    // 29-bit (extended) rather than 11-bit (standard) identifier.
+    isExtended: boolean;
+    // The data length code as sent on the bus; for CAN FD frames 9-15 stand for 12-64 bytes.
     dlc: number;
     data: string[];
     isTx: boolean;
-    decoded?: { [signalName: string]: number };
+    channel?: number;
+    isRemote?: boolean;
+    isErrorFrame?: boolean;
+    // CAN FD frame, with bit rate switch and error state indicator flags.
+    isFd?: boolean;
+    brs?: boolean;
+    esi?: boolean;
+    // J1939 addressing, filled in when decoding in J1939 mode.
+    j1939?: J1939Address;
+    // Multi-packet J1939 message reassembled from a transport protocol session; dlc is its byte count.
+    transportProtocol?: 'BAM' | 'RTS/CTS';
+    // Index of the log file the frame came from when several files were loaded together.
+    source?: number;
+}
+
+export interface J1939Address {
+    priority: number;
+    pgn: number;
+    sourceAddress: number;
+    // 0xFF (global) for broadcast (PDU2) messages.
+    destinationAddress: number;
+}
+
+export interface LogFileInfo {
+    fileName: string;
+    format: string;
+    // Recording start as written in the file header, and parsed to epoch milliseconds when possible.
+    startTime?: string;
+    startDate?: number;
+    numberBase?: 'hex' | 'dec';
+    timestampMode?: 'absolute' | 'relative';
+    // Seconds added to the file's timestamps when it was merged with other files.
+    timeShift?: number;
+}
+
+export interface ParsedLogFile {
+    messages: CANMessage[];
+    info: LogFileInfo;
 }
 
 export interface SignalDefinition {
@@ -19,20 +59,86 @@ export interface SignalDefinition {
     min: number;
     max: number;
     unit: string;
+    // SIG_VALTYPE_: IEEE floats are decoded from the raw bits instead of as integers.
+    valueType?: 'integer' | 'float32' | 'float64';
+    // 'M' in the SG_ line: this signal selects which multiplexed signals are present.
+    isMultiplexor?: boolean;
+    // 'mX' in the SG_ line: the signal is only present when the multiplexor's raw value is X.
+    multiplexerValue?: number;
+    // SG_MUL_VAL_ (extended multiplexing): the multiplexor and the raw value ranges that activate this signal.
+    multiplexerSignal?: string;
+    multiplexerRanges?: [number, number][];
+    // VAL_: raw value -> description, e.g. for enumerations such as a vehicle mode.
+    valueDescriptions?: { [rawValue: number]: string };
+    comment?: string;
+    receivers?: string[];
+    attributes?: { [attributeName: string]: string | number };
 }
 
 export interface MessageDefinition {
     name: string;
     dlc: number;
     signals: { [signalName: string]: SignalDefinition };
+    sender?: string;
+    // BO_TX_BU_: additional transmitting nodes.
+    transmitters?: string[];
+    comment?: string;
+    // GenMsgCycleTime attribute, in milliseconds.
+    cycleTime?: number;
+    attributes?: { [attributeName: string]: string | number };
+    // 29-bit identifier (the DBC ID has bit 31 set).
+    isExtended?: boolean;
 }
 
 export type CanMatrix = {
-    // Message ID (decimal string) -> MessageDefinition
+    // Message ID (decimal string as written in a DBC file, see getMatrixKey) -> MessageDefinition
     [messageId: string]: MessageDefinition;
 };
 
+// Decoded samples of one signal in chronological order; values[i] was sampled at timestamps[i].
+export interface SignalSeries {
+    // The message as named in the signal key (see getMessageQualifiers), and the signal's own name.
+    messageName: string;
+    signalName: string;
+    timestamps: Float64Array;
+    values: Float64Array;
+    // Carried in CAN FD frames, with the bit rate switch set in at least one of them.
+    isFd: boolean;
+    brs: boolean;
+}
+
+export type SignalStore = {
+    // Qualified signal name ("Message.Signal", see getSignalKey) -> its samples
+    [signalName: string]: SignalSeries;
+};
+
 export interface ChatMessage {
     role: 'user' | 'model';
     content: string;
-}
\ No newline at end of file
+}
+// A labelled marker on the chart's time axis.
+export interface ChartAnnotation {
+    id: string;
+    time: number;
+    label: string;
+}
+
+// A change to the chart requested from outside it, e.g. by the analysis chat.
+export type DashboardAction =
+    | { type: 'showSignals'; signalKeys: string[]; replace: boolean }
+    | { type: 'zoom'; start: number; end: number }
+    | { type: 'select'; start: number; end: number }
+    | { type: 'annotate'; time: number; label: string };
+
+// Dashboard view state, saved with a session so that reopening it shows the same chart.
+export interface DashboardLayout {
+    selectedSignals: string[];
+    soloSignal: string | null;
+    lineMode: 'stepped' | 'linear';
+    viewMode: 'overlay' | 'stacked';
+    manualYAxesLimits: Record<string, { min?: number; max?: number }>;
+    collapsedGroups: string[];
+    // Visible time window; null for the whole log.
+    zoom: { start: number; end: number } | null;
+    annotations: ChartAnnotation[];
+}